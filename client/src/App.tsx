@@ -6,12 +6,26 @@ import { Toaster } from "@/components/ui/toaster";
 import Layout from "@/components/layout/layout";
 import Dashboard from "@/pages/dashboard";
 import Vehicles from "@/pages/vehicles";
+import VehicleDetail from "@/pages/vehicle-detail";
 import Employees from "@/pages/employees";
 import Trips from "@/pages/trips";
+import MyTrips from "@/pages/my-trips";
+import TripSheet from "@/pages/trip-sheet";
+import Fuel from "@/pages/fuel";
+import Mileage from "@/pages/mileage";
 import Maintenance from "@/pages/maintenance";
+import Inspections from "@/pages/inspections";
+import Incidents from "@/pages/incidents";
+import TrafficCharges from "@/pages/traffic-charges";
 import Bookings from "@/pages/bookings";
+import Calendar from "@/pages/calendar";
+import Profile from "@/pages/profile";
 import Reports from "@/pages/reports";
+import Vendors from "@/pages/vendors";
+import VendorDetail from "@/pages/vendor-detail";
+import Parts from "@/pages/parts";
 import Users from "@/pages/users";
+import BookingPolicies from "@/pages/booking-policies";
 import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
 import { ProtectedRoute } from "./lib/protected-route";
@@ -40,6 +54,17 @@ function Router() {
         } 
       />
       
+      {/* Vehicle detail with odometer history - admin and moderator can access */}
+      <ProtectedRoute 
+        path="/vehicles/:id" 
+        allowedRoles={["admin", "moderator"]}
+        component={() => 
+          <Layout>
+            <VehicleDetail />
+          </Layout>
+        } 
+      />
+      
       {/* Employee management - admin only */}
       <ProtectedRoute 
         path="/employees" 
@@ -61,6 +86,73 @@ function Router() {
         } 
       />
       
+      {/* Printable trip sheet - opened on its own so it prints without the app chrome */}
+      <ProtectedRoute 
+        path="/trips/:id/sheet" 
+        component={() => <TripSheet />} 
+      />
+      
+      {/* Driver self-service trip start and finish - everyone */}
+      <ProtectedRoute 
+        path="/my-trips" 
+        component={() => 
+          <Layout>
+            <MyTrips />
+          </Layout>
+        } 
+      />
+      
+      {/* Fuel logs - everyone logs their own fill-ups */}
+      <ProtectedRoute 
+        path="/fuel" 
+        component={() => 
+          <Layout>
+            <Fuel />
+          </Layout>
+        } 
+      />
+      
+      {/* Mileage statements - everyone submits their own month */}
+      <ProtectedRoute 
+        path="/mileage" 
+        component={() => 
+          <Layout>
+            <Mileage />
+          </Layout>
+        } 
+      />
+      
+      {/* Vehicle inspections and checklists - admin and moderator only */}
+      <ProtectedRoute 
+        path="/inspections" 
+        allowedRoles={["admin", "moderator"]}
+        component={() => 
+          <Layout>
+            <Inspections />
+          </Layout>
+        } 
+      />
+      
+      {/* Incidents - everyone reports their own */}
+      <ProtectedRoute 
+        path="/incidents" 
+        component={() => 
+          <Layout>
+            <Incidents />
+          </Layout>
+        } 
+      />
+      
+      {/* Fines and tolls - drivers see the ones assigned to them */}
+      <ProtectedRoute 
+        path="/traffic-charges" 
+        component={() => 
+          <Layout>
+            <TrafficCharges />
+          </Layout>
+        } 
+      />
+      
       {/* Maintenance - admin and moderator only */}
       <ProtectedRoute 
         path="/maintenance" 
@@ -72,6 +164,38 @@ function Router() {
         } 
       />
       
+      {/* Service vendors and their performance - admin and moderator only */}
+      <ProtectedRoute 
+        path="/vendors" 
+        allowedRoles={["admin", "moderator"]}
+        component={() => 
+          <Layout>
+            <Vendors />
+          </Layout>
+        } 
+      />
+      
+      <ProtectedRoute 
+        path="/vendors/:id" 
+        allowedRoles={["admin", "moderator"]}
+        component={() => 
+          <Layout>
+            <VendorDetail />
+          </Layout>
+        } 
+      />
+      
+      {/* Workshop parts inventory - admin and moderator only */}
+      <ProtectedRoute 
+        path="/parts" 
+        allowedRoles={["admin", "moderator"]}
+        component={() => 
+          <Layout>
+            <Parts />
+          </Layout>
+        } 
+      />
+      
       {/* Bookings - all authenticated users can access */}
       <ProtectedRoute 
         path="/bookings" 
@@ -82,6 +206,26 @@ function Router() {
         } 
       />
       
+      {/* Calendar - all authenticated users can access */}
+      <ProtectedRoute 
+        path="/calendar" 
+        component={() => 
+          <Layout>
+            <Calendar />
+          </Layout>
+        } 
+      />
+      
+      {/* Profile - all authenticated users can access */}
+      <ProtectedRoute 
+        path="/profile" 
+        component={() => 
+          <Layout>
+            <Profile />
+          </Layout>
+        } 
+      />
+      
       {/* Reports - admin and moderator only */}
       <ProtectedRoute 
         path="/reports" 
@@ -104,6 +248,17 @@ function Router() {
         } 
       />
       
+      {/* Booking policies - admin only */}
+      <ProtectedRoute 
+        path="/booking-policies" 
+        allowedRoles={["admin"]}
+        component={() => 
+          <Layout>
+            <BookingPolicies />
+          </Layout>
+        } 
+      />
+      
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Vehicle } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+export type BlackoutDraft = {
+  vehicleId: number | null;
+  startTime: string;
+  endTime: string;
+  reason: string;
+};
+
+interface BlackoutFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (blackout: BlackoutDraft) => void;
+  isSubmitting: boolean;
+  vehicles: Vehicle[];
+}
+
+const ALL_VEHICLES = "all";
+
+export default function BlackoutForm({
+  open,
+  onOpenChange,
+  onSubmit,
+  isSubmitting,
+  vehicles
+}: BlackoutFormProps) {
+  const [vehicleId, setVehicleId] = useState(ALL_VEHICLES);
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setVehicleId(ALL_VEHICLES);
+    setStartTime("");
+    setEndTime("");
+    setReason("");
+  }, [open]);
+
+  const isValid = startTime !== "" && endTime !== "" && new Date(endTime) > new Date(startTime) && reason.trim() !== "";
+
+  const handleSubmit = () => {
+    onSubmit({
+      vehicleId: vehicleId === ALL_VEHICLES ? null : parseInt(vehicleId),
+      startTime: new Date(startTime).toISOString(),
+      endTime: new Date(endTime).toISOString(),
+      reason: reason.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Blackout Period</DialogTitle>
+          <DialogDescription>
+            No bookings can be made that overlap this period, unless a moderator overrides it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>Applies to</Label>
+            <Select value={vehicleId} onValueChange={setVehicleId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VEHICLES}>All vehicles</SelectItem>
+                {vehicles.map((vehicle) => (
+                  <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                    {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="blackout-start">Start</Label>
+              <Input
+                id="blackout-start"
+                type="datetime-local"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blackout-end">End</Label>
+              <Input
+                id="blackout-end"
+                type="datetime-local"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="blackout-reason">Reason</Label>
+            <Input
+              id="blackout-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Company holiday"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={isSubmitting || !isValid}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Add Blackout'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
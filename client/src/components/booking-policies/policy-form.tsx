@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { BookingPolicy, InsertBookingPolicy, Vehicle } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+type LimitField = "maxDurationHours" | "minLeadTimeHours" | "maxAdvanceDays" | "maxActiveBookings";
+
+const limitFields: { field: LimitField, label: string, integer: boolean }[] = [
+  { field: "maxDurationHours", label: "Maximum duration (hours)", integer: false },
+  { field: "minLeadTimeHours", label: "Minimum lead time (hours)", integer: false },
+  { field: "maxAdvanceDays", label: "Book at most this many days ahead", integer: true },
+  { field: "maxActiveBookings", label: "Active bookings per user", integer: true },
+];
+
+interface PolicyFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (policy: InsertBookingPolicy) => void;
+  isSubmitting: boolean;
+  // "global" edits the global policy; otherwise a vehicle policy, new or existing
+  scope: "global" | "vehicle";
+  policy?: BookingPolicy;
+  vehicles: Vehicle[];
+}
+
+export default function PolicyForm({
+  open,
+  onOpenChange,
+  onSubmit,
+  isSubmitting,
+  scope,
+  policy,
+  vehicles
+}: PolicyFormProps) {
+  const [vehicleId, setVehicleId] = useState("");
+  const [limits, setLimits] = useState<Record<LimitField, string>>({
+    maxDurationHours: "",
+    minLeadTimeHours: "",
+    maxAdvanceDays: "",
+    maxActiveBookings: "",
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setVehicleId(policy?.vehicleId ? policy.vehicleId.toString() : "");
+    setLimits({
+      maxDurationHours: policy?.maxDurationHours?.toString() ?? "",
+      minLeadTimeHours: policy?.minLeadTimeHours?.toString() ?? "",
+      maxAdvanceDays: policy?.maxAdvanceDays?.toString() ?? "",
+      maxActiveBookings: policy?.maxActiveBookings?.toString() ?? "",
+    });
+  }, [open, policy]);
+
+  // Blank fields have no limit at this scope
+  const parsed = limitFields.map(({ field, integer }) => {
+    const raw = limits[field].trim();
+    const value = raw === "" ? null : Number(raw);
+    const valid = value === null || (!isNaN(value) && value >= 0 && (!integer || Number.isInteger(value)));
+    return { field, value, valid };
+  });
+  const isValid = parsed.every(p => p.valid) && (scope === "global" || vehicleId !== "");
+
+  const handleSubmit = () => {
+    const values = Object.fromEntries(parsed.map(p => [p.field, p.value])) as Record<LimitField, number | null>;
+    onSubmit({
+      vehicleId: scope === "vehicle" ? parseInt(vehicleId) : null,
+      ...values,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{scope === "global" ? "Global Booking Policy" : "Vehicle Booking Policy"}</DialogTitle>
+          <DialogDescription>
+            {scope === "global"
+              ? "Applies to every booking. Leave a field blank for no limit."
+              : "Overrides the global policy for one vehicle. Leave a field blank to use the global limit."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {scope === "vehicle" && (
+            <div className="space-y-2">
+              <Label>Vehicle</Label>
+              <Select value={vehicleId} onValueChange={setVehicleId} disabled={!!policy}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a vehicle" />
+                </SelectTrigger>
+                <SelectContent>
+                  {vehicles.map((vehicle) => (
+                    <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                      {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {limitFields.map(({ field, label, integer }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`policy-${field}`}>{label}</Label>
+              <Input
+                id={`policy-${field}`}
+                type="number"
+                min={0}
+                step={integer ? 1 : "any"}
+                placeholder="No limit"
+                value={limits[field]}
+                onChange={(e) => setLimits({ ...limits, [field]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={isSubmitting || !isValid}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Policy'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+import { Booking, Vehicle, User } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent } from "@/components/ui/card";
+import { Check, X, CheckCircle } from "lucide-react";
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { vehicleCategoryLabels } from "@/components/vehicles/vehicle-form";
+
+interface ApprovalQueueProps {
+  bookings: Booking[];
+  vehicles: Vehicle[];
+  users: User[];
+  isSubmitting: boolean;
+  onApprove: (bookingIds: number[]) => void;
+  onDecline: (bookingIds: number[]) => void;
+}
+
+export default function ApprovalQueue({
+  bookings,
+  vehicles,
+  users,
+  isSubmitting,
+  onApprove,
+  onDecline
+}: ApprovalQueueProps) {
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  // Drop selections for bookings that have left the queue
+  useEffect(() => {
+    setSelectedIds(ids => ids.filter(id => bookings.some(b => b.id === id)));
+  }, [bookings]);
+
+  const allSelected = bookings.length > 0 && selectedIds.length === bookings.length;
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? bookings.map(b => b.id) : []);
+  };
+
+  const toggleOne = (bookingId: number, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, bookingId] : ids.filter(id => id !== bookingId));
+  };
+
+  const getVehicleInfo = (booking: Booking) => {
+    // Category bookings get the least used free vehicle of their class on approval
+    if (booking.vehicleId === null) {
+      return `Any ${booking.category ? vehicleCategoryLabels[booking.category] : 'vehicle'}`;
+    }
+    const vehicle = vehicles.find(v => v.id === booking.vehicleId);
+    return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle';
+  };
+
+  const getUserInfo = (userId: number) => {
+    const user = users.find(u => u.id === userId);
+    return user ? user.name : 'Unknown User';
+  };
+
+  if (bookings.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <CheckCircle className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="text-lg font-medium mb-2">Nothing awaiting approval</h3>
+          <p className="text-muted-foreground">All booking requests have been decided.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <div className="py-3 px-4 border-b flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground">
+          <span className="font-medium">{selectedIds.length}</span> of <span className="font-medium">{bookings.length}</span> selected
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={() => onApprove(selectedIds)}
+            disabled={isSubmitting || selectedIds.length === 0}
+          >
+            <Check className="mr-2 h-4 w-4" />
+            Approve selected
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onDecline(selectedIds)}
+            disabled={isSubmitting || selectedIds.length === 0}
+          >
+            <X className="mr-2 h-4 w-4" />
+            Decline selected
+          </Button>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                  aria-label="Select all"
+                />
+              </TableHead>
+              <TableHead>Vehicle</TableHead>
+              <TableHead>Requested By</TableHead>
+              <TableHead>Start Time</TableHead>
+              <TableHead>End Time</TableHead>
+              <TableHead>Purpose</TableHead>
+              <TableHead className="text-center">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bookings.map((booking) => (
+              <TableRow key={booking.id} className="hover:bg-muted/50">
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.includes(booking.id)}
+                    onCheckedChange={(checked) => toggleOne(booking.id, checked === true)}
+                    aria-label="Select booking"
+                  />
+                </TableCell>
+                <TableCell>{getVehicleInfo(booking)}</TableCell>
+                <TableCell>{getUserInfo(booking.userId)}</TableCell>
+                <TableCell>{format(new Date(booking.startTime), 'MMM d, yyyy h:mm a')}</TableCell>
+                <TableCell>{format(new Date(booking.endTime), 'MMM d, yyyy h:mm a')}</TableCell>
+                <TableCell>{booking.purpose || '—'}</TableCell>
+                <TableCell>
+                  <div className="flex justify-center space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onApprove([booking.id])}
+                      disabled={isSubmitting}
+                    >
+                      <Check className="h-4 w-4 text-green-600" />
+                      <span className="sr-only">Approve</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onDecline([booking.id])}
+                      disabled={isSubmitting}
+                    >
+                      <X className="h-4 w-4 text-destructive" />
+                      <span className="sr-only">Decline</span>
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
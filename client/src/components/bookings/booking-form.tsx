@@ -1,19 +1,35 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertBookingSchema, Booking, Vehicle, User } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useEffect, useState } from "react";
+import { insertBookingSchema, Booking, Vehicle, User, VehicleBlockReason, VehicleCategory, RecurrenceRule, SeriesScope, vehicleCategories } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
 import { Loader2 } from "lucide-react";
+import RecurrenceFields, { emptyRecurrenceDraft, toRecurrenceRule, RecurrenceDraft } from "./recurrence-fields";
+import { vehicleCategoryLabels } from "@/components/vehicles/vehicle-form";
+
+// Extra choices made outside the booking fields themselves
+export interface BookingSubmitOptions {
+  // Set when a new booking should repeat
+  recurrence?: RecurrenceRule;
+  skipConflicts?: boolean;
+  // Which occurrences an edit to a series booking applies to
+  scope?: SeriesScope;
+}
 
 interface BookingFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (data: z.infer<typeof insertBookingSchema>) => void;
+  onSubmit: (data: z.infer<typeof insertBookingSchema>, options: BookingSubmitOptions) => void;
   isSubmitting: boolean;
   vehicles: Vehicle[];
   users: User[];
@@ -22,6 +38,40 @@ interface BookingFormProps {
   mode: 'add' | 'edit';
 }
 
+interface VehicleAvailabilityResponse {
+  available: Vehicle[];
+  unavailable: { vehicle: Vehicle; blockedBy: VehicleBlockReason[] }[];
+}
+
+// Convert a datetime-local form value to a full ISO string, or null if invalid
+function toIsoString(value: unknown): string | null {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// datetime-local inputs hold local wall-clock time, while the API sends UTC ISO strings
+function toLocalInputValue(value: string | Date): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? String(value) : format(date, "yyyy-MM-dd'T'HH:mm");
+}
+
+// Select values for "any vehicle of this category" choices
+const CATEGORY_PREFIX = "category:";
+
+function describeBlock(reason: VehicleBlockReason): string {
+  switch (reason.type) {
+    case 'booking':
+      return `booked ${format(new Date(reason.startTime), 'MMM d, h:mm a')} – ${format(new Date(reason.endTime), 'MMM d, h:mm a')}`;
+    case 'trip':
+      return 'on a trip';
+    case 'maintenance':
+      return `maintenance on ${format(new Date(`${reason.date}T00:00:00`), 'MMM d')}`;
+    case 'out_of_service':
+      return 'out of service';
+  }
+}
+
 export default function BookingForm({ 
   open, 
   onOpenChange, 
@@ -33,31 +83,66 @@ export default function BookingForm({
   defaultValues,
   mode
 }: BookingFormProps) {
-  // Only show available vehicles, unless we're editing a booking
-  const availableVehicles = mode === 'add' 
-    ? vehicles.filter(v => v.status === 'available')
+  // Fallback list until the chosen times can be checked against the server
+  const fallbackVehicles = mode === 'add' 
+    ? vehicles.filter(v => v.status !== 'out_of_service')
     : vehicles;
 
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft>(emptyRecurrenceDraft);
+  const [scope, setScope] = useState<SeriesScope>('single');
+  const isSeriesBooking = mode === 'edit' && !!defaultValues?.seriesId;
+
+  // Start every dialog as a one-off booking / single-occurrence edit
+  useEffect(() => {
+    if (open) {
+      setRecurrence(emptyRecurrenceDraft);
+      setScope('single');
+    }
+  }, [open]);
+
   const form = useForm<z.infer<typeof insertBookingSchema>>({
     resolver: zodResolver(insertBookingSchema),
     defaultValues: {
-      vehicleId: defaultValues?.vehicleId || 0,
+      vehicleId: defaultValues?.vehicleId ?? (defaultValues?.category ? null : 0),
+      category: defaultValues?.category ?? null,
       userId: defaultValues?.userId || (currentUser?.id || 0),
       startTime: defaultValues?.startTime 
-        ? (typeof defaultValues.startTime === 'string' 
-            ? defaultValues.startTime.slice(0, 16) 
-            : new Date(defaultValues.startTime).toISOString().slice(0, 16))
-        : new Date().toISOString().slice(0, 16),
+        ? toLocalInputValue(defaultValues.startTime)
+        : toLocalInputValue(new Date()),
       endTime: defaultValues?.endTime 
-        ? (typeof defaultValues.endTime === 'string' 
-            ? defaultValues.endTime.slice(0, 16) 
-            : new Date(defaultValues.endTime).toISOString().slice(0, 16))
-        : new Date(Date.now() + 3600000).toISOString().slice(0, 16),
+        ? toLocalInputValue(defaultValues.endTime)
+        : toLocalInputValue(new Date(Date.now() + 3600000)),
       purpose: defaultValues?.purpose || "",
       status: defaultValues?.status || "pending",
     }
   });
 
+  // Only offer vehicles that are free for the whole chosen window
+  const startIso = toIsoString(form.watch('startTime'));
+  const endIso = toIsoString(form.watch('endTime'));
+  const windowIsValid = !!startIso && !!endIso && startIso < endIso;
+  const availabilityParams = new URLSearchParams({ start: startIso || '', end: endIso || '' });
+  if (mode === 'edit' && defaultValues?.id) {
+    availabilityParams.set('excludeBookingId', defaultValues.id.toString());
+  }
+  
+  const { data: availability, isFetching: isCheckingAvailability } = useQuery<VehicleAvailabilityResponse>({
+    queryKey: [`/api/vehicles/available?${availabilityParams.toString()}`],
+    enabled: open && windowIsValid,
+    staleTime: 0,
+  });
+  
+  const availableVehicles = windowIsValid && availability ? availability.available : fallbackVehicles;
+  const unavailableVehicles = windowIsValid && availability ? availability.unavailable : [];
+  const selectedVehicleBlock = unavailableVehicles.find(u => u.vehicle.id === form.watch('vehicleId'));
+
+  // One-off bookings may ask for any free vehicle of a category; a vehicle is assigned on approval
+  const canBookCategory = mode === 'add' && recurrence.frequency === 'none';
+  const bookableCategories = canBookCategory && windowIsValid && availability
+    ? vehicleCategories.filter(category => availability.available.some(v => v.category === category))
+    : [];
+  const selectedCategory = form.watch('category');
+
   const handleSubmit = (values: z.infer<typeof insertBookingSchema>) => {
     console.log('Submitting booking form data:', values);
     
@@ -84,7 +169,9 @@ export default function BookingForm({
     }
     
     console.log('Processed booking form data:', values);
-    onSubmit(values);
+    onSubmit(values, mode === 'add'
+      ? { recurrence: toRecurrenceRule(recurrence), skipConflicts: recurrence.skipConflicts }
+      : { scope: isSeriesBooking ? scope : 'single' });
   };
 
   return (
@@ -101,40 +188,6 @@ export default function BookingForm({
         
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="vehicleId"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Vehicle</FormLabel>
-                  <Select 
-                    onValueChange={(value) => field.onChange(parseInt(value))} 
-                    defaultValue={field.value ? field.value.toString() : undefined}
-                  >
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select a vehicle" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {availableVehicles.length === 0 ? (
-                        <SelectItem value="no-vehicles" disabled>
-                          No available vehicles
-                        </SelectItem>
-                      ) : (
-                        availableVehicles.map((vehicle) => (
-                          <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
-                            {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
-                          </SelectItem>
-                        ))
-                      )}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            
             {currentUser?.role === 'admin' && (
               <FormField
                 control={form.control}
@@ -181,11 +234,7 @@ export default function BookingForm({
                     <FormControl>
                       <Input 
                         type="datetime-local" 
-                        value={field.value ? 
-                          (typeof field.value === 'string' ? 
-                            field.value.slice(0, 16) : 
-                            new Date(field.value).toISOString().slice(0, 16)) 
-                          : ''}
+                        value={field.value ? toLocalInputValue(field.value) : ''}
                         onChange={(e) => field.onChange(e.target.value)}
                         onBlur={field.onBlur}
                         name={field.name}
@@ -206,11 +255,7 @@ export default function BookingForm({
                     <FormControl>
                       <Input 
                         type="datetime-local" 
-                        value={field.value ? 
-                          (typeof field.value === 'string' ? 
-                            field.value.slice(0, 16) : 
-                            new Date(field.value).toISOString().slice(0, 16)) 
-                          : ''}
+                        value={field.value ? toLocalInputValue(field.value) : ''}
                         onChange={(e) => field.onChange(e.target.value)}
                         onBlur={field.onBlur}
                         name={field.name}
@@ -223,6 +268,85 @@ export default function BookingForm({
               />
             </div>
             
+            {mode === 'add' && (
+              <RecurrenceFields
+                value={recurrence}
+                onChange={setRecurrence}
+                startTime={startIso}
+                endTime={endIso}
+              />
+            )}
+            
+            <FormField
+              control={form.control}
+              name="vehicleId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Vehicle</FormLabel>
+                  <Select 
+                    onValueChange={(value) => {
+                      if (value.startsWith(CATEGORY_PREFIX)) {
+                        form.setValue('category', value.slice(CATEGORY_PREFIX.length) as VehicleCategory);
+                        field.onChange(null);
+                      } else {
+                        form.setValue('category', null);
+                        field.onChange(parseInt(value));
+                      }
+                    }} 
+                    value={field.value ? field.value.toString() : selectedCategory ? `${CATEGORY_PREFIX}${selectedCategory}` : undefined}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a vehicle" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {bookableCategories.map((category) => (
+                        <SelectItem key={category} value={`${CATEGORY_PREFIX}${category}`}>
+                          Any {vehicleCategoryLabels[category]}
+                        </SelectItem>
+                      ))}
+                      {selectedCategory && !bookableCategories.includes(selectedCategory) && (
+                        <SelectItem value={`${CATEGORY_PREFIX}${selectedCategory}`} disabled>
+                          Any {vehicleCategoryLabels[selectedCategory]} — none free
+                        </SelectItem>
+                      )}
+                      {availableVehicles.length === 0 ? (
+                        <SelectItem value="no-vehicles" disabled>
+                          No available vehicles
+                        </SelectItem>
+                      ) : (
+                        availableVehicles.map((vehicle) => (
+                          <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                            {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+                          </SelectItem>
+                        ))
+                      )}
+                      {unavailableVehicles.map(({ vehicle, blockedBy }) => (
+                        <SelectItem key={vehicle.id} value={vehicle.id.toString()} disabled>
+                          {vehicle.make} {vehicle.model} ({vehicle.registrationNumber}) — {describeBlock(blockedBy[0])}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {isCheckingAvailability ? (
+                    <FormDescription>Checking availability...</FormDescription>
+                  ) : selectedVehicleBlock ? (
+                    <FormDescription className="text-destructive">
+                      This vehicle is not available for the chosen times: {selectedVehicleBlock.blockedBy.map(describeBlock).join(', ')}
+                    </FormDescription>
+                  ) : selectedCategory && !field.value ? (
+                    <FormDescription>
+                      The least used free {vehicleCategoryLabels[selectedCategory]} is assigned when the booking is approved.
+                    </FormDescription>
+                  ) : windowIsValid && (
+                    <FormDescription>Only vehicles free for the whole period can be selected.</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             <FormField
               control={form.control}
               name="purpose"
@@ -256,8 +380,9 @@ export default function BookingForm({
                       </FormControl>
                       <SelectContent>
                         <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="approved">Approved</SelectItem>
-                        <SelectItem value="declined">Declined</SelectItem>
+                        {/* Decisions are made through the approve/decline actions */}
+                        <SelectItem value="approved" disabled>Approved</SelectItem>
+                        <SelectItem value="declined" disabled>Declined</SelectItem>
                         <SelectItem value="cancelled">Cancelled</SelectItem>
                         <SelectItem value="completed">Completed</SelectItem>
                       </SelectContent>
@@ -268,6 +393,30 @@ export default function BookingForm({
               />
             )}
             
+            {isSeriesBooking && (
+              <div className="space-y-2">
+                <Label>Apply changes to</Label>
+                <RadioGroup
+                  value={scope}
+                  onValueChange={(value) => setScope(value as SeriesScope)}
+                  className="flex flex-col space-y-1"
+                >
+                  <div className="flex items-center space-x-3">
+                    <RadioGroupItem value="single" id="scope-single" />
+                    <Label htmlFor="scope-single" className="font-normal">This booking</Label>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <RadioGroupItem value="following" id="scope-following" />
+                    <Label htmlFor="scope-following" className="font-normal">This and following bookings</Label>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <RadioGroupItem value="all" id="scope-all" />
+                    <Label htmlFor="scope-all" className="font-normal">All bookings in the series</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+            
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
                 Cancel
@@ -279,7 +428,7 @@ export default function BookingForm({
                     {mode === 'add' ? 'Booking...' : 'Updating...'}
                   </>
                 ) : (
-                  mode === 'add' ? 'Book Vehicle' : 'Update Booking'
+                  mode === 'add' ? (recurrence.frequency === 'none' ? 'Book Vehicle' : 'Book Series') : 'Update Booking'
                 )}
               </Button>
             </DialogFooter>
@@ -1,4 +1,4 @@
-import { Booking, Vehicle, User } from "@shared/schema";
+import { Booking, Vehicle, User, SeriesScope } from "@shared/schema";
 import { 
   Table, 
   TableBody, 
@@ -34,12 +34,15 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Pencil, Trash2, MoreVertical, Calendar } from "lucide-react";
+import { Pencil, Trash2, MoreVertical, Calendar, Repeat, Play, ShieldAlert, History } from "lucide-react";
 import { useState } from "react";
+import { vehicleCategoryLabels } from "@/components/vehicles/vehicle-form";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { format } from "date-fns";
+import SeriesScopeDialog from "./series-scope-dialog";
+import DecisionHistoryDialog from "./decision-history-dialog";
 
 interface BookingListProps {
   bookings: Booking[];
@@ -52,8 +55,12 @@ interface BookingListProps {
   onPageChange: (page: number) => void;
   onEdit: (booking: Booking) => void;
   onDelete: (bookingId: number) => void;
-  onStatusChange: (bookingId: number, status: string) => void;
-
+  onStatusChange: (bookingId: number, status: string, scope?: SeriesScope) => void;
+  onApprove: (bookingId: number) => void;
+  onDecline: (bookingId: number) => void;
+  onStartTrip: (booking: Booking) => void;
+  // Bookings that already have a trip under way
+  tripBookingIds: number[];
 }
 
 export default function BookingList({
@@ -67,10 +74,25 @@ export default function BookingList({
   onPageChange,
   onEdit,
   onDelete,
-  onStatusChange
+  onStatusChange,
+  onApprove,
+  onDecline,
+  onStartTrip,
+  tripBookingIds
 }: BookingListProps) {
   const [deleteAlert, setDeleteAlert] = useState(false);
   const [bookingToDelete, setBookingToDelete] = useState<number | null>(null);
+  const [seriesBookingToCancel, setSeriesBookingToCancel] = useState<number | null>(null);
+  const [historyBooking, setHistoryBooking] = useState<Booking | null>(null);
+
+  // Series bookings ask which occurrences to cancel first
+  const handleCancelClick = (booking: Booking) => {
+    if (booking.seriesId) {
+      setSeriesBookingToCancel(booking.id);
+    } else {
+      onStatusChange(booking.id, 'cancelled');
+    }
+  };
 
   const totalPages = Math.ceil(totalCount / pageSize);
   const showingFrom = totalCount === 0 ? 0 : (currentPage - 1) * pageSize + 1;
@@ -94,6 +116,29 @@ export default function BookingList({
     return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle';
   };
 
+  // Category bookings show what was asked for until approval assigns a vehicle, then the assignment
+  const renderVehicle = (booking: Booking) => {
+    if (booking.vehicleId === null) {
+      return (
+        <div>
+          <div>Any {booking.category ? vehicleCategoryLabels[booking.category] : 'vehicle'}</div>
+          <div className="text-xs text-muted-foreground">Assigned on approval</div>
+        </div>
+      );
+    }
+
+    if (booking.category) {
+      return (
+        <div>
+          <div>{getVehicleInfo(booking.vehicleId)}</div>
+          <div className="text-xs text-muted-foreground">Auto-assigned for any {vehicleCategoryLabels[booking.category]}</div>
+        </div>
+      );
+    }
+
+    return getVehicleInfo(booking.vehicleId);
+  };
+
   const getUserInfo = (userId: number) => {
     const user = users.find(u => u.id === userId);
     return user ? user.name : 'Unknown User';
@@ -116,6 +161,33 @@ export default function BookingList({
     }
   };
 
+  const renderDecision = (booking: Booking) => {
+    if (!booking.decidedAt || (booking.status !== 'approved' && booking.status !== 'declined')) return null;
+    
+    const decidedBy = booking.decidedById ? getUserInfo(booking.decidedById) : 'Unknown User';
+    return (
+      <div className="mt-1 text-xs text-muted-foreground">
+        by {decidedBy}, {format(new Date(booking.decidedAt), 'MMM d, yyyy h:mm a')}
+        {booking.status === 'declined' && booking.decisionReason && (
+          <div className="italic">"{booking.decisionReason}"</div>
+        )}
+      </div>
+    );
+  };
+
+  // Approvers decide on pending bookings; moderators cannot decide on their own
+  const canDecide = (booking: Booking) => {
+    if (booking.status !== 'pending') return false;
+    if (currentUser?.role === 'admin') return true;
+    return currentUser?.role === 'moderator' && booking.userId !== currentUser.id;
+  };
+
+  // Approved bookings become trips at pickup, by the requester or an approver
+  const canStartTrip = (booking: Booking) => {
+    if (booking.status !== 'approved' || tripBookingIds.includes(booking.id)) return false;
+    return booking.userId === currentUser?.id || currentUser?.role === 'admin' || currentUser?.role === 'moderator';
+  };
+
   const canChangeStatus = (booking: Booking) => {
     return currentUser?.role === 'admin' && booking.status !== 'completed';
   };
@@ -253,12 +325,30 @@ export default function BookingList({
               <TableBody>
                 {bookings.map((booking) => (
                   <TableRow key={booking.id} className="hover:bg-muted/50">
-                    <TableCell>{getVehicleInfo(booking.vehicleId)}</TableCell>
+                    <TableCell>{renderVehicle(booking)}</TableCell>
                     {currentUser?.role === 'admin' && <TableCell>{getUserInfo(booking.userId)}</TableCell>}
                     <TableCell>{typeof booking.startTime === 'string' ? format(new Date(booking.startTime), 'MMM d, yyyy h:mm a') : format(booking.startTime, 'MMM d, yyyy h:mm a')}</TableCell>
                     <TableCell>{typeof booking.endTime === 'string' ? format(new Date(booking.endTime), 'MMM d, yyyy h:mm a') : format(booking.endTime, 'MMM d, yyyy h:mm a')}</TableCell>
-                    <TableCell>{booking.purpose || '—'}</TableCell>
-                    <TableCell>{renderStatus(booking.status)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {booking.seriesId && (
+                          <Repeat className="h-4 w-4 shrink-0 text-muted-foreground" aria-label="Recurring booking" />
+                        )}
+                        {booking.policyOverrideRules && booking.policyOverrideRules.length > 0 && (
+                          <span title={`Booked despite policy: ${booking.policyOverrideReason}`}>
+                            <ShieldAlert className="h-4 w-4 shrink-0 text-amber-600" aria-label="Booking policy overridden" />
+                          </span>
+                        )}
+                        {booking.purpose || '—'}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {renderStatus(booking.status)}
+                      {tripBookingIds.includes(booking.id) && booking.status === 'approved' && (
+                        <Badge variant="outline" className="ml-1 bg-amber-100 dark:bg-amber-900 text-amber-800 dark:text-amber-200">Trip in progress</Badge>
+                      )}
+                      {renderDecision(booking)}
+                    </TableCell>
                     <TableCell>
                       <div className="flex justify-center">
                         <DropdownMenu>
@@ -284,22 +374,34 @@ export default function BookingList({
                                 Delete
                               </DropdownMenuItem>
                             )}
-                            {currentUser?.role === 'admin' && booking.status === 'pending' && (
+                            {canDecide(booking) && (
                               <>
                                 <DropdownMenuItem 
-                                  onClick={() => onStatusChange(booking.id, 'approved')}
+                                  onClick={() => onApprove(booking.id)}
                                   className="text-green-600 dark:text-green-400"
                                 >
                                   Approve
                                 </DropdownMenuItem>
                                 <DropdownMenuItem 
-                                  onClick={() => onStatusChange(booking.id, 'declined')}
+                                  onClick={() => onDecline(booking.id)}
                                   className="text-red-600 dark:text-red-400"
                                 >
                                   Decline
                                 </DropdownMenuItem>
                               </>
                             )}
+                            {booking.decidedAt && (
+                              <DropdownMenuItem onClick={() => setHistoryBooking(booking)}>
+                                <History className="h-4 w-4 mr-2" />
+                                Decision History
+                              </DropdownMenuItem>
+                            )}
+                            {canStartTrip(booking) && (
+                              <DropdownMenuItem onClick={() => onStartTrip(booking)}>
+                                <Play className="h-4 w-4 mr-2" />
+                                Start Trip
+                              </DropdownMenuItem>
+                            )}
                             {booking.status === 'approved' && (
                               <DropdownMenuItem 
                                 onClick={() => onStatusChange(booking.id, 'completed')}
@@ -309,7 +411,7 @@ export default function BookingList({
                             )}
                             {(booking.status === 'pending' || booking.status === 'approved') && (
                               <DropdownMenuItem 
-                                onClick={() => onStatusChange(booking.id, 'cancelled')}
+                                onClick={() => handleCancelClick(booking)}
                                 className="text-gray-600 dark:text-gray-400"
                               >
                                 Cancel
@@ -335,6 +437,23 @@ export default function BookingList({
         </div>
       )}
       
+      <SeriesScopeDialog
+        open={seriesBookingToCancel !== null}
+        onOpenChange={(open) => !open && setSeriesBookingToCancel(null)}
+        onConfirm={(scope) => {
+          if (seriesBookingToCancel !== null) {
+            onStatusChange(seriesBookingToCancel, 'cancelled', scope);
+          }
+          setSeriesBookingToCancel(null);
+        }}
+      />
+      
+      <DecisionHistoryDialog
+        booking={historyBooking}
+        users={users}
+        onOpenChange={(open) => !open && setHistoryBooking(null)}
+      />
+      
       <AlertDialog open={deleteAlert} onOpenChange={setDeleteAlert}>
         <AlertDialogContent>
           <AlertDialogHeader>
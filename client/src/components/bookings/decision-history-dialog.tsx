@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { Booking, BookingDecision, User } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { format } from "date-fns";
+
+interface DecisionHistoryDialogProps {
+  booking: Booking | null;
+  users: User[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Every approval and decline on a booking, oldest first, including ones an edit has since reset
+export default function DecisionHistoryDialog({
+  booking,
+  users,
+  onOpenChange
+}: DecisionHistoryDialogProps) {
+  const { data: decisions, isLoading } = useQuery<BookingDecision[]>({
+    queryKey: [`/api/bookings/${booking?.id}/decisions`],
+    enabled: booking !== null,
+    staleTime: 0,
+  });
+
+  const getUserName = (userId: number) => users.find(u => u.id === userId)?.name ?? 'Unknown User';
+
+  return (
+    <Dialog open={booking !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Decision History</DialogTitle>
+          <DialogDescription>
+            Who approved or declined this booking, and when.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading decisions...</p>
+          ) : !decisions || decisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No decisions have been made on this booking yet.</p>
+          ) : (
+            decisions.map(decision => (
+              <div key={decision.id} className="rounded-md border p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  {decision.decision === 'approved' ? (
+                    <Badge variant="outline" className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">Approved</Badge>
+                  ) : (
+                    <Badge variant="outline" className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">Declined</Badge>
+                  )}
+                  <span className="text-xs text-muted-foreground">{format(new Date(decision.decidedAt), 'MMM d, yyyy h:mm a')}</span>
+                </div>
+                <div className="mt-1">by {getUserName(decision.decidedById)}</div>
+                {decision.reason && <div className="mt-1 italic text-muted-foreground">"{decision.reason}"</div>}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
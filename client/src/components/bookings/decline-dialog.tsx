@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+interface DeclineDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string) => void;
+  isSubmitting: boolean;
+  bookingCount: number;
+}
+
+export default function DeclineDialog({
+  open,
+  onOpenChange,
+  onConfirm,
+  isSubmitting,
+  bookingCount
+}: DeclineDialogProps) {
+  const [reason, setReason] = useState("");
+
+  // Start with an empty reason every time the dialog opens
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {bookingCount === 1 ? 'Decline Booking' : `Decline ${bookingCount} Bookings`}
+          </DialogTitle>
+          <DialogDescription>
+            The requester will see this reason next to the declined booking.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-4">
+          <Label htmlFor="decline-reason">Reason</Label>
+          <Textarea
+            id="decline-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why is this booking being declined?"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={() => onConfirm(reason.trim())}
+            disabled={isSubmitting || reason.trim().length === 0}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Declining...
+              </>
+            ) : (
+              'Decline'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
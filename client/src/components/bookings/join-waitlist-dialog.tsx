@@ -0,0 +1,78 @@
+import { Vehicle } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+export type WaitlistRequest = {
+  vehicleId: number;
+  userId: number;
+  startTime: string | Date;
+  endTime: string | Date;
+  purpose?: string | null;
+};
+
+interface JoinWaitlistDialogProps {
+  request: WaitlistRequest | null;
+  vehicles: Vehicle[];
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (request: WaitlistRequest) => void;
+  isSubmitting: boolean;
+}
+
+export default function JoinWaitlistDialog({
+  request,
+  vehicles,
+  onOpenChange,
+  onConfirm,
+  isSubmitting
+}: JoinWaitlistDialogProps) {
+  const vehicle = vehicles.find(v => v.id === request?.vehicleId);
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Vehicle Already Booked</DialogTitle>
+          <DialogDescription>
+            Join the waitlist and your request becomes a pending booking as soon as the slot is cancelled or declined.
+            You will get a notification when that happens.
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <dl className="grid grid-cols-3 gap-y-2 py-4 text-sm">
+            <dt className="text-muted-foreground">Vehicle</dt>
+            <dd className="col-span-2">
+              {vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle'}
+            </dd>
+            <dt className="text-muted-foreground">From</dt>
+            <dd className="col-span-2">{format(new Date(request.startTime), 'MMM d, yyyy h:mm a')}</dd>
+            <dt className="text-muted-foreground">To</dt>
+            <dd className="col-span-2">{format(new Date(request.endTime), 'MMM d, yyyy h:mm a')}</dd>
+          </dl>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Not Now
+          </Button>
+          <Button
+            type="button"
+            onClick={() => request && onConfirm(request)}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Joining...
+              </>
+            ) : (
+              'Join Waitlist'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
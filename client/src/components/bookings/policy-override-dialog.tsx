@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { BookingPolicyViolation, PolicyOverride } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+export const policyRuleLabels: Record<BookingPolicyViolation["rule"], string> = {
+  max_duration: "Maximum duration",
+  min_lead_time: "Minimum lead time",
+  max_advance: "Advance booking limit",
+  max_active_bookings: "Active bookings per user",
+  blackout: "Blackout period",
+};
+
+// Policy violations from a failed booking request ("422: {...}"), or null for other errors
+export function parsePolicyViolations(error: Error): BookingPolicyViolation[] | null {
+  if (!error.message.startsWith("422:")) return null;
+  try {
+    const body = JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+    return Array.isArray(body.violations) ? body.violations : null;
+  } catch {
+    return null;
+  }
+}
+
+interface PolicyOverrideDialogProps {
+  violations: BookingPolicyViolation[] | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (override: PolicyOverride) => void;
+  isSubmitting: boolean;
+}
+
+export default function PolicyOverrideDialog({
+  violations,
+  onOpenChange,
+  onConfirm,
+  isSubmitting
+}: PolicyOverrideDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (violations) setReason("");
+  }, [violations]);
+
+  const rules = Array.from(new Set((violations || []).map(violation => violation.rule)));
+
+  return (
+    <Dialog open={!!violations} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Booking policy violated</DialogTitle>
+          <DialogDescription>
+            This booking breaks the rules below. You can book it anyway by giving a reason, which is recorded on the booking.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <ul className="space-y-2 text-sm">
+            {(violations || []).map((violation, index) => (
+              <li key={index} className="flex items-start gap-2">
+                <Badge variant="outline" className="shrink-0">
+                  {policyRuleLabels[violation.rule]}
+                </Badge>
+                <span>
+                  {violation.message}
+                  {violation.scope === "vehicle" && <span className="text-muted-foreground"> (vehicle rule)</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="space-y-2">
+            <Label htmlFor="policy-override-reason">Reason for override</Label>
+            <Textarea
+              id="policy-override-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Approved by the department head for the trade fair"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => onConfirm({ rules, reason: reason.trim() })}
+            disabled={isSubmitting || !reason.trim()}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Booking...
+              </>
+            ) : (
+              'Override and Book'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
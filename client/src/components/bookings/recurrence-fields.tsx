@@ -0,0 +1,186 @@
+import { RecurrenceRule } from "@shared/schema";
+import { describeRecurrence, expandRecurrence, MAX_SERIES_OCCURRENCES } from "@shared/recurrence";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+export interface RecurrenceDraft {
+  frequency: 'none' | RecurrenceRule['frequency'];
+  interval: number;
+  weekdays: number[];
+  endType: 'until' | 'count';
+  untilDate: string;
+  count: number;
+  skipConflicts: boolean;
+}
+
+export const emptyRecurrenceDraft: RecurrenceDraft = {
+  frequency: 'none',
+  interval: 1,
+  weekdays: [],
+  endType: 'count',
+  untilDate: '',
+  count: 4,
+  skipConflicts: false,
+};
+
+// Turn the form state into the rule sent to the API, or undefined for a one-off booking
+export function toRecurrenceRule(draft: RecurrenceDraft): RecurrenceRule | undefined {
+  if (draft.frequency === 'none') return undefined;
+
+  return {
+    frequency: draft.frequency,
+    interval: draft.interval,
+    weekdays: draft.frequency === 'weekly' && draft.weekdays.length > 0 ? draft.weekdays : undefined,
+    untilDate: draft.endType === 'until' && draft.untilDate ? draft.untilDate : undefined,
+    count: draft.endType === 'count' ? draft.count : undefined,
+    timezoneOffset: new Date().getTimezoneOffset(),
+  };
+}
+
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceDraft;
+  onChange: (value: RecurrenceDraft) => void;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+export default function RecurrenceFields({ value, onChange, startTime, endTime }: RecurrenceFieldsProps) {
+  const update = (changes: Partial<RecurrenceDraft>) => onChange({ ...value, ...changes });
+  const rule = toRecurrenceRule(value);
+  const unit = { none: '', daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)' }[value.frequency];
+
+  // Preview how many bookings the series will create
+  const occurrenceCount = rule && startTime && endTime && (rule.untilDate || rule.count)
+    ? expandRecurrence(new Date(startTime), new Date(endTime), rule).length
+    : 0;
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Repeat</Label>
+          <Select
+            value={value.frequency}
+            onValueChange={(frequency) => update({ frequency: frequency as RecurrenceDraft['frequency'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value.frequency !== 'none' && (
+          <div className="space-y-2">
+            <Label htmlFor="recurrence-interval">Every</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="recurrence-interval"
+                type="number"
+                min={1}
+                max={12}
+                value={value.interval}
+                onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="w-20"
+              />
+              <span className="text-sm text-muted-foreground">{unit}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {value.frequency === 'weekly' && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            className="justify-start"
+            value={value.weekdays.map(String)}
+            onValueChange={(days) => update({ weekdays: days.map(Number).sort() })}
+          >
+            {WEEKDAYS.map((day, index) => (
+              <ToggleGroupItem key={index} value={index.toString()} className="w-9">
+                {day}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
+
+      {value.frequency !== 'none' && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Ends</Label>
+              <Select
+                value={value.endType}
+                onValueChange={(endType) => update({ endType: endType as RecurrenceDraft['endType'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="count">After a number of bookings</SelectItem>
+                  <SelectItem value="until">On a date</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              {value.endType === 'count' ? (
+                <>
+                  <Label htmlFor="recurrence-count">Bookings</Label>
+                  <Input
+                    id="recurrence-count"
+                    type="number"
+                    min={1}
+                    max={MAX_SERIES_OCCURRENCES}
+                    value={value.count}
+                    onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                  />
+                </>
+              ) : (
+                <>
+                  <Label htmlFor="recurrence-until">Last date</Label>
+                  <Input
+                    id="recurrence-until"
+                    type="date"
+                    value={value.untilDate}
+                    onChange={(e) => update({ untilDate: e.target.value })}
+                  />
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="recurrence-skip-conflicts"
+              checked={value.skipConflicts}
+              onCheckedChange={(checked) => update({ skipConflicts: checked === true })}
+            />
+            <Label htmlFor="recurrence-skip-conflicts" className="font-normal">
+              Skip dates where the vehicle is already booked
+            </Label>
+          </div>
+
+          {rule && occurrenceCount > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {describeRecurrence(rule)} — creates {occurrenceCount} booking{occurrenceCount === 1 ? '' : 's'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { SeriesScope } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface SeriesScopeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (scope: SeriesScope) => void;
+}
+
+export default function SeriesScopeDialog({
+  open,
+  onOpenChange,
+  onConfirm
+}: SeriesScopeDialogProps) {
+  const [scope, setScope] = useState<SeriesScope>('single');
+
+  useEffect(() => {
+    if (open) setScope('single');
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Recurring Booking</DialogTitle>
+          <DialogDescription>
+            This booking is part of a series. Only pending and approved bookings are cancelled.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={scope}
+          onValueChange={(value) => setScope(value as SeriesScope)}
+          className="flex flex-col space-y-1 py-4"
+        >
+          <div className="flex items-center space-x-3">
+            <RadioGroupItem value="single" id="cancel-scope-single" />
+            <Label htmlFor="cancel-scope-single" className="font-normal">This booking</Label>
+          </div>
+          <div className="flex items-center space-x-3">
+            <RadioGroupItem value="following" id="cancel-scope-following" />
+            <Label htmlFor="cancel-scope-following" className="font-normal">This and following bookings</Label>
+          </div>
+          <div className="flex items-center space-x-3">
+            <RadioGroupItem value="all" id="cancel-scope-all" />
+            <Label htmlFor="cancel-scope-all" className="font-normal">All bookings in the series</Label>
+          </div>
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Keep Booking
+          </Button>
+          <Button type="button" variant="destructive" onClick={() => onConfirm(scope)}>
+            Cancel Bookings
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { Booking, Vehicle, User } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+interface StartTripDialogProps {
+  booking: Booking | null;
+  vehicles: Vehicle[];
+  users: User[];
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (bookingId: number, startOdometer: number) => void;
+  isSubmitting: boolean;
+}
+
+export default function StartTripDialog({
+  booking,
+  vehicles,
+  users,
+  onOpenChange,
+  onConfirm,
+  isSubmitting
+}: StartTripDialogProps) {
+  const vehicle = vehicles.find(v => v.id === booking?.vehicleId);
+  const driver = users.find(u => u.id === booking?.userId);
+  const [startOdometer, setStartOdometer] = useState("");
+
+  // Prefill the odometer with the vehicle's last known mileage
+  useEffect(() => {
+    if (booking) setStartOdometer(vehicle ? vehicle.mileage.toString() : "");
+  }, [booking, vehicle]);
+
+  const odometerValue = parseInt(startOdometer);
+  const odometerIsValid = !isNaN(odometerValue) && odometerValue >= 0;
+
+  return (
+    <Dialog open={!!booking} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Start Trip</DialogTitle>
+          <DialogDescription>
+            Record the vehicle pickup. The trip is completed from the Trips page when the vehicle is returned.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <dl className="grid grid-cols-3 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Vehicle</dt>
+            <dd className="col-span-2">
+              {vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle'}
+            </dd>
+            {driver && (
+              <>
+                <dt className="text-muted-foreground">Driver</dt>
+                <dd className="col-span-2">{driver.name}</dd>
+              </>
+            )}
+            {booking?.purpose && (
+              <>
+                <dt className="text-muted-foreground">Purpose</dt>
+                <dd className="col-span-2">{booking.purpose}</dd>
+              </>
+            )}
+          </dl>
+
+          <div className="space-y-2">
+            <Label htmlFor="start-odometer">Start Odometer</Label>
+            <Input
+              id="start-odometer"
+              type="number"
+              min={0}
+              value={startOdometer}
+              onChange={(e) => setStartOdometer(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => booking && onConfirm(booking.id, odometerValue)}
+            disabled={isSubmitting || !odometerIsValid}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Starting...
+              </>
+            ) : (
+              'Start Trip'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,79 @@
+import { User, Vehicle, WaitlistEntry } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from "date-fns";
+
+interface WaitlistListProps {
+  entries: WaitlistEntry[];
+  vehicles: Vehicle[];
+  users: User[];
+  currentUser: User | null;
+  onCancel: (entryId: number) => void;
+  isSubmitting: boolean;
+}
+
+export default function WaitlistList({
+  entries,
+  vehicles,
+  users,
+  currentUser,
+  onCancel,
+  isSubmitting
+}: WaitlistListProps) {
+  const describeVehicle = (vehicleId: number) => {
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle';
+  };
+
+  const canCancel = (entry: WaitlistEntry) =>
+    currentUser?.role === 'admin' || currentUser?.id === entry.userId;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Waitlist</CardTitle>
+        <CardDescription>Requests waiting for a booked slot to free up, oldest first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Vehicle</TableHead>
+              {users.length > 0 && <TableHead>Requested By</TableHead>}
+              <TableHead>From</TableHead>
+              <TableHead>To</TableHead>
+              <TableHead>Purpose</TableHead>
+              <TableHead className="text-center">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell className="font-medium">{describeVehicle(entry.vehicleId)}</TableCell>
+                {users.length > 0 && (
+                  <TableCell>{users.find(u => u.id === entry.userId)?.name || 'Unknown User'}</TableCell>
+                )}
+                <TableCell>{format(new Date(entry.startTime), 'MMM d, yyyy h:mm a')}</TableCell>
+                <TableCell>{format(new Date(entry.endTime), 'MMM d, yyyy h:mm a')}</TableCell>
+                <TableCell>{entry.purpose || '—'}</TableCell>
+                <TableCell className="text-center">
+                  {canCancel(entry) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onCancel(entry.id)}
+                      disabled={isSubmitting}
+                    >
+                      Leave Waitlist
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
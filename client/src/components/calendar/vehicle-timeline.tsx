@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { Vehicle, VehicleSchedule } from "@shared/schema";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Car } from "lucide-react";
+
+export type TimelineZoom = 'day' | 'week' | 'month';
+
+interface VehicleTimelineProps {
+  vehicles: Vehicle[];
+  schedule: VehicleSchedule;
+  // Start of each column, plus the end of the last one
+  slots: Date[];
+  zoom: TimelineZoom;
+  onSelectRange: (vehicleId: number, startTime: Date, endTime: Date) => void;
+}
+
+interface TimelineBlock {
+  key: string;
+  startTime: Date;
+  endTime: Date;
+  label: string;
+  title: string;
+  className: string;
+}
+
+interface DragSelection {
+  vehicleId: number;
+  anchor: number;
+  current: number;
+}
+
+const blockStyles = {
+  pendingBooking: "bg-blue-200 text-blue-900 border border-dashed border-blue-500 dark:bg-blue-900/60 dark:text-blue-100",
+  booking: "bg-blue-500 text-white",
+  trip: "bg-green-500 text-white",
+  maintenance: "bg-orange-500 text-white",
+};
+
+export const timelineLegend = [
+  { label: "Booking", className: blockStyles.booking },
+  { label: "Pending booking", className: blockStyles.pendingBooking },
+  { label: "Trip", className: blockStyles.trip },
+  { label: "Maintenance", className: blockStyles.maintenance },
+];
+
+function formatSlot(slot: Date, zoom: TimelineZoom): string {
+  switch (zoom) {
+    case 'day':
+      return format(slot, 'ha');
+    case 'week':
+      return slot.getHours() === 0 ? format(slot, 'EEE d') : format(slot, 'ha');
+    case 'month':
+      return format(slot, 'd');
+  }
+}
+
+export default function VehicleTimeline({
+  vehicles,
+  schedule,
+  slots,
+  zoom,
+  onSelectRange
+}: VehicleTimelineProps) {
+  const [drag, setDrag] = useState<DragSelection | null>(null);
+  const columns = slots.slice(0, -1);
+  const rangeStart = slots[0].getTime();
+  const rangeEnd = slots[slots.length - 1].getTime();
+  const rangeMs = rangeEnd - rangeStart;
+
+  // Collect the colored blocks shown in one vehicle's row
+  const getBlocks = (vehicleId: number): TimelineBlock[] => {
+    const bookingBlocks = schedule.bookings
+      .filter(b => b.vehicleId === vehicleId)
+      .map(b => ({
+        key: `booking-${b.id}`,
+        startTime: new Date(b.startTime),
+        endTime: new Date(b.endTime),
+        label: b.purpose || 'Booking',
+        title: `Booking (${b.status}): ${format(new Date(b.startTime), 'MMM d, yyyy h:mm a')} – ${format(new Date(b.endTime), 'MMM d, yyyy h:mm a')}${b.purpose ? `\n${b.purpose}` : ''}`,
+        className: b.status === 'pending' ? blockStyles.pendingBooking : blockStyles.booking,
+      }));
+
+    const tripBlocks = schedule.trips
+      .filter(t => t.vehicleId === vehicleId)
+      .map(t => ({
+        key: `trip-${t.id}`,
+        startTime: new Date(t.startTime),
+        // Trips still under way run to the end of the visible range
+        endTime: t.endTime ? new Date(t.endTime) : new Date(Math.max(rangeEnd, Date.now())),
+        label: t.purpose || 'Trip',
+        title: `Trip (${t.status.replace('_', ' ')}): from ${format(new Date(t.startTime), 'MMM d, yyyy h:mm a')}${t.endTime ? ` to ${format(new Date(t.endTime), 'MMM d, yyyy h:mm a')}` : ''}${t.purpose ? `\n${t.purpose}` : ''}`,
+        className: blockStyles.trip,
+      }));
+
+    const maintenanceBlocks = schedule.maintenance
+      .filter(m => m.vehicleId === vehicleId)
+      .map(m => {
+        const startTime = new Date(`${m.date}T00:00:00`);
+        return {
+          key: `maintenance-${m.id}`,
+          startTime,
+          endTime: new Date(startTime.getTime() + 24 * 60 * 60 * 1000),
+          label: m.description,
+          title: `Maintenance (${m.status.replace('_', ' ')}) on ${format(startTime, 'MMM d, yyyy')}\n${m.description}`,
+          className: blockStyles.maintenance,
+        };
+      });
+
+    return [...maintenanceBlocks, ...tripBlocks, ...bookingBlocks];
+  };
+
+  const isSlotFree = (blocks: TimelineBlock[], index: number) =>
+    !blocks.some(block =>
+      block.startTime.getTime() < slots[index + 1].getTime() &&
+      block.endTime.getTime() > slots[index].getTime()
+    );
+
+  // Finish a drag wherever the mouse is released
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseUp = () => {
+      const first = Math.min(drag.anchor, drag.current);
+      const last = Math.max(drag.anchor, drag.current);
+      setDrag(null);
+      onSelectRange(drag.vehicleId, slots[first], slots[last + 1]);
+    };
+
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [drag, slots, onSelectRange]);
+
+  if (vehicles.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <Car className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="text-lg font-medium mb-2">No vehicles</h3>
+          <p className="text-muted-foreground">Add vehicles to see their schedule here.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const minColumnWidth = zoom === 'month' ? 32 : 40;
+
+  return (
+    <div className="rounded-lg border overflow-x-auto select-none">
+      <div style={{ minWidth: 192 + columns.length * minColumnWidth }}>
+        <div className="flex border-b bg-muted/50">
+          <div className="w-48 shrink-0 px-3 py-2 text-sm font-medium">Vehicle</div>
+          <div className="flex flex-1">
+            {columns.map((slot, index) => (
+              <div key={index} className="flex-1 border-l px-1 py-2 text-xs text-muted-foreground truncate">
+                {formatSlot(slot, zoom)}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {vehicles.map((vehicle) => {
+          const blocks = getBlocks(vehicle.id);
+          const selectionFirst = drag?.vehicleId === vehicle.id ? Math.min(drag.anchor, drag.current) : -1;
+          const selectionLast = drag?.vehicleId === vehicle.id ? Math.max(drag.anchor, drag.current) : -1;
+
+          return (
+            <div key={vehicle.id} className="flex border-b last:border-b-0">
+              <div className="w-48 shrink-0 px-3 py-2">
+                <div className="text-sm font-medium truncate">{vehicle.make} {vehicle.model}</div>
+                <div className="text-xs text-muted-foreground">{vehicle.registrationNumber}</div>
+              </div>
+              <div className="relative flex flex-1">
+                {columns.map((_, index) => {
+                  const free = isSlotFree(blocks, index);
+                  const selected = index >= selectionFirst && index <= selectionLast;
+                  return (
+                    <div
+                      key={index}
+                      className={`flex-1 border-l ${free ? 'cursor-crosshair hover:bg-muted/50' : ''} ${selected ? 'bg-primary/20' : ''}`}
+                      onMouseDown={(e) => {
+                        if (e.button !== 0 || !free || vehicle.status === 'out_of_service') return;
+                        setDrag({ vehicleId: vehicle.id, anchor: index, current: index });
+                      }}
+                      onMouseEnter={() => {
+                        // Stop the selection at the first occupied slot
+                        if (drag?.vehicleId !== vehicle.id) return;
+                        const from = Math.min(drag.anchor, index);
+                        const to = Math.max(drag.anchor, index);
+                        for (let i = from; i <= to; i++) {
+                          if (!isSlotFree(blocks, i)) return;
+                        }
+                        setDrag({ ...drag, current: index });
+                      }}
+                    />
+                  );
+                })}
+
+                {blocks.map((block) => {
+                  const start = Math.max(block.startTime.getTime(), rangeStart);
+                  const end = Math.min(block.endTime.getTime(), rangeEnd);
+                  if (end <= start) return null;
+
+                  return (
+                    <div
+                      key={block.key}
+                      title={block.title}
+                      className={`absolute top-1 bottom-1 overflow-hidden rounded px-1 text-xs leading-5 truncate ${block.className}`}
+                      style={{
+                        left: `${((start - rangeStart) / rangeMs) * 100}%`,
+                        width: `${((end - start) / rangeMs) * 100}%`,
+                      }}
+                    >
+                      {block.label}
+                    </div>
+                  );
+                })}
+
+                {vehicle.status === 'out_of_service' && (
+                  <div className="absolute inset-0 bg-muted/70 flex items-center justify-center text-xs text-muted-foreground">
+                    Out of service
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
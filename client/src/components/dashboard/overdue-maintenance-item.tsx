@@ -0,0 +1,35 @@
+import { MaintenanceDue, Vehicle } from '@shared/schema';
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+
+interface OverdueMaintenanceItemProps {
+  due: MaintenanceDue;
+  vehicle: Vehicle;
+}
+
+// A planned service the vehicle has gone past, on whichever interval ran out
+export default function OverdueMaintenanceItem({ due, vehicle }: OverdueMaintenanceItemProps) {
+  const reasons = [
+    due.dueDate && new Date(`${due.dueDate}T00:00`) < new Date() && `was due ${format(new Date(`${due.dueDate}T00:00`), 'MMM d')}`,
+    due.dueMileage !== null && vehicle.mileage > due.dueMileage && `${(vehicle.mileage - due.dueMileage).toLocaleString()} mi over`,
+    due.dueEngineHours !== null && vehicle.engineHours != null && vehicle.engineHours > due.dueEngineHours &&
+      `${Math.round(vehicle.engineHours - due.dueEngineHours).toLocaleString()} h over`,
+  ].filter(Boolean);
+
+  return (
+    <div className="p-3 rounded-md bg-muted/50">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="font-medium text-sm">
+            {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+          </p>
+          <p className="text-xs text-muted-foreground">{due.planName}</p>
+        </div>
+        <Badge variant="destructive">Overdue</Badge>
+      </div>
+      {reasons.length > 0 && (
+        <p className="text-xs text-destructive mt-1">{reasons.join(', ')}</p>
+      )}
+    </div>
+  );
+}
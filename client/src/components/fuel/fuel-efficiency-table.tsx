@@ -0,0 +1,84 @@
+import { FuelEfficiencySummary, Vehicle } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+
+interface FuelEfficiencyTableProps {
+  summaries: FuelEfficiencySummary[];
+  vehicles: Vehicle[];
+}
+
+export default function FuelEfficiencyTable({ summaries, vehicles }: FuelEfficiencyTableProps) {
+  const getVehicleName = (vehicleId: number) => {
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle';
+  };
+
+  if (summaries.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">Log fill-ups to see fuel efficiency per vehicle.</p>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Vehicle</TableHead>
+              <TableHead>Fill-Ups</TableHead>
+              <TableHead>Fuel</TableHead>
+              <TableHead>Cost</TableHead>
+              <TableHead>L/100km</TableHead>
+              <TableHead>MPG</TableHead>
+              <TableHead>Abnormal Use</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summaries.map((summary) => {
+              const abnormal = summary.segments.filter(segment => segment.abnormalReason);
+              return (
+                <TableRow key={summary.vehicleId} className="hover:bg-muted/50">
+                  <TableCell>{getVehicleName(summary.vehicleId)}</TableCell>
+                  <TableCell>{summary.fills}</TableCell>
+                  <TableCell>{summary.totalLitres.toFixed(1)} L</TableCell>
+                  <TableCell>{summary.totalCost.toFixed(2)}</TableCell>
+                  <TableCell>
+                    {summary.litresPer100Km ?? '—'}
+                    {summary.typicalLitresPer100Km !== null && (
+                      <p className="text-muted-foreground text-xs">usually {summary.typicalLitresPer100Km}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>{summary.mpg ?? '—'}</TableCell>
+                  <TableCell>
+                    {summary.litresPer100Km === null ? (
+                      <span className="text-muted-foreground text-xs">Needs two full-tank fills</span>
+                    ) : abnormal.length === 0 ? (
+                      <Badge variant="outline" className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">Normal</Badge>
+                    ) : (
+                      <div className="space-y-1">
+                        <Badge variant="outline" className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">
+                          {abnormal.length} stretch{abnormal.length === 1 ? '' : 'es'}
+                        </Badge>
+                        {abnormal.map(segment => (
+                          <p key={segment.toFuelLogId} className="text-muted-foreground text-xs">{segment.abnormalReason}</p>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { insertFuelLogSchema, InsertFuelLog, FuelLog, Trip, Vehicle, User } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface FuelLogFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: InsertFuelLog) => void;
+  isSubmitting: boolean;
+  vehicles: Vehicle[];
+  // Only admin and moderator pick the driver; everyone else logs their own fill-ups
+  users?: User[];
+  defaultValues?: Partial<FuelLog>;
+  mode: 'add' | 'edit';
+}
+
+export default function FuelLogForm({
+  open,
+  onOpenChange,
+  onSubmit,
+  isSubmitting,
+  vehicles,
+  users,
+  defaultValues,
+  mode
+}: FuelLogFormProps) {
+  const form = useForm<InsertFuelLog>({
+    resolver: zodResolver(insertFuelLogSchema),
+    defaultValues: {
+      vehicleId: defaultValues?.vehicleId || 0,
+      driverId: defaultValues?.driverId ?? undefined,
+      filledAt: format(defaultValues?.filledAt ? new Date(defaultValues.filledAt) : new Date(), "yyyy-MM-dd'T'HH:mm"),
+      litres: defaultValues?.litres || 0,
+      unitPrice: defaultValues?.unitPrice || 0,
+      totalCost: defaultValues?.totalCost ?? undefined,
+      odometer: defaultValues?.odometer || 0,
+      station: defaultValues?.station || "",
+      fullTank: defaultValues?.fullTank ?? true,
+      tripId: defaultValues?.tripId ?? null,
+      notes: defaultValues?.notes || "",
+    }
+  });
+
+  const vehicleId = form.watch("vehicleId");
+
+  // Trips of the chosen vehicle that the fill-up can be linked to
+  const { data: vehicleTrips } = useQuery<Trip[]>({
+    queryKey: [`/api/trips/vehicle/${vehicleId}`],
+    enabled: open && vehicleId > 0,
+  });
+
+  const handleSubmit = (values: InsertFuelLog) => {
+    // The datetime input is in local time; send it as an ISO timestamp
+    onSubmit({ ...values, filledAt: new Date(values.filledAt).toISOString() });
+  };
+
+  const handleVehicleChange = (value: string) => {
+    const vehicle = vehicles.find(v => v.id === parseInt(value));
+    form.setValue("vehicleId", parseInt(value));
+    form.setValue("tripId", null);
+    // Start from the vehicle's current mileage, since fill-ups are usually logged straight away
+    if (mode === 'add' && vehicle) {
+      form.setValue("odometer", vehicle.mileage);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{mode === 'add' ? 'Log Fill-Up' : 'Edit Fill-Up'}</DialogTitle>
+          <DialogDescription>
+            Fill the tank to full whenever you can; fuel efficiency is worked out between full-tank fills.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="vehicleId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vehicle</FormLabel>
+                    <Select
+                      onValueChange={handleVehicleChange}
+                      defaultValue={field.value ? field.value.toString() : undefined}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a vehicle" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {vehicles.map((vehicle) => (
+                          <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                            {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {users && (
+                <FormField
+                  control={form.control}
+                  name="driverId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Driver</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(parseInt(value))}
+                        defaultValue={field.value ? field.value.toString() : undefined}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a driver" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {users.map((user) => (
+                            <SelectItem key={user.id} value={user.id.toString()}>
+                              {user.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="filledAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date & Time</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="odometer"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Odometer (miles)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="litres"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Litres</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="unitPrice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price per Litre</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.001"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="totalCost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Total Cost</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        placeholder="Litres × price"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>Leave empty to work it out from litres and price.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="station"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Station</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ""} placeholder="e.g. Shell, Main St" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="tripId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Trip</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                      value={field.value ? field.value.toString() : "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Not linked to a trip" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Not linked to a trip</SelectItem>
+                        {(vehicleTrips || []).map((trip) => (
+                          <SelectItem key={trip.id} value={trip.id.toString()}>
+                            {format(new Date(trip.startTime), 'MMM d, yyyy')} {trip.purpose ? `- ${trip.purpose}` : `#${trip.id}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="fullTank"
+              render={({ field }) => (
+                <FormItem className="flex items-center space-x-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value ?? true}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">Filled the tank to full</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} value={field.value || ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  mode === 'add' ? 'Log Fill-Up' : 'Update Fill-Up'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
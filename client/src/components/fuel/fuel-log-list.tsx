@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { FuelLog, Vehicle, User } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Pencil, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface FuelLogListProps {
+  logs: FuelLog[];
+  vehicles: Vehicle[];
+  users: User[];
+  // Fill-ups that closed a stretch of abnormal consumption
+  abnormalLogIds: Set<number>;
+  canEdit: (log: FuelLog) => boolean;
+  canDelete: boolean;
+  onEdit: (log: FuelLog) => void;
+  onDelete: (logId: number) => void;
+}
+
+export default function FuelLogList({
+  logs,
+  vehicles,
+  users,
+  abnormalLogIds,
+  canEdit,
+  canDelete,
+  onEdit,
+  onDelete
+}: FuelLogListProps) {
+  const [logToDelete, setLogToDelete] = useState<number | null>(null);
+
+  const getVehicleName = (vehicleId: number) => {
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle';
+  };
+
+  const getDriverName = (driverId: number | null) => {
+    if (driverId === null) return '—';
+    return users.find(u => u.id === driverId)?.name ?? 'Unknown Driver';
+  };
+
+  if (logs.length === 0) {
+    return (
+      <div className="rounded-lg border p-8 text-center text-muted-foreground">
+        No fill-ups have been logged yet.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-lg border overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Vehicle</TableHead>
+                <TableHead>Driver</TableHead>
+                <TableHead>Litres</TableHead>
+                <TableHead>Cost</TableHead>
+                <TableHead>Odometer</TableHead>
+                <TableHead>Station</TableHead>
+                <TableHead className="text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {logs.map((log) => (
+                <TableRow key={log.id} className="hover:bg-muted/50">
+                  <TableCell>{format(new Date(log.filledAt), 'MMM d, yyyy h:mm a')}</TableCell>
+                  <TableCell>{getVehicleName(log.vehicleId)}</TableCell>
+                  <TableCell>{getDriverName(log.driverId)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap items-center gap-1">
+                      {log.litres.toFixed(2)} L
+                      {!log.fullTank && <Badge variant="outline">Partial</Badge>}
+                      {abnormalLogIds.has(log.id) && (
+                        <Badge variant="outline" className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">High use</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <p>{log.totalCost.toFixed(2)}</p>
+                    <p className="text-muted-foreground text-xs">{log.unitPrice.toFixed(3)} / L</p>
+                  </TableCell>
+                  <TableCell>{log.odometer.toLocaleString()} mi</TableCell>
+                  <TableCell>{log.station || '—'}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-center space-x-2">
+                      {canEdit(log) && (
+                        <Button variant="ghost" size="icon" onClick={() => onEdit(log)}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                      )}
+                      {canDelete && (
+                        <Button variant="ghost" size="icon" onClick={() => setLogToDelete(log.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <AlertDialog open={logToDelete !== null} onOpenChange={(open) => !open && setLogToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this fill-up?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The fill-up will no longer count towards fuel costs and efficiency. Its odometer reading stays in the vehicle's history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (logToDelete !== null) onDelete(logToDelete);
+                setLogToDelete(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { Incident, IncidentInvestigation } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+interface CloseInvestigationDialogProps {
+  incident: Incident | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (incident: Incident, investigation: IncidentInvestigation) => void;
+  isSubmitting: boolean;
+}
+
+// The findings and fault are shared with the driver and count towards their record
+export default function CloseInvestigationDialog({
+  incident,
+  onOpenChange,
+  onConfirm,
+  isSubmitting
+}: CloseInvestigationDialogProps) {
+  const [findings, setFindings] = useState("");
+  const [driverAtFault, setDriverAtFault] = useState(false);
+
+  useEffect(() => {
+    if (incident) {
+      setFindings(incident.findings ?? "");
+      setDriverAtFault(incident.driverAtFault ?? false);
+    }
+  }, [incident]);
+
+  return (
+    <Dialog open={!!incident} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Close Investigation</DialogTitle>
+          <DialogDescription>
+            The driver and the reporter are notified of the findings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="investigation-findings">Findings</Label>
+            <Textarea
+              id="investigation-findings"
+              placeholder="What caused the incident and what was done about it?"
+              value={findings}
+              onChange={(e) => setFindings(e.target.value)}
+            />
+          </div>
+          {incident?.driverId != null && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="investigation-at-fault"
+                checked={driverAtFault}
+                onCheckedChange={(checked) => setDriverAtFault(checked === true)}
+              />
+              <Label htmlFor="investigation-at-fault" className="font-normal">The driver was at fault</Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => incident && onConfirm(incident, { status: 'closed', findings: findings.trim(), driverAtFault: incident.driverId != null && driverAtFault })}
+            disabled={isSubmitting || !findings.trim()}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Closing...
+              </>
+            ) : (
+              'Close Investigation'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
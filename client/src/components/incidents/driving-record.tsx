@@ -0,0 +1,59 @@
+import { DrivingRecord as DrivingRecordData } from "@shared/schema";
+import { format } from "date-fns";
+import { incidentTypeLabels } from "./incident-form";
+import { IncidentStatusBadge, formatIncidentCost } from "./incident-list";
+
+// Only the latest few incidents are listed; the counts cover the whole record
+const RECENT_INCIDENTS = 5;
+
+interface DrivingRecordProps {
+  record: DrivingRecordData;
+}
+
+function Stat({ label, value }: { label: string, value: string }) {
+  return (
+    <div className="rounded-lg border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold">{value}</p>
+    </div>
+  );
+}
+
+export default function DrivingRecord({ record }: DrivingRecordProps) {
+  const recent = record.incidents.slice(0, RECENT_INCIDENTS);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        <Stat label="Trips" value={record.tripCount.toLocaleString()} />
+        <Stat label="Distance" value={`${record.distanceMiles.toLocaleString()} mi`} />
+        <Stat label="Incidents" value={record.incidentCount.toLocaleString()} />
+        <Stat label="Open" value={record.openIncidentCount.toLocaleString()} />
+        <Stat label="At fault" value={record.atFaultCount.toLocaleString()} />
+        <Stat label="Incident cost" value={record.incidentCost.toFixed(2)} />
+      </div>
+
+      {recent.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No incidents on record.</p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {recent.map(incident => (
+            <li key={incident.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+              <div>
+                <p className="font-medium">{incidentTypeLabels[incident.type]}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(incident.occurredAt), 'MMM d, yyyy')} – {incident.location}
+                  {incident.driverAtFault && ' – at fault'}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span>{formatIncidentCost(incident)}</span>
+                <IncidentStatusBadge status={incident.status} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
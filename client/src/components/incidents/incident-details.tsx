@@ -0,0 +1,141 @@
+import { ReactNode } from "react";
+import { Incident, Vehicle, User } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Pencil, PlayCircle, RotateCcw, CheckCircle } from "lucide-react";
+import { format } from "date-fns";
+import { incidentTypeLabels, claimStatusLabels } from "./incident-form";
+import { IncidentStatusBadge, formatIncidentCost } from "./incident-list";
+
+interface IncidentDetailsProps {
+  incident: Incident | null;
+  vehicles: Vehicle[];
+  users: User[];
+  onOpenChange: (open: boolean) => void;
+  canEdit: boolean;
+  canInvestigate: boolean;
+  onEdit: (incident: Incident) => void;
+  onStartInvestigation: (incident: Incident) => void;
+  onCloseInvestigation: (incident: Incident) => void;
+  isUpdating: boolean;
+}
+
+function Detail({ label, children }: { label: string, children: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="text-right">{children}</span>
+    </div>
+  );
+}
+
+export default function IncidentDetails({
+  incident,
+  vehicles,
+  users,
+  onOpenChange,
+  canEdit,
+  canInvestigate,
+  onEdit,
+  onStartInvestigation,
+  onCloseInvestigation,
+  isUpdating
+}: IncidentDetailsProps) {
+  const getUserName = (userId: number | null) => {
+    if (userId == null) return 'Unknown';
+    return users.find(u => u.id === userId)?.name ?? `User #${userId}`;
+  };
+
+  const vehicle = incident ? vehicles.find(v => v.id === incident.vehicleId) : undefined;
+
+  return (
+    <Dialog open={!!incident} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto max-w-2xl">
+        {incident && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {incidentTypeLabels[incident.type]} #{incident.id}
+                <IncidentStatusBadge status={incident.status} />
+              </DialogTitle>
+              <DialogDescription>
+                {format(new Date(incident.occurredAt), 'MMM d, yyyy h:mm a')} – {incident.location}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <p className="text-sm whitespace-pre-wrap">{incident.description}</p>
+
+              <div className="space-y-1">
+                <Detail label="Vehicle">
+                  {vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle'}
+                </Detail>
+                {incident.tripId && <Detail label="Trip">#{incident.tripId}</Detail>}
+                <Detail label="Driver">{getUserName(incident.driverId)}</Detail>
+                <Detail label="Reported by">{getUserName(incident.reportedById)}</Detail>
+                {incident.policeReference && <Detail label="Police reference">{incident.policeReference}</Detail>}
+                <Detail label="Cost">{formatIncidentCost(incident)}</Detail>
+                <Detail label="Insurance">
+                  {claimStatusLabels[incident.claimStatus]}
+                  {incident.claimReference && ` (${incident.claimReference})`}
+                </Detail>
+              </div>
+
+              {incident.thirdParty && (
+                <div className="rounded-lg border p-3 space-y-1">
+                  <p className="font-medium text-sm">Other party</p>
+                  <Detail label="Name">{incident.thirdParty.name}</Detail>
+                  {incident.thirdParty.phone && <Detail label="Phone">{incident.thirdParty.phone}</Detail>}
+                  {incident.thirdParty.vehicleRegistration && <Detail label="Vehicle">{incident.thirdParty.vehicleRegistration}</Detail>}
+                  {incident.thirdParty.insurer && <Detail label="Insurer">{incident.thirdParty.insurer}</Detail>}
+                  {incident.thirdParty.policyNumber && <Detail label="Policy number">{incident.thirdParty.policyNumber}</Detail>}
+                </div>
+              )}
+
+              {incident.photos.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {incident.photos.map((photo, index) => (
+                    <a key={index} href={photo} target="_blank" rel="noreferrer">
+                      <img src={photo} alt={`Incident photo ${index + 1}`} className="max-h-40 rounded-md border" />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {(incident.investigatorId || incident.findings) && (
+                <div className="rounded-lg border p-3 space-y-1">
+                  <p className="font-medium text-sm">Investigation</p>
+                  <Detail label="Investigator">{getUserName(incident.investigatorId)}</Detail>
+                  {incident.closedAt && <Detail label="Closed">{format(new Date(incident.closedAt), 'MMM d, yyyy')}</Detail>}
+                  {incident.driverAtFault != null && <Detail label="Driver at fault">{incident.driverAtFault ? 'Yes' : 'No'}</Detail>}
+                  {incident.findings && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{incident.findings}</p>}
+                </div>
+              )}
+            </div>
+
+            <DialogFooter className="gap-2">
+              {canEdit && (
+                <Button variant="outline" onClick={() => onEdit(incident)}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit
+                </Button>
+              )}
+              {canInvestigate && incident.status !== 'investigating' && (
+                <Button variant="outline" disabled={isUpdating} onClick={() => onStartInvestigation(incident)}>
+                  {incident.status === 'closed' ? <RotateCcw className="mr-2 h-4 w-4" /> : <PlayCircle className="mr-2 h-4 w-4" />}
+                  {incident.status === 'closed' ? 'Reopen' : 'Start Investigation'}
+                </Button>
+              )}
+              {canInvestigate && incident.status === 'investigating' && (
+                <Button disabled={isUpdating} onClick={() => onCloseInvestigation(incident)}>
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                  Close Investigation
+                </Button>
+              )}
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
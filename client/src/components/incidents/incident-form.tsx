@@ -0,0 +1,490 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import {
+  insertIncidentSchema,
+  InsertIncident,
+  Incident,
+  IncidentType,
+  InsuranceClaimStatus,
+  Trip,
+  Vehicle,
+  User,
+  incidentTypes,
+  insuranceClaimStatuses,
+  MAX_INCIDENT_PHOTOS
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Camera, Loader2, X } from "lucide-react";
+import { format } from "date-fns";
+
+// Matches the server limit on inline photos
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+
+export const incidentTypeLabels: Record<IncidentType, string> = {
+  collision: "Collision",
+  breakdown: "Breakdown",
+  fine: "Fine",
+  theft: "Theft",
+  vandalism: "Vandalism",
+  other: "Other",
+};
+
+export const claimStatusLabels: Record<InsuranceClaimStatus, string> = {
+  not_claimed: "Not claimed",
+  filed: "Claim filed",
+  accepted: "Claim accepted",
+  rejected: "Claim rejected",
+  settled: "Claim settled",
+};
+
+interface IncidentFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: InsertIncident) => void;
+  isSubmitting: boolean;
+  vehicles: Vehicle[];
+  // Only admin and moderator pick the driver and settle costs and claims
+  users?: User[];
+  defaultValues?: Partial<Incident>;
+  mode: 'add' | 'edit';
+}
+
+function readPhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function IncidentForm({
+  open,
+  onOpenChange,
+  onSubmit,
+  isSubmitting,
+  vehicles,
+  users,
+  defaultValues,
+  mode
+}: IncidentFormProps) {
+  const canSettle = !!users;
+  const [photoError, setPhotoError] = useState<string | null>(null);
+
+  const form = useForm<InsertIncident>({
+    resolver: zodResolver(insertIncidentSchema),
+    defaultValues: {
+      vehicleId: defaultValues?.vehicleId || 0,
+      tripId: defaultValues?.tripId ?? null,
+      driverId: defaultValues?.driverId ?? null,
+      occurredAt: format(defaultValues?.occurredAt ? new Date(defaultValues.occurredAt) : new Date(), "yyyy-MM-dd'T'HH:mm"),
+      location: defaultValues?.location || "",
+      type: defaultValues?.type || "collision",
+      description: defaultValues?.description || "",
+      thirdParty: defaultValues?.thirdParty ?? null,
+      policeReference: defaultValues?.policeReference || "",
+      photos: defaultValues?.photos ?? [],
+      estimatedCost: defaultValues?.estimatedCost ?? null,
+      ...(canSettle ? {
+        actualCost: defaultValues?.actualCost ?? null,
+        claimStatus: defaultValues?.claimStatus ?? "not_claimed",
+        claimReference: defaultValues?.claimReference || "",
+      } : {}),
+    }
+  });
+
+  useEffect(() => {
+    if (open) {
+      setPhotoError(null);
+    }
+  }, [open]);
+
+  const vehicleId = form.watch("vehicleId");
+  const thirdParty = form.watch("thirdParty");
+  const photos = form.watch("photos") ?? [];
+
+  // Trips of the chosen vehicle that the incident can be linked to
+  const { data: vehicleTrips } = useQuery<Trip[]>({
+    queryKey: [`/api/trips/vehicle/${vehicleId}`],
+    enabled: open && vehicleId > 0,
+  });
+
+  const handleSubmit = (values: InsertIncident) => {
+    // The datetime input is in local time; send it as an ISO timestamp
+    onSubmit({ ...values, occurredAt: new Date(values.occurredAt).toISOString() });
+  };
+
+  const handlePhotos = async (files: FileList | null) => {
+    if (!files) return;
+    const selected = Array.from(files);
+    if (photos.length + selected.length > MAX_INCIDENT_PHOTOS) {
+      setPhotoError(`At most ${MAX_INCIDENT_PHOTOS} photos can be attached`);
+      return;
+    }
+    if (selected.some(file => file.size > MAX_PHOTO_BYTES)) {
+      setPhotoError("Photos must be smaller than 2 MB");
+      return;
+    }
+    setPhotoError(null);
+    const added = await Promise.all(selected.map(readPhoto));
+    form.setValue("photos", [...photos, ...added]);
+  };
+
+  const setThirdParty = (field: string, value: string) => {
+    form.setValue("thirdParty", { ...(thirdParty ?? { name: "" }), [field]: value });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{mode === 'add' ? 'Report Incident' : 'Edit Incident'}</DialogTitle>
+          <DialogDescription>
+            Record what happened as soon as you can. A moderator will follow it up.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="vehicleId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vehicle</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(parseInt(value));
+                        form.setValue("tripId", null);
+                      }}
+                      defaultValue={field.value ? field.value.toString() : undefined}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a vehicle" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {vehicles.map((vehicle) => (
+                          <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                            {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="tripId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Trip</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                      value={field.value ? field.value.toString() : "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Not linked to a trip" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Not linked to a trip</SelectItem>
+                        {(vehicleTrips || []).map((trip) => (
+                          <SelectItem key={trip.id} value={trip.id.toString()}>
+                            {format(new Date(trip.startTime), 'MMM d, yyyy')} {trip.purpose ? `- ${trip.purpose}` : `#${trip.id}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {users && (
+                <FormField
+                  control={form.control}
+                  name="driverId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Driver</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                        value={field.value ? field.value.toString() : "none"}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Driver of the trip" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Driver of the trip, or unknown</SelectItem>
+                          {users.map((user) => (
+                            <SelectItem key={user.id} value={user.id.toString()}>
+                              {user.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {incidentTypes.map(type => (
+                          <SelectItem key={type} value={type}>{incidentTypeLabels[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="occurredAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date & Time</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. Junction of Main St and 5th Ave" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="policeReference"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Police Reference</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ""} placeholder="If the police were involved" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="estimatedCost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Estimated Cost</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        placeholder="Repair quote or fine amount"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>What happened</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="incident-third-party"
+                  checked={!!thirdParty}
+                  onCheckedChange={(checked) => form.setValue("thirdParty", checked === true ? { name: "" } : null)}
+                />
+                <Label htmlFor="incident-third-party" className="font-normal">Another party was involved</Label>
+              </div>
+              {thirdParty && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 rounded-lg border p-3">
+                  <Input placeholder="Name" value={thirdParty.name} onChange={(e) => setThirdParty("name", e.target.value)} />
+                  <Input placeholder="Phone" value={thirdParty.phone ?? ""} onChange={(e) => setThirdParty("phone", e.target.value)} />
+                  <Input placeholder="Vehicle registration" value={thirdParty.vehicleRegistration ?? ""} onChange={(e) => setThirdParty("vehicleRegistration", e.target.value)} />
+                  <Input placeholder="Insurer" value={thirdParty.insurer ?? ""} onChange={(e) => setThirdParty("insurer", e.target.value)} />
+                  <Input placeholder="Policy number" value={thirdParty.policyNumber ?? ""} onChange={(e) => setThirdParty("policyNumber", e.target.value)} />
+                  {form.formState.errors.thirdParty && (
+                    <p className="text-sm text-destructive md:col-span-2">The other party's name is required</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="incident-photos" className="flex items-center gap-2 cursor-pointer">
+                <Camera className="h-4 w-4" />
+                Photos ({photos.length}/{MAX_INCIDENT_PHOTOS})
+              </Label>
+              {photos.length < MAX_INCIDENT_PHOTOS && (
+                <input
+                  id="incident-photos"
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="text-sm"
+                  onChange={(e) => handlePhotos(e.target.files)}
+                />
+              )}
+              {photoError && <p className="text-sm text-destructive">{photoError}</p>}
+              {photos.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {photos.map((photo, index) => (
+                    <div key={index} className="relative">
+                      <img src={photo} alt={`Incident photo ${index + 1}`} className="h-20 rounded-md border" />
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        size="icon"
+                        className="absolute -top-2 -right-2 h-6 w-6"
+                        onClick={() => form.setValue("photos", photos.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-3 w-3" />
+                        <span className="sr-only">Remove photo</span>
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {canSettle && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="actualCost"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Actual Cost</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value === "" ? null : parseFloat(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="claimStatus"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Insurance Claim</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {insuranceClaimStatuses.map(status => (
+                            <SelectItem key={status} value={status}>{claimStatusLabels[status]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="claimReference"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Claim Reference</FormLabel>
+                      <FormControl>
+                        <Input {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  mode === 'add' ? 'Report Incident' : 'Update Incident'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { Incident, IncidentStatus, Vehicle, User } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Eye } from "lucide-react";
+import { format } from "date-fns";
+import { incidentTypeLabels, claimStatusLabels } from "./incident-form";
+
+interface IncidentListProps {
+  incidents: Incident[];
+  vehicles: Vehicle[];
+  users: User[];
+  onView: (incident: Incident) => void;
+}
+
+export function IncidentStatusBadge({ status }: { status: IncidentStatus }) {
+  switch (status) {
+    case 'investigating':
+      return <Badge variant="outline" className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200">Investigating</Badge>;
+    case 'closed':
+      return <Badge variant="outline" className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">Closed</Badge>;
+    default:
+      return <Badge variant="outline" className="bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200">Reported</Badge>;
+  }
+}
+
+// The settled cost once known, otherwise the estimate
+export function formatIncidentCost(incident: Incident): string {
+  if (incident.actualCost != null) return incident.actualCost.toFixed(2);
+  if (incident.estimatedCost != null) return `~${incident.estimatedCost.toFixed(2)}`;
+  return '—';
+}
+
+export default function IncidentList({ incidents, vehicles, users, onView }: IncidentListProps) {
+  const getVehicleName = (vehicleId: number) => {
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle';
+  };
+
+  const getUserName = (userId: number | null) => {
+    if (userId == null) return 'Unknown';
+    return users.find(u => u.id === userId)?.name ?? `User #${userId}`;
+  };
+
+  if (incidents.length === 0) {
+    return (
+      <div className="rounded-lg border p-8 text-center text-muted-foreground">
+        No incidents have been reported.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Vehicle</TableHead>
+              <TableHead>Driver</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead>Insurance</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-center">Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {incidents.map((incident) => (
+              <TableRow key={incident.id} className="hover:bg-muted/50">
+                <TableCell>{format(new Date(incident.occurredAt), 'MMM d, yyyy h:mm a')}</TableCell>
+                <TableCell>
+                  <p>{incidentTypeLabels[incident.type]}</p>
+                  <p className="text-muted-foreground text-xs">{incident.location}</p>
+                </TableCell>
+                <TableCell>{getVehicleName(incident.vehicleId)}</TableCell>
+                <TableCell>{getUserName(incident.driverId)}</TableCell>
+                <TableCell className="text-right">{formatIncidentCost(incident)}</TableCell>
+                <TableCell>{claimStatusLabels[incident.claimStatus]}</TableCell>
+                <TableCell><IncidentStatusBadge status={incident.status} /></TableCell>
+                <TableCell>
+                  <div className="flex justify-center">
+                    <Button variant="ghost" size="icon" onClick={() => onView(incident)}>
+                      <Eye className="h-4 w-4" />
+                      <span className="sr-only">View</span>
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { InsertInspection, InspectionKind, InspectionResultInput, InspectionTemplate, Vehicle } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Camera, Check, Loader2, X } from "lucide-react";
+
+// Matches the server limit on inline photos
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+
+export const inspectionKindTitles: Record<InspectionKind, string> = {
+  pre_trip: "Pre-Trip Inspection",
+  post_trip: "Post-Trip Inspection",
+};
+
+interface InspectionFormProps {
+  // The vehicle to inspect; the dialog is open while one is set
+  vehicle: Vehicle | null;
+  kind: InspectionKind;
+  tripId?: number;
+  templates: InspectionTemplate[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (inspection: InsertInspection) => void;
+  isSubmitting: boolean;
+}
+
+function readPhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function InspectionForm({
+  vehicle,
+  kind,
+  tripId,
+  templates,
+  onOpenChange,
+  onSubmit,
+  isSubmitting
+}: InspectionFormProps) {
+  const kindTemplates = templates.filter(template => template.active && template.kind === kind);
+  const [templateId, setTemplateId] = useState("");
+  const [answers, setAnswers] = useState<Record<string, InspectionResultInput>>({});
+  const [notes, setNotes] = useState("");
+  const [photoError, setPhotoError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (vehicle) {
+      setTemplateId(kindTemplates[0] ? kindTemplates[0].id.toString() : "");
+      setAnswers({});
+      setNotes("");
+      setPhotoError(null);
+    }
+  }, [vehicle, kind]);
+
+  const template = kindTemplates.find(t => t.id.toString() === templateId);
+  const items = template?.items ?? [];
+
+  const setAnswer = (key: string, changes: Partial<InspectionResultInput>) => {
+    setAnswers(current => ({
+      ...current,
+      [key]: { ...(current[key] ?? { key, passed: true, note: null, photo: null }), ...changes }
+    }));
+  };
+
+  const handlePhoto = async (key: string, file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_PHOTO_BYTES) {
+      setPhotoError("Photos must be smaller than 2 MB");
+      return;
+    }
+    setPhotoError(null);
+    setAnswer(key, { photo: await readPhoto(file) });
+  };
+
+  // Every item answered, and failed items that need a photo have one
+  const isComplete = items.length > 0 && items.every(item => {
+    const answer = answers[item.key];
+    return answer && (answer.passed || !item.photoRequired || !!answer.photo);
+  });
+  const failedCount = items.filter(item => answers[item.key]?.passed === false).length;
+
+  const handleSubmit = () => {
+    if (!vehicle || !template) return;
+    onSubmit({
+      vehicleId: vehicle.id,
+      tripId: tripId ?? null,
+      templateId: template.id,
+      results: items.map(item => answers[item.key]),
+      notes: notes.trim() || null,
+    });
+  };
+
+  return (
+    <Dialog open={!!vehicle} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{inspectionKindTitles[kind]}</DialogTitle>
+          <DialogDescription>
+            {vehicle && `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber}). `}
+            Failed items are sent to maintenance; a failed critical item takes the vehicle out of service.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {kindTemplates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              There is no active checklist for this inspection. Ask an administrator to set one up.
+            </p>
+          ) : kindTemplates.length > 1 && (
+            <div className="space-y-2">
+              <Label>Checklist</Label>
+              <Select value={templateId} onValueChange={(value) => { setTemplateId(value); setAnswers({}); }}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a checklist" />
+                </SelectTrigger>
+                <SelectContent>
+                  {kindTemplates.map(t => (
+                    <SelectItem key={t.id} value={t.id.toString()}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {items.map(item => {
+            const answer = answers[item.key];
+            return (
+              <div key={item.key} className="rounded-lg border p-3 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="font-medium text-sm flex-1">{item.label}</p>
+                  {item.critical && <Badge variant="outline" className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">Critical</Badge>}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    type="button"
+                    variant={answer?.passed === true ? "default" : "outline"}
+                    onClick={() => setAnswer(item.key, { passed: true, note: null, photo: null })}
+                  >
+                    <Check className="mr-2 h-4 w-4" />
+                    Pass
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={answer?.passed === false ? "destructive" : "outline"}
+                    onClick={() => setAnswer(item.key, { passed: false })}
+                  >
+                    <X className="mr-2 h-4 w-4" />
+                    Fail
+                  </Button>
+                </div>
+                {answer?.passed === false && (
+                  <div className="space-y-2">
+                    <Textarea
+                      placeholder="What is wrong?"
+                      value={answer.note ?? ""}
+                      onChange={(e) => setAnswer(item.key, { note: e.target.value })}
+                    />
+                    <Label htmlFor={`photo-${item.key}`} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Camera className="h-4 w-4" />
+                      {answer.photo ? "Replace photo" : item.photoRequired ? "Add a photo (required)" : "Add a photo"}
+                    </Label>
+                    <input
+                      id={`photo-${item.key}`}
+                      type="file"
+                      accept="image/*"
+                      capture="environment"
+                      className="text-sm"
+                      onChange={(e) => handlePhoto(item.key, e.target.files?.[0])}
+                    />
+                    {answer.photo && (
+                      <img src={answer.photo} alt={item.label} className="max-h-40 rounded-md border" />
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {photoError && <p className="text-sm text-destructive">{photoError}</p>}
+
+          {items.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="inspection-notes">Notes</Label>
+              <Textarea
+                id="inspection-notes"
+                placeholder="Optional"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isSubmitting || !isComplete}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Submitting...
+              </>
+            ) : failedCount > 0 ? (
+              `Submit with ${failedCount} failed item${failedCount === 1 ? '' : 's'}`
+            ) : (
+              'Submit Inspection'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
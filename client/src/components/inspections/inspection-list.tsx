@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Inspection, Vehicle, User } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Eye } from "lucide-react";
+import { format } from "date-fns";
+import { inspectionKindTitles } from "./inspection-form";
+
+interface InspectionListProps {
+  inspections: Inspection[];
+  vehicles: Vehicle[];
+  users: User[];
+}
+
+export function InspectionResultBadge({ inspection }: { inspection: Inspection }) {
+  const failed = inspection.results.filter(result => !result.passed).length;
+  if (inspection.criticalFailure) {
+    return <Badge variant="outline" className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">Critical failure</Badge>;
+  }
+  if (failed > 0) {
+    return <Badge variant="outline" className="bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200">{failed} failed</Badge>;
+  }
+  return <Badge variant="outline" className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">Passed</Badge>;
+}
+
+export default function InspectionList({ inspections, vehicles, users }: InspectionListProps) {
+  const [selected, setSelected] = useState<Inspection | null>(null);
+
+  const getVehicleName = (vehicleId: number) => {
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle';
+  };
+
+  const getInspectorName = (userId: number) => users.find(u => u.id === userId)?.name ?? 'Unknown';
+
+  if (inspections.length === 0) {
+    return (
+      <div className="rounded-lg border p-8 text-center text-muted-foreground">
+        No inspections have been recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-lg border overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Vehicle</TableHead>
+                <TableHead>Inspection</TableHead>
+                <TableHead>Inspector</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead className="text-center">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {inspections.map((inspection) => (
+                <TableRow key={inspection.id} className="hover:bg-muted/50">
+                  <TableCell>{format(new Date(inspection.performedAt), 'MMM d, yyyy h:mm a')}</TableCell>
+                  <TableCell>{getVehicleName(inspection.vehicleId)}</TableCell>
+                  <TableCell>
+                    <p>{inspectionKindTitles[inspection.kind]}</p>
+                    {inspection.tripId && <p className="text-muted-foreground text-xs">Trip #{inspection.tripId}</p>}
+                  </TableCell>
+                  <TableCell>{getInspectorName(inspection.inspectorId)}</TableCell>
+                  <TableCell><InspectionResultBadge inspection={inspection} /></TableCell>
+                  <TableCell>
+                    <div className="flex justify-center">
+                      <Button variant="ghost" size="icon" onClick={() => setSelected(inspection)}>
+                        <Eye className="h-4 w-4" />
+                        <span className="sr-only">View</span>
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{inspectionKindTitles[selected.kind]}</DialogTitle>
+                <DialogDescription>
+                  {getVehicleName(selected.vehicleId)} – {getInspectorName(selected.inspectorId)}, {format(new Date(selected.performedAt), 'MMM d, yyyy h:mm a')}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3">
+                {selected.results.map(result => (
+                  <div key={result.key} className="rounded-lg border p-3 space-y-2 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-medium flex-1">{result.label}</p>
+                      {result.passed ? (
+                        <Badge variant="outline" className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">Pass</Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">
+                          Fail{result.critical ? ' (critical)' : ''}
+                        </Badge>
+                      )}
+                    </div>
+                    {result.note && <p className="text-muted-foreground">{result.note}</p>}
+                    {result.photo && <img src={result.photo} alt={result.label} className="max-h-48 rounded-md border" />}
+                    {result.maintenanceId && (
+                      <p className="text-muted-foreground text-xs">Maintenance record #{result.maintenanceId} opened</p>
+                    )}
+                  </div>
+                ))}
+                {selected.notes && <p className="text-sm">{selected.notes}</p>}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
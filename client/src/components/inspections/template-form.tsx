@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { InspectionItem, InspectionKind, InspectionTemplate, InsertInspectionTemplate } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { inspectionKindTitles } from "./inspection-form";
+
+interface TemplateFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (template: InsertInspectionTemplate) => void;
+  isSubmitting: boolean;
+  template?: InspectionTemplate;
+}
+
+const emptyItem = (): InspectionItem => ({ key: "", label: "", critical: false, photoRequired: false });
+
+// Results are matched to items by key, so existing items keep theirs and new ones get one from the label
+function itemKeys(items: InspectionItem[]): InspectionItem[] {
+  const used = new Set(items.filter(item => item.key).map(item => item.key));
+  return items.map(item => {
+    if (item.key) return item;
+    const base = item.label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "") || "item";
+    let key = base;
+    for (let n = 2; used.has(key); n++) key = `${base}_${n}`;
+    used.add(key);
+    return { ...item, key };
+  });
+}
+
+export default function TemplateForm({
+  open,
+  onOpenChange,
+  onSubmit,
+  isSubmitting,
+  template
+}: TemplateFormProps) {
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<InspectionKind>("pre_trip");
+  const [active, setActive] = useState(true);
+  const [items, setItems] = useState<InspectionItem[]>([emptyItem()]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name ?? "");
+    setKind(template?.kind ?? "pre_trip");
+    setActive(template?.active ?? true);
+    setItems(template ? template.items : [emptyItem()]);
+  }, [open, template]);
+
+  const updateItem = (index: number, changes: Partial<InspectionItem>) => {
+    setItems(items.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const isValid = name.trim() !== "" && items.length > 0 && items.every(item => item.label.trim() !== "");
+
+  const handleSubmit = () => {
+    onSubmit({
+      name: name.trim(),
+      kind,
+      active,
+      items: itemKeys(items.map(item => ({ ...item, label: item.label.trim() }))),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Checklist" : "New Checklist"}</DialogTitle>
+          <DialogDescription>
+            Critical items take the vehicle out of service when they fail.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Used for</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as InspectionKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(inspectionKindTitles) as InspectionKind[]).map(k => (
+                  <SelectItem key={k} value={k}>{inspectionKindTitles[k]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="template-active" checked={active} onCheckedChange={setActive} />
+            <Label htmlFor="template-active">Active</Label>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Items</Label>
+            {items.map((item, index) => (
+              <div key={index} className="rounded-lg border p-3 space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="e.g. Tyres - pressure and tread"
+                    value={item.label}
+                    onChange={(e) => updateItem(index, { label: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={items.length === 1}
+                    onClick={() => setItems(items.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                    <span className="sr-only">Remove</span>
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-4 text-sm">
+                  <label className="flex items-center gap-2">
+                    <Checkbox checked={item.critical} onCheckedChange={(checked) => updateItem(index, { critical: checked === true })} />
+                    Critical
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <Checkbox checked={item.photoRequired} onCheckedChange={(checked) => updateItem(index, { photoRequired: checked === true })} />
+                    Photo required on failure
+                  </label>
+                </div>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => setItems([...items, emptyItem()])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Item
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={isSubmitting || !isValid}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Checklist'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,9 +5,10 @@ import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import NotificationBell from "./notification-bell";
 import { 
   Sun, Moon, Menu, LayoutDashboard, Car, Users, Route, 
-  Bolt, Calendar, BarChart, LogOut 
+  Bolt, Calendar, CalendarRange, BarChart, LogOut, ShieldCheck, Fuel, Navigation, ClipboardCheck, Receipt, AlertTriangle, Ticket, Wrench, Package 
 } from 'lucide-react';
 
 export default function MobileNav() {
@@ -22,14 +23,24 @@ export default function MobileNav() {
     { href: "/vehicles", label: "Vehicles", icon: <Car className="mr-3 h-4 w-4" /> },
     { href: "/employees", label: "Employees", icon: <Users className="mr-3 h-4 w-4" /> },
     { href: "/trips", label: "Trips", icon: <Route className="mr-3 h-4 w-4" /> },
+    { href: "/my-trips", label: "My Trips", icon: <Navigation className="mr-3 h-4 w-4" /> },
+    { href: "/fuel", label: "Fuel", icon: <Fuel className="mr-3 h-4 w-4" /> },
+    { href: "/mileage", label: "Mileage", icon: <Receipt className="mr-3 h-4 w-4" /> },
     { href: "/maintenance", label: "Maintenance", icon: <Bolt className="mr-3 h-4 w-4" /> },
+    { href: "/vendors", label: "Vendors", icon: <Wrench className="mr-3 h-4 w-4" /> },
+    { href: "/parts", label: "Parts", icon: <Package className="mr-3 h-4 w-4" /> },
+    { href: "/inspections", label: "Inspections", icon: <ClipboardCheck className="mr-3 h-4 w-4" /> },
+    { href: "/incidents", label: "Incidents", icon: <AlertTriangle className="mr-3 h-4 w-4" /> },
+    { href: "/traffic-charges", label: "Fines & Tolls", icon: <Ticket className="mr-3 h-4 w-4" /> },
     { href: "/bookings", label: "Bookings", icon: <Calendar className="mr-3 h-4 w-4" /> },
+    { href: "/calendar", label: "Calendar", icon: <CalendarRange className="mr-3 h-4 w-4" /> },
     { href: "/reports", label: "Reports", icon: <BarChart className="mr-3 h-4 w-4" /> },
   ];
   
   // Add Users page link for admins
   if (user?.role === "admin") {
     navItems.push({ href: "/users", label: "User Management", icon: <Users className="mr-3 h-4 w-4" /> });
+    navItems.push({ href: "/booking-policies", label: "Booking Policies", icon: <ShieldCheck className="mr-3 h-4 w-4" /> });
   }
 
   const toggleTheme = () => {
@@ -54,6 +65,7 @@ export default function MobileNav() {
       <div className="flex items-center justify-between p-4">
         <h1 className="text-lg font-bold">Fleet Manager</h1>
         <div className="flex items-center">
+          <NotificationBell />
           <Button variant="ghost" size="icon" onClick={toggleTheme} className="mr-2">
             {theme === "light" ? <Moon className="h-4 w-4" /> : <Sun className="h-4 w-4" />}
           </Button>
@@ -90,12 +102,14 @@ export default function MobileNav() {
               
               <div className="p-4 border-t border-border mt-auto">
                 <div className="flex items-center justify-between">
-                  <div className="flex items-center">
-                    <Avatar className="h-8 w-8 mr-2">
-                      <AvatarFallback>{user?.name ? getInitials(user.name) : "U"}</AvatarFallback>
-                    </Avatar>
-                    <span className="text-sm font-medium">{user?.name || "User"}</span>
-                  </div>
+                  <Link href="/profile">
+                    <a className="flex items-center" onClick={() => setOpen(false)}>
+                      <Avatar className="h-8 w-8 mr-2">
+                        <AvatarFallback>{user?.name ? getInitials(user.name) : "U"}</AvatarFallback>
+                      </Avatar>
+                      <span className="text-sm font-medium">{user?.name || "User"}</span>
+                    </a>
+                  </Link>
                   <Button variant="ghost" size="icon" onClick={handleLogout}>
                     <LogOut className="h-4 w-4" />
                     <span className="sr-only">Logout</span>
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Notification } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+// Notifications are created by other users' actions, so poll for new ones
+const NOTIFICATION_POLL_MS = 60 * 1000;
+
+export default function NotificationBell() {
+  const [open, setOpen] = useState(false);
+
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+    refetchInterval: NOTIFICATION_POLL_MS,
+    staleTime: 0,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      await apiRequest('POST', '/api/notifications/read', ids ? { ids } : {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    }
+  });
+
+  const unreadCount = (notifications || []).filter(n => !n.readAt).length;
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) markReadMutation.mutate([notification.id]);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-border px-4 py-2">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={() => markReadMutation.mutate(undefined)}
+              disabled={markReadMutation.isPending}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          {(notifications || []).length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+          ) : (
+            (notifications || []).map((notification) => (
+              <Link key={notification.id} href={notification.link || '#'}>
+                <a
+                  className={`block border-b border-border px-4 py-3 text-sm last:border-0 hover:bg-muted/50 ${
+                    notification.readAt ? 'text-muted-foreground' : 'font-medium'
+                  }`}
+                  onClick={() => handleSelect(notification)}
+                >
+                  <p>{notification.message}</p>
+                  <p className="mt-1 text-xs font-normal text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </a>
+              </Link>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -4,9 +4,10 @@ import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import NotificationBell from "./notification-bell";
 import { 
   Sun, Moon, LayoutDashboard, Car, Users, Route, 
-  Bolt, Calendar, BarChart, LogOut
+  Bolt, Calendar, CalendarRange, BarChart, LogOut, ShieldCheck, Fuel, Navigation, ClipboardCheck, Receipt, AlertTriangle, Ticket, Wrench, Package
 } from 'lucide-react';
 
 export default function Sidebar() {
@@ -20,14 +21,24 @@ export default function Sidebar() {
     { href: "/vehicles", label: "Vehicles", icon: <Car className="mr-3 h-4 w-4" /> },
     { href: "/employees", label: "Employees", icon: <Users className="mr-3 h-4 w-4" /> },
     { href: "/trips", label: "Trips", icon: <Route className="mr-3 h-4 w-4" /> },
+    { href: "/my-trips", label: "My Trips", icon: <Navigation className="mr-3 h-4 w-4" /> },
+    { href: "/fuel", label: "Fuel", icon: <Fuel className="mr-3 h-4 w-4" /> },
+    { href: "/mileage", label: "Mileage", icon: <Receipt className="mr-3 h-4 w-4" /> },
     { href: "/maintenance", label: "Maintenance", icon: <Bolt className="mr-3 h-4 w-4" /> },
+    { href: "/vendors", label: "Vendors", icon: <Wrench className="mr-3 h-4 w-4" /> },
+    { href: "/parts", label: "Parts", icon: <Package className="mr-3 h-4 w-4" /> },
+    { href: "/inspections", label: "Inspections", icon: <ClipboardCheck className="mr-3 h-4 w-4" /> },
+    { href: "/incidents", label: "Incidents", icon: <AlertTriangle className="mr-3 h-4 w-4" /> },
+    { href: "/traffic-charges", label: "Fines & Tolls", icon: <Ticket className="mr-3 h-4 w-4" /> },
     { href: "/bookings", label: "Bookings", icon: <Calendar className="mr-3 h-4 w-4" /> },
+    { href: "/calendar", label: "Calendar", icon: <CalendarRange className="mr-3 h-4 w-4" /> },
     { href: "/reports", label: "Reports", icon: <BarChart className="mr-3 h-4 w-4" /> },
   ];
   
   // Add Users page link for admins
   if (user?.role === "admin") {
     navItems.push({ href: "/users", label: "User Management", icon: <Users className="mr-3 h-4 w-4" /> });
+    navItems.push({ href: "/booking-policies", label: "Booking Policies", icon: <ShieldCheck className="mr-3 h-4 w-4" /> });
   }
 
   const toggleTheme = () => {
@@ -48,8 +59,9 @@ export default function Sidebar() {
 
   return (
     <aside className="w-64 bg-card border-r border-border h-screen flex flex-col fixed">
-      <div className="p-4 border-b border-border">
+      <div className="p-4 border-b border-border flex items-center justify-between">
         <h1 className="text-xl font-bold">Fleet Manager</h1>
+        <NotificationBell />
       </div>
       
       <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
@@ -71,10 +83,14 @@ export default function Sidebar() {
       
       <div className="p-4 border-t border-border">
         <div className="flex items-center">
-          <Avatar className="h-8 w-8 mr-2">
-            <AvatarFallback>{user?.name ? getInitials(user.name) : "U"}</AvatarFallback>
-          </Avatar>
-          <span className="text-sm font-medium truncate">{user?.name || "User"}</span>
+          <Link href="/profile">
+            <a className="flex items-center min-w-0 hover:underline">
+              <Avatar className="h-8 w-8 mr-2">
+                <AvatarFallback>{user?.name ? getInitials(user.name) : "U"}</AvatarFallback>
+              </Avatar>
+              <span className="text-sm font-medium truncate">{user?.name || "User"}</span>
+            </a>
+          </Link>
           <div className="ml-auto flex gap-1">
             <Button variant="ghost" size="icon" onClick={toggleTheme}>
               {theme === "light" ? (
@@ -0,0 +1,92 @@
+import { MaintenanceDue, Vehicle } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+
+interface MaintenanceDueListProps {
+  dueList: MaintenanceDue[];
+  vehicles: Vehicle[];
+}
+
+export function MaintenanceDueBadge({ status }: { status: MaintenanceDue["status"] }) {
+  switch (status) {
+    case 'overdue':
+      return <Badge variant="outline" className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">Overdue</Badge>;
+    case 'due_soon':
+      return <Badge variant="outline" className="bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200">Due soon</Badge>;
+    default:
+      return <Badge variant="outline" className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">OK</Badge>;
+  }
+}
+
+// The thresholds the next service is due at, one per line
+export function MaintenanceDueThresholds({ due }: { due: MaintenanceDue }) {
+  return (
+    <>
+      {due.dueDate && <p>{format(new Date(`${due.dueDate}T00:00`), 'MMM d, yyyy')}</p>}
+      {due.dueMileage !== null && <p>{due.dueMileage.toLocaleString()} mi</p>}
+      {due.dueEngineHours !== null && <p>{due.dueEngineHours.toLocaleString()} engine hours</p>}
+    </>
+  );
+}
+
+export default function MaintenanceDueList({ dueList, vehicles }: MaintenanceDueListProps) {
+  const getVehicle = (vehicleId: number) => vehicles.find(v => v.id === vehicleId);
+
+  if (dueList.length === 0) {
+    return (
+      <div className="rounded-lg border p-8 text-center text-muted-foreground">
+        No vehicle is covered by an active plan.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Vehicle</TableHead>
+              <TableHead>Service</TableHead>
+              <TableHead>Last Done</TableHead>
+              <TableHead>Next Due</TableHead>
+              <TableHead>Current</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {dueList.map(due => {
+              const vehicle = getVehicle(due.vehicleId);
+              return (
+                <TableRow key={`${due.planId}-${due.vehicleId}`}>
+                  <TableCell>{vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle'}</TableCell>
+                  <TableCell>{due.planName}</TableCell>
+                  <TableCell>{due.lastCompletedDate ? format(new Date(`${due.lastCompletedDate}T00:00`), 'MMM d, yyyy') : 'Never'}</TableCell>
+                  <TableCell className="text-sm"><MaintenanceDueThresholds due={due} /></TableCell>
+                  <TableCell className="text-sm">
+                    {vehicle && <p>{vehicle.mileage.toLocaleString()} mi</p>}
+                    {vehicle?.engineHours != null && due.dueEngineHours !== null && <p>{vehicle.engineHours.toLocaleString()} engine hours</p>}
+                  </TableCell>
+                  <TableCell>
+                    <MaintenanceDueBadge status={due.status} />
+                    {due.pendingMaintenanceId !== null && (
+                      <p className="text-xs text-muted-foreground mt-1">Scheduled</p>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
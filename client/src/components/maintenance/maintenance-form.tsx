@@ -1,7 +1,8 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
 import { z } from "zod";
-import { insertMaintenanceSchema, Maintenance, Vehicle } from "@shared/schema";
+import { insertMaintenanceSchema, Maintenance, Vehicle, Vendor } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -10,6 +11,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Loader2 } from "lucide-react";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { workOrderTotals } from "@shared/work-orders";
+import WorkOrderLinesFields from "./work-order-lines-fields";
 
 interface MaintenanceFormProps {
   open: boolean;
@@ -17,6 +20,7 @@ interface MaintenanceFormProps {
   onSubmit: (data: z.infer<typeof insertMaintenanceSchema>) => void;
   isSubmitting: boolean;
   vehicles: Vehicle[];
+  vendors: Vendor[];
   defaultValues?: Partial<Maintenance>;
   mode: 'add' | 'edit';
 }
@@ -27,6 +31,7 @@ export default function MaintenanceForm({
   onSubmit, 
   isSubmitting, 
   vehicles,
+  vendors,
   defaultValues,
   mode
 }: MaintenanceFormProps) {
@@ -43,19 +48,42 @@ export default function MaintenanceForm({
         : new Date().toISOString().substring(0, 10),
       cost: defaultValues?.cost || 0,
       odometer: defaultValues?.odometer || 0,
+      engineHours: defaultValues?.engineHours ?? null,
       status: defaultValues?.status || "pending",
       notes: defaultValues?.notes || "",
+      lines: defaultValues?.lines || [],
+      vendorId: defaultValues?.vendorId ?? null,
+      reworkOfId: defaultValues?.reworkOfId ?? null,
     }
   });
 
+  const vehicleId = form.watch("vehicleId");
+  const vendorId = form.watch("vendorId");
+  const selectedVendor = vendors.find(vendor => vendor.id === vendorId);
+  // Inactive vendors stay selectable on records already sent to them
+  const vendorOptions = vendors.filter(vendor => vendor.active || vendor.id === vendorId);
+
+  // Earlier completed jobs on the chosen vehicle that this one can be redoing
+  const { data: vehicleRecords } = useQuery<Maintenance[]>({
+    queryKey: [`/api/maintenance/vehicle/${vehicleId}`],
+    enabled: open && vehicleId > 0,
+  });
+  const reworkOptions = (vehicleRecords || [])
+    .filter(record => record.status === "completed" && record.id !== defaultValues?.id)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  // With work order lines the cost is their total rather than typed in
+  const lines = form.watch("lines") || [];
+  const itemised = lines.length > 0;
+
   const handleSubmit = (values: z.infer<typeof insertMaintenanceSchema>) => {
     // All date formatting is handled by the schema now
-    onSubmit(values);
+    onSubmit(itemised ? { ...values, cost: workOrderTotals(lines).total } : values);
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-h-[90vh] overflow-y-auto">
+      <DialogContent className="max-h-[90vh] overflow-y-auto max-w-3xl">
         <DialogHeader>
           <DialogTitle>{mode === 'add' ? 'Schedule Maintenance' : 'Edit Maintenance'}</DialogTitle>
           <DialogDescription>
@@ -156,6 +184,64 @@ export default function MaintenanceForm({
               )}
             />
             
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="vendorId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vendor</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                      value={field.value ? field.value.toString() : "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">In house / not recorded</SelectItem>
+                        {vendorOptions.map(vendor => (
+                          <SelectItem key={vendor.id} value={vendor.id.toString()}>{vendor.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="reworkOfId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rework Of</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                      value={field.value ? field.value.toString() : "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Not a rework</SelectItem>
+                        {reworkOptions.map(record => (
+                          <SelectItem key={record.id} value={record.id.toString()}>
+                            {record.date}: {record.description}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            
             <FormField
               control={form.control}
               name="date"
@@ -176,7 +262,7 @@ export default function MaintenanceForm({
                 name="cost"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Estimated Cost ($)</FormLabel>
+                    <FormLabel>{itemised ? 'Work Order Total ($)' : 'Estimated Cost ($)'}</FormLabel>
                     <FormControl>
                       <Input 
                         type="number" 
@@ -184,7 +270,8 @@ export default function MaintenanceForm({
                         onChange={(e) => field.onChange(parseFloat(e.target.value))}
                         step="0.01"
                         min="0"
-                        value={field.value ?? ""}
+                        disabled={itemised}
+                        value={itemised ? workOrderTotals(lines).total : field.value ?? ""}
                       />
                     </FormControl>
                     <FormMessage />
@@ -211,8 +298,41 @@ export default function MaintenanceForm({
                   </FormItem>
                 )}
               />
+              
+              <FormField
+                control={form.control}
+                name="engineHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Engine Hours</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : parseFloat(e.target.value))}
+                        min="0"
+                        step="0.1"
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
             
+            <FormField
+              control={form.control}
+              name="lines"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Parts and Labour</FormLabel>
+                  <WorkOrderLinesFields value={field.value || []} onChange={field.onChange} labourRate={selectedVendor?.labourRate ?? null} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             <FormField
               control={form.control}
               name="status"
@@ -1,4 +1,5 @@
-import { Maintenance, Vehicle } from "@shared/schema";
+import { Maintenance, Vehicle, Vendor } from "@shared/schema";
+import { Link } from "wouter";
 import { 
   Table, 
   TableBody, 
@@ -47,20 +48,29 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 interface MaintenanceListProps {
   maintenanceRecords: Maintenance[];
   vehicles: Vehicle[];
+  vendors: Vendor[];
   totalCount: number;
   currentPage: number;
   pageSize: number;
   onPageChange: (page: number) => void;
   onEdit: (maintenance: Maintenance) => void;
   onDelete: (maintenanceId: number) => void;
-  onComplete: (maintenance: Maintenance, cost: number) => void;
+  onComplete: (maintenance: Maintenance, details: CompleteMaintenanceDetails) => void;
   statusFilter: string;
   setStatusFilter: (status: string) => void;
 }
 
+// What the workshop reports back when the job is done; the readings start the plan's next cycle
+export interface CompleteMaintenanceDetails {
+  cost: number;
+  odometer: number | null;
+  engineHours: number | null;
+}
+
 export default function MaintenanceList({
   maintenanceRecords,
   vehicles,
+  vendors,
   totalCount,
   currentPage,
   pageSize,
@@ -76,6 +86,8 @@ export default function MaintenanceList({
   const [completeDialog, setCompleteDialog] = useState(false);
   const [maintenanceToComplete, setMaintenanceToComplete] = useState<Maintenance | null>(null);
   const [finalCost, setFinalCost] = useState(0);
+  const [finalOdometer, setFinalOdometer] = useState('');
+  const [finalEngineHours, setFinalEngineHours] = useState('');
 
   const totalPages = Math.ceil(totalCount / pageSize);
   const showingFrom = totalCount === 0 ? 0 : (currentPage - 1) * pageSize + 1;
@@ -96,13 +108,20 @@ export default function MaintenanceList({
 
   const handleCompleteClick = (maintenance: Maintenance) => {
     setMaintenanceToComplete(maintenance);
+    const vehicle = vehicles.find(v => v.id === maintenance.vehicleId);
     setFinalCost(maintenance.cost || 0);
+    setFinalOdometer((maintenance.odometer ?? vehicle?.mileage)?.toString() ?? '');
+    setFinalEngineHours((maintenance.engineHours ?? vehicle?.engineHours)?.toString() ?? '');
     setCompleteDialog(true);
   };
 
   const handleCompleteConfirm = () => {
     if (maintenanceToComplete) {
-      onComplete(maintenanceToComplete, finalCost);
+      onComplete(maintenanceToComplete, {
+        cost: finalCost,
+        odometer: finalOdometer === '' ? null : parseInt(finalOdometer),
+        engineHours: finalEngineHours === '' ? null : parseFloat(finalEngineHours),
+      });
       setCompleteDialog(false);
       setMaintenanceToComplete(null);
     }
@@ -280,7 +299,16 @@ export default function MaintenanceList({
                 {maintenanceRecords.map((maintenance) => (
                   <TableRow key={maintenance.id} className="hover:bg-muted/50">
                     <TableCell>{getVehicleInfo(maintenance.vehicleId)}</TableCell>
-                    <TableCell>{maintenance.description}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span>{maintenance.description}</span>
+                        {maintenance.vendorId != null && (
+                          <Link href={`/vendors/${maintenance.vendorId}`} className="text-xs text-muted-foreground hover:underline">
+                            {vendors.find(v => v.id === maintenance.vendorId)?.name ?? 'Vendor'}
+                          </Link>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>{renderType(maintenance.type)}</TableCell>
                     <TableCell>
                       <div className="flex flex-col gap-1">
@@ -374,7 +402,37 @@ export default function MaintenanceList({
                 onChange={(e) => setFinalCost(parseFloat(e.target.value))}
                 min={0}
                 step={0.01}
+                disabled={!!maintenanceToComplete?.lines.length}
               />
+              {!!maintenanceToComplete?.lines.length && (
+                <p className="text-xs text-muted-foreground">
+                  The total of the work order lines. Edit the record to change the parts or labour.
+                </p>
+              )}
+            </div>
+            
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="final-odometer">Odometer (miles)</Label>
+                <Input 
+                  id="final-odometer" 
+                  type="number" 
+                  value={finalOdometer}
+                  onChange={(e) => setFinalOdometer(e.target.value)}
+                  min={0}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="final-engine-hours">Engine Hours</Label>
+                <Input 
+                  id="final-engine-hours" 
+                  type="number" 
+                  value={finalEngineHours}
+                  onChange={(e) => setFinalEngineHours(e.target.value)}
+                  min={0}
+                  step={0.1}
+                />
+              </div>
             </div>
           </div>
           
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertMaintenancePlanSchema, InsertMaintenancePlan, MaintenancePlan, Vehicle } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+interface PlanFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: InsertMaintenancePlan) => void;
+  isSubmitting: boolean;
+  vehicles: Vehicle[];
+  defaultValues?: MaintenancePlan;
+}
+
+type PlanScope = "vehicle" | "model";
+
+// Empty number inputs clear the interval rather than setting it to zero
+const toNumber = (value: string) => value === "" ? null : Number(value);
+
+export default function PlanForm({ open, onOpenChange, onSubmit, isSubmitting, vehicles, defaultValues }: PlanFormProps) {
+  const [scope, setScope] = useState<PlanScope>(defaultValues && defaultValues.vehicleId == null ? "model" : "vehicle");
+
+  const form = useForm<InsertMaintenancePlan>({
+    resolver: zodResolver(insertMaintenancePlanSchema),
+    defaultValues: {
+      name: defaultValues?.name || "",
+      vehicleId: defaultValues?.vehicleId ?? null,
+      make: defaultValues?.make || "",
+      model: defaultValues?.model || "",
+      intervalMileage: defaultValues?.intervalMileage ?? null,
+      intervalMonths: defaultValues?.intervalMonths ?? null,
+      intervalEngineHours: defaultValues?.intervalEngineHours ?? null,
+      estimatedCost: defaultValues?.estimatedCost ?? null,
+      active: defaultValues?.active ?? true,
+      notes: defaultValues?.notes || "",
+    }
+  });
+
+  // Only the fields of the chosen scope are kept
+  const changeScope = (value: PlanScope) => {
+    setScope(value);
+    if (value === "vehicle") {
+      form.setValue("make", "");
+      form.setValue("model", "");
+    } else {
+      form.setValue("vehicleId", null);
+    }
+  };
+
+  const intervalField = (name: "intervalMileage" | "intervalMonths" | "intervalEngineHours", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              min={1}
+              {...field}
+              value={field.value ?? ""}
+              onChange={(e) => field.onChange(toNumber(e.target.value))}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{defaultValues ? 'Edit Maintenance Plan' : 'Add Maintenance Plan'}</DialogTitle>
+          <DialogDescription>
+            The service falls due at whichever interval is reached first, counted from the last time it was completed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Service</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Oil and filter change" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <RadioGroup value={scope} onValueChange={(value) => changeScope(value as PlanScope)} className="flex gap-6">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="vehicle" id="plan-scope-vehicle" />
+                  <Label htmlFor="plan-scope-vehicle">One vehicle</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="model" id="plan-scope-model" />
+                  <Label htmlFor="plan-scope-model">Every vehicle of a make or model</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            {scope === "vehicle" ? (
+              <FormField
+                control={form.control}
+                name="vehicleId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vehicle</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      value={field.value ? field.value.toString() : undefined}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a vehicle" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {vehicles.map(vehicle => (
+                          <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                            {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="make"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Make</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Ford" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="model"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Model</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Any model" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {intervalField("intervalMileage", "Every (miles)")}
+              {intervalField("intervalMonths", "Every (months)")}
+              {intervalField("intervalEngineHours", "Every (engine hours)")}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="estimatedCost"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Estimated Cost ($)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(toNumber(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} value={field.value || ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Paused plans do not open new maintenance records.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value ?? true} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Plan'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
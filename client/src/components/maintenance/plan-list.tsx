@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { MaintenancePlan, Vehicle } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Pencil, Trash2 } from "lucide-react";
+
+interface PlanListProps {
+  plans: MaintenancePlan[];
+  vehicles: Vehicle[];
+  canDelete: boolean;
+  onEdit: (plan: MaintenancePlan) => void;
+  onDelete: (planId: number) => void;
+}
+
+// "Every 10,000 mi or 12 months"
+export function describePlanInterval(plan: MaintenancePlan): string {
+  const parts = [
+    plan.intervalMileage != null && `${plan.intervalMileage.toLocaleString()} mi`,
+    plan.intervalMonths != null && `${plan.intervalMonths} month${plan.intervalMonths === 1 ? '' : 's'}`,
+    plan.intervalEngineHours != null && `${plan.intervalEngineHours.toLocaleString()} engine hours`,
+  ].filter(Boolean);
+  return `Every ${parts.join(' or ')}`;
+}
+
+export default function PlanList({ plans, vehicles, canDelete, onEdit, onDelete }: PlanListProps) {
+  const [planToDelete, setPlanToDelete] = useState<MaintenancePlan | null>(null);
+
+  const describeScope = (plan: MaintenancePlan) => {
+    if (plan.vehicleId != null) {
+      const vehicle = vehicles.find(v => v.id === plan.vehicleId);
+      return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle';
+    }
+    return plan.model ? `All ${plan.make} ${plan.model}` : `All ${plan.make} vehicles`;
+  };
+
+  if (plans.length === 0) {
+    return (
+      <div className="rounded-lg border p-8 text-center text-muted-foreground">
+        No maintenance plans yet. Add one to have services scheduled automatically.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-lg border overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Interval</TableHead>
+                <TableHead>Est. Cost</TableHead>
+                <TableHead className="text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plans.map(plan => (
+                <TableRow key={plan.id} className="hover:bg-muted/50">
+                  <TableCell>
+                    <span className="font-medium">{plan.name}</span>
+                    {!plan.active && <Badge variant="outline" className="ml-2">Paused</Badge>}
+                  </TableCell>
+                  <TableCell>{describeScope(plan)}</TableCell>
+                  <TableCell>{describePlanInterval(plan)}</TableCell>
+                  <TableCell>{plan.estimatedCost != null ? `$${plan.estimatedCost.toFixed(2)}` : '—'}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-center space-x-2">
+                      <Button variant="ghost" size="icon" onClick={() => onEdit(plan)}>
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit</span>
+                      </Button>
+                      {canDelete && (
+                        <Button variant="ghost" size="icon" onClick={() => setPlanToDelete(plan)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <AlertDialog open={!!planToDelete} onOpenChange={(open) => !open && setPlanToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this maintenance plan?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No further services will be scheduled from it. Maintenance records it already opened are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (planToDelete) onDelete(planToDelete.id);
+                setPlanToDelete(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
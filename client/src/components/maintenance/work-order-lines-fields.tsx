@@ -0,0 +1,139 @@
+import { useQuery } from "@tanstack/react-query";
+import { Part, WorkOrderLine, MAX_WORK_ORDER_LINES } from "@shared/schema";
+import { workOrderLineTotals, workOrderTotals } from "@shared/work-orders";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+
+// Empty number inputs count as zero; every amount on a line is required
+const toAmount = (value: string) => value === "" ? 0 : Number(value);
+
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`;
+
+interface WorkOrderLinesFieldsProps {
+  value: WorkOrderLine[];
+  onChange: (lines: WorkOrderLine[]) => void;
+  // The vendor's negotiated rate, filled in on new lines
+  labourRate?: number | null;
+}
+
+// The parts and labour on a work order, with the totals they add up to
+export default function WorkOrderLinesFields({ value, onChange, labourRate }: WorkOrderLinesFieldsProps) {
+  const { data: parts } = useQuery<Part[]>({
+    queryKey: ['/api/parts'],
+  });
+
+  const update = (index: number, changes: Partial<WorkOrderLine>) =>
+    onChange(value.map((line, i) => i === index ? { ...line, ...changes } : line));
+
+  // A new line starts with the tax rate of the one before, which is usually the same
+  const addLine = () => onChange([...value, {
+    partId: null,
+    partNumber: null,
+    description: "",
+    quantity: 1,
+    unitCost: 0,
+    labourHours: 0,
+    labourRate: labourRate ?? 0,
+    taxRate: value[value.length - 1]?.taxRate ?? 0,
+  }]);
+
+  const amountInput = (index: number, field: "quantity" | "unitCost" | "labourHours" | "labourRate" | "taxRate", label: string, step: string) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        type="number"
+        min={0}
+        step={step}
+        value={value[index][field]}
+        onChange={(e) => update(index, { [field]: toAmount(e.target.value) })}
+      />
+    </div>
+  );
+
+  // Taking a part from stock fills in its number, name and current cost
+  const selectPart = (index: number, partId: string) => {
+    const part = parts?.find(p => p.id.toString() === partId);
+    update(index, part
+      ? { partId: part.id, partNumber: part.partNumber, description: part.name, unitCost: part.unitCost }
+      : { partId: null });
+  };
+
+  // Inactive parts stay listed on lines that already use them
+  const partOptions = (line: WorkOrderLine) =>
+    (parts || []).filter(part => part.active || part.id === line.partId);
+
+  const totals = workOrderTotals(value);
+
+  return (
+    <div className="space-y-3">
+      {value.map((line, index) => (
+        <div key={index} className="rounded-lg border p-3 space-y-2">
+          <div className="grid grid-cols-[10rem_8rem_1fr_auto] gap-2">
+            <Select value={line.partId?.toString() ?? "none"} onValueChange={(partId) => selectPart(index, partId)}>
+              <SelectTrigger>
+                <SelectValue placeholder="From stock" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not from stock</SelectItem>
+                {partOptions(line).map(part => (
+                  <SelectItem key={part.id} value={part.id.toString()}>
+                    {part.partNumber} ({part.quantityOnHand} on hand)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Part number"
+              value={line.partNumber || ""}
+              disabled={line.partId != null}
+              onChange={(e) => update(index, { partNumber: e.target.value })}
+            />
+            <Input
+              placeholder="Description"
+              value={line.description}
+              onChange={(e) => update(index, { description: e.target.value })}
+            />
+            <Button type="button" variant="ghost" size="icon" onClick={() => onChange(value.filter((_, i) => i !== index))}>
+              <Trash2 className="h-4 w-4 text-destructive" />
+              <span className="sr-only">Remove</span>
+            </Button>
+          </div>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2 items-end">
+            {amountInput(index, "quantity", "Qty", "1")}
+            {amountInput(index, "unitCost", "Unit cost ($)", "0.01")}
+            {amountInput(index, "labourHours", "Labour (h)", "0.1")}
+            {amountInput(index, "labourRate", "Rate ($/h)", "0.01")}
+            {amountInput(index, "taxRate", "Tax (%)", "0.1")}
+            <div className="space-y-1 text-right">
+              <Label className="text-xs text-muted-foreground">Line total</Label>
+              <p className="h-9 leading-9 text-sm font-medium">{formatMoney(workOrderLineTotals(line).total)}</p>
+            </div>
+          </div>
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={value.length >= MAX_WORK_ORDER_LINES}
+          onClick={addLine}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Line
+        </Button>
+        {value.length > 0 && (
+          <div className="flex gap-4 text-sm">
+            <span>Parts <span className="font-medium">{formatMoney(totals.parts)}</span></span>
+            <span>Labour <span className="font-medium">{formatMoney(totals.labour)}</span></span>
+            <span>Tax <span className="font-medium">{formatMoney(totals.tax)}</span></span>
+            <span>Total <span className="font-semibold">{formatMoney(totals.total)}</span></span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { InsertMileageRate, MileageRate, MileageRateTreatment, mileageRateTreatments } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { tripUsageLabels } from "@/components/trips/trip-form";
+import { treatmentLabels } from "./statement-table";
+
+type EffectiveRate = Pick<MileageRate, "usage" | "treatment" | "ratePerKm">;
+
+interface RatesTableProps {
+  rates: EffectiveRate[];
+  canEdit: boolean;
+  onSave: (rate: InsertMileageRate) => void;
+  isSaving: boolean;
+}
+
+function RateRow({ rate, canEdit, onSave, isSaving }: { rate: EffectiveRate } & Omit<RatesTableProps, "rates">) {
+  const [treatment, setTreatment] = useState<MileageRateTreatment>(rate.treatment);
+  const [ratePerKm, setRatePerKm] = useState(rate.ratePerKm.toString());
+
+  useEffect(() => {
+    setTreatment(rate.treatment);
+    setRatePerKm(rate.ratePerKm.toString());
+  }, [rate]);
+
+  const value = parseFloat(ratePerKm);
+  const isValid = !isNaN(value) && value >= 0;
+  const isChanged = treatment !== rate.treatment || value !== rate.ratePerKm;
+
+  if (!canEdit) {
+    return (
+      <TableRow>
+        <TableCell>{tripUsageLabels[rate.usage]}</TableCell>
+        <TableCell>{treatmentLabels[rate.treatment]}</TableCell>
+        <TableCell className="text-right">{rate.ratePerKm.toFixed(2)}</TableCell>
+      </TableRow>
+    );
+  }
+
+  return (
+    <TableRow>
+      <TableCell>{tripUsageLabels[rate.usage]}</TableCell>
+      <TableCell>
+        <Select value={treatment} onValueChange={(v) => setTreatment(v as MileageRateTreatment)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {mileageRateTreatments.map(option => (
+              <SelectItem key={option} value={option}>{treatmentLabels[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell className="text-right">
+        <Input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step="0.01"
+          className="w-28 ml-auto text-right"
+          value={ratePerKm}
+          onChange={(e) => setRatePerKm(e.target.value)}
+        />
+      </TableCell>
+      <TableCell className="text-right">
+        <Button
+          size="sm"
+          onClick={() => onSave({ usage: rate.usage, treatment, ratePerKm: value })}
+          disabled={isSaving || !isValid || !isChanged}
+        >
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function RatesTable({ rates, canEdit, onSave, isSaving }: RatesTableProps) {
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Usage</TableHead>
+              <TableHead>Treatment</TableHead>
+              <TableHead className="text-right">Rate / km</TableHead>
+              {canEdit && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.map(rate => (
+              <RateRow key={rate.usage} rate={rate} canEdit={canEdit} onSave={onSave} isSaving={isSaving} />
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
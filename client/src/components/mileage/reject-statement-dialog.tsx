@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { MileageStatement } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+interface RejectStatementDialogProps {
+  statement: MileageStatement | null;
+  driverName: string;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (statement: MileageStatement, reason: string) => void;
+  isSubmitting: boolean;
+}
+
+// The driver sees the reason, fixes their trips and submits the month again
+export default function RejectStatementDialog({
+  statement,
+  driverName,
+  onOpenChange,
+  onConfirm,
+  isSubmitting
+}: RejectStatementDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (statement) {
+      setReason("");
+    }
+  }, [statement]);
+
+  return (
+    <Dialog open={!!statement} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reject Statement</DialogTitle>
+          <DialogDescription>
+            {statement && `${driverName}, ${statement.month}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-4">
+          <Label htmlFor="reject-statement-reason">Reason</Label>
+          <Textarea
+            id="reject-statement-reason"
+            placeholder="What needs to be corrected?"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={() => statement && onConfirm(statement, reason.trim())}
+            disabled={isSubmitting || !reason.trim()}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Rejecting...
+              </>
+            ) : (
+              'Reject Statement'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
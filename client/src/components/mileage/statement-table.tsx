@@ -0,0 +1,95 @@
+import { MileageStatement, MileageStatementLine, MileageStatementPreview, Vehicle } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import { tripUsageLabels } from "@/components/trips/trip-form";
+
+interface StatementTableProps {
+  statement: MileageStatementPreview;
+  vehicles: Vehicle[];
+}
+
+export const treatmentLabels: Record<MileageStatementLine["treatment"], string> = {
+  reimbursement: "Reimbursement",
+  benefit_in_kind: "Benefit in kind",
+};
+
+export function StatementStatusBadge({ status }: { status: MileageStatement["status"] }) {
+  switch (status) {
+    case 'approved':
+      return <Badge variant="outline" className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">Approved</Badge>;
+    case 'rejected':
+      return <Badge variant="outline" className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">Rejected</Badge>;
+    default:
+      return <Badge variant="outline" className="bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200">Awaiting approval</Badge>;
+  }
+}
+
+export default function StatementTable({ statement, vehicles }: StatementTableProps) {
+  const getVehicleName = (vehicleId: number) => {
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle';
+  };
+
+  if (statement.lines.length === 0) {
+    return (
+      <div className="rounded-lg border p-8 text-center text-muted-foreground">
+        No completed trips in this month.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Vehicle</TableHead>
+              <TableHead>Purpose</TableHead>
+              <TableHead>Usage</TableHead>
+              <TableHead className="text-right">Km</TableHead>
+              <TableHead className="text-right">Rate / km</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {statement.lines.map(line => (
+              <TableRow key={line.tripId}>
+                <TableCell>{format(new Date(line.startTime), 'MMM d, yyyy')}</TableCell>
+                <TableCell>{getVehicleName(line.vehicleId)}</TableCell>
+                <TableCell>{line.purpose || '—'}</TableCell>
+                <TableCell>
+                  <p>{tripUsageLabels[line.usage]}</p>
+                  <p className="text-muted-foreground text-xs">{treatmentLabels[line.treatment]}</p>
+                </TableCell>
+                <TableCell className="text-right">{line.km.toFixed(1)}</TableCell>
+                <TableCell className="text-right">{line.ratePerKm.toFixed(2)}</TableCell>
+                <TableCell className="text-right">{line.amount.toFixed(2)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={4}>Total</TableCell>
+              <TableCell className="text-right">{statement.totalKm.toFixed(1)}</TableCell>
+              <TableCell colSpan={2} className="text-right">
+                <p>Reimbursement {statement.reimbursementTotal.toFixed(2)}</p>
+                <p className="text-muted-foreground text-xs">Benefit in kind {statement.benefitTotal.toFixed(2)}</p>
+              </TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+    </div>
+  );
+}
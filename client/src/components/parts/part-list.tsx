@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { Part } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeftRight, Pencil, Trash2 } from "lucide-react";
+import { partCategoryLabels } from "./part-form";
+
+interface PartListProps {
+  parts: Part[];
+  canDelete: boolean;
+  onEdit: (part: Part) => void;
+  onStock: (part: Part) => void;
+  onDelete: (partId: number) => void;
+}
+
+export default function PartList({ parts, canDelete, onEdit, onStock, onDelete }: PartListProps) {
+  const [partToDelete, setPartToDelete] = useState<Part | null>(null);
+
+  if (parts.length === 0) {
+    return (
+      <div className="rounded-lg border p-8 text-center text-muted-foreground">
+        No parts found. Add the parts your workshop keeps in stock.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-lg border overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Part</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead className="text-right">On Hand</TableHead>
+                <TableHead className="text-right">Reorder At</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead className="text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {parts.map(part => (
+                <TableRow key={part.id} className="hover:bg-muted/50">
+                  <TableCell>
+                    <div className="font-medium">{part.name}</div>
+                    <div className="text-xs text-muted-foreground">{part.partNumber}</div>
+                  </TableCell>
+                  <TableCell>
+                    {partCategoryLabels[part.category]}
+                    {!part.active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                  </TableCell>
+                  <TableCell>{part.location || '—'}</TableCell>
+                  <TableCell className="text-right">
+                    {part.active && part.quantityOnHand <= part.reorderPoint ? (
+                      <Badge variant="destructive">{part.quantityOnHand}</Badge>
+                    ) : (
+                      part.quantityOnHand
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{part.reorderPoint}</TableCell>
+                  <TableCell className="text-right">${part.unitCost.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">${(part.quantityOnHand * part.unitCost).toFixed(2)}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-center space-x-2">
+                      <Button variant="ghost" size="icon" onClick={() => onStock(part)}>
+                        <ArrowLeftRight className="h-4 w-4" />
+                        <span className="sr-only">Stock movements</span>
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => onEdit(part)}>
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit</span>
+                      </Button>
+                      {canDelete && (
+                        <Button variant="ghost" size="icon" onClick={() => setPartToDelete(part)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <AlertDialog open={!!partToDelete} onOpenChange={(open) => !open && setPartToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this part?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only parts that never had any stock movements can be deleted. Mark the others inactive instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (partToDelete) onDelete(partToDelete.id);
+                setPartToDelete(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,210 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Part, PartMovement, PartMovementInput, PartMovementType, partMovementInputSchema } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+
+const movementTypeLabels: Record<PartMovementType, string> = {
+  receipt: "Receipt",
+  consumption: "Used",
+  return: "Returned",
+  adjustment: "Adjustment",
+};
+
+interface PartStockDialogProps {
+  part: Part;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: PartMovementInput) => void;
+  isSubmitting: boolean;
+}
+
+// Records receipts and stock count corrections, and shows the part's movement history
+export default function PartStockDialog({ part, open, onOpenChange, onSubmit, isSubmitting }: PartStockDialogProps) {
+  const { data: movements, isLoading } = useQuery<PartMovement[]>({
+    queryKey: [`/api/parts/${part.id}/movements`],
+    staleTime: 0,
+  });
+
+  const form = useForm<PartMovementInput>({
+    resolver: zodResolver(partMovementInputSchema),
+    defaultValues: {
+      type: "receipt",
+      quantity: 1,
+      unitCost: part.unitCost,
+      reference: "",
+      notes: "",
+    }
+  });
+
+  const type = form.watch("type");
+
+  const handleSubmit = (data: PartMovementInput) => {
+    onSubmit(type === "receipt" ? data : { ...data, unitCost: null });
+    form.reset({ ...form.getValues(), quantity: 1, reference: "", notes: "" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{part.name} ({part.partNumber})</DialogTitle>
+          <DialogDescription>
+            {part.quantityOnHand} on hand at ${part.unitCost.toFixed(2)} each
+            {part.location ? ` · ${part.location}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-start rounded-lg border p-4">
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Movement</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="receipt">Receipt</SelectItem>
+                      <SelectItem value="adjustment">Adjustment</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="quantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Quantity</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="1"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  {type === "adjustment" && <FormDescription>Negative to remove stock.</FormDescription>}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="unitCost"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Unit Cost ($)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      disabled={type !== "receipt"}
+                      {...field}
+                      value={type === "receipt" ? field.value ?? "" : part.unitCost}
+                      onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reference"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reference</FormLabel>
+                  <FormControl>
+                    <Input placeholder={type === "receipt" ? "Invoice no." : "Stock count"} {...field} value={field.value || ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="md:pt-8">
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Record'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        <h3 className="font-semibold mt-2">Movement History</h3>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !movements || movements.length === 0 ? (
+          <div className="rounded-lg border p-6 text-center text-muted-foreground">
+            No stock movements yet.
+          </div>
+        ) : (
+          <div className="rounded-lg border overflow-hidden">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Movement</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Unit Cost</TableHead>
+                    <TableHead>Reference</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {movements.map(movement => (
+                    <TableRow key={movement.id}>
+                      <TableCell>{format(new Date(movement.recordedAt), 'MMM d, yyyy HH:mm')}</TableCell>
+                      <TableCell>{movementTypeLabels[movement.type]}</TableCell>
+                      <TableCell className={`text-right ${movement.quantity < 0 ? 'text-destructive' : ''}`}>
+                        {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                      </TableCell>
+                      <TableCell className="text-right">${movement.unitCost.toFixed(2)}</TableCell>
+                      <TableCell>
+                        {movement.maintenanceId != null ? (
+                          <Link href="/maintenance" className="hover:underline">{movement.reference}</Link>
+                        ) : (
+                          movement.reference || '—'
+                        )}
+                        {movement.notes && <p className="text-xs text-muted-foreground">{movement.notes}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
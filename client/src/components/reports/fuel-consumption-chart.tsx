@@ -18,7 +18,7 @@ const CustomTooltip = ({ active, payload, label }: TooltipProps<ValueType, NameT
         <p className="font-medium">{`${label}`}</p>
         {payload.map((entry, index) => (
           <p key={`item-${index}`} style={{ color: entry.color }}>
-            {`${entry.name}: ${entry.value} gallons`}
+            {`${entry.name}: ${entry.value} L`}
           </p>
         ))}
       </div>
@@ -63,7 +63,7 @@ export default function FuelConsumptionChart({ data }: FuelConsumptionChartProps
       >
         <CartesianGrid strokeDasharray="3 3" opacity={0.1} />
         <XAxis dataKey="month" />
-        <YAxis name="Gallons" unit=" gal" />
+        <YAxis name="Litres" unit=" L" />
         <Tooltip content={<CustomTooltip />} />
         <Legend />
         {uniqueVehicles.map((vehicle, index) => (
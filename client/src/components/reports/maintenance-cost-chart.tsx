@@ -2,9 +2,11 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsive
 import { NameType, ValueType } from 'recharts/types/component/DefaultTooltipContent';
 
 interface MaintenanceData {
-  vehicle: string;
-  cost: number;
   month: string;
+  parts: number;
+  labour: number;
+  tax: number;
+  unitemised: number;
 }
 
 interface MaintenanceCostChartProps {
@@ -18,7 +20,7 @@ const CustomTooltip = ({ active, payload, label }: TooltipProps<ValueType, NameT
         <p className="font-medium">{`${label}`}</p>
         {payload.map((entry, index) => (
           <p key={`item-${index}`} style={{ color: entry.color }}>
-            {`${entry.name}: $${entry.value}`}
+            {`${entry.name}: $${Number(entry.value).toFixed(2)}`}
           </p>
         ))}
       </div>
@@ -28,28 +30,30 @@ const CustomTooltip = ({ active, payload, label }: TooltipProps<ValueType, NameT
   return null;
 };
 
+// Each month's spend stacked by what it went on
+const costSeries = [
+  { key: 'parts', name: 'Parts', color: '#0088FE' },
+  { key: 'labour', name: 'Labour', color: '#00C49F' },
+  { key: 'tax', name: 'Tax', color: '#FFBB28' },
+  { key: 'unitemised', name: 'Unitemised', color: '#8884D8' },
+] as const;
+
 export default function MaintenanceCostChart({ data }: MaintenanceCostChartProps) {
   // Process data to group by month
-  const processedData = data.reduce((acc: any[], curr: MaintenanceData) => {
-    const existingMonthIndex = acc.findIndex(item => item.month === curr.month);
+  const processedData = data.reduce((acc: MaintenanceData[], curr: MaintenanceData) => {
+    const existing = acc.find(item => item.month === curr.month);
     
-    if (existingMonthIndex >= 0) {
-      acc[existingMonthIndex][curr.vehicle] = curr.cost;
+    if (existing) {
+      for (const series of costSeries) {
+        existing[series.key] += curr[series.key];
+      }
     } else {
-      const newItem: any = { month: curr.month };
-      newItem[curr.vehicle] = curr.cost;
-      acc.push(newItem);
+      acc.push({ ...curr });
     }
     
     return acc;
   }, []);
 
-  // Get unique vehicles for bars
-  const uniqueVehicles = Array.from(new Set(data.map(item => item.vehicle)));
-
-  // Generate colors for each vehicle
-  const colors = ['#FF8042', '#8884D8', '#0088FE', '#00C49F', '#FFBB28'];
-
   return (
     <ResponsiveContainer width="100%" height="100%">
       <BarChart
@@ -64,15 +68,15 @@ export default function MaintenanceCostChart({ data }: MaintenanceCostChartProps
         <CartesianGrid strokeDasharray="3 3" opacity={0.1} />
         <XAxis dataKey="month" />
         <YAxis name="Cost" unit="$" />
-        <Tooltip content={<CustomTooltip />} formatter={(value) => [`$${value}`, 'Cost']} />
+        <Tooltip content={<CustomTooltip />} />
         <Legend />
-        {uniqueVehicles.map((vehicle, index) => (
+        {costSeries.map(series => (
           <Bar 
-            key={vehicle}
-            dataKey={vehicle} 
-            name={vehicle}
-            fill={colors[index % colors.length]}
-            radius={[4, 4, 0, 0]}
+            key={series.key}
+            dataKey={series.key} 
+            name={series.name}
+            stackId="cost"
+            fill={series.color}
           />
         ))}
       </BarChart>
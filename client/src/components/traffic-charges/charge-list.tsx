@@ -0,0 +1,134 @@
+import { TrafficCharge, TrafficChargeKind, TrafficChargeStatus, User } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Trash2, UserCheck } from "lucide-react";
+import { format } from "date-fns";
+
+export const chargeKindLabels: Record<TrafficChargeKind, string> = {
+  fine: "Fine",
+  toll: "Toll",
+};
+
+const matchedByLabels: Record<NonNullable<TrafficCharge["matchedBy"]>, string> = {
+  trip: "Matched to trip",
+  booking: "Matched to booking",
+  manual: "Assigned by hand",
+};
+
+interface ChargeListProps {
+  charges: TrafficCharge[];
+  users: User[];
+  canResolve: boolean;
+  canDelete: boolean;
+  onResolve: (charge: TrafficCharge) => void;
+  onDelete: (id: number) => void;
+  emptyMessage?: string;
+}
+
+export function ChargeStatusBadge({ status }: { status: TrafficChargeStatus }) {
+  switch (status) {
+    case 'matched':
+      return <Badge variant="outline" className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">Assigned</Badge>;
+    case 'dismissed':
+      return <Badge variant="outline" className="bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200">Dismissed</Badge>;
+    default:
+      return <Badge variant="outline" className="bg-amber-100 dark:bg-amber-900 text-amber-800 dark:text-amber-200">Needs review</Badge>;
+  }
+}
+
+export default function ChargeList({
+  charges,
+  users,
+  canResolve,
+  canDelete,
+  onResolve,
+  onDelete,
+  emptyMessage = "No fines or tolls have been recorded."
+}: ChargeListProps) {
+  const getUserName = (userId: number | null) => {
+    if (userId == null) return '—';
+    return users.find(u => u.id === userId)?.name ?? `User #${userId}`;
+  };
+
+  if (charges.length === 0) {
+    return (
+      <div className="rounded-lg border p-8 text-center text-muted-foreground">
+        {emptyMessage}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Charge</TableHead>
+              <TableHead>Registration</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Driver</TableHead>
+              <TableHead>Status</TableHead>
+              {(canResolve || canDelete) && <TableHead className="text-center">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {charges.map((charge) => (
+              <TableRow key={charge.id} className="hover:bg-muted/50">
+                <TableCell>{format(new Date(charge.occurredAt), 'MMM d, yyyy h:mm a')}</TableCell>
+                <TableCell>
+                  <p>{chargeKindLabels[charge.kind]}{charge.reference && ` ${charge.reference}`}</p>
+                  {charge.description && <p className="text-muted-foreground text-xs">{charge.description}</p>}
+                  {charge.location && <p className="text-muted-foreground text-xs">{charge.location}</p>}
+                </TableCell>
+                <TableCell>{charge.registrationNumber}</TableCell>
+                <TableCell className="text-right">{charge.amount.toFixed(2)}</TableCell>
+                <TableCell>
+                  <p>{getUserName(charge.driverId)}</p>
+                  {charge.matchedBy && (
+                    <p className="text-muted-foreground text-xs">
+                      {matchedByLabels[charge.matchedBy]}
+                      {charge.tripId && ` #${charge.tripId}`}
+                      {!charge.tripId && charge.bookingId && ` #${charge.bookingId}`}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <ChargeStatusBadge status={charge.status} />
+                  {charge.matchNote && <p className="mt-1 text-muted-foreground text-xs">{charge.matchNote}</p>}
+                </TableCell>
+                {(canResolve || canDelete) && (
+                  <TableCell>
+                    <div className="flex justify-center gap-1">
+                      {canResolve && (
+                        <Button variant="ghost" size="icon" onClick={() => onResolve(charge)}>
+                          <UserCheck className="h-4 w-4" />
+                          <span className="sr-only">Assign or dismiss</span>
+                        </Button>
+                      )}
+                      {canDelete && (
+                        <Button variant="ghost" size="icon" onClick={() => onDelete(charge.id)}>
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { DriverChargesSummary, User } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+
+interface ChargesReportProps {
+  summaries: DriverChargesSummary[];
+  users: User[];
+}
+
+export default function ChargesReport({ summaries, users }: ChargesReportProps) {
+  const getUserName = (userId: number) => users.find(u => u.id === userId)?.name ?? `User #${userId}`;
+
+  if (summaries.length === 0) {
+    return (
+      <div className="rounded-lg border p-8 text-center text-muted-foreground">
+        No fines or tolls have been assigned in this period.
+      </div>
+    );
+  }
+
+  const total = (key: keyof Omit<DriverChargesSummary, "driverId">) => summaries.reduce((sum, summary) => sum + summary[key], 0);
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Driver</TableHead>
+              <TableHead className="text-right">Fines</TableHead>
+              <TableHead className="text-right">Fine Total</TableHead>
+              <TableHead className="text-right">Tolls</TableHead>
+              <TableHead className="text-right">Toll Total</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summaries.map(summary => (
+              <TableRow key={summary.driverId}>
+                <TableCell>{getUserName(summary.driverId)}</TableCell>
+                <TableCell className="text-right">{summary.fineCount}</TableCell>
+                <TableCell className="text-right">{summary.fineTotal.toFixed(2)}</TableCell>
+                <TableCell className="text-right">{summary.tollCount}</TableCell>
+                <TableCell className="text-right">{summary.tollTotal.toFixed(2)}</TableCell>
+                <TableCell className="text-right font-medium">{summary.total.toFixed(2)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>Total</TableCell>
+              <TableCell className="text-right">{total("fineCount")}</TableCell>
+              <TableCell className="text-right">{total("fineTotal").toFixed(2)}</TableCell>
+              <TableCell className="text-right">{total("tollCount")}</TableCell>
+              <TableCell className="text-right">{total("tollTotal").toFixed(2)}</TableCell>
+              <TableCell className="text-right">{total("total").toFixed(2)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+    </div>
+  );
+}
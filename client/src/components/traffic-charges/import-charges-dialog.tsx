@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { TrafficChargeImportResult, TrafficChargeKind, trafficChargeKinds } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { chargeKindLabels } from "./charge-list";
+
+interface ImportChargesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (data: { csv: string, kind?: TrafficChargeKind }) => void;
+  isImporting: boolean;
+  result: TrafficChargeImportResult | null;
+}
+
+export default function ImportChargesDialog({
+  open,
+  onOpenChange,
+  onImport,
+  isImporting,
+  result
+}: ImportChargesDialogProps) {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [kind, setKind] = useState("file");
+
+  useEffect(() => {
+    if (open) {
+      setCsv(null);
+      setFileName("");
+      setKind("file");
+    }
+  }, [open]);
+
+  const handleFile = async (file: File | undefined) => {
+    setFileName(file?.name ?? "");
+    setCsv(file ? await file.text() : null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Fines and Tolls</DialogTitle>
+          <DialogDescription>
+            A CSV file with a header row and columns for the registration number, date and time, and amount.
+            Kind, reference, location and description columns are read when present.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-3 py-2 text-sm">
+            <p>
+              {result.created.length} charge(s) imported, {result.created.filter(charge => charge.status === 'matched').length} assigned
+              to a driver and {result.created.filter(charge => charge.status === 'unmatched').length} left for review.
+            </p>
+            {result.duplicates > 0 && (
+              <p className="text-muted-foreground">{result.duplicates} charge(s) had already been imported and were skipped.</p>
+            )}
+            {result.errors.length > 0 && (
+              <div className="rounded-lg border p-3 space-y-1">
+                <p className="font-medium">Rows not imported</p>
+                {result.errors.map((error, index) => (
+                  <p key={index} className="text-muted-foreground">Line {error.line}: {error.message}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="import-charges-file">File</Label>
+              <Input
+                id="import-charges-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              {fileName && <p className="text-xs text-muted-foreground">{fileName}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Kind</Label>
+              <Select value={kind} onValueChange={setKind}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="file">From the kind column</SelectItem>
+                  {trafficChargeKinds.map(option => (
+                    <SelectItem key={option} value={option}>All rows are {chargeKindLabels[option].toLowerCase()}s</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            {result ? 'Close' : 'Cancel'}
+          </Button>
+          {!result && (
+            <Button
+              type="button"
+              onClick={() => csv && onImport({ csv, kind: kind === 'file' ? undefined : kind as TrafficChargeKind })}
+              disabled={isImporting || !csv}
+            >
+              {isImporting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                'Import'
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { TrafficCharge, TrafficChargeResolution, User } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { chargeKindLabels } from "./charge-list";
+
+interface ResolveChargeDialogProps {
+  charge: TrafficCharge | null;
+  users: User[];
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (charge: TrafficCharge, resolution: TrafficChargeResolution) => void;
+  isSubmitting: boolean;
+}
+
+// Assigns a charge the matching could not place, or dismisses one issued in error
+export default function ResolveChargeDialog({
+  charge,
+  users,
+  onOpenChange,
+  onConfirm,
+  isSubmitting
+}: ResolveChargeDialogProps) {
+  const [action, setAction] = useState<TrafficChargeResolution["action"]>("assign");
+  const [driverId, setDriverId] = useState("");
+  const [tripId, setTripId] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (charge) {
+      setAction("assign");
+      setDriverId(charge.driverId ? charge.driverId.toString() : "");
+      setTripId(charge.tripId ? charge.tripId.toString() : "");
+      setReason("");
+    }
+  }, [charge]);
+
+  const resolution: TrafficChargeResolution | null = action === "assign"
+    ? (driverId ? { action, driverId: parseInt(driverId), tripId: tripId ? parseInt(tripId) : null } : null)
+    : (reason.trim() ? { action, reason: reason.trim() } : null);
+
+  return (
+    <Dialog open={!!charge} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resolve Charge</DialogTitle>
+          <DialogDescription>
+            {charge && `${chargeKindLabels[charge.kind]} of ${charge.amount.toFixed(2)} for ${charge.registrationNumber} on ${format(new Date(charge.occurredAt), 'MMM d, yyyy h:mm a')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <RadioGroup value={action} onValueChange={(value) => setAction(value as TrafficChargeResolution["action"])} className="flex gap-6">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="assign" id="resolve-charge-assign" />
+              <Label htmlFor="resolve-charge-assign">Assign to a driver</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="dismiss" id="resolve-charge-dismiss" />
+              <Label htmlFor="resolve-charge-dismiss">Dismiss</Label>
+            </div>
+          </RadioGroup>
+
+          {action === "assign" ? (
+            <>
+              <div className="space-y-2">
+                <Label>Driver</Label>
+                <Select value={driverId} onValueChange={setDriverId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a driver" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map(user => (
+                      <SelectItem key={user.id} value={user.id.toString()}>{user.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="resolve-charge-trip">Trip number (optional)</Label>
+                <Input
+                  id="resolve-charge-trip"
+                  type="number"
+                  min={1}
+                  value={tripId}
+                  onChange={(e) => setTripId(e.target.value)}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="resolve-charge-reason">Reason</Label>
+              <Textarea
+                id="resolve-charge-reason"
+                placeholder="e.g. Not one of our vehicles"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant={action === "dismiss" ? "destructive" : "default"}
+            onClick={() => charge && resolution && onConfirm(charge, resolution)}
+            disabled={isSubmitting || !resolution}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : action === "dismiss" ? (
+              'Dismiss Charge'
+            ) : (
+              'Assign Charge'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { TripUsage, Vehicle, tripUsages } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { tripUsageLabels } from "./trip-form";
+
+interface DriverStartDialogProps {
+  vehicle: Vehicle | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (vehicle: Vehicle, startOdometer: number, purpose: string | null, usage: TripUsage) => void;
+  isSubmitting: boolean;
+}
+
+// Starting a trip on a vehicle assigned to the driver; booked vehicles use the booking's start dialog
+export default function DriverStartDialog({
+  vehicle,
+  onOpenChange,
+  onConfirm,
+  isSubmitting
+}: DriverStartDialogProps) {
+  const [startOdometer, setStartOdometer] = useState("");
+  const [purpose, setPurpose] = useState("");
+  const [usage, setUsage] = useState<TripUsage>("business");
+
+  // Prefill the odometer with the vehicle's last known mileage
+  useEffect(() => {
+    if (vehicle) {
+      setStartOdometer(vehicle.mileage.toString());
+      setPurpose("");
+      setUsage("business");
+    }
+  }, [vehicle]);
+
+  const odometerValue = parseInt(startOdometer);
+  const odometerIsValid = !!vehicle && !isNaN(odometerValue) && odometerValue >= vehicle.mileage;
+
+  return (
+    <Dialog open={!!vehicle} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Start Trip</DialogTitle>
+          <DialogDescription>
+            {vehicle && `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="driver-start-odometer">Start Odometer (miles)</Label>
+            <Input
+              id="driver-start-odometer"
+              type="number"
+              inputMode="numeric"
+              min={vehicle?.mileage ?? 0}
+              value={startOdometer}
+              onChange={(e) => setStartOdometer(e.target.value)}
+            />
+            {vehicle && !isNaN(odometerValue) && odometerValue < vehicle.mileage && (
+              <p className="text-sm text-destructive">
+                Cannot be less than the vehicle's current mileage ({vehicle.mileage.toLocaleString()} miles)
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="driver-start-purpose">Purpose</Label>
+            <Textarea
+              id="driver-start-purpose"
+              placeholder="Where are you going?"
+              value={purpose}
+              onChange={(e) => setPurpose(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Usage</Label>
+            <Select value={usage} onValueChange={(value) => setUsage(value as TripUsage)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {tripUsages.map(option => (
+                  <SelectItem key={option} value={option}>{tripUsageLabels[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => vehicle && onConfirm(vehicle, odometerValue, purpose.trim() || null, usage)}
+            disabled={isSubmitting || !odometerIsValid}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Starting...
+              </>
+            ) : (
+              'Start Trip'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
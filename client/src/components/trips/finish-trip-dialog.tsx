@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { Trip, Vehicle } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+export interface FinishTripDetails {
+  endOdometer: number;
+  fuelConsumed: number | null;
+  notes: string | null;
+}
+
+interface FinishTripDialogProps {
+  trip: Trip | null;
+  vehicle?: Vehicle;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (trip: Trip, details: FinishTripDetails) => void;
+  isSubmitting: boolean;
+}
+
+export default function FinishTripDialog({
+  trip,
+  vehicle,
+  onOpenChange,
+  onConfirm,
+  isSubmitting
+}: FinishTripDialogProps) {
+  const [endOdometer, setEndOdometer] = useState("");
+  const [fuelConsumed, setFuelConsumed] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (trip) {
+      setEndOdometer(trip.startOdometer.toString());
+      setFuelConsumed("");
+      setNotes(trip.notes || "");
+    }
+  }, [trip]);
+
+  const odometerValue = parseInt(endOdometer);
+  const fuelValue = fuelConsumed === "" ? null : parseFloat(fuelConsumed);
+  const odometerIsValid = !!trip && !isNaN(odometerValue) && odometerValue >= trip.startOdometer;
+  const fuelIsValid = fuelValue === null || (!isNaN(fuelValue) && fuelValue >= 0);
+
+  return (
+    <Dialog open={!!trip} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Finish Trip</DialogTitle>
+          <DialogDescription>
+            {vehicle
+              ? `Record the return of ${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber}).`
+              : 'Record the vehicle return.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="finish-end-odometer">End Odometer (miles)</Label>
+            <Input
+              id="finish-end-odometer"
+              type="number"
+              inputMode="numeric"
+              min={trip?.startOdometer ?? 0}
+              value={endOdometer}
+              onChange={(e) => setEndOdometer(e.target.value)}
+            />
+            {trip && !isNaN(odometerValue) && odometerValue < trip.startOdometer && (
+              <p className="text-sm text-destructive">
+                Cannot be less than the starting odometer ({trip.startOdometer.toLocaleString()} miles)
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="finish-fuel">Fuel Used (gallons)</Label>
+            <Input
+              id="finish-fuel"
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="0.1"
+              placeholder="Optional"
+              value={fuelConsumed}
+              onChange={(e) => setFuelConsumed(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="finish-notes">Notes</Label>
+            <Textarea
+              id="finish-notes"
+              placeholder="Anything the next driver or the fleet manager should know"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => trip && onConfirm(trip, { endOdometer: odometerValue, fuelConsumed: fuelValue, notes: notes.trim() || null })}
+            disabled={isSubmitting || !odometerIsValid || !fuelIsValid}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Finishing...
+              </>
+            ) : (
+              'Finish Trip'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
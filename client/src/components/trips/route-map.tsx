@@ -0,0 +1,67 @@
+import { TrackPoint } from "@shared/schema";
+
+interface RouteMapProps {
+  points: TrackPoint[];
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = 16;
+
+// Draws the track as plain SVG so no map tiles or external services are needed.
+// Longitude is scaled by the cosine of the mean latitude to keep the shape undistorted.
+export default function RouteMap({ points, height = 320 }: RouteMapProps) {
+  if (points.length < 2) return null;
+
+  const meanLat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+  const lonScale = Math.cos(meanLat * Math.PI / 180);
+  const projected = points.map(p => ({ x: p.lon * lonScale, y: -p.lat }));
+
+  // Long tracks have too many points to spread into Math.min / Math.max
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (const p of projected) {
+    minX = Math.min(minX, p.x);
+    maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y);
+    maxY = Math.max(maxY, p.y);
+  }
+  const spanX = maxX - minX || 1e-6;
+  const spanY = maxY - minY || 1e-6;
+
+  // Fit the track into the box while keeping its aspect ratio, centered
+  const scale = Math.min((WIDTH - 2 * PADDING) / spanX, (height - 2 * PADDING) / spanY);
+  const offsetX = (WIDTH - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+  const toSvg = (p: { x: number; y: number }) => ({
+    x: offsetX + (p.x - minX) * scale,
+    y: offsetY + (p.y - minY) * scale,
+  });
+
+  const path = projected.map(toSvg).map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(" ");
+  const start = toSvg(projected[0]);
+  const end = toSvg(projected[projected.length - 1]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-full rounded-md border bg-muted/30"
+      role="img"
+      aria-label="Trip route"
+    >
+      <polyline
+        points={path}
+        fill="none"
+        className="stroke-primary"
+        strokeWidth={3}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      <circle cx={start.x} cy={start.y} r={6} className="fill-green-500 stroke-background" strokeWidth={2}>
+        <title>Start</title>
+      </circle>
+      <circle cx={end.x} cy={end.y} r={6} className="fill-red-500 stroke-background" strokeWidth={2}>
+        <title>End</title>
+      </circle>
+    </svg>
+  );
+}
@@ -1,7 +1,7 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertTripSchema, Trip, Vehicle, User } from "@shared/schema";
+import { insertTripSchema, Trip, TripUsage, Vehicle, User, tripUsages } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -9,6 +9,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Loader2 } from "lucide-react";
+import { CargoFields, PassengersFields, StopsFields } from "./trip-manifest-fields";
+
+export const tripUsageLabels: Record<TripUsage, string> = {
+  business: "Business",
+  commute: "Commute",
+  private: "Private",
+};
 
 interface TripFormProps {
   open: boolean;
@@ -49,6 +56,10 @@ export default function TripForm({
       startOdometer: defaultValues?.startOdometer || 0,
       purpose: defaultValues?.purpose || "",
       status: defaultValues?.status || "planned",
+      usage: defaultValues?.usage || "business",
+      stops: defaultValues?.stops ?? [],
+      passengers: defaultValues?.passengers ?? [],
+      cargo: defaultValues?.cargo ?? [],
     }
   });
 
@@ -83,7 +94,7 @@ export default function TripForm({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-h-[90vh] overflow-y-auto">
+      <DialogContent className="max-h-[90vh] overflow-y-auto max-w-2xl">
         <DialogHeader>
           <DialogTitle>{mode === 'add' ? 'Start New Trip' : 'Edit Trip'}</DialogTitle>
           <DialogDescription>
@@ -225,6 +236,65 @@ export default function TripForm({
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="usage"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Usage</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select usage" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {tripUsages.map(usage => (
+                        <SelectItem key={usage} value={usage}>{tripUsageLabels[usage]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="stops"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Stops</FormLabel>
+                  <StopsFields value={field.value ?? []} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="passengers"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Passengers</FormLabel>
+                  <PassengersFields value={field.value ?? []} onChange={field.onChange} users={users} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="cargo"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cargo Manifest</FormLabel>
+                  <CargoFields value={field.value ?? []} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             <FormField
               control={form.control}
               name="status"
@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { User, Vehicle, tripSortFields } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Search, X } from "lucide-react";
+
+// Filters as they appear in the page URL; an empty string means the filter is off
+export type TripHistoryFilters = {
+  from: string;
+  to: string;
+  vehicleId: string;
+  driverId: string;
+  status: string;
+  purpose: string;
+  sort: typeof tripSortFields[number];
+  direction: "asc" | "desc";
+  page: number;
+};
+
+const filterKeys = ["from", "to", "vehicleId", "driverId", "status", "purpose"] as const;
+
+export const tripSortLabels: Record<typeof tripSortFields[number], string> = {
+  startTime: "Start time",
+  endTime: "End time",
+  status: "Status",
+  startOdometer: "Start odometer",
+};
+
+export function readTripHistoryFilters(params: URLSearchParams): TripHistoryFilters {
+  const sort = tripSortFields.find(field => field === params.get("sort")) ?? "startTime";
+  const page = parseInt(params.get("page") || "1");
+  return {
+    from: params.get("from") || "",
+    to: params.get("to") || "",
+    vehicleId: params.get("vehicleId") || "",
+    driverId: params.get("driverId") || "",
+    status: params.get("status") || "",
+    purpose: params.get("purpose") || "",
+    sort,
+    direction: params.get("direction") === "asc" ? "asc" : "desc",
+    page: page > 0 ? page : 1,
+  };
+}
+
+// Writes the filters back to the URL, leaving out the ones at their defaults
+export function writeTripHistoryFilters(params: URLSearchParams, filters: TripHistoryFilters): void {
+  for (const key of filterKeys) {
+    if (filters[key]) params.set(key, filters[key]);
+    else params.delete(key);
+  }
+  if (filters.sort !== "startTime") params.set("sort", filters.sort);
+  else params.delete("sort");
+  if (filters.direction !== "desc") params.set("direction", filters.direction);
+  else params.delete("direction");
+  if (filters.page > 1) params.set("page", filters.page.toString());
+  else params.delete("page");
+}
+
+// The dates in the URL are whole local days, and the "to" day is included
+export function tripHistoryEndpoint(filters: TripHistoryFilters, pageSize: number): string {
+  const params = new URLSearchParams();
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00`).toISOString());
+  if (filters.to) {
+    const to = new Date(`${filters.to}T00:00`);
+    to.setDate(to.getDate() + 1);
+    params.set("to", to.toISOString());
+  }
+  if (filters.vehicleId) params.set("vehicleId", filters.vehicleId);
+  if (filters.driverId) params.set("driverId", filters.driverId);
+  if (filters.status) params.set("status", filters.status);
+  if (filters.purpose) params.set("purpose", filters.purpose);
+  params.set("sort", filters.sort);
+  params.set("direction", filters.direction);
+  params.set("page", filters.page.toString());
+  params.set("pageSize", pageSize.toString());
+  return `/api/trips?${params}`;
+}
+
+export const hasTripHistoryFilters = (filters: TripHistoryFilters) => filterKeys.some(key => filters[key]);
+
+interface TripHistoryFiltersBarProps {
+  filters: TripHistoryFilters;
+  onChange: (filters: TripHistoryFilters) => void;
+  vehicles: Vehicle[];
+  users: User[];
+  showDriver: boolean;
+}
+
+export default function TripHistoryFiltersBar({ filters, onChange, vehicles, users, showDriver }: TripHistoryFiltersBarProps) {
+  // The purpose text is only searched for once it is submitted, not on every keystroke
+  const [purpose, setPurpose] = useState(filters.purpose);
+  useEffect(() => setPurpose(filters.purpose), [filters.purpose]);
+
+  // Any change of filter starts again from the first page
+  const update = (changes: Partial<TripHistoryFilters>) => onChange({ ...filters, ...changes, page: 1 });
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div className="space-y-1">
+        <Label htmlFor="trip-history-from" className="text-xs text-muted-foreground">From</Label>
+        <Input id="trip-history-from" type="date" className="w-40" value={filters.from} onChange={(e) => update({ from: e.target.value })} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="trip-history-to" className="text-xs text-muted-foreground">To</Label>
+        <Input id="trip-history-to" type="date" className="w-40" value={filters.to} onChange={(e) => update({ to: e.target.value })} />
+      </div>
+      <Select value={filters.vehicleId || "all"} onValueChange={(value) => update({ vehicleId: value === "all" ? "" : value })}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Vehicle" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Vehicles</SelectItem>
+          {vehicles.map(vehicle => (
+            <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+              {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {showDriver && (
+        <Select value={filters.driverId || "all"} onValueChange={(value) => update({ driverId: value === "all" ? "" : value })}>
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Driver" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Drivers</SelectItem>
+            {users.map(user => (
+              <SelectItem key={user.id} value={user.id.toString()}>{user.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Select value={filters.status || "all"} onValueChange={(value) => update({ status: value === "all" ? "" : value })}>
+        <SelectTrigger className="w-40">
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Statuses</SelectItem>
+          <SelectItem value="planned">Planned</SelectItem>
+          <SelectItem value="in_progress">In Progress</SelectItem>
+          <SelectItem value="completed">Completed</SelectItem>
+          <SelectItem value="cancelled">Cancelled</SelectItem>
+        </SelectContent>
+      </Select>
+      <form
+        className="relative w-56"
+        onSubmit={(e) => {
+          e.preventDefault();
+          update({ purpose: purpose.trim() });
+        }}
+      >
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Purpose contains..."
+          className="pl-9"
+          value={purpose}
+          onChange={(e) => setPurpose(e.target.value)}
+          onBlur={() => purpose.trim() !== filters.purpose && update({ purpose: purpose.trim() })}
+        />
+      </form>
+      <div className="flex gap-1">
+        <Select value={filters.sort} onValueChange={(value) => update({ sort: value as TripHistoryFilters["sort"] })}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {tripSortFields.map(field => (
+              <SelectItem key={field} value={field}>{tripSortLabels[field]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => update({ direction: filters.direction === "asc" ? "desc" : "asc" })}
+        >
+          {filters.direction === "asc" ? <ArrowUpNarrowWide className="h-4 w-4" /> : <ArrowDownWideNarrow className="h-4 w-4" />}
+          <span className="sr-only">{filters.direction === "asc" ? "Ascending" : "Descending"}</span>
+        </Button>
+      </div>
+      {hasTripHistoryFilters(filters) && (
+        <Button
+          variant="ghost"
+          onClick={() => onChange({ ...filters, from: "", to: "", vehicleId: "", driverId: "", status: "", purpose: "", page: 1 })}
+        >
+          <X className="mr-2 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
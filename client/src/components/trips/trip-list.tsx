@@ -36,12 +36,15 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Pencil, Trash2, CheckCircle, Route } from "lucide-react";
+import { Pencil, Trash2, CheckCircle, Route, MapPinned, Printer } from "lucide-react";
 import { useState } from "react";
+import { tripUsageLabels } from "./trip-form";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { format } from "date-fns";
 import { Label } from "@/components/ui/label";
+import TripRouteDialog from "./trip-route-dialog";
+import { formatDuration, tripDurationMinutes } from "@shared/trip-stops";
 
 interface TripListProps {
   trips: Trip[];
@@ -54,6 +57,7 @@ interface TripListProps {
   onEdit: (trip: Trip) => void;
   onDelete: (tripId: number) => void;
   onComplete: (trip: Trip, endOdometer: number, fuelConsumed: number) => void;
+  onResetFilters?: () => void;
 }
 
 export default function TripList({
@@ -66,7 +70,8 @@ export default function TripList({
   onPageChange,
   onEdit,
   onDelete,
-  onComplete
+  onComplete,
+  onResetFilters
 }: TripListProps) {
   const [deleteAlert, setDeleteAlert] = useState(false);
   const [tripToDelete, setTripToDelete] = useState<number | null>(null);
@@ -74,6 +79,7 @@ export default function TripList({
   const [tripToComplete, setTripToComplete] = useState<Trip | null>(null);
   const [endOdometer, setEndOdometer] = useState(0);
   const [fuelConsumed, setFuelConsumed] = useState(0);
+  const [routeTrip, setRouteTrip] = useState<Trip | null>(null);
 
   const totalPages = Math.ceil(totalCount / pageSize);
   const showingFrom = totalCount === 0 ? 0 : (currentPage - 1) * pageSize + 1;
@@ -118,6 +124,23 @@ export default function TripList({
     return driver ? driver.name : 'Unknown Driver';
   };
 
+  // Trips still under way show the time to the latest stop reached so far
+  const renderDuration = (trip: Trip) => {
+    const minutes = tripDurationMinutes(trip);
+    const reached = trip.stops.filter(stop => stop.actualArrival).length;
+    return (
+      <>
+        <p>{minutes === null ? '—' : formatDuration(minutes)}</p>
+        {trip.stops.length > 0 && (
+          <p className="text-muted-foreground text-xs">{reached}/{trip.stops.length} stops reached</p>
+        )}
+        {trip.passengers.length > 0 && (
+          <p className="text-muted-foreground text-xs">{trip.passengers.length} passenger{trip.passengers.length === 1 ? '' : 's'}</p>
+        )}
+      </>
+    );
+  };
+
   const renderStatus = (status: string) => {
     switch (status) {
       case 'planned':
@@ -224,7 +247,7 @@ export default function TripList({
             <Route className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
             <h3 className="text-lg font-medium mb-2">No trips found</h3>
             <p className="text-muted-foreground mb-4">No trips are currently logged or match your search criteria.</p>
-            <Button onClick={() => onPageChange(1)}>Reset filters</Button>
+            <Button onClick={() => onResetFilters ? onResetFilters() : onPageChange(1)}>Reset filters</Button>
           </CardContent>
         </Card>
       ) : (
@@ -236,6 +259,7 @@ export default function TripList({
                   <TableHead>Vehicle</TableHead>
                   <TableHead>Driver</TableHead>
                   <TableHead>Start Time</TableHead>
+                  <TableHead>Duration</TableHead>
                   <TableHead>Purpose</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead className="text-center">Actions</TableHead>
@@ -247,7 +271,11 @@ export default function TripList({
                     <TableCell>{getVehicleInfo(trip.vehicleId)}</TableCell>
                     <TableCell>{getDriverInfo(trip.driverId)}</TableCell>
                     <TableCell>{format(new Date(trip.startTime), 'MMM d, yyyy h:mm a')}</TableCell>
-                    <TableCell>{trip.purpose || '—'}</TableCell>
+                    <TableCell>{renderDuration(trip)}</TableCell>
+                    <TableCell>
+                      <p>{trip.purpose || '—'}</p>
+                      <p className="text-muted-foreground text-xs">{tripUsageLabels[trip.usage]}</p>
+                    </TableCell>
                     <TableCell>{renderStatus(trip.status)}</TableCell>
                     <TableCell>
                       <div className="flex justify-center space-x-2">
@@ -260,6 +288,20 @@ export default function TripList({
                           <Pencil className="h-4 w-4" />
                           <span className="sr-only">Edit</span>
                         </Button>
+                        <Button 
+                          variant="ghost" 
+                          size="icon" 
+                          onClick={() => setRouteTrip(trip)}
+                        >
+                          <MapPinned className="h-4 w-4" />
+                          <span className="sr-only">Route</span>
+                        </Button>
+                        <Button variant="ghost" size="icon" asChild>
+                          <a href={`/trips/${trip.id}/sheet`} target="_blank" rel="noreferrer">
+                            <Printer className="h-4 w-4" />
+                            <span className="sr-only">Trip sheet</span>
+                          </a>
+                        </Button>
                         {trip.status === 'in_progress' && (
                           <Button 
                             variant="ghost" 
@@ -314,6 +356,11 @@ export default function TripList({
         </AlertDialogContent>
       </AlertDialog>
       
+      <TripRouteDialog
+        trip={routeTrip}
+        onOpenChange={(open) => !open && setRouteTrip(null)}
+      />
+      
       <Dialog open={completeDialog} onOpenChange={setCompleteDialog}>
         <DialogContent>
           <DialogHeader>
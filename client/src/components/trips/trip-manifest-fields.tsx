@@ -0,0 +1,217 @@
+import { CargoItem, TripPassenger, TripStop, User, MAX_CARGO_ITEMS, MAX_TRIP_PASSENGERS, MAX_TRIP_STOPS } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Clock, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+// Stop times are stored as ISO timestamps but edited in local time
+function toLocalInput(value: string | null | undefined): string {
+  return value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function replaceAt<T>(list: T[], index: number, item: T): T[] {
+  return list.map((current, i) => i === index ? item : current);
+}
+
+function move<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+interface StopsFieldsProps {
+  value: TripStop[];
+  onChange: (stops: TripStop[]) => void;
+}
+
+export function StopsFields({ value, onChange }: StopsFieldsProps) {
+  const update = (index: number, changes: Partial<TripStop>) => onChange(replaceAt(value, index, { ...value[index], ...changes }));
+
+  return (
+    <div className="space-y-3">
+      {value.map((stop, index) => (
+        <div key={index} className="rounded-lg border p-3 space-y-2">
+          <div className="flex gap-2">
+            <span className="flex h-9 w-6 shrink-0 items-center justify-center text-sm text-muted-foreground">{index + 1}.</span>
+            <Input
+              placeholder="Address or label"
+              value={stop.label}
+              onChange={(e) => update(index, { label: e.target.value })}
+            />
+            <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => onChange(move(value, index, index - 1))}>
+              <ArrowUp className="h-4 w-4" />
+              <span className="sr-only">Move up</span>
+            </Button>
+            <Button type="button" variant="ghost" size="icon" disabled={index === value.length - 1} onClick={() => onChange(move(value, index, index + 1))}>
+              <ArrowDown className="h-4 w-4" />
+              <span className="sr-only">Move down</span>
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => onChange(value.filter((_, i) => i !== index))}>
+              <Trash2 className="h-4 w-4 text-destructive" />
+              <span className="sr-only">Remove</span>
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Planned arrival</Label>
+              <Input
+                type="datetime-local"
+                value={toLocalInput(stop.plannedArrival)}
+                onChange={(e) => update(index, { plannedArrival: fromLocalInput(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Actual arrival</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="datetime-local"
+                  value={toLocalInput(stop.actualArrival)}
+                  onChange={(e) => update(index, { actualArrival: fromLocalInput(e.target.value) })}
+                />
+                <Button type="button" variant="outline" size="icon" onClick={() => update(index, { actualArrival: new Date().toISOString() })}>
+                  <Clock className="h-4 w-4" />
+                  <span className="sr-only">Arrived now</span>
+                </Button>
+              </div>
+            </div>
+          </div>
+          <Input
+            placeholder="Notes"
+            value={stop.notes || ""}
+            onChange={(e) => update(index, { notes: e.target.value })}
+          />
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={value.length >= MAX_TRIP_STOPS}
+        onClick={() => onChange([...value, { label: "", plannedArrival: null, actualArrival: null, notes: null }])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Stop
+      </Button>
+    </div>
+  );
+}
+
+interface PassengersFieldsProps {
+  value: TripPassenger[];
+  onChange: (passengers: TripPassenger[]) => void;
+  users: User[];
+}
+
+// A passenger is picked from the users, or typed in by name for someone from outside
+export function PassengersFields({ value, onChange, users }: PassengersFieldsProps) {
+  return (
+    <div className="space-y-2">
+      {value.map((passenger, index) => (
+        <div key={index} className="flex gap-2">
+          <Select
+            value={passenger.userId != null ? passenger.userId.toString() : "external"}
+            onValueChange={(selected) => onChange(replaceAt(value, index, selected === "external"
+              ? { userId: null, name: "" }
+              : { userId: parseInt(selected), name: null }))}
+          >
+            <SelectTrigger className="w-48 shrink-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="external">Someone else</SelectItem>
+              {users.map(user => (
+                <SelectItem key={user.id} value={user.id.toString()}>{user.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {passenger.userId == null && (
+            <Input
+              placeholder="Name"
+              value={passenger.name || ""}
+              onChange={(e) => onChange(replaceAt(value, index, { userId: null, name: e.target.value }))}
+            />
+          )}
+          <Button type="button" variant="ghost" size="icon" className="ml-auto" onClick={() => onChange(value.filter((_, i) => i !== index))}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+            <span className="sr-only">Remove</span>
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={value.length >= MAX_TRIP_PASSENGERS}
+        onClick={() => onChange([...value, { userId: null, name: "" }])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Passenger
+      </Button>
+    </div>
+  );
+}
+
+interface CargoFieldsProps {
+  value: CargoItem[];
+  onChange: (cargo: CargoItem[]) => void;
+}
+
+export function CargoFields({ value, onChange }: CargoFieldsProps) {
+  const update = (index: number, changes: Partial<CargoItem>) => onChange(replaceAt(value, index, { ...value[index], ...changes }));
+
+  return (
+    <div className="space-y-2">
+      {value.map((item, index) => (
+        <div key={index} className="grid grid-cols-[1fr_5rem_6rem_auto] gap-2">
+          <Input
+            placeholder="Description"
+            value={item.description}
+            onChange={(e) => update(index, { description: e.target.value })}
+          />
+          <Input
+            type="number"
+            min={1}
+            placeholder="Qty"
+            value={item.quantity}
+            onChange={(e) => update(index, { quantity: parseInt(e.target.value) })}
+          />
+          <Input
+            type="number"
+            min={0}
+            step="0.1"
+            placeholder="kg"
+            value={item.weightKg ?? ""}
+            onChange={(e) => update(index, { weightKg: e.target.value === "" ? null : parseFloat(e.target.value) })}
+          />
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange(value.filter((_, i) => i !== index))}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+            <span className="sr-only">Remove</span>
+          </Button>
+          <Input
+            className="col-span-3"
+            placeholder="Delivery note or consignment number"
+            value={item.reference || ""}
+            onChange={(e) => update(index, { reference: e.target.value })}
+          />
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={value.length >= MAX_CARGO_ITEMS}
+        onClick={() => onChange([...value, { description: "", quantity: 1, weightKg: null, reference: null }])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Cargo Item
+      </Button>
+    </div>
+  );
+}
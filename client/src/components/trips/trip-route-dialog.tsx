@@ -0,0 +1,191 @@
+import { useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Trip, TripRouteWithCheck, TripRouteUpload } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Upload, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import RouteMap from "./route-map";
+
+interface TripRouteDialogProps {
+  trip: Trip | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '—';
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+export default function TripRouteDialog({ trip, onOpenChange }: TripRouteDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const routeEndpoint = `/api/trips/${trip?.id}/route`;
+
+  const { data: route, isLoading, error } = useQuery<TripRouteWithCheck>({
+    queryKey: [routeEndpoint],
+    enabled: !!trip,
+    staleTime: 0,
+  });
+  // A 404 just means nothing has been uploaded yet
+  const loadFailed = !!error && !error.message.startsWith('404:');
+
+  const canUpload = !!trip && !!user && (user.id === trip.driverId || user.role === 'admin' || user.role === 'moderator');
+
+  const uploadMutation = useMutation({
+    mutationFn: async (upload: TripRouteUpload) => {
+      const res = await apiRequest('PUT', routeEndpoint, upload);
+      return await res.json() as TripRouteWithCheck;
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: 'Route uploaded',
+        description: `${saved.points.length} points, ${saved.distanceMiles} miles.`,
+      });
+      queryClient.setQueryData([routeEndpoint], saved);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error uploading route',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', routeEndpoint);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Route removed',
+        description: 'The GPS track has been removed from this trip.',
+      });
+      queryClient.resetQueries({ queryKey: [routeEndpoint] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error removing route',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    // GPX is XML, so anything starting with a tag is treated as GPX
+    const trackFormat = file.name.toLowerCase().endsWith('.gpx') || content.trimStart().startsWith('<') ? 'gpx' : 'geojson';
+    uploadMutation.mutate({ format: trackFormat, content });
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const renderOdometerCheck = (saved: TripRouteWithCheck) => {
+    const check = saved.odometerCheck;
+    if (check.odometerMiles === null) {
+      return <span className="text-muted-foreground">Available once the trip is completed</span>;
+    }
+    return (
+      <span className="flex items-center gap-2">
+        {check.odometerMiles} miles
+        {check.withinTolerance ? (
+          <Badge variant="outline" className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">Matches GPS</Badge>
+        ) : (
+          <Badge variant="outline" className="bg-amber-100 dark:bg-amber-900 text-amber-800 dark:text-amber-200">
+            Off by {Math.abs(check.differenceMiles ?? 0)} miles
+          </Badge>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <Dialog open={!!trip} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Trip Route</DialogTitle>
+          <DialogDescription>
+            Upload a GPX or GeoJSON track recorded during the trip to see where it went.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : loadFailed ? (
+          <p className="py-6 text-center text-sm text-destructive">Could not load the route for this trip.</p>
+        ) : route ? (
+          <div className="space-y-4">
+            <RouteMap points={route.points} />
+            <dl className="grid grid-cols-2 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">GPS distance</dt>
+              <dd>{route.distanceMiles} miles</dd>
+              <dt className="text-muted-foreground">Odometer distance</dt>
+              <dd>{renderOdometerCheck(route)}</dd>
+              <dt className="text-muted-foreground">Duration</dt>
+              <dd>{formatDuration(route.durationSeconds)}</dd>
+              <dt className="text-muted-foreground">Idle time</dt>
+              <dd>{formatDuration(route.idleSeconds)}</dd>
+              <dt className="text-muted-foreground">Max speed</dt>
+              <dd>{route.maxSpeedMph !== null ? `${route.maxSpeedMph} mph` : '—'}</dd>
+              <dt className="text-muted-foreground">Uploaded</dt>
+              <dd>{format(new Date(route.uploadedAt), 'MMM d, yyyy h:mm a')} ({route.format.toUpperCase()})</dd>
+            </dl>
+          </div>
+        ) : (
+          <p className="py-6 text-center text-sm text-muted-foreground">No route has been uploaded for this trip yet.</p>
+        )}
+
+        {canUpload && (
+          <DialogFooter>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json,application/json"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {route && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => deleteMutation.mutate()}
+                disabled={deleteMutation.isPending}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Remove Route
+              </Button>
+            )}
+            <Button
+              type="button"
+              onClick={() => fileInput.current?.click()}
+              disabled={uploadMutation.isPending}
+            >
+              {uploadMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Uploading...
+                </>
+              ) : (
+                <>
+                  <Upload className="mr-2 h-4 w-4" />
+                  {route ? 'Replace Track' : 'Upload Track'}
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import { VehicleCostEntry } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+
+const sourceLabels: Record<VehicleCostEntry["source"], string> = {
+  maintenance: "Maintenance",
+  fuel: "Fuel",
+  incident: "Incident",
+};
+
+interface CostHistoryProps {
+  entries: VehicleCostEntry[];
+}
+
+export default function CostHistory({ entries }: CostHistoryProps) {
+  if (entries.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">No costs have been recorded for this vehicle yet.</p>
+    );
+  }
+
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={`${entry.source}-${entry.sourceId}`} className="hover:bg-muted/50">
+                <TableCell>{format(new Date(entry.date), 'MMM d, yyyy')}</TableCell>
+                <TableCell>{sourceLabels[entry.source]}</TableCell>
+                <TableCell>{entry.description}</TableCell>
+                <TableCell className="text-right">
+                  {entry.estimated && (
+                    <Badge variant="outline" className="mr-2">Estimate</Badge>
+                  )}
+                  {entry.amount.toFixed(2)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={3}>Total</TableCell>
+              <TableCell className="text-right">{total.toFixed(2)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { OdometerReading, OdometerReadingSource, User } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Check, X } from "lucide-react";
+import { format } from "date-fns";
+
+const sourceLabels: Record<OdometerReadingSource, string> = {
+  initial: "Vehicle added",
+  trip_start: "Trip start",
+  trip_end: "Trip end",
+  maintenance: "Maintenance",
+  fuel: "Fuel fill",
+  manual: "Manual",
+};
+
+interface OdometerHistoryProps {
+  readings: OdometerReading[];
+  users: User[];
+  canReview: boolean;
+  onReview: (readingId: number, decision: "accept" | "void") => void;
+  isReviewing: boolean;
+}
+
+export default function OdometerHistory({
+  readings,
+  users,
+  canReview,
+  onReview,
+  isReviewing
+}: OdometerHistoryProps) {
+  const getUserName = (userId: number | null) => {
+    if (userId === null) return '—';
+    return users.find(u => u.id === userId)?.name ?? 'Unknown User';
+  };
+
+  const renderStatus = (reading: OdometerReading) => {
+    switch (reading.status) {
+      case 'valid':
+        return reading.reviewedAt
+          ? <Badge variant="outline" className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">Accepted</Badge>
+          : <Badge variant="outline">Valid</Badge>;
+      case 'flagged':
+        return <Badge variant="outline" className="bg-amber-100 dark:bg-amber-900 text-amber-800 dark:text-amber-200">Flagged</Badge>;
+      case 'voided':
+        return <Badge variant="outline" className="bg-muted text-muted-foreground">Voided</Badge>;
+      default:
+        return <Badge variant="outline">{reading.status}</Badge>;
+    }
+  };
+
+  if (readings.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">No odometer readings have been recorded yet.</p>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recorded</TableHead>
+              <TableHead>Reading</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Recorded By</TableHead>
+              <TableHead>Status</TableHead>
+              {canReview && <TableHead className="text-center">Review</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {readings.map((reading) => (
+              <TableRow key={reading.id} className={reading.status === 'voided' ? 'opacity-60' : 'hover:bg-muted/50'}>
+                <TableCell>{format(new Date(reading.recordedAt), 'MMM d, yyyy h:mm a')}</TableCell>
+                <TableCell className={reading.status === 'voided' ? 'line-through' : 'font-medium'}>
+                  {reading.reading.toLocaleString()} mi
+                </TableCell>
+                <TableCell>
+                  <p>{sourceLabels[reading.source]}</p>
+                  {reading.tripId && <p className="text-muted-foreground text-xs">Trip #{reading.tripId}</p>}
+                  {reading.maintenanceId && <p className="text-muted-foreground text-xs">Maintenance #{reading.maintenanceId}</p>}
+                  {reading.fuelLogId && <p className="text-muted-foreground text-xs">Fuel log #{reading.fuelLogId}</p>}
+                  {reading.note && <p className="text-muted-foreground text-xs">{reading.note}</p>}
+                </TableCell>
+                <TableCell>{getUserName(reading.recordedById)}</TableCell>
+                <TableCell>
+                  {renderStatus(reading)}
+                  {reading.flagReason && <p className="mt-1 text-muted-foreground text-xs">{reading.flagReason}</p>}
+                  {reading.reviewedById !== null && (
+                    <p className="mt-1 text-muted-foreground text-xs">Reviewed by {getUserName(reading.reviewedById)}</p>
+                  )}
+                </TableCell>
+                {canReview && (
+                  <TableCell>
+                    {reading.status !== 'voided' && (
+                      <div className="flex justify-center space-x-2">
+                        {reading.status === 'flagged' && (
+                          <Button variant="ghost" size="icon" disabled={isReviewing} onClick={() => onReview(reading.id, 'accept')}>
+                            <Check className="h-4 w-4 text-green-600" />
+                            <span className="sr-only">Accept</span>
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" disabled={isReviewing} onClick={() => onReview(reading.id, 'void')}>
+                          <X className="h-4 w-4 text-destructive" />
+                          <span className="sr-only">Void</span>
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { Vehicle, InsertOdometerReading } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+interface OdometerReadingFormProps {
+  vehicle: Vehicle;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: InsertOdometerReading) => void;
+  isSubmitting: boolean;
+}
+
+export default function OdometerReadingForm({
+  vehicle,
+  open,
+  onOpenChange,
+  onSubmit,
+  isSubmitting
+}: OdometerReadingFormProps) {
+  const [reading, setReading] = useState("");
+  const [note, setNote] = useState("");
+
+  // Start from the current mileage, since most readings are a little above it
+  useEffect(() => {
+    if (open) {
+      setReading(vehicle.mileage.toString());
+      setNote("");
+    }
+  }, [open, vehicle]);
+
+  const readingValue = parseInt(reading);
+  const readingIsValid = !isNaN(readingValue) && readingValue >= 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Odometer Reading</DialogTitle>
+          <DialogDescription>
+            Readings below an earlier one are rejected. Unusually large jumps are saved but flagged for an admin to review.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="odometer-reading">Odometer (mi)</Label>
+            <Input
+              id="odometer-reading"
+              type="number"
+              min={0}
+              value={reading}
+              onChange={(e) => setReading(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="odometer-note">Note</Label>
+            <Textarea
+              id="odometer-note"
+              placeholder="Where the reading came from, e.g. fuel receipt or dashboard photo"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => onSubmit({ reading: readingValue, note: note.trim() || null })}
+            disabled={isSubmitting || !readingIsValid}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Reading'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertVehicleSchema, Vehicle } from "@shared/schema";
+import { insertVehicleSchema, Vehicle, VehicleCategory, vehicleCategories } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -10,6 +10,16 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Loader2 } from "lucide-react";
 
+export const vehicleCategoryLabels: Record<VehicleCategory, string> = {
+  sedan: "Sedan",
+  hatchback: "Hatchback",
+  suv: "SUV",
+  van: "Van",
+  pickup: "Pickup",
+  ev: "EV",
+  truck: "Truck",
+};
+
 interface VehicleFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -38,7 +48,9 @@ export default function VehicleForm({
       color: defaultValues?.color || "",
       status: defaultValues?.status || "available",
       mileage: defaultValues?.mileage || 0,
+      engineHours: defaultValues?.engineHours ?? null,
       fuelType: defaultValues?.fuelType || "",
+      category: defaultValues?.category || null,
       assignedToId: defaultValues?.assignedToId || undefined,
       notes: defaultValues?.notes || "",
     }
@@ -165,6 +177,25 @@ export default function VehicleForm({
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="engineHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Engine Hours (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" {...field} 
+                        min="0"
+                        step="0.1"
+                        value={field.value ?? ""}
+                        onChange={e => field.onChange(e.target.value === "" ? null : parseFloat(e.target.value))} 
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <FormField
                 control={form.control}
                 name="fuelType"
@@ -189,6 +220,35 @@ export default function VehicleForm({
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                      defaultValue={field.value || "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select Category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Uncategorized</SelectItem>
+                        {vehicleCategories.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {vehicleCategoryLabels[category]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <FormField
                 control={form.control}
                 name="status"
@@ -31,6 +31,8 @@ import {
 import { Car, Pencil, Trash2, Bolt } from "lucide-react";
 import { format } from "date-fns";
 import { useState } from "react";
+import { Link } from "wouter";
+import { vehicleCategoryLabels } from "./vehicle-form";
 
 interface VehicleListProps {
   vehicles: Vehicle[];
@@ -41,6 +43,7 @@ interface VehicleListProps {
   onEdit: (vehicle: Vehicle) => void;
   onDelete: (vehicleId: number) => void;
   onMaintenance: (vehicle: Vehicle) => void;
+  flaggedVehicleIds?: Set<number>;
 }
 
 export default function VehicleList({
@@ -51,7 +54,8 @@ export default function VehicleList({
   onPageChange,
   onEdit,
   onDelete,
-  onMaintenance
+  onMaintenance,
+  flaggedVehicleIds
 }: VehicleListProps) {
   const [deleteAlert, setDeleteAlert] = useState(false);
   const [vehicleToDelete, setVehicleToDelete] = useState<number | null>(null);
@@ -195,14 +199,21 @@ export default function VehicleList({
                         <Car className="h-5 w-5 text-muted-foreground" />
                       </div>
                       <div className="ml-3">
-                        <p className="font-medium">{vehicle.make}</p>
-                        <p className="text-muted-foreground text-xs">{vehicle.model} ({vehicle.year})</p>
+                        <Link href={`/vehicles/${vehicle.id}`} className="font-medium hover:underline">{vehicle.make}</Link>
+                        <p className="text-muted-foreground text-xs">
+                          {vehicle.model} ({vehicle.year}){vehicle.category && ` · ${vehicleCategoryLabels[vehicle.category]}`}
+                        </p>
                       </div>
                     </div>
                   </TableCell>
                   <TableCell>{vehicle.registrationNumber}</TableCell>
                   <TableCell>{renderStatus(vehicle.status)}</TableCell>
-                  <TableCell>{vehicle.mileage.toLocaleString()} mi</TableCell>
+                  <TableCell>
+                    {vehicle.mileage.toLocaleString()} mi
+                    {flaggedVehicleIds?.has(vehicle.id) && (
+                      <Badge variant="outline" className="ml-2 bg-amber-100 dark:bg-amber-900 text-amber-800 dark:text-amber-200">Odometer flagged</Badge>
+                    )}
+                  </TableCell>
                   <TableCell>{vehicle.assignedToId ? "Assigned" : "—"}</TableCell>
                   <TableCell>
                     <div className="flex justify-center space-x-2">
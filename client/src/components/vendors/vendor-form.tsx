@@ -0,0 +1,198 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertVendorSchema, InsertVendor, Vendor, VendorService, vendorServices } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+export const vendorServiceLabels: Record<VendorService, string> = {
+  servicing: "Servicing",
+  repairs: "Repairs",
+  tyres: "Tyres",
+  bodywork: "Bodywork",
+  electrical: "Electrical",
+  glass: "Glass",
+  diagnostics: "Diagnostics",
+  recovery: "Recovery",
+};
+
+interface VendorFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: InsertVendor) => void;
+  isSubmitting: boolean;
+  defaultValues?: Vendor;
+}
+
+export default function VendorForm({ open, onOpenChange, onSubmit, isSubmitting, defaultValues }: VendorFormProps) {
+  const form = useForm<InsertVendor>({
+    resolver: zodResolver(insertVendorSchema),
+    defaultValues: {
+      name: defaultValues?.name || "",
+      contactName: defaultValues?.contactName || "",
+      phone: defaultValues?.phone || "",
+      email: defaultValues?.email || "",
+      address: defaultValues?.address || "",
+      services: defaultValues?.services || [],
+      labourRate: defaultValues?.labourRate ?? null,
+      active: defaultValues?.active ?? true,
+      notes: defaultValues?.notes || "",
+    }
+  });
+
+  const textField = (name: "contactName" | "phone" | "email" | "address", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input {...field} value={field.value || ""} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{defaultValues ? 'Edit Vendor' : 'Add Vendor'}</DialogTitle>
+          <DialogDescription>
+            Garages and other vendors maintenance work is sent to.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Northside Motors" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {textField("contactName", "Contact")}
+              {textField("phone", "Phone")}
+              {textField("email", "Email")}
+              {textField("address", "Address")}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="services"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Services Offered</FormLabel>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    {vendorServices.map(service => {
+                      const selected = field.value || [];
+                      return (
+                        <div key={service} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`vendor-service-${service}`}
+                            checked={selected.includes(service)}
+                            onCheckedChange={(checked) => field.onChange(checked === true
+                              ? [...selected, service]
+                              : selected.filter(current => current !== service))}
+                          />
+                          <Label htmlFor={`vendor-service-${service}`} className="font-normal">{vendorServiceLabels[service]}</Label>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="labourRate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Negotiated Labour Rate ($/h)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormDescription>Filled in on new labour lines of their work orders.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} value={field.value || ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Inactive vendors are not offered for new work.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value ?? true} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Vendor'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Vendor } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Pencil, Trash2 } from "lucide-react";
+import { vendorServiceLabels } from "./vendor-form";
+
+interface VendorListProps {
+  vendors: Vendor[];
+  canDelete: boolean;
+  onEdit: (vendor: Vendor) => void;
+  onDelete: (vendorId: number) => void;
+}
+
+export default function VendorList({ vendors, canDelete, onEdit, onDelete }: VendorListProps) {
+  const [vendorToDelete, setVendorToDelete] = useState<Vendor | null>(null);
+
+  if (vendors.length === 0) {
+    return (
+      <div className="rounded-lg border p-8 text-center text-muted-foreground">
+        No vendors yet. Add the garages you use to link maintenance work to them.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-lg border overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Services</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Labour Rate</TableHead>
+                <TableHead className="text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {vendors.map(vendor => (
+                <TableRow key={vendor.id} className="hover:bg-muted/50">
+                  <TableCell>
+                    <Link href={`/vendors/${vendor.id}`} className="font-medium hover:underline">{vendor.name}</Link>
+                    {!vendor.active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {vendor.services.map(service => (
+                        <Badge key={service} variant="secondary">{vendorServiceLabels[service]}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-col text-sm">
+                      {vendor.contactName && <span>{vendor.contactName}</span>}
+                      {vendor.phone && <span className="text-muted-foreground">{vendor.phone}</span>}
+                      {vendor.email && <span className="text-muted-foreground">{vendor.email}</span>}
+                    </div>
+                  </TableCell>
+                  <TableCell>{vendor.labourRate != null ? `$${vendor.labourRate.toFixed(2)}/h` : '—'}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-center space-x-2">
+                      <Button variant="ghost" size="icon" onClick={() => onEdit(vendor)}>
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit</span>
+                      </Button>
+                      {canDelete && (
+                        <Button variant="ghost" size="icon" onClick={() => setVendorToDelete(vendor)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <AlertDialog open={!!vendorToDelete} onOpenChange={(open) => !open && setVendorToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this vendor?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only vendors that were never sent any work can be deleted. Mark the others inactive instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (vendorToDelete) onDelete(vendorToDelete.id);
+                setVendorToDelete(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
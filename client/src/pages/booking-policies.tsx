@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { BookingBlackout, BookingPolicy, InsertBookingPolicy, Vehicle } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import PolicyForm from '@/components/booking-policies/policy-form';
+import BlackoutForm, { BlackoutDraft } from '@/components/booking-policies/blackout-form';
+import { format } from 'date-fns';
+
+function formatLimit(value: number | null, unit?: string): string {
+  if (value === null) return '—';
+  return unit ? `${value} ${unit}` : value.toString();
+}
+
+export default function BookingPolicies() {
+  const { toast } = useToast();
+  const [policyForm, setPolicyForm] = useState<{ scope: 'global' | 'vehicle', policy?: BookingPolicy } | null>(null);
+  const [addBlackoutOpen, setAddBlackoutOpen] = useState(false);
+
+  const { data: policies } = useQuery<BookingPolicy[]>({
+    queryKey: ['/api/booking-policies'],
+  });
+
+  const { data: blackouts } = useQuery<BookingBlackout[]>({
+    queryKey: ['/api/booking-blackouts'],
+  });
+
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  const globalPolicy = (policies || []).find(policy => policy.vehicleId === null);
+  const vehiclePolicies = (policies || []).filter(policy => policy.vehicleId !== null);
+
+  const describeVehicle = (vehicleId: number | null) => {
+    if (vehicleId === null) return 'All vehicles';
+    const vehicle = vehicles?.find(v => v.id === vehicleId);
+    return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : 'Unknown Vehicle';
+  };
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (policy: InsertBookingPolicy) => {
+      const res = await apiRequest('PUT', '/api/booking-policies', policy);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Policy saved',
+        description: 'New bookings are checked against the updated limits.',
+      });
+      setPolicyForm(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/booking-policies'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving policy',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deletePolicyMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/booking-policies/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Policy removed',
+        description: 'The vehicle now follows the global policy.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/booking-policies'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error removing policy',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const addBlackoutMutation = useMutation({
+    mutationFn: async (blackout: BlackoutDraft) => {
+      const res = await apiRequest('POST', '/api/booking-blackouts', blackout);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Blackout period added',
+        description: 'Bookings overlapping this period will be rejected.',
+      });
+      setAddBlackoutOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/booking-blackouts'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error adding blackout period',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deleteBlackoutMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/booking-blackouts/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Blackout period removed',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/booking-blackouts'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error removing blackout period',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold">Booking Policies</h2>
+        <p className="text-muted-foreground">Limits checked whenever a booking is created. Moderators can override them with a reason.</p>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Global policy</CardTitle>
+              <CardDescription>Applies to every vehicle without its own limit</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => setPolicyForm({ scope: 'global', policy: globalPolicy })}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 gap-y-3 text-sm md:grid-cols-4">
+              <div>
+                <dt className="text-muted-foreground">Maximum duration</dt>
+                <dd className="font-medium">{formatLimit(globalPolicy?.maxDurationHours ?? null, 'hours')}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Minimum lead time</dt>
+                <dd className="font-medium">{formatLimit(globalPolicy?.minLeadTimeHours ?? null, 'hours')}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Book ahead at most</dt>
+                <dd className="font-medium">{formatLimit(globalPolicy?.maxAdvanceDays ?? null, 'days')}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Active bookings per user</dt>
+                <dd className="font-medium">{formatLimit(globalPolicy?.maxActiveBookings ?? null)}</dd>
+              </div>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Vehicle policies</CardTitle>
+              <CardDescription>Limits that replace the global ones for a single vehicle</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => setPolicyForm({ scope: 'vehicle' })}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {vehiclePolicies.length === 0 ? (
+              <p className="text-sm text-muted-foreground">All vehicles follow the global policy.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vehicle</TableHead>
+                    <TableHead>Max Duration</TableHead>
+                    <TableHead>Lead Time</TableHead>
+                    <TableHead>Book Ahead</TableHead>
+                    <TableHead>Active Bookings</TableHead>
+                    <TableHead className="text-center">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {vehiclePolicies.map((policy) => (
+                    <TableRow key={policy.id}>
+                      <TableCell className="font-medium">{describeVehicle(policy.vehicleId)}</TableCell>
+                      <TableCell>{formatLimit(policy.maxDurationHours, 'hours')}</TableCell>
+                      <TableCell>{formatLimit(policy.minLeadTimeHours, 'hours')}</TableCell>
+                      <TableCell>{formatLimit(policy.maxAdvanceDays, 'days')}</TableCell>
+                      <TableCell>{formatLimit(policy.maxActiveBookings)}</TableCell>
+                      <TableCell className="text-center">
+                        <Button variant="ghost" size="icon" onClick={() => setPolicyForm({ scope: 'vehicle', policy })}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deletePolicyMutation.mutate(policy.id)}
+                          disabled={deletePolicyMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Blackout periods</CardTitle>
+              <CardDescription>Times in which no bookings may be made</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => setAddBlackoutOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {(blackouts || []).length === 0 ? (
+              <p className="text-sm text-muted-foreground">No blackout periods defined.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Applies To</TableHead>
+                    <TableHead>Start</TableHead>
+                    <TableHead>End</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-center">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(blackouts || []).map((blackout) => (
+                    <TableRow key={blackout.id}>
+                      <TableCell>
+                        {blackout.vehicleId === null
+                          ? <Badge variant="outline">All vehicles</Badge>
+                          : describeVehicle(blackout.vehicleId)}
+                      </TableCell>
+                      <TableCell>{format(new Date(blackout.startTime), 'MMM d, yyyy h:mm a')}</TableCell>
+                      <TableCell>{format(new Date(blackout.endTime), 'MMM d, yyyy h:mm a')}</TableCell>
+                      <TableCell>{blackout.reason}</TableCell>
+                      <TableCell className="text-center">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteBlackoutMutation.mutate(blackout.id)}
+                          disabled={deleteBlackoutMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <PolicyForm
+        open={!!policyForm}
+        onOpenChange={(open) => !open && setPolicyForm(null)}
+        onSubmit={(policy) => savePolicyMutation.mutate(policy)}
+        isSubmitting={savePolicyMutation.isPending}
+        scope={policyForm?.scope ?? 'global'}
+        policy={policyForm?.policy}
+        vehicles={(vehicles || []).filter(vehicle =>
+          policyForm?.policy || !vehiclePolicies.some(policy => policy.vehicleId === vehicle.id)
+        )}
+      />
+
+      <BlackoutForm
+        open={addBlackoutOpen}
+        onOpenChange={setAddBlackoutOpen}
+        onSubmit={(blackout) => addBlackoutMutation.mutate(blackout)}
+        isSubmitting={addBlackoutMutation.isPending}
+        vehicles={vehicles || []}
+      />
+    </div>
+  );
+}
@@ -1,16 +1,24 @@
 import { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { Booking, Vehicle, User, insertBookingSchema } from '@shared/schema';
+import { Booking, Vehicle, User, Trip, WaitlistEntry, insertBookingSchema, SeriesScope, BookingPolicyViolation, PolicyOverride } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Plus, Search } from 'lucide-react';
 import BookingList from '@/components/bookings/booking-list';
-import BookingForm from '@/components/bookings/booking-form';
+import BookingForm, { BookingSubmitOptions } from '@/components/bookings/booking-form';
+import ApprovalQueue from '@/components/bookings/approval-queue';
+import DeclineDialog from '@/components/bookings/decline-dialog';
+import StartTripDialog from '@/components/bookings/start-trip-dialog';
+import PolicyOverrideDialog, { parsePolicyViolations } from '@/components/bookings/policy-override-dialog';
+import JoinWaitlistDialog, { WaitlistRequest } from '@/components/bookings/join-waitlist-dialog';
+import WaitlistList from '@/components/bookings/waitlist-list';
 import { z } from 'zod';
 import { useAuth } from '@/hooks/use-auth';
+import { format } from 'date-fns';
 
 export default function Bookings() {
   const { toast } = useToast();
@@ -20,53 +28,100 @@ export default function Bookings() {
   const [editBookingOpen, setEditBookingOpen] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
+  const [bookingsToDecline, setBookingsToDecline] = useState<number[]>([]);
+  const [bookingToStart, setBookingToStart] = useState<Booking | null>(null);
+  // A booking rejected by the booking policies, kept so approvers can resubmit it with an override
+  const [policyRejection, setPolicyRejection] = useState<{ violations: BookingPolicyViolation[], resubmit: (override: PolicyOverride) => void } | null>(null);
+  const [waitlistRequest, setWaitlistRequest] = useState<WaitlistRequest | null>(null);
   const pageSize = 10;
+  const isApprover = user?.role === 'admin' || user?.role === 'moderator';
   
   // Fetch all bookings for now (debugging)
   const bookingsEndpoint = '/api/bookings';
+  const approvalQueueEndpoint = '/api/bookings/pending-approval';
+  const waitlistEndpoint = '/api/waitlist';
 
   // Fetch bookings
   const { data: bookings, isLoading: isLoadingBookings } = useQuery<Booking[]>({
     queryKey: [bookingsEndpoint],
     enabled: !!user,
-    onError: (error) => {
-      console.error('Error fetching bookings:', error);
-      toast({
-        title: 'Error loading bookings',
-        description: error.message,
-        variant: 'destructive',
-      });
-    }
   });
 
   // Fetch vehicles for the form
   const { data: vehicles } = useQuery<Vehicle[]>({
     queryKey: ['/api/vehicles'],
-    onError: (error) => {
-      toast({
-        title: 'Error loading vehicles',
-        description: error.message,
-        variant: 'destructive',
-      });
-    }
   });
 
-  // Fetch users for the form (admins only)
+  // Trips under way, to tell which approved bookings have been picked up
+  const { data: activeTrips } = useQuery<Trip[]>({
+    queryKey: ['/api/trips/active'],
+  });
+  const tripBookingIds = (activeTrips || [])
+    .map(trip => trip.bookingId)
+    .filter((id): id is number => id !== null);
+
+  // Requests waiting for a taken slot; cancellations elsewhere can promote them
+  const { data: waitlist } = useQuery<WaitlistEntry[]>({
+    queryKey: [waitlistEndpoint],
+    staleTime: 0,
+  });
+  const waitingEntries = (waitlist || []).filter(entry => entry.status === 'waiting');
+
+  // Pending bookings the current approver can decide on
+  const { data: approvalQueue } = useQuery<Booking[]>({
+    queryKey: [approvalQueueEndpoint],
+    enabled: isApprover,
+  });
+
+  // Fetch users for the form and approval queue (admins and moderators)
   const { data: users } = useQuery<User[]>({
     queryKey: ['/api/users'],
-    enabled: user?.role === 'admin',
-    onError: (error) => {
+    enabled: isApprover,
+  });
+
+  // Approvers may override broken booking policies; everyone else just sees the rules
+  const handlePolicyError = (error: Error, title: string, resubmit: (override: PolicyOverride) => void) => {
+    const violations = parsePolicyViolations(error);
+    if (violations && isApprover) {
+      setPolicyRejection({ violations, resubmit });
+      return;
+    }
+    setPolicyRejection(null);
+    toast({
+      title,
+      description: violations ? violations.map(v => v.message).join('. ') : error.message,
+      variant: 'destructive',
+    });
+  };
+
+  // Add recurring booking mutation
+  const addBookingSeriesMutation = useMutation({
+    mutationFn: async (seriesData: z.infer<typeof insertBookingSchema> & Pick<BookingSubmitOptions, 'recurrence' | 'skipConflicts'> & { policyOverride?: PolicyOverride }) => {
+      const res = await apiRequest('POST', '/api/bookings/series', seriesData);
+      return await res.json() as { bookings: Booking[], skipped: { startTime: string }[] };
+    },
+    onSuccess: (result) => {
       toast({
-        title: 'Error loading users',
-        description: error.message,
-        variant: 'destructive',
+        title: 'Recurring booking created',
+        description: result.skipped.length > 0
+          ? `${result.bookings.length} booking(s) created. Skipped ${result.skipped.map(s => format(new Date(s.startTime), 'MMM d')).join(', ')} because the vehicle is already booked.`
+          : `${result.bookings.length} booking(s) created.`,
       });
+      setAddBookingOpen(false);
+      setPolicyRejection(null);
+      queryClient.invalidateQueries({ queryKey: [bookingsEndpoint] });
+      queryClient.invalidateQueries({ queryKey: [approvalQueueEndpoint] });
+    },
+    onError: (error, seriesData) => {
+      handlePolicyError(error, 'Error creating recurring booking', (policyOverride) =>
+        addBookingSeriesMutation.mutate({ ...seriesData, policyOverride })
+      );
     }
   });
 
   // Add booking mutation
   const addBookingMutation = useMutation({
-    mutationFn: async (bookingData: z.infer<typeof insertBookingSchema>) => {
+    mutationFn: async (bookingData: z.infer<typeof insertBookingSchema> & { policyOverride?: PolicyOverride }) => {
       const res = await apiRequest('POST', '/api/bookings', bookingData);
       return await res.json();
     },
@@ -76,21 +131,28 @@ export default function Bookings() {
         description: 'The booking has been created successfully.',
       });
       setAddBookingOpen(false);
+      setPolicyRejection(null);
       queryClient.invalidateQueries({ queryKey: [bookingsEndpoint] });
+      queryClient.invalidateQueries({ queryKey: [approvalQueueEndpoint] });
     },
-    onError: (error) => {
-      toast({
-        title: 'Error creating booking',
-        description: error.message,
-        variant: 'destructive',
-      });
+    onError: (error, bookingData) => {
+      // The vehicle is taken for this window: offer a place on the waitlist instead
+      const { vehicleId } = bookingData;
+      if (error.message.startsWith('409:') && vehicleId) {
+        setPolicyRejection(null);
+        setWaitlistRequest({ ...bookingData, vehicleId });
+        return;
+      }
+      handlePolicyError(error, 'Error creating booking', (policyOverride) =>
+        addBookingMutation.mutate({ ...bookingData, policyOverride })
+      );
     }
   });
 
   // Update booking mutation
   const updateBookingMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number, data: z.infer<typeof insertBookingSchema> }) => {
-      const res = await apiRequest('PUT', `/api/bookings/${id}`, data);
+    mutationFn: async ({ id, data, scope }: { id: number, data: z.infer<typeof insertBookingSchema> & { policyOverride?: PolicyOverride }, scope?: SeriesScope }) => {
+      const res = await apiRequest('PUT', `/api/bookings/${id}?scope=${scope ?? 'single'}`, data);
       return await res.json();
     },
     onSuccess: () => {
@@ -99,21 +161,20 @@ export default function Bookings() {
         description: 'The booking has been updated successfully.',
       });
       setEditBookingOpen(false);
+      setPolicyRejection(null);
       queryClient.invalidateQueries({ queryKey: [bookingsEndpoint] });
     },
-    onError: (error) => {
-      toast({
-        title: 'Error updating booking',
-        description: error.message,
-        variant: 'destructive',
-      });
+    onError: (error, variables) => {
+      handlePolicyError(error, 'Error updating booking', (policyOverride) =>
+        updateBookingMutation.mutate({ ...variables, data: { ...variables.data, policyOverride } })
+      );
     }
   });
 
   // Update booking status mutation
   const updateBookingStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: number, status: string }) => {
-      const res = await apiRequest('PUT', `/api/bookings/${id}`, { status });
+    mutationFn: async ({ id, status, scope }: { id: number, status: string, scope?: SeriesScope }) => {
+      const res = await apiRequest('PUT', `/api/bookings/${id}?scope=${scope ?? 'single'}`, { status });
       return await res.json();
     },
     onSuccess: (_, variables) => {
@@ -122,6 +183,8 @@ export default function Bookings() {
         description: `The booking has been ${variables.status}.`,
       });
       queryClient.invalidateQueries({ queryKey: [bookingsEndpoint] });
+      queryClient.invalidateQueries({ queryKey: [approvalQueueEndpoint] });
+      queryClient.invalidateQueries({ queryKey: [waitlistEndpoint] });
     },
     onError: (error) => {
       toast({
@@ -132,6 +195,110 @@ export default function Bookings() {
     }
   });
 
+  // Approve or decline one or more bookings
+  const decisionMutation = useMutation({
+    mutationFn: async ({ bookingIds, decision, reason }: { bookingIds: number[], decision: 'approved' | 'declined', reason?: string }) => {
+      const res = await apiRequest('POST', '/api/bookings/decisions', { bookingIds, decision, reason });
+      return await res.json() as { decided: Booking[], failed: { bookingId: number, message: string }[] };
+    },
+    onSuccess: (result, variables) => {
+      if (result.failed.length > 0) {
+        toast({
+          title: `${result.decided.length} booking(s) ${variables.decision}, ${result.failed.length} failed`,
+          description: result.failed.map(f => f.message).join('; '),
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: 'Bookings updated',
+          description: `${result.decided.length} booking(s) ${variables.decision}.`,
+        });
+      }
+      setBookingsToDecline([]);
+      queryClient.invalidateQueries({ queryKey: [bookingsEndpoint] });
+      queryClient.invalidateQueries({ queryKey: [approvalQueueEndpoint] });
+      queryClient.invalidateQueries({ queryKey: [waitlistEndpoint] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error updating bookings',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  // Join the waitlist for a slot that is already booked
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async (request: WaitlistRequest) => {
+      const res = await apiRequest('POST', waitlistEndpoint, request);
+      return await res.json() as WaitlistEntry;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Added to the waitlist',
+        description: 'You will be notified if the slot frees up.',
+      });
+      setWaitlistRequest(null);
+      setAddBookingOpen(false);
+      queryClient.invalidateQueries({ queryKey: [waitlistEndpoint] });
+    },
+    onError: (error) => {
+      const violations = parsePolicyViolations(error);
+      toast({
+        title: 'Error joining the waitlist',
+        description: violations ? violations.map(v => v.message).join('. ') : error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  // Leave the waitlist
+  const cancelWaitlistMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `${waitlistEndpoint}/${id}/cancel`);
+      return await res.json() as WaitlistEntry;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Removed from the waitlist',
+      });
+      queryClient.invalidateQueries({ queryKey: [waitlistEndpoint] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error leaving the waitlist',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  // Start a trip from an approved booking
+  const startTripMutation = useMutation({
+    mutationFn: async ({ bookingId, startOdometer }: { bookingId: number, startOdometer: number }) => {
+      const res = await apiRequest('POST', `/api/bookings/${bookingId}/start-trip`, { startOdometer });
+      return await res.json() as Trip;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Trip started',
+        description: 'The vehicle is now in use. Complete the trip from the Trips page on return.',
+      });
+      setBookingToStart(null);
+      queryClient.invalidateQueries({ queryKey: [bookingsEndpoint] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trips/active'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/vehicles'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error starting trip',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
   // Delete booking mutation
   const deleteBookingMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -154,18 +321,22 @@ export default function Bookings() {
   });
 
   // Handle add booking
-  const handleAddBooking = (data: z.infer<typeof insertBookingSchema>) => {
+  const handleAddBooking = (data: z.infer<typeof insertBookingSchema>, options: BookingSubmitOptions) => {
     // If not admin, set the userId to the current user
     if (user?.role !== 'admin') {
       data.userId = user?.id || 0;
     }
-    addBookingMutation.mutate(data);
+    if (options.recurrence) {
+      addBookingSeriesMutation.mutate({ ...data, recurrence: options.recurrence, skipConflicts: options.skipConflicts });
+    } else {
+      addBookingMutation.mutate(data);
+    }
   };
 
   // Handle edit booking
-  const handleEditBooking = (data: z.infer<typeof insertBookingSchema>) => {
+  const handleEditBooking = (data: z.infer<typeof insertBookingSchema>, options: BookingSubmitOptions) => {
     if (selectedBooking) {
-      updateBookingMutation.mutate({ id: selectedBooking.id, data });
+      updateBookingMutation.mutate({ id: selectedBooking.id, data, scope: options.scope });
     }
   };
 
@@ -176,8 +347,18 @@ export default function Bookings() {
   };
 
   // Handle status change
-  const handleStatusChange = (id: number, status: string) => {
-    updateBookingStatusMutation.mutate({ id, status });
+  const handleStatusChange = (id: number, status: string, scope?: SeriesScope) => {
+    updateBookingStatusMutation.mutate({ id, status, scope });
+  };
+
+  // Handle approve
+  const handleApprove = (bookingIds: number[]) => {
+    decisionMutation.mutate({ bookingIds, decision: 'approved' });
+  };
+
+  // Handle decline - a reason is collected before the decision is sent
+  const handleDeclineConfirm = (reason: string) => {
+    decisionMutation.mutate({ bookingIds: bookingsToDecline, decision: 'declined', reason });
   };
 
   // Handle delete
@@ -241,6 +422,44 @@ export default function Bookings() {
         <Card className="p-8 flex items-center justify-center">
           <p>Loading bookings...</p>
         </Card>
+      ) : isApprover ? (
+        <Tabs defaultValue="all">
+          <TabsList className="mb-4">
+            <TabsTrigger value="all">All bookings</TabsTrigger>
+            <TabsTrigger value="approvals">
+              Awaiting my approval{approvalQueue && approvalQueue.length > 0 ? ` (${approvalQueue.length})` : ''}
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="all">
+            <BookingList
+              bookings={paginatedBookings}
+              vehicles={vehicles || []}
+              users={users || []}
+              currentUser={user}
+              totalCount={totalCount}
+              currentPage={currentPage}
+              pageSize={pageSize}
+              onPageChange={setCurrentPage}
+              onEdit={handleEditClick}
+              onDelete={handleDeleteBooking}
+              onStatusChange={handleStatusChange}
+              onApprove={(id) => handleApprove([id])}
+              onDecline={(id) => setBookingsToDecline([id])}
+              onStartTrip={setBookingToStart}
+              tripBookingIds={tripBookingIds}
+            />
+          </TabsContent>
+          <TabsContent value="approvals">
+            <ApprovalQueue
+              bookings={approvalQueue || []}
+              vehicles={vehicles || []}
+              users={users || []}
+              isSubmitting={decisionMutation.isPending}
+              onApprove={handleApprove}
+              onDecline={setBookingsToDecline}
+            />
+          </TabsContent>
+        </Tabs>
       ) : (
         <BookingList
           bookings={paginatedBookings}
@@ -254,16 +473,63 @@ export default function Bookings() {
           onEdit={handleEditClick}
           onDelete={handleDeleteBooking}
           onStatusChange={handleStatusChange}
+          onApprove={(id) => handleApprove([id])}
+          onDecline={(id) => setBookingsToDecline([id])}
+          onStartTrip={setBookingToStart}
+          tripBookingIds={tripBookingIds}
           statusFilter=""
           setStatusFilter={() => {}}
         />
       )}
 
+      {waitingEntries.length > 0 && (
+        <WaitlistList
+          entries={waitingEntries}
+          vehicles={vehicles || []}
+          users={users || []}
+          currentUser={user}
+          onCancel={(id) => cancelWaitlistMutation.mutate(id)}
+          isSubmitting={cancelWaitlistMutation.isPending}
+        />
+      )}
+
+      <DeclineDialog
+        open={bookingsToDecline.length > 0}
+        onOpenChange={(open) => !open && setBookingsToDecline([])}
+        onConfirm={handleDeclineConfirm}
+        isSubmitting={decisionMutation.isPending}
+        bookingCount={bookingsToDecline.length}
+      />
+
+      <StartTripDialog
+        booking={bookingToStart}
+        vehicles={vehicles || []}
+        users={users || []}
+        onOpenChange={(open) => !open && setBookingToStart(null)}
+        onConfirm={(bookingId, startOdometer) => startTripMutation.mutate({ bookingId, startOdometer })}
+        isSubmitting={startTripMutation.isPending}
+      />
+
+      <JoinWaitlistDialog
+        request={waitlistRequest}
+        vehicles={vehicles || []}
+        onOpenChange={(open) => !open && setWaitlistRequest(null)}
+        onConfirm={(request) => joinWaitlistMutation.mutate(request)}
+        isSubmitting={joinWaitlistMutation.isPending}
+      />
+
+      <PolicyOverrideDialog
+        violations={policyRejection?.violations ?? null}
+        onOpenChange={(open) => !open && setPolicyRejection(null)}
+        onConfirm={(override) => policyRejection?.resubmit(override)}
+        isSubmitting={addBookingMutation.isPending || addBookingSeriesMutation.isPending || updateBookingMutation.isPending}
+      />
+
       <BookingForm
         open={addBookingOpen}
         onOpenChange={setAddBookingOpen}
         onSubmit={handleAddBooking}
-        isSubmitting={addBookingMutation.isPending}
+        isSubmitting={addBookingMutation.isPending || addBookingSeriesMutation.isPending}
         vehicles={vehicles || []}
         users={users || []}
         currentUser={user}
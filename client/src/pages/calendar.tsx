@@ -0,0 +1,219 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Booking, Vehicle, User, VehicleSchedule, insertBookingSchema, BookingPolicyViolation, PolicyOverride } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import VehicleTimeline, { TimelineZoom, timelineLegend } from '@/components/calendar/vehicle-timeline';
+import BookingForm, { BookingSubmitOptions } from '@/components/bookings/booking-form';
+import PolicyOverrideDialog, { parsePolicyViolations } from '@/components/bookings/policy-override-dialog';
+import { useAuth } from '@/hooks/use-auth';
+import { z } from 'zod';
+import {
+  addDays, addHours, addMonths, addWeeks, endOfMonth, format,
+  startOfDay, startOfMonth, startOfWeek
+} from 'date-fns';
+
+// Column boundaries for the visible range, including the end of the last column
+function buildSlots(anchor: Date, zoom: TimelineZoom): Date[] {
+  const slots: Date[] = [];
+
+  if (zoom === 'day') {
+    const start = startOfDay(anchor);
+    for (let hour = 0; hour <= 24; hour++) slots.push(addHours(start, hour));
+  } else if (zoom === 'week') {
+    const start = startOfWeek(anchor);
+    for (let block = 0; block <= 28; block++) slots.push(addHours(start, block * 6));
+  } else {
+    const start = startOfMonth(anchor);
+    const days = endOfMonth(anchor).getDate();
+    for (let day = 0; day <= days; day++) slots.push(addDays(start, day));
+  }
+
+  return slots;
+}
+
+function formatRange(anchor: Date, zoom: TimelineZoom): string {
+  switch (zoom) {
+    case 'day':
+      return format(anchor, 'EEEE, MMM d, yyyy');
+    case 'week':
+      return `Week of ${format(startOfWeek(anchor), 'MMM d, yyyy')}`;
+    case 'month':
+      return format(anchor, 'MMMM yyyy');
+  }
+}
+
+export default function Calendar() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [zoom, setZoom] = useState<TimelineZoom>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [newBooking, setNewBooking] = useState<Partial<Booking> | null>(null);
+  const [policyRejection, setPolicyRejection] = useState<{ violations: BookingPolicyViolation[], resubmit: (override: PolicyOverride) => void } | null>(null);
+  const isApprover = user?.role === 'admin' || user?.role === 'moderator';
+
+  const slots = useMemo(() => buildSlots(anchor, zoom), [anchor, zoom]);
+  const scheduleParams = new URLSearchParams({
+    start: slots[0].toISOString(),
+    end: slots[slots.length - 1].toISOString(),
+  });
+  const scheduleEndpoint = `/api/schedule?${scheduleParams.toString()}`;
+
+  // Fetch everything scheduled in the visible range; bookings change on other pages,
+  // so refetch whenever the calendar is opened
+  const { data: schedule, isLoading: isLoadingSchedule } = useQuery<VehicleSchedule>({
+    queryKey: [scheduleEndpoint],
+    staleTime: 0,
+  });
+
+  // Fetch vehicles for the rows
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  // Fetch users for the booking form (admins and moderators)
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    enabled: isApprover,
+  });
+
+  // Create a booking, or a series when a recurrence is chosen
+  const addBookingMutation = useMutation({
+    mutationFn: async ({ data, options, policyOverride }: { data: z.infer<typeof insertBookingSchema>, options: BookingSubmitOptions, policyOverride?: PolicyOverride }) => {
+      const res = options.recurrence
+        ? await apiRequest('POST', '/api/bookings/series', { ...data, recurrence: options.recurrence, skipConflicts: options.skipConflicts, policyOverride })
+        : await apiRequest('POST', '/api/bookings', { ...data, policyOverride });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Booking created',
+        description: 'The booking has been created successfully.',
+      });
+      setNewBooking(null);
+      setPolicyRejection(null);
+      queryClient.invalidateQueries({ queryKey: [scheduleEndpoint] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bookings'] });
+    },
+    onError: (error, variables) => {
+      // Approvers may override broken booking policies; everyone else just sees the rules
+      const violations = parsePolicyViolations(error);
+      if (violations && isApprover) {
+        setPolicyRejection({
+          violations,
+          resubmit: (policyOverride) => addBookingMutation.mutate({ ...variables, policyOverride }),
+        });
+        return;
+      }
+      setPolicyRejection(null);
+      toast({
+        title: 'Error creating booking',
+        description: violations ? violations.map(v => v.message).join('. ') : error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  // Handle add booking
+  const handleAddBooking = (data: z.infer<typeof insertBookingSchema>, options: BookingSubmitOptions) => {
+    // If not admin, set the userId to the current user
+    if (user?.role !== 'admin') {
+      data.userId = user?.id || 0;
+    }
+    addBookingMutation.mutate({ data, options });
+  };
+
+  // Dragging across free slots opens the booking form for that range
+  const handleSelectRange = useCallback((vehicleId: number, startTime: Date, endTime: Date) => {
+    setNewBooking({ vehicleId, startTime, endTime });
+  }, []);
+
+  const move = (direction: 1 | -1) => {
+    if (zoom === 'day') setAnchor(addDays(anchor, direction));
+    else if (zoom === 'week') setAnchor(addWeeks(anchor, direction));
+    else setAnchor(addMonths(anchor, direction));
+  };
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Calendar</h2>
+          <p className="text-muted-foreground">Drag across a free slot to book a vehicle</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mt-4 md:mt-0">
+          <Tabs value={zoom} onValueChange={(value) => setZoom(value as TimelineZoom)}>
+            <TabsList>
+              <TabsTrigger value="day">Day</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="month">Month</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button variant="outline" size="icon" onClick={() => move(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous</span>
+          </Button>
+          <Button variant="outline" onClick={() => setAnchor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => move(1)}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-medium">{formatRange(anchor, zoom)}</h3>
+        <div className="flex flex-wrap gap-4">
+          {timelineLegend.map((item) => (
+            <div key={item.label} className="flex items-center gap-2 text-sm text-muted-foreground">
+              <span className={`h-3 w-3 rounded ${item.className}`} />
+              {item.label}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {isLoadingSchedule || !vehicles ? (
+        <Card className="p-8 flex items-center justify-center">
+          <p>Loading schedule...</p>
+        </Card>
+      ) : (
+        <VehicleTimeline
+          vehicles={vehicles}
+          schedule={schedule || { bookings: [], trips: [], maintenance: [] }}
+          slots={slots}
+          zoom={zoom}
+          onSelectRange={handleSelectRange}
+        />
+      )}
+
+      {newBooking && (
+        <BookingForm
+          key={`${newBooking.vehicleId}-${newBooking.startTime?.toString()}`}
+          open={true}
+          onOpenChange={(open) => !open && setNewBooking(null)}
+          onSubmit={handleAddBooking}
+          isSubmitting={addBookingMutation.isPending}
+          vehicles={vehicles || []}
+          users={users || []}
+          currentUser={user}
+          defaultValues={newBooking}
+          mode="add"
+        />
+      )}
+
+      <PolicyOverrideDialog
+        violations={policyRejection?.violations ?? null}
+        onOpenChange={(open) => !open && setPolicyRejection(null)}
+        onConfirm={(override) => policyRejection?.resubmit(override)}
+        isSubmitting={addBookingMutation.isPending}
+      />
+    </div>
+  );
+}
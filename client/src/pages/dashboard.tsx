@@ -7,9 +7,15 @@ import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/use-auth';
 import StatCard from '@/components/dashboard/stat-card';
 import MaintenanceItem from '@/components/dashboard/maintenance-item';
+import OverdueMaintenanceItem from '@/components/dashboard/overdue-maintenance-item';
 import ActivityTable from '@/components/dashboard/activity-table';
 import FleetStatusChart from '@/components/dashboard/fleet-status';
 import { useLocation } from 'wouter';
+import { FleetStatusPoint, Maintenance, MaintenanceDue, Vehicle } from '@shared/schema';
+import { format } from 'date-fns';
+
+// How many maintenance entries fit in the dashboard card
+const MAINTENANCE_ITEM_COUNT = 5;
 
 interface DashboardStats {
   totalVehicles: number;
@@ -18,154 +24,6 @@ interface DashboardStats {
   activeTrips: number;
 }
 
-const mockChartData = [
-  {
-    name: 'Mon',
-    available: 18,
-    maintenance: 2,
-    inUse: 3,
-    outOfService: 1,
-  },
-  {
-    name: 'Tue',
-    available: 17,
-    maintenance: 3,
-    inUse: 4,
-    outOfService: 0,
-  },
-  {
-    name: 'Wed',
-    available: 16,
-    maintenance: 3,
-    inUse: 5,
-    outOfService: 0,
-  },
-  {
-    name: 'Thu',
-    available: 16,
-    maintenance: 2,
-    inUse: 5,
-    outOfService: 1,
-  },
-  {
-    name: 'Fri',
-    available: 18,
-    maintenance: 2,
-    inUse: 3,
-    outOfService: 1,
-  },
-  {
-    name: 'Sat',
-    available: 20,
-    maintenance: 1,
-    inUse: 2,
-    outOfService: 1,
-  },
-  {
-    name: 'Sun',
-    available: 21,
-    maintenance: 1,
-    inUse: 1,
-    outOfService: 1,
-  },
-];
-
-const mockMonthData = [
-  {
-    name: 'Week 1',
-    available: 18,
-    maintenance: 2,
-    inUse: 3,
-    outOfService: 1,
-  },
-  {
-    name: 'Week 2',
-    available: 16,
-    maintenance: 3,
-    inUse: 4,
-    outOfService: 1,
-  },
-  {
-    name: 'Week 3',
-    available: 15,
-    maintenance: 4,
-    inUse: 4,
-    outOfService: 1,
-  },
-  {
-    name: 'Week 4',
-    available: 17,
-    maintenance: 3,
-    inUse: 3,
-    outOfService: 1,
-  },
-];
-
-// Mock maintenance data - in a real app, this would come from an API
-const mockUpcomingMaintenance = [
-  {
-    id: 1,
-    vehicleId: 1,
-    description: 'Oil Change & Inspection',
-    date: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
-    status: 'pending',
-    type: 'scheduled',
-    cost: 150,
-    odometer: 25000
-  },
-  {
-    id: 2,
-    vehicleId: 2,
-    description: 'Brake Service',
-    date: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
-    status: 'pending',
-    type: 'scheduled',
-    cost: 300,
-    odometer: 36000
-  },
-  {
-    id: 3,
-    vehicleId: 3,
-    description: 'Tire Rotation',
-    date: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
-    status: 'pending',
-    type: 'scheduled',
-    cost: 80,
-    odometer: 15000
-  }
-];
-
-// Mock vehicle data - in a real app, this would come from an API
-const mockVehicles = [
-  {
-    id: 1,
-    make: 'Toyota',
-    model: 'Camry',
-    year: 2021,
-    registrationNumber: 'ABC-123',
-    status: 'available',
-    mileage: 24567
-  },
-  {
-    id: 2,
-    make: 'Ford',
-    model: 'F-150',
-    year: 2019,
-    registrationNumber: 'XYZ-789',
-    status: 'in_use',
-    mileage: 42890
-  },
-  {
-    id: 3,
-    make: 'Honda',
-    model: 'Civic',
-    year: 2020,
-    registrationNumber: 'DEF-456',
-    status: 'maintenance',
-    mileage: 35210
-  }
-];
-
 const mockActivities = [
   {
     id: 1,
@@ -219,6 +77,37 @@ export default function Dashboard() {
     }
   });
 
+  // Taken from the vehicles' status history, one snapshot a day for the week and a week for the month
+  const { data: fleetStatus } = useQuery<FleetStatusPoint[]>({
+    queryKey: [`/api/dashboard/fleet-status?period=${chartPeriod}`],
+  });
+
+  const fleetStatusData = (fleetStatus || []).map(({ at, ...counts }) => ({
+    name: format(new Date(at), chartPeriod === 'week' ? 'EEE' : 'MMM d'),
+    ...counts,
+  }));
+
+  const { data: upcomingMaintenance } = useQuery<Maintenance[]>({
+    queryKey: ['/api/maintenance/upcoming'],
+  });
+
+  const { data: maintenanceDue } = useQuery<MaintenanceDue[]>({
+    queryKey: ['/api/maintenance-plans/due'],
+  });
+
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  const getVehicle = (vehicleId: number) => vehicles?.find(v => v.id === vehicleId);
+
+  // Overdue plan services come first; their pending records are not listed a second time
+  const overdue = (maintenanceDue || []).filter(due => due.status === 'overdue' && getVehicle(due.vehicleId));
+  const overdueRecordIds = new Set(overdue.map(due => due.pendingMaintenanceId));
+  const upcoming = (upcomingMaintenance || [])
+    .filter(record => !overdueRecordIds.has(record.id) && getVehicle(record.vehicleId))
+    .slice(0, Math.max(0, MAINTENANCE_ITEM_COUNT - overdue.length));
+
   return (
     <div>
       <div className="mb-6">
@@ -262,7 +151,7 @@ export default function Dashboard() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
         <div className="lg:col-span-2">
           <FleetStatusChart 
-            data={chartPeriod === 'week' ? mockChartData : mockMonthData} 
+            data={fleetStatusData} 
             period={chartPeriod} 
             onPeriodChange={setChartPeriod} 
           />
@@ -273,16 +162,23 @@ export default function Dashboard() {
             <CardContent className="p-4 flex flex-col h-full">
               <h3 className="font-semibold mb-4">Upcoming Maintenance</h3>
               <div className="space-y-3 flex-grow">
-                {mockUpcomingMaintenance.map((maintenance) => {
-                  const vehicle = mockVehicles.find(v => v.id === maintenance.vehicleId)!;
-                  return (
-                    <MaintenanceItem 
-                      key={maintenance.id} 
-                      maintenance={maintenance}
-                      vehicle={vehicle}
-                    />
-                  );
-                })}
+                {overdue.slice(0, MAINTENANCE_ITEM_COUNT).map((due) => (
+                  <OverdueMaintenanceItem
+                    key={`${due.planId}-${due.vehicleId}`}
+                    due={due}
+                    vehicle={getVehicle(due.vehicleId)!}
+                  />
+                ))}
+                {upcoming.map((maintenance) => (
+                  <MaintenanceItem 
+                    key={maintenance.id} 
+                    maintenance={maintenance}
+                    vehicle={getVehicle(maintenance.vehicleId)!}
+                  />
+                ))}
+                {overdue.length === 0 && upcoming.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No maintenance is coming up.</p>
+                )}
               </div>
               <Button 
                 variant="link" 
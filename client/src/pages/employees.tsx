@@ -1,15 +1,18 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { User } from '@shared/schema';
+import { DrivingRecord as DrivingRecordData, User } from '@shared/schema';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
 import { Plus, Search } from 'lucide-react';
+import DrivingRecord from '@/components/incidents/driving-record';
 
 export default function Employees() {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState('');
+  const [recordEmployee, setRecordEmployee] = useState<User | null>(null);
 
   // Fetch employees
   const { data: employees, isLoading } = useQuery<User[]>({
@@ -23,6 +26,12 @@ export default function Employees() {
     }
   });
 
+  const { data: drivingRecord } = useQuery<DrivingRecordData>({
+    queryKey: [`/api/users/${recordEmployee?.id}/driving-record`],
+    enabled: !!recordEmployee,
+    staleTime: 0,
+  });
+
   return (
     <div>
       <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between">
@@ -78,7 +87,8 @@ export default function Employees() {
                     <span className="capitalize">{employee.role}</span>
                   </div>
                 </div>
-                <div className="mt-4 flex justify-end">
+                <div className="mt-4 flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setRecordEmployee(employee)}>Driving Record</Button>
                   <Button variant="outline" size="sm">Assign Vehicle</Button>
                 </div>
               </CardContent>
@@ -92,6 +102,20 @@ export default function Employees() {
           </CardContent>
         </Card>
       )}
+
+      <Dialog open={!!recordEmployee} onOpenChange={(open) => !open && setRecordEmployee(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Driving Record</DialogTitle>
+            <DialogDescription>{recordEmployee?.name}</DialogDescription>
+          </DialogHeader>
+          {drivingRecord && drivingRecord.driverId === recordEmployee?.id ? (
+            <DrivingRecord record={drivingRecord} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Loading driving record...</p>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { FuelLog, FuelEfficiencySummary, InsertFuelLog, Vehicle, User } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus } from 'lucide-react';
+import FuelLogList from '@/components/fuel/fuel-log-list';
+import FuelLogForm from '@/components/fuel/fuel-log-form';
+import FuelEfficiencyTable from '@/components/fuel/fuel-efficiency-table';
+
+export default function Fuel() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isApprover = user?.role === 'admin' || user?.role === 'moderator';
+  const [vehicleFilter, setVehicleFilter] = useState('all');
+  const [addLogOpen, setAddLogOpen] = useState(false);
+  const [selectedLog, setSelectedLog] = useState<FuelLog | null>(null);
+
+  const logsEndpoint = vehicleFilter === 'all' ? '/api/fuel-logs' : `/api/fuel-logs?vehicleId=${vehicleFilter}`;
+  const efficiencyEndpoint = vehicleFilter === 'all' ? '/api/fuel-logs/efficiency' : `/api/fuel-logs/efficiency?vehicleId=${vehicleFilter}`;
+
+  const { data: logs, isLoading } = useQuery<FuelLog[]>({
+    queryKey: [logsEndpoint],
+    staleTime: 0,
+  });
+
+  const { data: efficiency } = useQuery<FuelEfficiencySummary[]>({
+    queryKey: [efficiencyEndpoint],
+    enabled: isApprover,
+    staleTime: 0,
+  });
+
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    enabled: isApprover,
+  });
+
+  // Logs, efficiency and the odometer all change together
+  const refreshFuel = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/fuel-logs') });
+    queryClient.invalidateQueries({ queryKey: ['/api/vehicles'] });
+  };
+
+  const addLogMutation = useMutation({
+    mutationFn: async (logData: InsertFuelLog) => {
+      const res = await apiRequest('POST', '/api/fuel-logs', logData);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Fill-up logged',
+        description: 'The fill-up has been logged successfully.',
+      });
+      setAddLogOpen(false);
+      refreshFuel();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error logging fill-up',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const updateLogMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number, data: InsertFuelLog }) => {
+      const res = await apiRequest('PUT', `/api/fuel-logs/${id}`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Fill-up updated',
+        description: 'The fill-up has been updated successfully.',
+      });
+      setSelectedLog(null);
+      refreshFuel();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error updating fill-up',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deleteLogMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/fuel-logs/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Fill-up deleted',
+        description: 'The fill-up has been deleted successfully.',
+      });
+      refreshFuel();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error deleting fill-up',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const abnormalLogIds = new Set(
+    (efficiency || []).flatMap(summary =>
+      summary.segments.filter(segment => segment.abnormalReason).map(segment => segment.toFuelLogId)
+    )
+  );
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Fuel</h2>
+          <p className="text-muted-foreground">Log fill-ups and track fuel efficiency</p>
+        </div>
+        <div className="flex gap-2 mt-4 md:mt-0">
+          <Select value={vehicleFilter} onValueChange={setVehicleFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Vehicle" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Vehicles</SelectItem>
+              {(vehicles || []).map(vehicle => (
+                <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                  {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setAddLogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Log Fill-Up
+          </Button>
+        </div>
+      </div>
+
+      {isApprover && (
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold mb-3">Efficiency</h3>
+          <FuelEfficiencyTable summaries={efficiency || []} vehicles={vehicles || []} />
+        </div>
+      )}
+
+      <h3 className="text-lg font-semibold mb-3">Fill-Ups</h3>
+      {isLoading ? (
+        <Card className="p-8 flex items-center justify-center">
+          <p>Loading fill-ups...</p>
+        </Card>
+      ) : (
+        <FuelLogList
+          logs={logs || []}
+          vehicles={vehicles || []}
+          users={users || (user ? [user] : [])}
+          abnormalLogIds={abnormalLogIds}
+          canEdit={(log) => isApprover || log.driverId === user?.id}
+          canDelete={user?.role === 'admin'}
+          onEdit={setSelectedLog}
+          onDelete={(id) => deleteLogMutation.mutate(id)}
+        />
+      )}
+
+      <FuelLogForm
+        open={addLogOpen}
+        onOpenChange={setAddLogOpen}
+        onSubmit={(data) => addLogMutation.mutate(data)}
+        isSubmitting={addLogMutation.isPending}
+        vehicles={vehicles || []}
+        users={isApprover ? users || [] : undefined}
+        mode="add"
+      />
+
+      {selectedLog && (
+        <FuelLogForm
+          open={!!selectedLog}
+          onOpenChange={(open) => !open && setSelectedLog(null)}
+          onSubmit={(data) => updateLogMutation.mutate({ id: selectedLog.id, data })}
+          isSubmitting={updateLogMutation.isPending}
+          vehicles={vehicles || []}
+          users={isApprover ? users || [] : undefined}
+          defaultValues={selectedLog}
+          mode="edit"
+        />
+      )}
+    </div>
+  );
+}
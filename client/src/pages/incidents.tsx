@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Incident, IncidentInvestigation, IncidentStatus, InsertIncident, Vehicle, User, incidentStatuses } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus } from 'lucide-react';
+import IncidentList from '@/components/incidents/incident-list';
+import IncidentForm from '@/components/incidents/incident-form';
+import IncidentDetails from '@/components/incidents/incident-details';
+import CloseInvestigationDialog from '@/components/incidents/close-investigation-dialog';
+
+const statusFilterLabels: Record<IncidentStatus, string> = {
+  reported: 'Reported',
+  investigating: 'Investigating',
+  closed: 'Closed',
+};
+
+export default function Incidents() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isApprover = user?.role === 'admin' || user?.role === 'moderator';
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [vehicleFilter, setVehicleFilter] = useState('all');
+  const [reportOpen, setReportOpen] = useState(false);
+  const [viewedIncident, setViewedIncident] = useState<Incident | null>(null);
+  const [editedIncident, setEditedIncident] = useState<Incident | null>(null);
+  const [closingIncident, setClosingIncident] = useState<Incident | null>(null);
+
+  const params = new URLSearchParams();
+  if (statusFilter !== 'all') params.set('status', statusFilter);
+  if (vehicleFilter !== 'all') params.set('vehicleId', vehicleFilter);
+  const incidentsEndpoint = params.toString() ? `/api/incidents?${params}` : '/api/incidents';
+
+  const { data: incidents, isLoading } = useQuery<Incident[]>({
+    queryKey: [incidentsEndpoint],
+    staleTime: 0,
+  });
+
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    enabled: isApprover,
+  });
+
+  // Incidents feed the vehicle cost history and the driving records
+  const refreshIncidents = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/incidents') });
+    queryClient.invalidateQueries({ predicate: (query) => /^\/api\/(vehicles\/\d+\/costs|users\/\d+\/driving-record)/.test(String(query.queryKey[0])) });
+  };
+
+  const reportMutation = useMutation({
+    mutationFn: async (data: InsertIncident) => {
+      const res = await apiRequest('POST', '/api/incidents', data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Incident reported',
+        description: 'The incident has been reported successfully.',
+      });
+      setReportOpen(false);
+      refreshIncidents();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error reporting incident',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number, data: InsertIncident }) => {
+      const res = await apiRequest('PUT', `/api/incidents/${id}`, data);
+      return await res.json() as Incident;
+    },
+    onSuccess: (incident) => {
+      toast({
+        title: 'Incident updated',
+        description: 'The incident has been updated successfully.',
+      });
+      setEditedIncident(null);
+      setViewedIncident(incident);
+      refreshIncidents();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error updating incident',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const investigationMutation = useMutation({
+    mutationFn: async ({ id, investigation }: { id: number, investigation: IncidentInvestigation }) => {
+      const res = await apiRequest('POST', `/api/incidents/${id}/investigation`, investigation);
+      return await res.json() as Incident;
+    },
+    onSuccess: (incident) => {
+      toast({
+        title: incident.status === 'closed' ? 'Investigation closed' : 'Investigation started',
+        description: incident.status === 'closed'
+          ? 'The findings have been shared with the driver.'
+          : 'The incident is now under investigation.',
+      });
+      setClosingIncident(null);
+      setViewedIncident(incident);
+      refreshIncidents();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error updating investigation',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  // Reporters may correct their report until someone starts looking into it
+  const canEdit = (incident: Incident) =>
+    isApprover || (incident.reportedById === user?.id && incident.status === 'reported');
+
+  // Moderators do not investigate their own driving
+  const canInvestigate = (incident: Incident) =>
+    isApprover && (user?.role === 'admin' || incident.driverId !== user?.id);
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Incidents</h2>
+          <p className="text-muted-foreground">Report accidents, breakdowns and fines and follow their investigation</p>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-4 md:mt-0">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {incidentStatuses.map(status => (
+                <SelectItem key={status} value={status}>{statusFilterLabels[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={vehicleFilter} onValueChange={setVehicleFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Vehicle" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Vehicles</SelectItem>
+              {(vehicles || []).map(vehicle => (
+                <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                  {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setReportOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Report Incident
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Card className="p-8 flex items-center justify-center">
+          <p>Loading incidents...</p>
+        </Card>
+      ) : (
+        <IncidentList
+          incidents={incidents || []}
+          vehicles={vehicles || []}
+          users={users || (user ? [user] : [])}
+          onView={setViewedIncident}
+        />
+      )}
+
+      <IncidentDetails
+        incident={viewedIncident}
+        vehicles={vehicles || []}
+        users={users || (user ? [user] : [])}
+        onOpenChange={(open) => !open && setViewedIncident(null)}
+        canEdit={!!viewedIncident && canEdit(viewedIncident)}
+        canInvestigate={!!viewedIncident && canInvestigate(viewedIncident)}
+        onEdit={(incident) => {
+          setViewedIncident(null);
+          setEditedIncident(incident);
+        }}
+        onStartInvestigation={(incident) => investigationMutation.mutate({ id: incident.id, investigation: { status: 'investigating' } })}
+        onCloseInvestigation={(incident) => {
+          setViewedIncident(null);
+          setClosingIncident(incident);
+        }}
+        isUpdating={investigationMutation.isPending}
+      />
+
+      <IncidentForm
+        open={reportOpen}
+        onOpenChange={setReportOpen}
+        onSubmit={(data) => reportMutation.mutate(data)}
+        isSubmitting={reportMutation.isPending}
+        vehicles={vehicles || []}
+        users={isApprover ? users || [] : undefined}
+        mode="add"
+      />
+
+      {editedIncident && (
+        <IncidentForm
+          open={!!editedIncident}
+          onOpenChange={(open) => !open && setEditedIncident(null)}
+          onSubmit={(data) => updateMutation.mutate({ id: editedIncident.id, data })}
+          isSubmitting={updateMutation.isPending}
+          vehicles={vehicles || []}
+          users={isApprover ? users || [] : undefined}
+          defaultValues={editedIncident}
+          mode="edit"
+        />
+      )}
+
+      <CloseInvestigationDialog
+        incident={closingIncident}
+        onOpenChange={(open) => !open && setClosingIncident(null)}
+        onConfirm={(incident, investigation) => investigationMutation.mutate({ id: incident.id, investigation })}
+        isSubmitting={investigationMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Inspection, InspectionTemplate, InsertInspectionTemplate, Vehicle, User } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Pencil, Plus } from 'lucide-react';
+import InspectionList from '@/components/inspections/inspection-list';
+import TemplateForm from '@/components/inspections/template-form';
+import { inspectionKindTitles } from '@/components/inspections/inspection-form';
+
+export default function Inspections() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [vehicleFilter, setVehicleFilter] = useState('all');
+  const [templateForm, setTemplateForm] = useState<{ template?: InspectionTemplate } | null>(null);
+
+  const inspectionsEndpoint = vehicleFilter === 'all' ? '/api/inspections' : `/api/inspections?vehicleId=${vehicleFilter}`;
+
+  const { data: inspections, isLoading } = useQuery<Inspection[]>({
+    queryKey: [inspectionsEndpoint],
+    staleTime: 0,
+  });
+
+  const { data: templates } = useQuery<InspectionTemplate[]>({
+    queryKey: ['/api/inspection-templates'],
+  });
+
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: number, data: InsertInspectionTemplate }) => {
+      const res = id
+        ? await apiRequest('PUT', `/api/inspection-templates/${id}`, data)
+        : await apiRequest('POST', '/api/inspection-templates', data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Checklist saved',
+        description: 'New inspections use the updated checklist.',
+      });
+      setTemplateForm(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/inspection-templates'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving checklist',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Inspections</h2>
+          <p className="text-muted-foreground">Pre-trip and post-trip vehicle checks</p>
+        </div>
+        <div className="flex gap-2 mt-4 md:mt-0">
+          <Select value={vehicleFilter} onValueChange={setVehicleFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Vehicle" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Vehicles</SelectItem>
+              {(vehicles || []).map(vehicle => (
+                <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                  {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Tabs defaultValue="inspections">
+        <TabsList className="mb-4">
+          <TabsTrigger value="inspections">Inspections</TabsTrigger>
+          <TabsTrigger value="templates">Checklists</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="inspections">
+          {isLoading ? (
+            <Card className="p-8 flex items-center justify-center">
+              <p>Loading inspections...</p>
+            </Card>
+          ) : (
+            <InspectionList
+              inspections={inspections || []}
+              vehicles={vehicles || []}
+              users={users || []}
+            />
+          )}
+        </TabsContent>
+
+        <TabsContent value="templates">
+          {isAdmin && (
+            <div className="mb-4 flex justify-end">
+              <Button onClick={() => setTemplateForm({})}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Checklist
+              </Button>
+            </div>
+          )}
+          <div className="rounded-lg border overflow-hidden">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Used for</TableHead>
+                    <TableHead>Items</TableHead>
+                    <TableHead>Status</TableHead>
+                    {isAdmin && <TableHead className="text-center">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(templates || []).map(template => (
+                    <TableRow key={template.id} className="hover:bg-muted/50">
+                      <TableCell>{template.name}</TableCell>
+                      <TableCell>{inspectionKindTitles[template.kind]}</TableCell>
+                      <TableCell>
+                        <p>{template.items.length} items</p>
+                        <p className="text-muted-foreground text-xs">
+                          {template.items.filter(item => item.critical).length} critical
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        {template.active ? <Badge variant="outline">Active</Badge> : <Badge variant="secondary">Retired</Badge>}
+                      </TableCell>
+                      {isAdmin && (
+                        <TableCell>
+                          <div className="flex justify-center">
+                            <Button variant="ghost" size="icon" onClick={() => setTemplateForm({ template })}>
+                              <Pencil className="h-4 w-4" />
+                              <span className="sr-only">Edit</span>
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <TemplateForm
+        open={!!templateForm}
+        onOpenChange={(open) => !open && setTemplateForm(null)}
+        onSubmit={(data) => saveTemplateMutation.mutate({ id: templateForm?.template?.id, data })}
+        isSubmitting={saveTemplateMutation.isPending}
+        template={templateForm?.template}
+      />
+    </div>
+  );
+}
@@ -1,18 +1,25 @@
 import { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { Maintenance, Vehicle, insertMaintenanceSchema } from '@shared/schema';
+import { InsertMaintenancePlan, Maintenance, MaintenanceDue, MaintenancePlan, Vehicle, Vendor, insertMaintenanceSchema } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
-import { Plus, Search } from 'lucide-react';
-import MaintenanceList from '@/components/maintenance/maintenance-list';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CalendarClock, Plus, Search } from 'lucide-react';
+import MaintenanceList, { CompleteMaintenanceDetails } from '@/components/maintenance/maintenance-list';
 import MaintenanceForm from '@/components/maintenance/maintenance-form';
+import PlanForm from '@/components/maintenance/plan-form';
+import PlanList from '@/components/maintenance/plan-list';
+import MaintenanceDueList from '@/components/maintenance/maintenance-due-list';
 import { z } from 'zod';
 
 export default function MaintenancePage() {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [tab, setTab] = useState('records');
   const [searchQuery, setSearchQuery] = useState('');
   const [addMaintenanceOpen, setAddMaintenanceOpen] = useState(false);
   const [editMaintenanceOpen, setEditMaintenanceOpen] = useState(false);
@@ -20,25 +27,103 @@ export default function MaintenancePage() {
   const [currentPage, setCurrentPage] = useState(1);
   const pageSize = 10;
   const [statusFilter, setStatusFilter] = useState('');
+  const [planFormOpen, setPlanFormOpen] = useState(false);
+  const [editedPlan, setEditedPlan] = useState<MaintenancePlan | null>(null);
 
   // Fetch upcoming maintenance
   const { data: maintenanceRecords, isLoading: isLoadingMaintenance } = useQuery<Maintenance[]>({
     queryKey: ['/api/maintenance/upcoming'],
+  });
+
+  // Fetch vehicles for the form
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  const { data: vendors } = useQuery<Vendor[]>({
+    queryKey: ['/api/vendors'],
+  });
+
+  const { data: plans, isLoading: isLoadingPlans } = useQuery<MaintenancePlan[]>({
+    queryKey: ['/api/maintenance-plans'],
+    enabled: tab === 'plans',
+  });
+
+  const { data: dueList } = useQuery<MaintenanceDue[]>({
+    queryKey: ['/api/maintenance-plans/due'],
+    enabled: tab === 'plans',
+    staleTime: 0,
+  });
+
+  // Completing a planned service moves its plan on, and plan changes can open new records
+  const refreshMaintenance = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/maintenance/upcoming'] });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/vendors') });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/parts') });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/maintenance-plans') });
+  };
+
+  const savePlanMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: number, data: InsertMaintenancePlan }) => {
+      const res = id
+        ? await apiRequest('PUT', `/api/maintenance-plans/${id}`, data)
+        : await apiRequest('POST', '/api/maintenance-plans', data);
+      return await res.json() as MaintenancePlan;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Maintenance plan saved',
+        description: 'Services coming due are scheduled within the hour.',
+      });
+      setPlanFormOpen(false);
+      setEditedPlan(null);
+      refreshMaintenance();
+    },
     onError: (error) => {
       toast({
-        title: 'Error loading maintenance records',
+        title: 'Error saving maintenance plan',
         description: error.message,
         variant: 'destructive',
       });
     }
   });
 
-  // Fetch vehicles for the form
-  const { data: vehicles } = useQuery<Vehicle[]>({
-    queryKey: ['/api/vehicles'],
+  // The server opens due services every hour; this does it right away
+  const scheduleDueMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/maintenance-plans/schedule');
+      return await res.json() as MaintenanceDue[];
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Due services scheduled',
+        description: 'Pending records are open for everything coming due.',
+      });
+      refreshMaintenance();
+    },
     onError: (error) => {
       toast({
-        title: 'Error loading vehicles',
+        title: 'Error scheduling due services',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deletePlanMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/maintenance-plans/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Maintenance plan deleted',
+        description: 'The plan has been deleted successfully.',
+      });
+      refreshMaintenance();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error deleting maintenance plan',
         description: error.message,
         variant: 'destructive',
       });
@@ -57,7 +142,7 @@ export default function MaintenancePage() {
         description: 'The maintenance record has been added successfully.',
       });
       setAddMaintenanceOpen(false);
-      queryClient.invalidateQueries({ queryKey: ['/api/maintenance/upcoming'] });
+      refreshMaintenance();
     },
     onError: (error) => {
       toast({
@@ -80,7 +165,7 @@ export default function MaintenancePage() {
         description: 'The maintenance record has been updated successfully.',
       });
       setEditMaintenanceOpen(false);
-      queryClient.invalidateQueries({ queryKey: ['/api/maintenance/upcoming'] });
+      refreshMaintenance();
     },
     onError: (error) => {
       toast({
@@ -102,7 +187,7 @@ export default function MaintenancePage() {
         title: 'Maintenance completed',
         description: 'The maintenance has been marked as completed.',
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/maintenance/upcoming'] });
+      refreshMaintenance();
     },
     onError: (error) => {
       toast({
@@ -123,7 +208,7 @@ export default function MaintenancePage() {
         title: 'Maintenance record deleted',
         description: 'The maintenance record has been deleted successfully.',
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/maintenance/upcoming'] });
+      refreshMaintenance();
     },
     onError: (error) => {
       toast({
@@ -153,13 +238,13 @@ export default function MaintenancePage() {
   };
 
   // Handle complete maintenance
-  const handleCompleteMaintenance = (maintenance: Maintenance, cost: number) => {
+  const handleCompleteMaintenance = (maintenance: Maintenance, details: CompleteMaintenanceDetails) => {
     completeMaintenanceMutation.mutate({
       id: maintenance.id,
       data: {
         status: 'completed',
         completedAt: new Date(),
-        cost
+        ...details
       }
     });
   };
@@ -203,41 +288,104 @@ export default function MaintenancePage() {
           <h2 className="text-2xl font-bold">Maintenance</h2>
           <p className="text-muted-foreground">Track vehicle maintenance records</p>
         </div>
-        <div className="flex gap-2 mt-4 md:mt-0">
-          <div className="relative flex-grow md:w-64">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              type="text"
-              placeholder="Search maintenance..."
-              className="pl-9"
-              value={searchQuery}
-              onChange={e => setSearchQuery(e.target.value)}
-            />
+        {tab === 'records' ? (
+          <div className="flex gap-2 mt-4 md:mt-0">
+            <div className="relative flex-grow md:w-64">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="text"
+                placeholder="Search maintenance..."
+                className="pl-9"
+                value={searchQuery}
+                onChange={e => setSearchQuery(e.target.value)}
+              />
+            </div>
+            <Button onClick={() => setAddMaintenanceOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Schedule Maintenance
+            </Button>
           </div>
-          <Button onClick={() => setAddMaintenanceOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            Schedule Maintenance
-          </Button>
-        </div>
+        ) : (
+          <div className="flex gap-2 mt-4 md:mt-0">
+            <Button variant="outline" disabled={scheduleDueMutation.isPending} onClick={() => scheduleDueMutation.mutate()}>
+              <CalendarClock className="mr-2 h-4 w-4" />
+              Schedule Due Services
+            </Button>
+            <Button onClick={() => setPlanFormOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Plan
+            </Button>
+          </div>
+        )}
       </div>
 
-      {isLoadingMaintenance ? (
-        <Card className="p-8 flex items-center justify-center">
-          <p>Loading maintenance records...</p>
-        </Card>
-      ) : (
-        <MaintenanceList
-          maintenanceRecords={paginatedMaintenance}
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList className="mb-4">
+          <TabsTrigger value="records">Records</TabsTrigger>
+          <TabsTrigger value="plans">Plans</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="records">
+          {isLoadingMaintenance ? (
+            <Card className="p-8 flex items-center justify-center">
+              <p>Loading maintenance records...</p>
+            </Card>
+          ) : (
+            <MaintenanceList
+              maintenanceRecords={paginatedMaintenance}
+              vehicles={vehicles || []}
+              vendors={vendors || []}
+              totalCount={totalCount}
+              currentPage={currentPage}
+              pageSize={pageSize}
+              onPageChange={setCurrentPage}
+              onEdit={handleEditClick}
+              onDelete={handleDeleteMaintenance}
+              onComplete={handleCompleteMaintenance}
+              statusFilter={statusFilter}
+              setStatusFilter={setStatusFilter}
+            />
+          )}
+        </TabsContent>
+
+        <TabsContent value="plans" className="space-y-6">
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold">Due</h3>
+            <MaintenanceDueList dueList={dueList || []} vehicles={vehicles || []} />
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold">Plans</h3>
+            {isLoadingPlans ? (
+              <Card className="p-8 flex items-center justify-center">
+                <p>Loading plans...</p>
+              </Card>
+            ) : (
+              <PlanList
+                plans={plans || []}
+                vehicles={vehicles || []}
+                canDelete={user?.role === 'admin'}
+                onEdit={setEditedPlan}
+                onDelete={(id) => deletePlanMutation.mutate(id)}
+              />
+            )}
+          </section>
+        </TabsContent>
+      </Tabs>
+
+      {(planFormOpen || editedPlan) && (
+        <PlanForm
+          open={planFormOpen || !!editedPlan}
+          onOpenChange={(open) => {
+            if (!open) {
+              setPlanFormOpen(false);
+              setEditedPlan(null);
+            }
+          }}
+          onSubmit={(data) => savePlanMutation.mutate({ id: editedPlan?.id, data })}
+          isSubmitting={savePlanMutation.isPending}
           vehicles={vehicles || []}
-          totalCount={totalCount}
-          currentPage={currentPage}
-          pageSize={pageSize}
-          onPageChange={setCurrentPage}
-          onEdit={handleEditClick}
-          onDelete={handleDeleteMaintenance}
-          onComplete={handleCompleteMaintenance}
-          statusFilter={statusFilter}
-          setStatusFilter={setStatusFilter}
+          defaultValues={editedPlan ?? undefined}
         />
       )}
 
@@ -247,6 +395,7 @@ export default function MaintenancePage() {
         onSubmit={handleAddMaintenance}
         isSubmitting={addMaintenanceMutation.isPending}
         vehicles={vehicles || []}
+        vendors={vendors || []}
         mode="add"
       />
 
@@ -257,6 +406,7 @@ export default function MaintenancePage() {
           onSubmit={handleEditMaintenance}
           isSubmitting={updateMaintenanceMutation.isPending}
           vehicles={vehicles || []}
+          vendors={vendors || []}
           defaultValues={selectedMaintenance}
           mode="edit"
         />
@@ -0,0 +1,348 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { InsertMileageRate, MileageRate, MileageStatement, MileageStatementDecision, MileageStatementPreview, User, Vehicle } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Check, Download, Eye, Loader2, Send, X } from 'lucide-react';
+import { format } from 'date-fns';
+import StatementTable, { StatementStatusBadge } from '@/components/mileage/statement-table';
+import RejectStatementDialog from '@/components/mileage/reject-statement-dialog';
+import RatesTable from '@/components/mileage/rates-table';
+
+type StatementPreviewResponse = {
+  preview: MileageStatementPreview;
+  statement: MileageStatement | null;
+};
+
+// Trips are grouped by the month they started in, in UTC, to match the server
+const thisMonth = () => new Date().toISOString().slice(0, 7);
+
+function ExportButtons({ statement }: { statement: MileageStatement }) {
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" asChild>
+        <a href={`/api/mileage-statements/${statement.id}/export?format=csv`}>
+          <Download className="mr-2 h-4 w-4" />
+          CSV
+        </a>
+      </Button>
+      <Button variant="outline" size="sm" asChild>
+        <a href={`/api/mileage-statements/${statement.id}/export?format=pdf`}>
+          <Download className="mr-2 h-4 w-4" />
+          PDF
+        </a>
+      </Button>
+    </div>
+  );
+}
+
+export default function Mileage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const isApprover = user?.role === 'admin' || user?.role === 'moderator';
+  const [month, setMonth] = useState(thisMonth());
+  const [statusFilter, setStatusFilter] = useState('submitted');
+  const [viewing, setViewing] = useState<MileageStatement | null>(null);
+  const [rejecting, setRejecting] = useState<MileageStatement | null>(null);
+
+  const { data: current, isLoading } = useQuery<StatementPreviewResponse>({
+    queryKey: [`/api/mileage-statements/preview?month=${month}`],
+    enabled: /^\d{4}-\d{2}$/.test(month),
+    staleTime: 0,
+  });
+
+  const statementsEndpoint = statusFilter === 'all' ? '/api/mileage-statements' : `/api/mileage-statements?status=${statusFilter}`;
+  const { data: statements } = useQuery<MileageStatement[]>({
+    queryKey: [statementsEndpoint],
+    enabled: isApprover,
+    staleTime: 0,
+  });
+
+  const { data: rates } = useQuery<Pick<MileageRate, "usage" | "treatment" | "ratePerKm">[]>({
+    queryKey: ['/api/mileage-rates'],
+  });
+
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    enabled: isApprover,
+  });
+
+  const getDriverName = (driverId: number) => users?.find(u => u.id === driverId)?.name ?? 'Unknown';
+
+  const invalidateStatements = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/mileage-statements') });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/mileage-statements', { month });
+      return await res.json() as MileageStatement;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Statement submitted',
+        description: 'A moderator will review it before it goes to payroll.',
+      });
+      invalidateStatements();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error submitting statement',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ statement, decision }: { statement: MileageStatement, decision: MileageStatementDecision }) => {
+      const res = await apiRequest('POST', `/api/mileage-statements/${statement.id}/decision`, decision);
+      return await res.json() as MileageStatement;
+    },
+    onSuccess: (statement) => {
+      toast({
+        title: statement.status === 'approved' ? 'Statement approved' : 'Statement rejected',
+        description: statement.status === 'approved'
+          ? 'Its trips are now locked and it can be exported for payroll.'
+          : 'The driver has been notified and can submit it again.',
+      });
+      setRejecting(null);
+      invalidateStatements();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error deciding statement',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const saveRateMutation = useMutation({
+    mutationFn: async (rate: InsertMileageRate) => {
+      const res = await apiRequest('PUT', '/api/mileage-rates', rate);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Rate saved',
+        description: 'Statements submitted from now on use the new rate.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/mileage-rates'] });
+      invalidateStatements();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving rate',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const statement = current?.statement;
+  const isLocked = statement?.status === 'approved';
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold">Mileage</h2>
+        <p className="text-muted-foreground">Monthly mileage statements for reimbursement and private use</p>
+      </div>
+
+      <Tabs defaultValue="statement">
+        <TabsList className="mb-4">
+          <TabsTrigger value="statement">My Statement</TabsTrigger>
+          {isApprover && <TabsTrigger value="approvals">Approvals</TabsTrigger>}
+          <TabsTrigger value="rates">Rates</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="statement" className="space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <Input
+              type="month"
+              className="w-48"
+              max={thisMonth()}
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+            />
+            {statement && <StatementStatusBadge status={statement.status} />}
+            <div className="flex gap-2 md:ml-auto">
+              {statement && <ExportButtons statement={statement} />}
+              {!isLocked && (
+                <Button
+                  onClick={() => submitMutation.mutate()}
+                  disabled={submitMutation.isPending || !current || month > thisMonth()}
+                >
+                  {submitMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="mr-2 h-4 w-4" />
+                  )}
+                  {statement ? 'Submit Again' : 'Submit Statement'}
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {statement?.status === 'rejected' && statement.decisionReason && (
+            <Card className="p-4 text-sm">
+              <p className="font-medium">Rejected: {statement.decisionReason}</p>
+              <p className="text-muted-foreground">Correct your trips and submit the month again.</p>
+            </Card>
+          )}
+          {isLocked && (
+            <p className="text-sm text-muted-foreground">
+              This statement was approved{statement.decidedAt ? ` on ${format(new Date(statement.decidedAt), 'MMM d, yyyy')}` : ''}. Its trips can no longer be changed.
+            </p>
+          )}
+          {statement?.status === 'submitted' && (
+            <p className="text-sm text-muted-foreground">
+              Submitted {format(new Date(statement.submittedAt), 'MMM d, yyyy h:mm a')}. The figures below include any trips changed since then; submit again to update it.
+            </p>
+          )}
+
+          {isLoading || !current ? (
+            <Card className="p-8 flex items-center justify-center">
+              <p>Loading statement...</p>
+            </Card>
+          ) : (
+            <StatementTable statement={isLocked ? statement : current.preview} vehicles={vehicles || []} />
+          )}
+        </TabsContent>
+
+        {isApprover && (
+          <TabsContent value="approvals" className="space-y-4">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="submitted">Awaiting approval</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="all">All Statements</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {(statements || []).length === 0 ? (
+              <div className="rounded-lg border p-8 text-center text-muted-foreground">
+                No statements to show.
+              </div>
+            ) : (
+              <div className="rounded-lg border overflow-hidden">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Driver</TableHead>
+                        <TableHead>Month</TableHead>
+                        <TableHead className="text-right">Km</TableHead>
+                        <TableHead className="text-right">Reimbursement</TableHead>
+                        <TableHead className="text-right">Benefit in kind</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-center">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(statements || []).map(s => {
+                        // Moderators cannot decide on their own statements
+                        const canDecide = s.status === 'submitted' && (isAdmin || s.driverId !== user?.id);
+                        return (
+                          <TableRow key={s.id} className="hover:bg-muted/50">
+                            <TableCell>{getDriverName(s.driverId)}</TableCell>
+                            <TableCell>{s.month}</TableCell>
+                            <TableCell className="text-right">{s.totalKm.toFixed(1)}</TableCell>
+                            <TableCell className="text-right">{s.reimbursementTotal.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">{s.benefitTotal.toFixed(2)}</TableCell>
+                            <TableCell><StatementStatusBadge status={s.status} /></TableCell>
+                            <TableCell>
+                              <div className="flex justify-center gap-1">
+                                <Button variant="ghost" size="icon" onClick={() => setViewing(s)}>
+                                  <Eye className="h-4 w-4" />
+                                  <span className="sr-only">View</span>
+                                </Button>
+                                {canDecide && (
+                                  <>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      disabled={decisionMutation.isPending}
+                                      onClick={() => decisionMutation.mutate({ statement: s, decision: { decision: 'approved' } })}
+                                    >
+                                      <Check className="h-4 w-4" />
+                                      <span className="sr-only">Approve</span>
+                                    </Button>
+                                    <Button variant="ghost" size="icon" onClick={() => setRejecting(s)}>
+                                      <X className="h-4 w-4" />
+                                      <span className="sr-only">Reject</span>
+                                    </Button>
+                                  </>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+        )}
+
+        <TabsContent value="rates">
+          <p className="text-sm text-muted-foreground mb-4">
+            Reimbursed kilometres are paid to the driver; benefit-in-kind kilometres are reported to payroll as private use of a company vehicle.
+          </p>
+          <RatesTable
+            rates={rates || []}
+            canEdit={isAdmin}
+            onSave={(rate) => saveRateMutation.mutate(rate)}
+            isSaving={saveRateMutation.isPending}
+          />
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          {viewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{getDriverName(viewing.driverId)} – {viewing.month}</DialogTitle>
+                <DialogDescription>
+                  Submitted {format(new Date(viewing.submittedAt), 'MMM d, yyyy h:mm a')}
+                  {viewing.decisionReason && ` · ${viewing.decisionReason}`}
+                </DialogDescription>
+              </DialogHeader>
+              <StatementTable statement={viewing} vehicles={vehicles || []} />
+              <ExportButtons statement={viewing} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <RejectStatementDialog
+        statement={rejecting}
+        driverName={rejecting ? getDriverName(rejecting.driverId) : ''}
+        onOpenChange={(open) => !open && setRejecting(null)}
+        onConfirm={(statement, reason) => decisionMutation.mutate({ statement, decision: { decision: 'rejected', reason } })}
+        isSubmitting={decisionMutation.isPending}
+      />
+    </div>
+  );
+}
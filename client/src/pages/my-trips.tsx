@@ -0,0 +1,457 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Booking, Inspection, InspectionKind, InspectionTemplate, InsertInspection, Trip, TripUsage, Vehicle } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, ClipboardCheck, Flag, MapPin, Play } from 'lucide-react';
+import { format } from 'date-fns';
+import DriverStartDialog from '@/components/trips/driver-start-dialog';
+import FinishTripDialog, { FinishTripDetails } from '@/components/trips/finish-trip-dialog';
+import StartTripDialog from '@/components/bookings/start-trip-dialog';
+import InspectionForm from '@/components/inspections/inspection-form';
+
+const RECENT_TRIP_COUNT = 5;
+
+// The checklist shown before the start or finish dialog it leads on to
+type InspectionStep = {
+  kind: InspectionKind;
+  vehicle: Vehicle;
+  tripId?: number;
+  onDone: () => void;
+};
+
+export default function MyTrips() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [vehicleToStart, setVehicleToStart] = useState<Vehicle | null>(null);
+  const [bookingToStart, setBookingToStart] = useState<Booking | null>(null);
+  const [tripToFinish, setTripToFinish] = useState<Trip | null>(null);
+  const [inspectionStep, setInspectionStep] = useState<InspectionStep | null>(null);
+
+  const tripsEndpoint = `/api/trips/driver/${user?.id}`;
+  const bookingsEndpoint = `/api/bookings/user/${user?.id}`;
+
+  const { data: trips, isLoading } = useQuery<Trip[]>({
+    queryKey: [tripsEndpoint],
+    enabled: !!user,
+    staleTime: 0,
+  });
+
+  const { data: bookings } = useQuery<Booking[]>({
+    queryKey: [bookingsEndpoint],
+    enabled: !!user,
+    staleTime: 0,
+  });
+
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  const { data: inspections } = useQuery<Inspection[]>({
+    queryKey: ['/api/inspections'],
+    staleTime: 0,
+  });
+
+  const { data: templates } = useQuery<InspectionTemplate[]>({
+    queryKey: ['/api/inspection-templates'],
+  });
+
+  // Starting or finishing a trip moves the vehicle, the booking and the odometer together
+  const refreshTrips = () => {
+    queryClient.invalidateQueries({ queryKey: [tripsEndpoint] });
+    queryClient.invalidateQueries({ queryKey: [bookingsEndpoint] });
+    queryClient.invalidateQueries({ queryKey: ['/api/trips'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/trips/active'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/vehicles'] });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/inspections') });
+  };
+
+  const inspectionMutation = useMutation({
+    mutationFn: async (inspection: InsertInspection) => {
+      const res = await apiRequest('POST', '/api/inspections', inspection);
+      return await res.json() as Inspection;
+    },
+    onSuccess: (inspection) => {
+      const failed = inspection.results.filter(result => !result.passed).length;
+      if (inspection.criticalFailure) {
+        toast({
+          title: 'Vehicle taken out of service',
+          description: 'A critical item failed, so the vehicle stays off the road until it has been repaired.',
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: 'Inspection recorded',
+          description: failed > 0
+            ? `${failed} item${failed === 1 ? '' : 's'} sent to maintenance.`
+            : 'Everything passed.',
+        });
+      }
+      
+      // A vehicle that failed a critical pre-trip item cannot be driven, so the trip does not start
+      const step = inspectionStep;
+      setInspectionStep(null);
+      refreshTrips();
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/maintenance') });
+      if (step && !(step.kind === 'pre_trip' && inspection.criticalFailure)) {
+        step.onDone();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error recording inspection',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const startAssignedMutation = useMutation({
+    mutationFn: async ({ vehicle, startOdometer, purpose, usage }: { vehicle: Vehicle, startOdometer: number, purpose: string | null, usage: TripUsage }) => {
+      const res = await apiRequest('POST', '/api/trips', {
+        vehicleId: vehicle.id,
+        driverId: user!.id,
+        startTime: new Date().toISOString(),
+        startOdometer,
+        purpose,
+        usage,
+        status: 'in_progress',
+      });
+      return await res.json() as Trip;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Trip started',
+        description: 'Drive safe. Finish the trip here when you return the vehicle.',
+      });
+      setVehicleToStart(null);
+      refreshTrips();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error starting trip',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const startBookingMutation = useMutation({
+    mutationFn: async ({ bookingId, startOdometer }: { bookingId: number, startOdometer: number }) => {
+      const res = await apiRequest('POST', `/api/bookings/${bookingId}/start-trip`, { startOdometer });
+      return await res.json() as Trip;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Trip started',
+        description: 'Drive safe. Finish the trip here when you return the vehicle.',
+      });
+      setBookingToStart(null);
+      refreshTrips();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error starting trip',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const finishMutation = useMutation({
+    mutationFn: async ({ trip, details }: { trip: Trip, details: FinishTripDetails }) => {
+      const res = await apiRequest('PUT', `/api/trips/${trip.id}`, {
+        status: 'completed',
+        endTime: new Date().toISOString(),
+        endOdometer: details.endOdometer,
+        fuelConsumed: details.fuelConsumed,
+        notes: details.notes,
+      });
+      return await res.json() as Trip;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Trip finished',
+        description: 'The vehicle is available again.',
+      });
+      setTripToFinish(null);
+      refreshTrips();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error finishing trip',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  // Stops are checked off one at a time, in the order they were planned
+  const arriveMutation = useMutation({
+    mutationFn: async ({ trip, index }: { trip: Trip, index: number }) => {
+      const stops = trip.stops.map((stop, i) => i === index ? { ...stop, actualArrival: new Date().toISOString() } : stop);
+      const res = await apiRequest('PUT', `/api/trips/${trip.id}`, { stops });
+      return await res.json() as Trip;
+    },
+    onSuccess: (trip) => {
+      const remaining = trip.stops.filter(stop => !stop.actualArrival).length;
+      toast({
+        title: 'Arrival recorded',
+        description: remaining === 0 ? 'All stops have been reached.' : `${remaining} stop(s) to go.`,
+      });
+      refreshTrips();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error recording arrival',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const getVehicle = (vehicleId: number | null) => vehicles?.find(v => v.id === vehicleId);
+
+  const hasPostTripInspection = (trip: Trip) =>
+    (inspections || []).some(inspection => inspection.kind === 'post_trip' && inspection.tripId === trip.id);
+
+  // Drivers go through the pre-trip checklist before the start dialog
+  const startVehicle = (vehicle: Vehicle) => {
+    setInspectionStep({ kind: 'pre_trip', vehicle, onDone: () => setVehicleToStart(vehicle) });
+  };
+
+  const startBooking = (booking: Booking) => {
+    const vehicle = getVehicle(booking.vehicleId);
+    if (!vehicle) return;
+    setInspectionStep({ kind: 'pre_trip', vehicle, onDone: () => setBookingToStart(booking) });
+  };
+
+  // ...and the post-trip checklist before finishing, unless it is already done
+  const finishTrip = (trip: Trip) => {
+    const vehicle = getVehicle(trip.vehicleId);
+    if (!vehicle || hasPostTripInspection(trip)) {
+      setTripToFinish(trip);
+      return;
+    }
+    setInspectionStep({ kind: 'post_trip', vehicle, tripId: trip.id, onDone: () => setTripToFinish(trip) });
+  };
+
+  const getVehicleName = (vehicleId: number | null) => {
+    const vehicle = getVehicle(vehicleId);
+    return vehicle ? `${vehicle.make} ${vehicle.model}` : 'Unknown Vehicle';
+  };
+
+  const myTrips = trips || [];
+  const activeTrips = myTrips.filter(trip => trip.status === 'in_progress');
+  const recentTrips = myTrips
+    .filter(trip => trip.status === 'completed' || trip.status === 'cancelled')
+    .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+    .slice(0, RECENT_TRIP_COUNT);
+
+  const assignedVehicles = (vehicles || []).filter(
+    vehicle => vehicle.assignedToId === user?.id && vehicle.status === 'available'
+  );
+
+  // Approved bookings with a vehicle that have not been started yet and have not run out
+  const now = new Date();
+  const startableBookings = (bookings || [])
+    .filter(booking =>
+      booking.status === 'approved' &&
+      booking.vehicleId !== null &&
+      new Date(booking.endTime) > now &&
+      !myTrips.some(trip => trip.bookingId === booking.id)
+    )
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+  return (
+    <div className="max-w-2xl">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold">My Trips</h2>
+        <p className="text-muted-foreground">Inspect and start a trip when you take a vehicle, and finish it when you bring it back</p>
+      </div>
+
+      {isLoading ? (
+        <Card className="p-8 flex items-center justify-center">
+          <p>Loading trips...</p>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {activeTrips.length > 0 && (
+            <section className="space-y-3">
+              <h3 className="text-lg font-semibold">On the Road</h3>
+              {activeTrips.map(trip => (
+                <Card key={trip.id} className="border-primary">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base">{getVehicleName(trip.vehicleId)}</CardTitle>
+                    <CardDescription>{getVehicle(trip.vehicleId)?.registrationNumber}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="text-sm space-y-1">
+                    <p>Started {format(new Date(trip.startTime), 'MMM d, yyyy h:mm a')}</p>
+                    <p>Start odometer {trip.startOdometer.toLocaleString()} miles</p>
+                    {trip.purpose && <p className="text-muted-foreground">{trip.purpose}</p>}
+                    {trip.stops.length > 0 && (
+                      <ol className="pt-2 space-y-2">
+                        {trip.stops.map((stop, index) => {
+                          const isNext = !stop.actualArrival && trip.stops.findIndex(s => !s.actualArrival) === index;
+                          return (
+                            <li key={index} className="flex items-center gap-2">
+                              {stop.actualArrival ? (
+                                <CheckCircle className="h-4 w-4 shrink-0 text-green-500" />
+                              ) : (
+                                <MapPin className="h-4 w-4 shrink-0 text-muted-foreground" />
+                              )}
+                              <span className={stop.actualArrival ? 'text-muted-foreground' : ''}>
+                                {stop.label}
+                                {stop.actualArrival && ` · ${format(new Date(stop.actualArrival), 'h:mm a')}`}
+                              </span>
+                              {isNext && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="ml-auto"
+                                  onClick={() => arriveMutation.mutate({ trip, index })}
+                                  disabled={arriveMutation.isPending}
+                                >
+                                  Arrived
+                                </Button>
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ol>
+                    )}
+                    {hasPostTripInspection(trip) && (
+                      <p className="flex items-center gap-1 text-muted-foreground">
+                        <ClipboardCheck className="h-4 w-4" />
+                        Post-trip inspection done
+                      </p>
+                    )}
+                  </CardContent>
+                  <CardFooter>
+                    <Button className="w-full" onClick={() => finishTrip(trip)}>
+                      <Flag className="mr-2 h-4 w-4" />
+                      Finish Trip
+                    </Button>
+                  </CardFooter>
+                </Card>
+              ))}
+            </section>
+          )}
+
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold">Start a Trip</h3>
+            {assignedVehicles.length === 0 && startableBookings.length === 0 && (
+              <div className="rounded-lg border p-8 text-center text-muted-foreground">
+                No vehicle is assigned to you and you have no approved bookings ready to start.
+              </div>
+            )}
+            {assignedVehicles.map(vehicle => (
+              <Card key={`vehicle-${vehicle.id}`}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base">{vehicle.make} {vehicle.model}</CardTitle>
+                    <Badge variant="outline">Assigned</Badge>
+                  </div>
+                  <CardDescription>{vehicle.registrationNumber}</CardDescription>
+                </CardHeader>
+                <CardContent className="text-sm">
+                  <p>Odometer {vehicle.mileage.toLocaleString()} miles</p>
+                </CardContent>
+                <CardFooter>
+                  <Button className="w-full" variant="outline" onClick={() => startVehicle(vehicle)}>
+                    <Play className="mr-2 h-4 w-4" />
+                    Start Trip
+                  </Button>
+                </CardFooter>
+              </Card>
+            ))}
+            {startableBookings.map(booking => (
+              <Card key={`booking-${booking.id}`}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base">{getVehicleName(booking.vehicleId)}</CardTitle>
+                    <Badge variant="outline">Booked</Badge>
+                  </div>
+                  <CardDescription>{getVehicle(booking.vehicleId)?.registrationNumber}</CardDescription>
+                </CardHeader>
+                <CardContent className="text-sm space-y-1">
+                  <p>
+                    {format(new Date(booking.startTime), 'MMM d, yyyy h:mm a')} – {format(new Date(booking.endTime), 'MMM d, yyyy h:mm a')}
+                  </p>
+                  {booking.purpose && <p className="text-muted-foreground">{booking.purpose}</p>}
+                </CardContent>
+                <CardFooter>
+                  <Button className="w-full" variant="outline" onClick={() => startBooking(booking)}>
+                    <Play className="mr-2 h-4 w-4" />
+                    Start Trip
+                  </Button>
+                </CardFooter>
+              </Card>
+            ))}
+          </section>
+
+          {recentTrips.length > 0 && (
+            <section className="space-y-3">
+              <h3 className="text-lg font-semibold">Recent Trips</h3>
+              <div className="rounded-lg border divide-y">
+                {recentTrips.map(trip => (
+                  <div key={trip.id} className="p-4 text-sm flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{getVehicleName(trip.vehicleId)}</p>
+                      <p className="text-muted-foreground">{format(new Date(trip.startTime), 'MMM d, yyyy h:mm a')}</p>
+                    </div>
+                    <div className="text-right">
+                      {trip.status === 'completed' && trip.endOdometer !== null ? (
+                        <p>{(trip.endOdometer - trip.startOdometer).toLocaleString()} miles</p>
+                      ) : (
+                        <Badge variant="outline">Cancelled</Badge>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+
+      <InspectionForm
+        vehicle={inspectionStep?.vehicle ?? null}
+        kind={inspectionStep?.kind ?? 'pre_trip'}
+        tripId={inspectionStep?.tripId}
+        templates={templates || []}
+        onOpenChange={(open) => !open && setInspectionStep(null)}
+        onSubmit={(inspection) => inspectionMutation.mutate(inspection)}
+        isSubmitting={inspectionMutation.isPending}
+      />
+
+      <DriverStartDialog
+        vehicle={vehicleToStart}
+        onOpenChange={(open) => !open && setVehicleToStart(null)}
+        onConfirm={(vehicle, startOdometer, purpose, usage) => startAssignedMutation.mutate({ vehicle, startOdometer, purpose, usage })}
+        isSubmitting={startAssignedMutation.isPending}
+      />
+
+      <StartTripDialog
+        booking={bookingToStart}
+        vehicles={vehicles || []}
+        users={user ? [user] : []}
+        onOpenChange={(open) => !open && setBookingToStart(null)}
+        onConfirm={(bookingId, startOdometer) => startBookingMutation.mutate({ bookingId, startOdometer })}
+        isSubmitting={startBookingMutation.isPending}
+      />
+
+      <FinishTripDialog
+        trip={tripToFinish}
+        vehicle={tripToFinish ? getVehicle(tripToFinish.vehicleId) : undefined}
+        onOpenChange={(open) => !open && setTripToFinish(null)}
+        onConfirm={(trip, details) => finishMutation.mutate({ trip, details })}
+        isSubmitting={finishMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { InsertPart, Part, PartMovementInput } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, Plus, Search } from 'lucide-react';
+import PartForm from '@/components/parts/part-form';
+import PartList from '@/components/parts/part-list';
+import PartStockDialog from '@/components/parts/part-stock-dialog';
+
+export default function Parts() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editedPart, setEditedPart] = useState<Part | null>(null);
+  const [stockPartId, setStockPartId] = useState<number | null>(null);
+
+  const { data: parts, isLoading } = useQuery<Part[]>({
+    queryKey: ['/api/parts'],
+  });
+
+  const { data: lowStock } = useQuery<Part[]>({
+    queryKey: ['/api/parts/low-stock'],
+  });
+
+  const refreshParts = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/parts') });
+  };
+
+  const savePartMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: number, data: InsertPart }) => {
+      const res = id
+        ? await apiRequest('PUT', `/api/parts/${id}`, data)
+        : await apiRequest('POST', '/api/parts', data);
+      return await res.json() as Part;
+    },
+    onSuccess: (part) => {
+      toast({
+        title: 'Part saved',
+        description: `${part.name} has been saved successfully.`,
+      });
+      setFormOpen(false);
+      setEditedPart(null);
+      refreshParts();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving part',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deletePartMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/parts/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Part deleted',
+        description: 'The part has been deleted successfully.',
+      });
+      refreshParts();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error deleting part',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const recordMovementMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number, data: PartMovementInput }) => {
+      await apiRequest('POST', `/api/parts/${id}/movements`, data);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Stock updated',
+        description: 'The stock movement has been recorded.',
+      });
+      refreshParts();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error recording stock movement',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const filteredParts = (parts || []).filter(part => {
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return (
+      part.name.toLowerCase().includes(query) ||
+      part.partNumber.toLowerCase().includes(query) ||
+      part.location?.toLowerCase().includes(query) ||
+      part.category.includes(query)
+    );
+  });
+
+  // Looked up from the list so the dialog shows the stock level after each movement
+  const stockPart = parts?.find(part => part.id === stockPartId);
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Parts</h2>
+          <p className="text-muted-foreground">Spare parts kept in stock by the workshop</p>
+        </div>
+        <div className="flex gap-2 mt-4 md:mt-0">
+          <div className="relative flex-grow md:w-64">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="text"
+              placeholder="Search parts..."
+              className="pl-9"
+              value={searchQuery}
+              onChange={e => setSearchQuery(e.target.value)}
+            />
+          </div>
+          <Button onClick={() => setFormOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Part
+          </Button>
+        </div>
+      </div>
+
+      {lowStock && lowStock.length > 0 && (
+        <Card className="mb-6 border-destructive/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center">
+              <AlertTriangle className="mr-2 h-4 w-4 text-destructive" />
+              Low Stock ({lowStock.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y text-sm">
+              {lowStock.map(part => (
+                <li key={part.id} className="flex items-center justify-between py-2">
+                  <div>
+                    <span className="font-medium">{part.name}</span>
+                    <span className="ml-2 text-muted-foreground">{part.partNumber}</span>
+                    {part.location && <span className="ml-2 text-muted-foreground">· {part.location}</span>}
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span>{part.quantityOnHand} on hand / reorder at {part.reorderPoint}</span>
+                    <Button variant="outline" size="sm" onClick={() => setStockPartId(part.id)}>
+                      Receive
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <Card className="p-8 flex items-center justify-center">
+          <p>Loading parts...</p>
+        </Card>
+      ) : (
+        <PartList
+          parts={filteredParts}
+          canDelete={user?.role === 'admin'}
+          onEdit={setEditedPart}
+          onStock={(part) => setStockPartId(part.id)}
+          onDelete={(id) => deletePartMutation.mutate(id)}
+        />
+      )}
+
+      {(formOpen || editedPart) && (
+        <PartForm
+          open={formOpen || !!editedPart}
+          onOpenChange={(open) => {
+            if (!open) {
+              setFormOpen(false);
+              setEditedPart(null);
+            }
+          }}
+          onSubmit={(data) => savePartMutation.mutate({ id: editedPart?.id, data })}
+          isSubmitting={savePartMutation.isPending}
+          defaultValues={editedPart ?? undefined}
+        />
+      )}
+
+      {stockPart && (
+        <PartStockDialog
+          key={stockPart.id}
+          part={stockPart}
+          open={!!stockPart}
+          onOpenChange={(open) => !open && setStockPartId(null)}
+          onSubmit={(data) => recordMovementMutation.mutate({ id: stockPart.id, data })}
+          isSubmitting={recordMovementMutation.isPending}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { DrivingRecord as DrivingRecordData, User, Vehicle } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Copy, RefreshCw } from 'lucide-react';
+import DrivingRecord from '@/components/incidents/driving-record';
+
+function FeedUrl({ id, label, url }: { id: string, label: string, url: string }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(url);
+    toast({
+      title: 'Link copied',
+      description: 'Paste it into your calendar app as a new subscription.',
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-2">
+        <Input id={id} value={url} readOnly onFocus={(e) => e.target.select()} />
+        <Button type="button" variant="outline" size="icon" onClick={copy}>
+          <Copy className="h-4 w-4" />
+          <span className="sr-only">Copy link</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function Profile() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [vehicleId, setVehicleId] = useState<string>('');
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false);
+
+  // Fetch vehicles for the per-vehicle feed
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  const { data: drivingRecord } = useQuery<DrivingRecordData>({
+    queryKey: [`/api/users/${user?.id}/driving-record`],
+    enabled: !!user,
+  });
+
+  // Create or replace the calendar feed token
+  const regenerateTokenMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/user/calendar-token');
+      return await res.json() as { calendarToken: string };
+    },
+    onSuccess: ({ calendarToken }) => {
+      const hadToken = !!user?.calendarToken;
+      queryClient.setQueryData(['/api/user'], (current: User | null | undefined) =>
+        current ? { ...current, calendarToken } : current
+      );
+      setConfirmRegenerate(false);
+      toast({
+        title: hadToken ? 'Feed links regenerated' : 'Feed links created',
+        description: hadToken
+          ? 'Calendar apps using the old links need to subscribe again.'
+          : 'Copy a link into your calendar app to subscribe.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error updating calendar feeds',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const feedBase = user?.calendarToken ? `${window.location.origin}/api/calendar/${user.calendarToken}` : null;
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold">Profile</h2>
+        <p className="text-muted-foreground">Your account, driving record and calendar subscriptions</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Account</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-3 gap-y-3 text-sm">
+              <dt className="text-muted-foreground">Name</dt>
+              <dd className="col-span-2 font-medium">{user?.name}</dd>
+              <dt className="text-muted-foreground">Username</dt>
+              <dd className="col-span-2">{user?.username}</dd>
+              <dt className="text-muted-foreground">Role</dt>
+              <dd className="col-span-2 capitalize">{user?.role}</dd>
+              <dt className="text-muted-foreground">Email</dt>
+              <dd className="col-span-2">{user?.email || '—'}</dd>
+              <dt className="text-muted-foreground">Phone</dt>
+              <dd className="col-span-2">{user?.phone || '—'}</dd>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Calendar feeds</CardTitle>
+            <CardDescription>
+              Subscribe from Outlook, Thunderbird or any app that supports iCalendar links.
+              Anyone with these links can read the calendars, so keep them private.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {feedBase ? (
+              <>
+                <FeedUrl id="feed-bookings" label="My bookings" url={`${feedBase}/bookings.ics`} />
+
+                <div className="space-y-2">
+                  <Label>Vehicle bookings and maintenance</Label>
+                  <Select value={vehicleId} onValueChange={setVehicleId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a vehicle" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(vehicles || []).map((vehicle) => (
+                        <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                          {vehicle.make} {vehicle.model} ({vehicle.registrationNumber})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {vehicleId && (
+                  <FeedUrl id="feed-vehicle" label="Vehicle feed" url={`${feedBase}/vehicles/${vehicleId}.ics`} />
+                )}
+
+                <Button
+                  variant="outline"
+                  onClick={() => setConfirmRegenerate(true)}
+                  disabled={regenerateTokenMutation.isPending}
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Regenerate links
+                </Button>
+              </>
+            ) : (
+              <Button
+                onClick={() => regenerateTokenMutation.mutate()}
+                disabled={regenerateTokenMutation.isPending}
+              >
+                Create feed links
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Driving record</CardTitle>
+            <CardDescription>
+              Trips you have driven and the incidents reported against them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {drivingRecord ? (
+              <DrivingRecord record={drivingRecord} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Loading driving record...</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={confirmRegenerate} onOpenChange={setConfirmRegenerate}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Regenerate calendar links?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your current feed links will stop working. Calendar apps subscribed to them need the new links.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => regenerateTokenMutation.mutate()}>
+              Regenerate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,42 +1,152 @@
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { FleetDowntimeReport, FuelLog, MaintenanceCostRow, Part, Vehicle } from '@shared/schema';
+import { format, subMonths, subWeeks, subYears } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
 import FuelConsumptionChart from '@/components/reports/fuel-consumption-chart';
 import MaintenanceCostChart from '@/components/reports/maintenance-cost-chart';
 import VehicleUtilizationChart from '@/components/reports/vehicle-utilization-chart';
+import { partCategoryLabels } from '@/components/parts/part-form';
 
 export default function Reports() {
   const { toast } = useToast();
   const [timeRange, setTimeRange] = useState('month');
   const [vehicleId, setVehicleId] = useState('all');
 
-  // Mock data for demonstration - in a real app, this would come from API calls
-  const fuelConsumptionData = [
-    { vehicle: 'Toyota Camry', consumption: 85, month: 'Jan' },
-    { vehicle: 'Toyota Camry', consumption: 78, month: 'Feb' },
-    { vehicle: 'Toyota Camry', consumption: 92, month: 'Mar' },
-    { vehicle: 'Honda Civic', consumption: 65, month: 'Jan' },
-    { vehicle: 'Honda Civic', consumption: 70, month: 'Feb' },
-    { vehicle: 'Honda Civic', consumption: 68, month: 'Mar' },
-    { vehicle: 'Ford F-150', consumption: 120, month: 'Jan' },
-    { vehicle: 'Ford F-150', consumption: 115, month: 'Feb' },
-    { vehicle: 'Ford F-150', consumption: 125, month: 'Mar' },
-  ];
+  const { data: fleet } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
 
-  const maintenanceCostData = [
-    { vehicle: 'Toyota Camry', cost: 350, month: 'Jan' },
-    { vehicle: 'Toyota Camry', cost: 0, month: 'Feb' },
-    { vehicle: 'Toyota Camry', cost: 250, month: 'Mar' },
-    { vehicle: 'Honda Civic', cost: 0, month: 'Jan' },
-    { vehicle: 'Honda Civic', cost: 420, month: 'Feb' },
-    { vehicle: 'Honda Civic', cost: 0, month: 'Mar' },
-    { vehicle: 'Ford F-150', cost: 180, month: 'Jan' },
-    { vehicle: 'Ford F-150', cost: 0, month: 'Feb' },
-    { vehicle: 'Ford F-150', cost: 560, month: 'Mar' },
-  ];
+  const { data: fuelLogs } = useQuery<FuelLog[]>({
+    queryKey: ['/api/fuel-logs'],
+    staleTime: 0,
+  });
+
+  const getRangeStart = () => {
+    const now = new Date();
+    switch (timeRange) {
+      case 'week': return subWeeks(now, 1);
+      case 'quarter': return subMonths(now, 3);
+      case 'year': return subYears(now, 1);
+      default: return subMonths(now, 1);
+    }
+  };
+
+  // Litres filled per vehicle and month, from the fuel logs
+  const rangeStart = getRangeStart();
+  const fuelConsumptionData = (fuelLogs || [])
+    .filter(log => new Date(log.filledAt) >= rangeStart)
+    .filter(log => vehicleId === 'all' || log.vehicleId.toString() === vehicleId)
+    .sort((a, b) => new Date(a.filledAt).getTime() - new Date(b.filledAt).getTime())
+    .reduce((acc: { vehicle: string, consumption: number, month: string }[], log) => {
+      const vehicle = fleet?.find(v => v.id === log.vehicleId);
+      const vehicleName = vehicle ? `${vehicle.make} ${vehicle.model}` : `Vehicle #${log.vehicleId}`;
+      const month = format(new Date(log.filledAt), 'MMM yyyy');
+      const existing = acc.find(item => item.vehicle === vehicleName && item.month === month);
+      if (existing) {
+        existing.consumption = Math.round((existing.consumption + log.litres) * 10) / 10;
+      } else {
+        acc.push({ vehicle: vehicleName, consumption: Math.round(log.litres * 10) / 10, month });
+      }
+      return acc;
+    }, []);
+
+  // Completed maintenance per vehicle and month, split into parts and labour by the server
+  const costParams = new URLSearchParams({ from: format(rangeStart, 'yyyy-MM-dd') });
+  if (vehicleId !== 'all') costParams.set('vehicleId', vehicleId);
+  const { data: maintenanceCosts } = useQuery<MaintenanceCostRow[]>({
+    queryKey: [`/api/maintenance/costs?${costParams}`],
+    staleTime: 0,
+  });
+
+  const maintenanceCostData = (maintenanceCosts || []).map(row => ({
+    ...row,
+    month: format(new Date(`${row.month}-01T00:00`), 'MMM yyyy'),
+  }));
+
+  // The same rows summed per vehicle for the table under the chart
+  const maintenanceCostByVehicle = (maintenanceCosts || []).reduce((acc: Omit<MaintenanceCostRow, 'month'>[], row) => {
+    const existing = acc.find(item => item.vehicleId === row.vehicleId);
+    if (existing) {
+      existing.parts += row.parts;
+      existing.labour += row.labour;
+      existing.tax += row.tax;
+      existing.unitemised += row.unitemised;
+      existing.total += row.total;
+    } else {
+      const { month, ...totals } = row;
+      acc.push(totals);
+    }
+    return acc;
+  }, []);
+  const maintenanceCostTotal = maintenanceCostByVehicle.reduce((sum, row) => ({
+    parts: sum.parts + row.parts,
+    labour: sum.labour + row.labour,
+    tax: sum.tax + row.tax,
+    unitemised: sum.unitemised + row.unitemised,
+    total: sum.total + row.total,
+  }), { parts: 0, labour: 0, tax: 0, unitemised: 0, total: 0 });
+
+  const getVehicleName = (id: number) => {
+    const vehicle = fleet?.find(v => v.id === id);
+    return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : `Vehicle #${id}`;
+  };
+
+  const formatMoney = (amount: number) => `$${amount.toFixed(2)}`;
+
+  // Stock on hand valued at average unit cost. It is a snapshot, so the time range and vehicle filters do not apply.
+  const { data: parts } = useQuery<Part[]>({
+    queryKey: ['/api/parts'],
+    staleTime: 0,
+  });
+
+  const valueStockBy = (groupOf: (part: Part) => string) => (parts || [])
+    .filter(part => part.quantityOnHand > 0)
+    .reduce((acc: { group: string, lines: number, units: number, value: number }[], part) => {
+      const group = groupOf(part);
+      const value = part.quantityOnHand * part.unitCost;
+      const existing = acc.find(item => item.group === group);
+      if (existing) {
+        existing.lines += 1;
+        existing.units += part.quantityOnHand;
+        existing.value += value;
+      } else {
+        acc.push({ group, lines: 1, units: part.quantityOnHand, value });
+      }
+      return acc;
+    }, [])
+    .sort((a, b) => b.value - a.value);
+
+  const inventoryByCategory = valueStockBy(part => partCategoryLabels[part.category]);
+  const inventoryByLocation = valueStockBy(part => part.location || 'No location');
+  const inventoryTotal = inventoryByCategory.reduce((sum, row) => sum + row.value, 0);
+
+  // Time each vehicle spent in maintenance or out of service, from the status history
+  const { data: downtime } = useQuery<FleetDowntimeReport>({
+    queryKey: [`/api/vehicles/downtime?from=${format(rangeStart, 'yyyy-MM-dd')}`],
+    staleTime: 0,
+  });
+
+  const downtimeRows = (downtime?.vehicles || [])
+    .filter(row => vehicleId === 'all' || row.vehicleId.toString() === vehicleId)
+    .sort((a, b) => b.downtimeHours - a.downtimeHours);
+
+  const formatAvailability = (availability: number | null) =>
+    availability != null ? `${(availability * 100).toFixed(1)}%` : '—';
+  const formatHours = (hours: number | null) => hours != null ? `${hours} h` : '—';
 
   const utilizationData = [
     { vehicle: 'Toyota Camry', trips: 18, hours: 42, month: 'Jan' },
@@ -50,22 +160,20 @@ export default function Reports() {
     { vehicle: 'Ford F-150', trips: 10, hours: 30, month: 'Mar' },
   ];
 
-  const vehicles = [
-    { id: '1', name: 'Toyota Camry (ABC-123)' },
-    { id: '2', name: 'Honda Civic (DEF-456)' },
-    { id: '3', name: 'Ford F-150 (XYZ-789)' },
-  ];
+  const vehicles = (fleet || []).map(vehicle => ({
+    id: vehicle.id.toString(),
+    name: `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})`,
+  }));
 
   // Filter data based on selected vehicle
   const filterDataByVehicle = (data: any[]) => {
     if (vehicleId === 'all') return data;
     
-    const vehicleName = vehicles.find(v => v.id === vehicleId)?.name.split(' ')[0] || '';
+    const vehicle = fleet?.find(v => v.id.toString() === vehicleId);
+    const vehicleName = vehicle ? `${vehicle.make} ${vehicle.model}` : '';
     return data.filter(item => item.vehicle === vehicleName);
   };
 
-  const filteredFuelData = filterDataByVehicle(fuelConsumptionData);
-  const filteredMaintenanceData = filterDataByVehicle(maintenanceCostData);
   const filteredUtilizationData = filterDataByVehicle(utilizationData);
 
   return (
@@ -108,10 +216,12 @@ export default function Reports() {
       </div>
 
       <Tabs defaultValue="fuel" className="w-full">
-        <TabsList className="grid w-full grid-cols-1 md:grid-cols-3 mb-6">
+        <TabsList className="grid w-full grid-cols-1 md:grid-cols-5 mb-6">
           <TabsTrigger value="fuel">Fuel Consumption</TabsTrigger>
           <TabsTrigger value="maintenance">Maintenance Costs</TabsTrigger>
           <TabsTrigger value="utilization">Vehicle Utilization</TabsTrigger>
+          <TabsTrigger value="downtime">Downtime</TabsTrigger>
+          <TabsTrigger value="inventory">Inventory</TabsTrigger>
         </TabsList>
         
         <TabsContent value="fuel">
@@ -121,12 +231,12 @@ export default function Reports() {
             </CardHeader>
             <CardContent>
               <div className="h-[400px]">
-                <FuelConsumptionChart data={filteredFuelData} />
+                <FuelConsumptionChart data={fuelConsumptionData} />
               </div>
               <div className="mt-4">
                 <p className="text-sm text-muted-foreground">
-                  This chart shows fuel consumption in gallons for each vehicle over time. 
-                  Compare trends to identify vehicles that may need maintenance or are less fuel-efficient.
+                  This chart shows litres of fuel filled for each vehicle per month, taken from the fuel logs.
+                  See the Fuel page for per-vehicle efficiency and stretches of abnormal consumption.
                 </p>
               </div>
             </CardContent>
@@ -140,12 +250,48 @@ export default function Reports() {
             </CardHeader>
             <CardContent>
               <div className="h-[400px]">
-                <MaintenanceCostChart data={filteredMaintenanceData} />
+                <MaintenanceCostChart data={maintenanceCostData} />
               </div>
+              {maintenanceCostByVehicle.length > 0 && (
+                <Table className="mt-4">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vehicle</TableHead>
+                      <TableHead className="text-right">Parts</TableHead>
+                      <TableHead className="text-right">Labour</TableHead>
+                      <TableHead className="text-right">Tax</TableHead>
+                      <TableHead className="text-right">Unitemised</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {maintenanceCostByVehicle.map(row => (
+                      <TableRow key={row.vehicleId}>
+                        <TableCell>{getVehicleName(row.vehicleId)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(row.parts)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(row.labour)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(row.tax)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(row.unitemised)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatMoney(row.total)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell>Fleet total</TableCell>
+                      <TableCell className="text-right">{formatMoney(maintenanceCostTotal.parts)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(maintenanceCostTotal.labour)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(maintenanceCostTotal.tax)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(maintenanceCostTotal.unitemised)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(maintenanceCostTotal.total)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              )}
               <div className="mt-4">
                 <p className="text-sm text-muted-foreground">
-                  This chart tracks maintenance costs for each vehicle over time.
-                  Use this data to budget for future maintenance and identify vehicles with higher upkeep costs.
+                  This chart tracks what completed maintenance cost each month, split into parts, labour and tax from the work order lines.
+                  Records entered with a single cost and no lines are shown as unitemised.
                 </p>
               </div>
             </CardContent>
@@ -170,6 +316,116 @@ export default function Reports() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="downtime">
+          <Card>
+            <CardHeader>
+              <CardTitle>Downtime and Availability</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {downtimeRows.length === 0 ? (
+                <div className="rounded-lg border p-8 text-center text-muted-foreground">
+                  No vehicles to report on.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vehicle</TableHead>
+                      <TableHead className="text-right">Downtime</TableHead>
+                      <TableHead className="text-right">Availability</TableHead>
+                      <TableHead className="text-right">Failures</TableHead>
+                      <TableHead className="text-right">MTBF</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {downtimeRows.map(row => (
+                      <TableRow key={row.vehicleId}>
+                        <TableCell>{getVehicleName(row.vehicleId)}</TableCell>
+                        <TableCell className="text-right">{formatHours(row.downtimeHours)}</TableCell>
+                        <TableCell className="text-right">{formatAvailability(row.availability)}</TableCell>
+                        <TableCell className="text-right">{row.failures}</TableCell>
+                        <TableCell className="text-right">{formatHours(row.mtbfHours)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  {vehicleId === 'all' && downtime && (
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell>Fleet</TableCell>
+                        <TableCell className="text-right">{formatHours(downtime.fleet.downtimeHours)}</TableCell>
+                        <TableCell className="text-right">{formatAvailability(downtime.fleet.availability)}</TableCell>
+                        <TableCell className="text-right">{downtime.fleet.failures}</TableCell>
+                        <TableCell className="text-right">{formatHours(downtime.fleet.mtbfHours)}</TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  )}
+                </Table>
+              )}
+              <div className="mt-4">
+                <p className="text-sm text-muted-foreground">
+                  Downtime is the time a vehicle spent in maintenance or out of service during the selected range.
+                  A failure is any time it went down other than for scheduled maintenance, and MTBF is the uptime between failures.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="inventory">
+          <Card>
+            <CardHeader>
+              <CardTitle>Inventory Valuation</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {inventoryByCategory.length === 0 ? (
+                <div className="rounded-lg border p-8 text-center text-muted-foreground">
+                  No parts in stock.
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {[
+                    { title: 'Category', rows: inventoryByCategory },
+                    { title: 'Location', rows: inventoryByLocation },
+                  ].map(({ title, rows }) => (
+                    <Table key={title}>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{title}</TableHead>
+                          <TableHead className="text-right">Parts</TableHead>
+                          <TableHead className="text-right">Units</TableHead>
+                          <TableHead className="text-right">Value</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.map(row => (
+                          <TableRow key={row.group}>
+                            <TableCell>{row.group}</TableCell>
+                            <TableCell className="text-right">{row.lines}</TableCell>
+                            <TableCell className="text-right">{row.units}</TableCell>
+                            <TableCell className="text-right font-medium">{formatMoney(row.value)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                      <TableFooter>
+                        <TableRow>
+                          <TableCell colSpan={3}>Total stock value</TableCell>
+                          <TableCell className="text-right">{formatMoney(inventoryTotal)}</TableCell>
+                        </TableRow>
+                      </TableFooter>
+                    </Table>
+                  ))}
+                </div>
+              )}
+              <div className="mt-4">
+                <p className="text-sm text-muted-foreground">
+                  Parts currently in stock, valued at their average unit cost. This is today's position,
+                  so the time range and vehicle filters do not apply. See the Parts page for the movement history.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
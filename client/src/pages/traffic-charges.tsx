@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { DriverChargesSummary, InsertTrafficCharge, TrafficCharge, TrafficChargeImportResult, TrafficChargeKind, TrafficChargeResolution, User } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Plus, RefreshCw, Upload } from 'lucide-react';
+import ChargeList from '@/components/traffic-charges/charge-list';
+import ChargeForm from '@/components/traffic-charges/charge-form';
+import ImportChargesDialog from '@/components/traffic-charges/import-charges-dialog';
+import ResolveChargeDialog from '@/components/traffic-charges/resolve-charge-dialog';
+import ChargesReport from '@/components/traffic-charges/charges-report';
+
+// The report covers one calendar month, or everything when no month is picked
+function monthRange(month: string): string {
+  if (!/^\d{4}-\d{2}$/.test(month)) return '';
+  const [year, monthIndex] = month.split('-').map(Number);
+  const from = new Date(year, monthIndex - 1, 1);
+  const to = new Date(year, monthIndex, 1);
+  return `?from=${from.toISOString()}&to=${to.toISOString()}`;
+}
+
+export default function TrafficCharges() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const isApprover = user?.role === 'admin' || user?.role === 'moderator';
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [reportMonth, setReportMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [addOpen, setAddOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importResult, setImportResult] = useState<TrafficChargeImportResult | null>(null);
+  const [resolving, setResolving] = useState<TrafficCharge | null>(null);
+
+  const chargesEndpoint = statusFilter === 'all' ? '/api/traffic-charges' : `/api/traffic-charges?status=${statusFilter}`;
+
+  const { data: charges, isLoading } = useQuery<TrafficCharge[]>({
+    queryKey: [chargesEndpoint],
+    staleTime: 0,
+  });
+
+  const { data: reviewQueue } = useQuery<TrafficCharge[]>({
+    queryKey: ['/api/traffic-charges?status=unmatched'],
+    enabled: isApprover,
+    staleTime: 0,
+  });
+
+  const { data: report } = useQuery<DriverChargesSummary[]>({
+    queryKey: [`/api/traffic-charges/report${monthRange(reportMonth)}`],
+    enabled: isApprover,
+    staleTime: 0,
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    enabled: isApprover,
+  });
+
+  const refreshCharges = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/traffic-charges') });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (data: InsertTrafficCharge) => {
+      const res = await apiRequest('POST', '/api/traffic-charges', data);
+      return await res.json() as TrafficCharge;
+    },
+    onSuccess: (charge) => {
+      toast({
+        title: charge.status === 'matched' ? 'Charge assigned' : 'Charge needs review',
+        description: charge.matchNote ?? 'The charge was assigned to the driver who had the vehicle.',
+      });
+      setAddOpen(false);
+      refreshCharges();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error adding charge',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (data: { csv: string, kind?: TrafficChargeKind }) => {
+      const res = await apiRequest('POST', '/api/traffic-charges/import', data);
+      return await res.json() as TrafficChargeImportResult;
+    },
+    onSuccess: (result) => {
+      setImportResult(result);
+      refreshCharges();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error importing charges',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const rematchMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/traffic-charges/rematch');
+      return await res.json() as { matched: number, remaining: number };
+    },
+    onSuccess: ({ matched, remaining }) => {
+      toast({
+        title: 'Review queue matched again',
+        description: `${matched} charge(s) assigned, ${remaining} still need review.`,
+      });
+      refreshCharges();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error matching charges',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, resolution }: { id: number, resolution: TrafficChargeResolution }) => {
+      const res = await apiRequest('POST', `/api/traffic-charges/${id}/resolution`, resolution);
+      return await res.json() as TrafficCharge;
+    },
+    onSuccess: (charge) => {
+      toast({
+        title: charge.status === 'dismissed' ? 'Charge dismissed' : 'Charge assigned',
+        description: charge.status === 'dismissed' ? 'The charge was removed from the review queue.' : 'The driver has been notified.',
+      });
+      setResolving(null);
+      refreshCharges();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error resolving charge',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/traffic-charges/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Charge deleted',
+        description: 'The charge has been deleted successfully.',
+      });
+      refreshCharges();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error deleting charge',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const chargeList = (list: TrafficCharge[] | undefined, emptyMessage?: string) => (
+    <ChargeList
+      charges={list || []}
+      users={users || (user ? [user] : [])}
+      canResolve={isApprover}
+      canDelete={isAdmin}
+      onResolve={setResolving}
+      onDelete={(id) => deleteMutation.mutate(id)}
+      emptyMessage={emptyMessage}
+    />
+  );
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Fines & Tolls</h2>
+          <p className="text-muted-foreground">
+            {isApprover ? 'Import fines and toll invoices and assign them to drivers' : 'Fines and tolls assigned to you'}
+          </p>
+        </div>
+        {isApprover && (
+          <div className="flex gap-2 mt-4 md:mt-0">
+            <Button variant="outline" onClick={() => { setImportResult(null); setImportOpen(true); }}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import CSV
+            </Button>
+            <Button onClick={() => setAddOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Charge
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {!isApprover ? (
+        isLoading ? (
+          <Card className="p-8 flex items-center justify-center">
+            <p>Loading charges...</p>
+          </Card>
+        ) : (
+          chargeList(charges, 'No fines or tolls have been assigned to you.')
+        )
+      ) : (
+        <Tabs defaultValue="review">
+          <TabsList className="mb-4">
+            <TabsTrigger value="review">Review Queue{reviewQueue?.length ? ` (${reviewQueue.length})` : ''}</TabsTrigger>
+            <TabsTrigger value="all">All Charges</TabsTrigger>
+            <TabsTrigger value="report">Driver Report</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="review" className="space-y-4">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                Charges no trip or booking could be found for. Match them again after late trips are logged, or assign them by hand.
+              </p>
+              <Button variant="outline" onClick={() => rematchMutation.mutate()} disabled={rematchMutation.isPending || !reviewQueue?.length}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Match Again
+              </Button>
+            </div>
+            {chargeList(reviewQueue, 'Nothing is waiting for review.')}
+          </TabsContent>
+
+          <TabsContent value="all" className="space-y-4">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="matched">Assigned</SelectItem>
+                <SelectItem value="unmatched">Needs review</SelectItem>
+                <SelectItem value="dismissed">Dismissed</SelectItem>
+              </SelectContent>
+            </Select>
+            {isLoading ? (
+              <Card className="p-8 flex items-center justify-center">
+                <p>Loading charges...</p>
+              </Card>
+            ) : (
+              chargeList(charges)
+            )}
+          </TabsContent>
+
+          <TabsContent value="report" className="space-y-4">
+            <div className="flex items-center gap-4">
+              <Input
+                type="month"
+                className="w-48"
+                value={reportMonth}
+                onChange={(e) => setReportMonth(e.target.value)}
+              />
+              <Button variant="outline" onClick={() => setReportMonth('')} disabled={!reportMonth}>
+                All Time
+              </Button>
+            </div>
+            <ChargesReport summaries={report || []} users={users || []} />
+          </TabsContent>
+        </Tabs>
+      )}
+
+      {addOpen && (
+        <ChargeForm
+          open={addOpen}
+          onOpenChange={setAddOpen}
+          onSubmit={(data) => addMutation.mutate(data)}
+          isSubmitting={addMutation.isPending}
+        />
+      )}
+
+      <ImportChargesDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImport={(data) => importMutation.mutate(data)}
+        isImporting={importMutation.isPending}
+        result={importResult}
+      />
+
+      <ResolveChargeDialog
+        charge={resolving}
+        users={users || []}
+        onOpenChange={(open) => !open && setResolving(null)}
+        onConfirm={(charge, resolution) => resolveMutation.mutate({ id: charge.id, resolution })}
+        isSubmitting={resolveMutation.isPending}
+      />
+    </div>
+  );
+}
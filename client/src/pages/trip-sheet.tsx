@@ -0,0 +1,187 @@
+import { useParams } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/use-auth';
+import { Trip, User, Vehicle } from '@shared/schema';
+import { formatDuration, tripDurationMinutes } from '@shared/trip-stops';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Loader2, Printer } from 'lucide-react';
+import { format } from 'date-fns';
+import { tripUsageLabels } from '@/components/trips/trip-form';
+
+const formatTime = (value: string | Date | null | undefined) =>
+  value ? format(new Date(value), 'MMM d, yyyy h:mm a') : '—';
+
+// A printable run sheet the driver can carry: the stops in order, who is on board and what is loaded
+export default function TripSheet() {
+  const { user } = useAuth();
+  const isApprover = user?.role === 'admin' || user?.role === 'moderator';
+  const params = useParams<{ id: string }>();
+  const tripId = parseInt(params.id);
+
+  const { data: trip, isLoading, error } = useQuery<Trip>({
+    queryKey: [`/api/trips/${tripId}`],
+    staleTime: 0,
+  });
+
+  const { data: vehicle } = useQuery<Vehicle>({
+    queryKey: [`/api/vehicles/${trip?.vehicleId}`],
+    enabled: !!trip,
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    enabled: isApprover,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !trip) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        {error?.message || 'Trip not found'}
+      </div>
+    );
+  }
+
+  const knownUsers = users || (user ? [user] : []);
+  const getUserName = (userId: number) => knownUsers.find(u => u.id === userId)?.name ?? `User #${userId}`;
+  const duration = tripDurationMinutes(trip);
+  const totalWeight = trip.cargo.reduce((sum, item) => sum + (item.weightKg ?? 0), 0);
+
+  return (
+    <div className="mx-auto max-w-4xl p-8 space-y-8 print:p-0">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Trip Sheet #{trip.id}</h1>
+          <p className="text-muted-foreground">
+            {vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : `Vehicle #${trip.vehicleId}`}
+          </p>
+        </div>
+        <Button onClick={() => window.print()} className="print:hidden">
+          <Printer className="mr-2 h-4 w-4" />
+          Print
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Driver</p>
+          <p className="font-medium">{getUserName(trip.driverId)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Purpose</p>
+          <p className="font-medium">{trip.purpose || '—'} ({tripUsageLabels[trip.usage]})</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Start odometer</p>
+          <p className="font-medium">{trip.startOdometer.toLocaleString()} mi</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Started</p>
+          <p className="font-medium">{formatTime(trip.startTime)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Ended</p>
+          <p className="font-medium">{formatTime(trip.endTime)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Duration</p>
+          <p className="font-medium">{duration === null ? '—' : formatDuration(duration)}</p>
+        </div>
+      </div>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Stops</h2>
+        {trip.stops.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No stops were planned for this trip.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">#</TableHead>
+                <TableHead>Stop</TableHead>
+                <TableHead>Planned</TableHead>
+                <TableHead>Arrived</TableHead>
+                <TableHead>Notes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {trip.stops.map((stop, index) => (
+                <TableRow key={index}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell className="font-medium">{stop.label}</TableCell>
+                  <TableCell>{formatTime(stop.plannedArrival)}</TableCell>
+                  <TableCell>{formatTime(stop.actualArrival)}</TableCell>
+                  <TableCell>{stop.notes || ''}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Passengers</h2>
+        {trip.passengers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No passengers.</p>
+        ) : (
+          <ul className="list-disc pl-6 text-sm">
+            {trip.passengers.map((passenger, index) => (
+              <li key={index}>
+                {passenger.userId != null ? getUserName(passenger.userId) : passenger.name}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {trip.cargo.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold">Cargo Manifest</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Weight (kg)</TableHead>
+                <TableHead>Reference</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {trip.cargo.map((item, index) => (
+                <TableRow key={index}>
+                  <TableCell>{item.description}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">{item.weightKg != null ? item.weightKg.toFixed(1) : '—'}</TableCell>
+                  <TableCell>{item.reference || ''}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {totalWeight > 0 && (
+            <p className="text-sm text-right">Total weight: <span className="font-medium">{totalWeight.toFixed(1)} kg</span></p>
+          )}
+        </section>
+      )}
+
+      <div className="grid grid-cols-2 gap-8 pt-12 text-sm">
+        <div className="border-t pt-2">Driver signature</div>
+        <div className="border-t pt-2">Received by</div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,24 @@
 import { useState } from 'react';
+import { useLocation, useSearch } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { Trip, Vehicle, User, insertTripSchema } from '@shared/schema';
+import { Trip, TripPage, Vehicle, User, insertTripSchema } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Plus, Search } from 'lucide-react';
 import TripList from '@/components/trips/trip-list';
 import TripForm from '@/components/trips/trip-form';
+import TripHistoryFiltersBar, { TripHistoryFilters, readTripHistoryFilters, tripHistoryEndpoint, writeTripHistoryFilters } from '@/components/trips/trip-history-filters';
 import { z } from 'zod';
 
 export default function Trips() {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const isApprover = user?.role === 'admin' || user?.role === 'moderator';
   const [searchQuery, setSearchQuery] = useState('');
   const [addTripOpen, setAddTripOpen] = useState(false);
   const [editTripOpen, setEditTripOpen] = useState(false);
@@ -20,40 +26,49 @@ export default function Trips() {
   const [currentPage, setCurrentPage] = useState(1);
   const pageSize = 10;
 
+  // The open tab and the history filters live in the URL so a search can be bookmarked or shared
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const urlParams = new URLSearchParams(search);
+  const tab = urlParams.get('tab') === 'history' ? 'history' : 'active';
+  const historyFilters = readTripHistoryFilters(urlParams);
+
+  const setTab = (value: string) => {
+    if (value === 'history') urlParams.set('tab', 'history');
+    else urlParams.delete('tab');
+    navigate(`/trips${urlParams.toString() ? `?${urlParams}` : ''}`, { replace: true });
+  };
+
+  const setHistoryFilters = (filters: TripHistoryFilters) => {
+    writeTripHistoryFilters(urlParams, filters);
+    navigate(`/trips?${urlParams}`, { replace: true });
+  };
+
   // Fetch trips
   const { data: trips, isLoading: isLoadingTrips } = useQuery<Trip[]>({
     queryKey: ['/api/trips/active'],
-    onError: (error) => {
-      toast({
-        title: 'Error loading trips',
-        description: error.message,
-        variant: 'destructive',
-      });
-    }
   });
 
+  const { data: history, isLoading: isLoadingHistory } = useQuery<TripPage>({
+    queryKey: [tripHistoryEndpoint(historyFilters, pageSize)],
+    enabled: tab === 'history',
+    staleTime: 0,
+  });
+
+  // Changes to a trip show up in both the active list and the history
+  const refreshTrips = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/trips') });
+  };
+
   // Fetch vehicles for the form
   const { data: vehicles } = useQuery<Vehicle[]>({
     queryKey: ['/api/vehicles'],
-    onError: (error) => {
-      toast({
-        title: 'Error loading vehicles',
-        description: error.message,
-        variant: 'destructive',
-      });
-    }
   });
 
   // Fetch users for the form
   const { data: users } = useQuery<User[]>({
     queryKey: ['/api/users'],
-    onError: (error) => {
-      toast({
-        title: 'Error loading users',
-        description: error.message,
-        variant: 'destructive',
-      });
-    }
+    enabled: isApprover,
   });
 
   // Add trip mutation
@@ -68,7 +83,7 @@ export default function Trips() {
         description: 'The trip has been added successfully.',
       });
       setAddTripOpen(false);
-      queryClient.invalidateQueries({ queryKey: ['/api/trips/active'] });
+      refreshTrips();
     },
     onError: (error) => {
       toast({
@@ -91,7 +106,7 @@ export default function Trips() {
         description: 'The trip has been updated successfully.',
       });
       setEditTripOpen(false);
-      queryClient.invalidateQueries({ queryKey: ['/api/trips/active'] });
+      refreshTrips();
     },
     onError: (error) => {
       toast({
@@ -113,7 +128,10 @@ export default function Trips() {
         title: 'Trip completed',
         description: 'The trip has been marked as completed.',
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/trips/active'] });
+      refreshTrips();
+      // Trips started from a booking complete that booking too
+      queryClient.invalidateQueries({ queryKey: ['/api/bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/vehicles'] });
     },
     onError: (error) => {
       toast({
@@ -134,7 +152,7 @@ export default function Trips() {
         title: 'Trip deleted',
         description: 'The trip has been deleted successfully.',
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/trips/active'] });
+      refreshTrips();
     },
     onError: (error) => {
       toast({
@@ -218,16 +236,18 @@ export default function Trips() {
           <p className="text-muted-foreground">Log and track vehicle trips</p>
         </div>
         <div className="flex gap-2 mt-4 md:mt-0">
-          <div className="relative flex-grow md:w-64">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              type="text"
-              placeholder="Search trips..."
-              className="pl-9"
-              value={searchQuery}
-              onChange={e => setSearchQuery(e.target.value)}
-            />
-          </div>
+          {tab === 'active' && (
+            <div className="relative flex-grow md:w-64">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="text"
+                placeholder="Search trips..."
+                className="pl-9"
+                value={searchQuery}
+                onChange={e => setSearchQuery(e.target.value)}
+              />
+            </div>
+          )}
           <Button onClick={() => setAddTripOpen(true)}>
             <Plus className="mr-2 h-4 w-4" />
             Add Trip
@@ -235,24 +255,62 @@ export default function Trips() {
         </div>
       </div>
 
-      {isLoadingTrips ? (
-        <Card className="p-8 flex items-center justify-center">
-          <p>Loading trips...</p>
-        </Card>
-      ) : (
-        <TripList
-          trips={paginatedTrips}
-          vehicles={vehicles || []}
-          users={users || []}
-          totalCount={totalCount}
-          currentPage={currentPage}
-          pageSize={pageSize}
-          onPageChange={setCurrentPage}
-          onEdit={handleEditClick}
-          onDelete={handleDeleteTrip}
-          onComplete={handleCompleteTrip}
-        />
-      )}
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList className="mb-4">
+          <TabsTrigger value="active">Active</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="active">
+          {isLoadingTrips ? (
+            <Card className="p-8 flex items-center justify-center">
+              <p>Loading trips...</p>
+            </Card>
+          ) : (
+            <TripList
+              trips={paginatedTrips}
+              vehicles={vehicles || []}
+              users={users || (user ? [user] : [])}
+              totalCount={totalCount}
+              currentPage={currentPage}
+              pageSize={pageSize}
+              onPageChange={setCurrentPage}
+              onEdit={handleEditClick}
+              onDelete={handleDeleteTrip}
+              onComplete={handleCompleteTrip}
+            />
+          )}
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-4">
+          <TripHistoryFiltersBar
+            filters={historyFilters}
+            onChange={setHistoryFilters}
+            vehicles={vehicles || []}
+            users={users || []}
+            showDriver={isApprover}
+          />
+          {isLoadingHistory ? (
+            <Card className="p-8 flex items-center justify-center">
+              <p>Loading trips...</p>
+            </Card>
+          ) : (
+            <TripList
+              trips={history?.trips || []}
+              vehicles={vehicles || []}
+              users={users || (user ? [user] : [])}
+              totalCount={history?.total || 0}
+              currentPage={historyFilters.page}
+              pageSize={pageSize}
+              onPageChange={(page) => setHistoryFilters({ ...historyFilters, page })}
+              onEdit={handleEditClick}
+              onDelete={handleDeleteTrip}
+              onComplete={handleCompleteTrip}
+              onResetFilters={() => setHistoryFilters(readTripHistoryFilters(new URLSearchParams()))}
+            />
+          )}
+        </TabsContent>
+      </Tabs>
 
       <TripForm
         open={addTripOpen}
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useParams, Link } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Vehicle, User, OdometerReading, InsertOdometerReading, VehicleCostEntry } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Gauge, Loader2, Plus } from 'lucide-react';
+import OdometerHistory from '@/components/vehicles/odometer-history';
+import OdometerReadingForm from '@/components/vehicles/odometer-reading-form';
+import CostHistory from '@/components/vehicles/cost-history';
+import { vehicleCategoryLabels } from '@/components/vehicles/vehicle-form';
+
+export default function VehicleDetail() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const params = useParams<{ id: string }>();
+  const vehicleId = parseInt(params.id);
+  const [readingFormOpen, setReadingFormOpen] = useState(false);
+
+  const readingsEndpoint = `/api/vehicles/${vehicleId}/odometer-readings`;
+
+  const { data: vehicle, isLoading: isLoadingVehicle } = useQuery<Vehicle>({
+    queryKey: [`/api/vehicles/${vehicleId}`],
+    staleTime: 0,
+  });
+
+  const { data: readings, isLoading: isLoadingReadings } = useQuery<OdometerReading[]>({
+    queryKey: [readingsEndpoint],
+    staleTime: 0,
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const { data: costs, isLoading: isLoadingCosts } = useQuery<VehicleCostEntry[]>({
+    queryKey: [`/api/vehicles/${vehicleId}/costs`],
+    staleTime: 0,
+  });
+
+  // The vehicle's mileage follows the ledger, so refresh both after any change
+  const refreshLedger = () => {
+    queryClient.invalidateQueries({ queryKey: [readingsEndpoint] });
+    queryClient.invalidateQueries({ queryKey: [`/api/vehicles/${vehicleId}`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/vehicles'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/odometer-readings/flagged'] });
+  };
+
+  const recordReadingMutation = useMutation({
+    mutationFn: async (data: InsertOdometerReading) => {
+      const res = await apiRequest('POST', readingsEndpoint, data);
+      return await res.json() as OdometerReading;
+    },
+    onSuccess: (reading) => {
+      toast({
+        title: reading.status === 'flagged' ? 'Reading flagged for review' : 'Reading recorded',
+        description: reading.flagReason ?? `Odometer set to ${reading.reading.toLocaleString()} mi.`,
+      });
+      setReadingFormOpen(false);
+      refreshLedger();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error recording reading',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: number, decision: 'accept' | 'void' }) => {
+      const res = await apiRequest('POST', `/api/odometer-readings/${id}/review`, { decision });
+      return await res.json() as OdometerReading;
+    },
+    onSuccess: (reading) => {
+      toast({
+        title: reading.status === 'voided' ? 'Reading voided' : 'Reading accepted',
+        description: reading.status === 'voided'
+          ? 'The reading no longer counts towards the vehicle mileage.'
+          : 'The reading now counts as a valid odometer reading.',
+      });
+      refreshLedger();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error reviewing reading',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  if (isLoadingVehicle) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!vehicle) {
+    return (
+      <Card className="p-8 text-center">
+        <p className="text-muted-foreground">Vehicle not found.</p>
+        <Link href="/vehicles" className="text-primary text-sm">Back to vehicles</Link>
+      </Card>
+    );
+  }
+
+  const flaggedCount = readings?.filter(reading => reading.status === 'flagged').length ?? 0;
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <Link href="/vehicles" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Vehicles
+          </Link>
+          <h2 className="text-2xl font-bold">{vehicle.make} {vehicle.model}</h2>
+          <p className="text-muted-foreground">
+            {vehicle.registrationNumber} · {vehicle.year}
+            {vehicle.category && ` · ${vehicleCategoryLabels[vehicle.category]}`}
+          </p>
+        </div>
+        <Button className="mt-4 md:mt-0" onClick={() => setReadingFormOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Record Reading
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Current Mileage</CardTitle>
+          </CardHeader>
+          <CardContent className="flex items-center gap-2">
+            <Gauge className="h-5 w-5 text-muted-foreground" />
+            <span className="text-2xl font-bold">{vehicle.mileage.toLocaleString()} mi</span>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Readings</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <span className="text-2xl font-bold">{readings?.length ?? 0}</span>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Awaiting Review</CardTitle>
+          </CardHeader>
+          <CardContent className="flex items-center gap-2">
+            <span className="text-2xl font-bold">{flaggedCount}</span>
+            {flaggedCount > 0 && (
+              <Badge variant="outline" className="bg-amber-100 dark:bg-amber-900 text-amber-800 dark:text-amber-200">Flagged</Badge>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <h3 className="text-lg font-semibold mb-3">Odometer History</h3>
+      {isLoadingReadings ? (
+        <Card className="p-8 flex items-center justify-center">
+          <p>Loading readings...</p>
+        </Card>
+      ) : (
+        <OdometerHistory
+          readings={readings || []}
+          users={users || []}
+          canReview={user?.role === 'admin'}
+          onReview={(id, decision) => reviewMutation.mutate({ id, decision })}
+          isReviewing={reviewMutation.isPending}
+        />
+      )}
+
+      <h3 className="text-lg font-semibold mt-6 mb-3">Cost History</h3>
+      {isLoadingCosts ? (
+        <Card className="p-8 flex items-center justify-center">
+          <p>Loading costs...</p>
+        </Card>
+      ) : (
+        <CostHistory entries={costs || []} />
+      )}
+
+      <OdometerReadingForm
+        vehicle={vehicle}
+        open={readingFormOpen}
+        onOpenChange={setReadingFormOpen}
+        onSubmit={(data) => recordReadingMutation.mutate(data)}
+        isSubmitting={recordReadingMutation.isPending}
+      />
+    </div>
+  );
+}
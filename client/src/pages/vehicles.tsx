@@ -1,8 +1,9 @@
 import { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { Vehicle, insertVehicleSchema } from '@shared/schema';
+import { Vehicle, OdometerReading, insertVehicleSchema } from '@shared/schema';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -14,6 +15,7 @@ import { z } from 'zod';
 
 export default function Vehicles() {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
   const [status, setStatus] = useState('');
   const [make, setMake] = useState('');
@@ -38,6 +40,14 @@ export default function Vehicles() {
     }
   });
 
+  // Flagged odometer readings wait for an admin, so only admins are shown them
+  const { data: flaggedReadings } = useQuery<OdometerReading[]>({
+    queryKey: ['/api/odometer-readings/flagged'],
+    enabled: user?.role === 'admin',
+    staleTime: 0,
+  });
+  const flaggedVehicleIds = new Set(flaggedReadings?.map(reading => reading.vehicleId));
+
   // Add vehicle mutation
   const addVehicleMutation = useMutation({
     mutationFn: async (vehicleData: z.infer<typeof insertVehicleSchema>) => {
@@ -212,6 +222,7 @@ export default function Vehicles() {
           onEdit={handleEditClick}
           onDelete={handleDeleteVehicle}
           onMaintenance={handleMaintenanceClick}
+          flaggedVehicleIds={flaggedVehicleIds}
         />
       )}
 
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { useParams, Link } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { InsertVendor, Vehicle, Vendor, VendorPerformance } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { ArrowLeft, Loader2, Pencil } from 'lucide-react';
+import { format } from 'date-fns';
+import VendorForm, { vendorServiceLabels } from '@/components/vendors/vendor-form';
+
+const workOrderStatusLabels: Record<string, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+};
+
+export default function VendorDetail() {
+  const { toast } = useToast();
+  const params = useParams<{ id: string }>();
+  const vendorId = parseInt(params.id);
+  const [formOpen, setFormOpen] = useState(false);
+
+  const { data: vendor, isLoading } = useQuery<Vendor>({
+    queryKey: [`/api/vendors/${vendorId}`],
+    staleTime: 0,
+  });
+
+  const { data: performance } = useQuery<VendorPerformance>({
+    queryKey: [`/api/vendors/${vendorId}/performance`],
+    staleTime: 0,
+  });
+
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  const updateVendorMutation = useMutation({
+    mutationFn: async (data: InsertVendor) => {
+      const res = await apiRequest('PUT', `/api/vendors/${vendorId}`, data);
+      return await res.json() as Vendor;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Vendor saved',
+        description: 'The vendor has been updated successfully.',
+      });
+      setFormOpen(false);
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/vendors') });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving vendor',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!vendor) {
+    return (
+      <Card className="p-8 text-center">
+        <p className="text-muted-foreground">Vendor not found.</p>
+        <Link href="/vendors" className="text-primary text-sm">Back to vendors</Link>
+      </Card>
+    );
+  }
+
+  const getVehicleInfo = (id: number) => {
+    const vehicle = vehicles?.find(v => v.id === id);
+    return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : `Vehicle #${id}`;
+  };
+
+  const metrics = [
+    {
+      label: 'Total Spend',
+      value: performance ? `$${performance.totalSpend.toFixed(2)}` : '—',
+      detail: performance ? `${performance.completedCount} completed job${performance.completedCount === 1 ? '' : 's'}` : null,
+    },
+    {
+      label: 'Average Turnaround',
+      value: performance?.averageTurnaroundDays != null ? `${performance.averageTurnaroundDays} days` : '—',
+      detail: 'From booked date to completion',
+    },
+    {
+      label: 'Rework Rate',
+      value: performance?.reworkRate != null ? `${Math.round(performance.reworkRate * 100)}%` : '—',
+      detail: performance ? `${performance.reworkCount} job${performance.reworkCount === 1 ? '' : 's'} redone` : null,
+    },
+    {
+      label: 'Open Work Orders',
+      value: performance ? performance.openWorkOrders.length.toString() : '—',
+      detail: null,
+    },
+  ];
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <Link href="/vendors" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Vendors
+          </Link>
+          <h2 className="text-2xl font-bold">
+            {vendor.name}
+            {!vendor.active && <Badge variant="outline" className="ml-2 align-middle">Inactive</Badge>}
+          </h2>
+          <div className="mt-1 flex flex-wrap gap-1">
+            {vendor.services.map(service => (
+              <Badge key={service} variant="secondary">{vendorServiceLabels[service]}</Badge>
+            ))}
+          </div>
+        </div>
+        <Button variant="outline" className="mt-4 md:mt-0" onClick={() => setFormOpen(true)}>
+          <Pencil className="mr-2 h-4 w-4" />
+          Edit Vendor
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        {metrics.map(metric => (
+          <Card key={metric.label}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{metric.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <span className="text-2xl font-bold">{metric.value}</span>
+              {metric.detail && <p className="text-xs text-muted-foreground">{metric.detail}</p>}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="text-base">Contact</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Contact</p>
+            <p className="font-medium">{vendor.contactName || '—'}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Phone</p>
+            <p className="font-medium">{vendor.phone || '—'}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Email</p>
+            <p className="font-medium">{vendor.email || '—'}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Address</p>
+            <p className="font-medium">{vendor.address || '—'}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Negotiated labour rate</p>
+            <p className="font-medium">{vendor.labourRate != null ? `$${vendor.labourRate.toFixed(2)}/h` : '—'}</p>
+          </div>
+          {vendor.notes && (
+            <div>
+              <p className="text-muted-foreground">Notes</p>
+              <p className="font-medium whitespace-pre-line">{vendor.notes}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <h3 className="text-lg font-semibold mb-3">Open Work Orders</h3>
+      {!performance || performance.openWorkOrders.length === 0 ? (
+        <div className="rounded-lg border p-8 text-center text-muted-foreground">
+          No open work orders with this vendor.
+        </div>
+      ) : (
+        <div className="rounded-lg border overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Vehicle</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Booked</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {performance.openWorkOrders.map(record => (
+                  <TableRow key={record.id}>
+                    <TableCell>{getVehicleInfo(record.vehicleId)}</TableCell>
+                    <TableCell>{record.description}</TableCell>
+                    <TableCell>{format(new Date(record.date), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>{workOrderStatusLabels[record.status]}</TableCell>
+                    <TableCell className="text-right">{record.cost != null ? `$${record.cost.toFixed(2)}` : '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {formOpen && (
+        <VendorForm
+          open={formOpen}
+          onOpenChange={setFormOpen}
+          onSubmit={(data) => updateVendorMutation.mutate(data)}
+          isSubmitting={updateVendorMutation.isPending}
+          defaultValues={vendor}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { InsertVendor, Vendor } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import { Plus, Search } from 'lucide-react';
+import VendorForm from '@/components/vendors/vendor-form';
+import VendorList from '@/components/vendors/vendor-list';
+
+export default function Vendors() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editedVendor, setEditedVendor] = useState<Vendor | null>(null);
+
+  const { data: vendors, isLoading } = useQuery<Vendor[]>({
+    queryKey: ['/api/vendors'],
+  });
+
+  const refreshVendors = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/vendors') });
+  };
+
+  const saveVendorMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: number, data: InsertVendor }) => {
+      const res = id
+        ? await apiRequest('PUT', `/api/vendors/${id}`, data)
+        : await apiRequest('POST', '/api/vendors', data);
+      return await res.json() as Vendor;
+    },
+    onSuccess: (vendor) => {
+      toast({
+        title: 'Vendor saved',
+        description: `${vendor.name} has been saved successfully.`,
+      });
+      setFormOpen(false);
+      setEditedVendor(null);
+      refreshVendors();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving vendor',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deleteVendorMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/vendors/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Vendor deleted',
+        description: 'The vendor has been deleted successfully.',
+      });
+      refreshVendors();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error deleting vendor',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const filteredVendors = (vendors || []).filter(vendor => {
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return (
+      vendor.name.toLowerCase().includes(query) ||
+      vendor.contactName?.toLowerCase().includes(query) ||
+      vendor.address?.toLowerCase().includes(query) ||
+      vendor.services.some(service => service.includes(query))
+    );
+  });
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Vendors</h2>
+          <p className="text-muted-foreground">Garages and service providers your maintenance goes to</p>
+        </div>
+        <div className="flex gap-2 mt-4 md:mt-0">
+          <div className="relative flex-grow md:w-64">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="text"
+              placeholder="Search vendors..."
+              className="pl-9"
+              value={searchQuery}
+              onChange={e => setSearchQuery(e.target.value)}
+            />
+          </div>
+          <Button onClick={() => setFormOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Vendor
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Card className="p-8 flex items-center justify-center">
+          <p>Loading vendors...</p>
+        </Card>
+      ) : (
+        <VendorList
+          vendors={filteredVendors}
+          canDelete={user?.role === 'admin'}
+          onEdit={setEditedVendor}
+          onDelete={(id) => deleteVendorMutation.mutate(id)}
+        />
+      )}
+
+      {(formOpen || editedVendor) && (
+        <VendorForm
+          open={formOpen || !!editedVendor}
+          onOpenChange={(open) => {
+            if (!open) {
+              setFormOpen(false);
+              setEditedVendor(null);
+            }
+          }}
+          onSubmit={(data) => saveVendorMutation.mutate({ id: editedVendor?.id, data })}
+          isSubmitting={saveVendorMutation.isPending}
+          defaultValues={editedVendor ?? undefined}
+        />
+      )}
+    </div>
+  );
+}
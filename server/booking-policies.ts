@@ -0,0 +1,87 @@
+import { BookingBlackout, BookingPolicy, BookingPolicyRule, BookingPolicyViolation } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+type PolicyLimitField = "maxDurationHours" | "minLeadTimeHours" | "maxAdvanceDays" | "maxActiveBookings";
+
+type BookingWindow = { startTime: Date; endTime: Date };
+
+export type PolicyContext = {
+  // One window for a single booking, one per occurrence for a series
+  windows: BookingWindow[];
+  globalPolicy?: BookingPolicy;
+  vehiclePolicy?: BookingPolicy;
+  // Global blackouts plus those of the booked vehicle
+  blackouts: BookingBlackout[];
+  // Active bookings the requester already holds
+  activeBookingCount: number;
+  now: Date;
+};
+
+// A vehicle policy value wins over the global one; null means "no limit here"
+function resolveLimit(field: PolicyLimitField, context: PolicyContext): { value: number; scope: "global" | "vehicle" } | null {
+  const vehicleValue = context.vehiclePolicy?.[field];
+  if (vehicleValue !== null && vehicleValue !== undefined) {
+    return { value: vehicleValue, scope: "vehicle" };
+  }
+
+  const globalValue = context.globalPolicy?.[field];
+  if (globalValue !== null && globalValue !== undefined) {
+    return { value: globalValue, scope: "global" };
+  }
+
+  return null;
+}
+
+function formatTime(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+// Every rule the requested windows break; each rule is reported once
+export function findPolicyViolations(context: PolicyContext): BookingPolicyViolation[] {
+  const violations: BookingPolicyViolation[] = [];
+  const check = (rule: BookingPolicyRule, field: PolicyLimitField, breaks: (limit: number, window: BookingWindow) => boolean, message: (limit: number) => string) => {
+    const limit = resolveLimit(field, context);
+    if (limit && context.windows.some(window => breaks(limit.value, window))) {
+      violations.push({ rule, scope: limit.scope, message: message(limit.value) });
+    }
+  };
+
+  check("max_duration", "maxDurationHours",
+    (hours, window) => window.endTime.getTime() - window.startTime.getTime() > hours * HOUR_MS,
+    hours => `Bookings can last at most ${hours} hour(s)`);
+
+  check("min_lead_time", "minLeadTimeHours",
+    (hours, window) => window.startTime.getTime() - context.now.getTime() < hours * HOUR_MS,
+    hours => `Bookings must start at least ${hours} hour(s) from now`);
+
+  check("max_advance", "maxAdvanceDays",
+    (days, window) => window.startTime.getTime() - context.now.getTime() > days * DAY_MS,
+    days => `Bookings can start at most ${days} day(s) ahead`);
+
+  const activeLimit = resolveLimit("maxActiveBookings", context);
+  if (activeLimit && context.activeBookingCount + context.windows.length > activeLimit.value) {
+    violations.push({
+      rule: "max_active_bookings",
+      scope: activeLimit.scope,
+      message: `At most ${activeLimit.value} active booking(s) per user; you already have ${context.activeBookingCount}`
+    });
+  }
+
+  for (const blackout of context.blackouts) {
+    const hit = context.windows.some(window =>
+      window.startTime.getTime() < blackout.endTime.getTime() &&
+      window.endTime.getTime() > blackout.startTime.getTime()
+    );
+    if (hit) {
+      violations.push({
+        rule: "blackout",
+        scope: blackout.vehicleId ? "vehicle" : "global",
+        message: `No bookings from ${formatTime(blackout.startTime)} to ${formatTime(blackout.endTime)}: ${blackout.reason}`
+      });
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,97 @@
+import { FuelEfficiencySegment, FuelEfficiencySummary, FuelLog } from "@shared/schema";
+
+const KM_PER_MILE = 1.609344;
+const LITRES_PER_US_GALLON = 3.785411784;
+
+// A stretch using this much more than the vehicle's usual consumption may mean a leak or misuse
+const ABNORMAL_CONSUMPTION_RATIO = 1.3;
+
+// With fewer stretches there is no reliable "usual" to compare against
+const MIN_SEGMENTS_FOR_COMPARISON = 3;
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function litresPer100Km(litres: number, miles: number): number {
+  return litres / (miles * KM_PER_MILE) * 100;
+}
+
+function milesPerGallon(litres: number, miles: number): number {
+  return miles / (litres / LITRES_PER_US_GALLON);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// The total cost printed on the receipt, or litres times unit price when it was left out
+export function fuelLogTotalCost(litres: number, unitPrice: number, totalCost?: number | null): number {
+  return totalCost ?? round(litres * unitPrice, 2);
+}
+
+// Full-to-full method: filling up to full at both ends means the fuel put in on the way
+// (the closing fill plus any partial fills before it) is exactly what the distance used.
+// Partial fills before the first full fill cannot be attributed and are skipped.
+export function summarizeFuelEfficiency(vehicleId: number, logs: FuelLog[]): FuelEfficiencySummary {
+  const fills = logs
+    .filter(log => log.vehicleId === vehicleId)
+    .sort((a, b) => a.odometer - b.odometer || new Date(a.filledAt).getTime() - new Date(b.filledAt).getTime());
+
+  const segments: FuelEfficiencySegment[] = [];
+  let lastFull: FuelLog | undefined;
+  let litresSinceFull = 0;
+
+  for (const fill of fills) {
+    if (!lastFull) {
+      if (fill.fullTank) lastFull = fill;
+      continue;
+    }
+
+    litresSinceFull += fill.litres;
+    if (!fill.fullTank) continue;
+
+    const miles = fill.odometer - lastFull.odometer;
+    if (miles > 0) {
+      segments.push({
+        fromFuelLogId: lastFull.id,
+        toFuelLogId: fill.id,
+        miles,
+        litres: round(litresSinceFull, 2),
+        litresPer100Km: round(litresPer100Km(litresSinceFull, miles), 2),
+        mpg: round(milesPerGallon(litresSinceFull, miles), 1),
+        abnormalReason: null
+      });
+    }
+    lastFull = fill;
+    litresSinceFull = 0;
+  }
+
+  let typical: number | null = null;
+  if (segments.length >= MIN_SEGMENTS_FOR_COMPARISON) {
+    typical = round(median(segments.map(segment => segment.litresPer100Km)), 2);
+    for (const segment of segments) {
+      if (segment.litresPer100Km > typical * ABNORMAL_CONSUMPTION_RATIO) {
+        const percentAbove = Math.round((segment.litresPer100Km / typical - 1) * 100);
+        segment.abnormalReason = `${segment.litresPer100Km} L/100km is ${percentAbove}% above this vehicle's usual ${typical} L/100km`;
+      }
+    }
+  }
+
+  const segmentMiles = segments.reduce((sum, segment) => sum + segment.miles, 0);
+  const segmentLitres = segments.reduce((sum, segment) => sum + segment.litres, 0);
+
+  return {
+    vehicleId,
+    fills: fills.length,
+    totalLitres: round(fills.reduce((sum, fill) => sum + fill.litres, 0), 2),
+    totalCost: round(fills.reduce((sum, fill) => sum + fill.totalCost, 0), 2),
+    litresPer100Km: segmentMiles > 0 ? round(litresPer100Km(segmentLitres, segmentMiles), 2) : null,
+    mpg: segmentMiles > 0 ? round(milesPerGallon(segmentLitres, segmentMiles), 1) : null,
+    typicalLitresPer100Km: typical,
+    segments
+  };
+}
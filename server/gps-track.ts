@@ -0,0 +1,205 @@
+import { OdometerCheck, TrackFormat, TrackPoint, Trip } from "@shared/schema";
+
+// Parsing and stats for uploaded GPX / GeoJSON trip tracks
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Slower than this between two fixes counts as standing still
+const IDLE_SPEED_MPH = 2;
+
+// Fixes closer together than this give unreliable speeds
+const MIN_SPEED_SEGMENT_SECONDS = 5;
+
+// GPS and odometer distances rarely match exactly; allow the larger of these
+const ODOMETER_TOLERANCE_MILES = 1;
+const ODOMETER_TOLERANCE_RATIO = 0.1;
+
+export type TrackStats = {
+  distanceMiles: number;
+  durationSeconds: number | null;
+  idleSeconds: number | null;
+  maxSpeedMph: number | null;
+};
+
+function toPoint(lat: number, lon: number, time: unknown): TrackPoint {
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    throw new Error(`Invalid track: coordinate ${lat}, ${lon} is out of range`);
+  }
+
+  let isoTime: string | null = null;
+  if (typeof time === "string" && time.trim()) {
+    const parsed = new Date(time.trim());
+    if (isNaN(parsed.getTime())) {
+      throw new Error(`Invalid track: unreadable timestamp "${time}"`);
+    }
+    isoTime = parsed.toISOString();
+  }
+
+  return { lat, lon, time: isoTime };
+}
+
+function readAttribute(attributes: string, name: string): number {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  return match ? parseFloat(match[1]) : NaN;
+}
+
+// Track points, or route points for files without a recorded track
+function parseGpx(content: string): TrackPoint[] {
+  if (!/<gpx[\s>]/.test(content)) {
+    throw new Error("Invalid track: not a GPX file");
+  }
+
+  const readPoints = (tag: string) => {
+    const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${tag}>)`, "g");
+    return Array.from(content.matchAll(pattern), match => {
+      const time = match[2]?.match(/<time>([^<]*)<\/time>/);
+      return toPoint(readAttribute(match[1], "lat"), readAttribute(match[1], "lon"), time?.[1]);
+    });
+  };
+
+  const trackPoints = readPoints("trkpt");
+  return trackPoints.length > 0 ? trackPoints : readPoints("rtept");
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const listOf = (value: unknown, what: string): unknown[] => {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid track: ${what} must be a list`);
+  }
+  return value;
+};
+
+function readPosition(position: unknown, time: unknown): TrackPoint {
+  if (!Array.isArray(position) || typeof position[0] !== "number" || typeof position[1] !== "number") {
+    throw new Error("Invalid track: coordinates must be [longitude, latitude] pairs");
+  }
+  return toPoint(position[1], position[0], time);
+}
+
+// Line coordinates with optional per-point times in properties.coordTimes (or .times),
+// the layout GPX to GeoJSON converters produce
+function parseGeoJson(content: string): TrackPoint[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    throw new Error("Invalid track: not valid JSON");
+  }
+  if (!isObject(data)) {
+    throw new Error("Invalid track: not a GeoJSON object");
+  }
+
+  const features: unknown[] =
+    data.type === "FeatureCollection" ? listOf(data.features, "features") :
+    data.type === "Feature" ? [data] :
+    [{ type: "Feature", geometry: data, properties: {} }];
+
+  const points: TrackPoint[] = [];
+  for (const feature of features) {
+    if (!isObject(feature)) {
+      throw new Error("Invalid track: every feature must be an object");
+    }
+    const geometry = feature.geometry;
+    const properties = isObject(feature.properties) ? feature.properties : {};
+    const times = properties.coordTimes ?? properties.times;
+
+    let lines: unknown[];
+    let lineTimes: unknown[];
+    if (isObject(geometry) && geometry.type === "LineString") {
+      lines = [geometry.coordinates];
+      lineTimes = [Array.isArray(times) ? times : []];
+    } else if (isObject(geometry) && geometry.type === "MultiLineString") {
+      lines = listOf(geometry.coordinates, "line coordinates");
+      lineTimes = Array.isArray(times) ? times : [];
+    } else if (geometry === null || isObject(geometry)) {
+      // Points, polygons and features without a geometry are not part of a driven route
+      continue;
+    } else {
+      throw new Error("Invalid track: geometry must be an object");
+    }
+
+    for (let line = 0; line < lines.length; line++) {
+      const coordinates = listOf(lines[line], "line coordinates");
+      const timesForLine = lineTimes[line];
+      for (let index = 0; index < coordinates.length; index++) {
+        points.push(readPosition(coordinates[index], Array.isArray(timesForLine) ? timesForLine[index] : undefined));
+      }
+    }
+  }
+
+  return points;
+}
+
+export function parseTrack(format: TrackFormat, content: string): TrackPoint[] {
+  const points = format === "gpx" ? parseGpx(content) : parseGeoJson(content);
+  if (points.length < 2) {
+    throw new Error("Invalid track: at least two points are needed");
+  }
+  return points;
+}
+
+function distanceMiles(a: TrackPoint, b: TrackPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function summarizeTrack(points: TrackPoint[]): TrackStats {
+  let distance = 0;
+  let idleSeconds = 0;
+  let maxSpeedMph = 0;
+  let timedSegments = 0;
+
+  for (let index = 1; index < points.length; index++) {
+    const previous = points[index - 1];
+    const current = points[index];
+    const segmentMiles = distanceMiles(previous, current);
+    distance += segmentMiles;
+
+    if (!previous.time || !current.time) continue;
+    const seconds = (new Date(current.time).getTime() - new Date(previous.time).getTime()) / 1000;
+    if (seconds <= 0) continue;
+
+    timedSegments++;
+    const speedMph = segmentMiles / (seconds / 3600);
+    if (speedMph < IDLE_SPEED_MPH) {
+      idleSeconds += seconds;
+    }
+    if (seconds >= MIN_SPEED_SEGMENT_SECONDS) {
+      maxSpeedMph = Math.max(maxSpeedMph, speedMph);
+    }
+  }
+
+  // Some devices leave out timestamps on a few fixes; measure between the outermost timed ones
+  const timed = points.filter(point => point.time);
+  const hasTimes = timedSegments > 0;
+
+  return {
+    distanceMiles: Math.round(distance * 100) / 100,
+    durationSeconds: hasTimes ? Math.round((new Date(timed[timed.length - 1].time!).getTime() - new Date(timed[0].time!).getTime()) / 1000) : null,
+    idleSeconds: hasTimes ? Math.round(idleSeconds) : null,
+    maxSpeedMph: hasTimes ? Math.round(maxSpeedMph * 10) / 10 : null,
+  };
+}
+
+export function checkOdometerDistance(trip: Trip, gpsMiles: number): OdometerCheck {
+  if (trip.endOdometer === null) {
+    return { odometerMiles: null, differenceMiles: null, withinTolerance: null };
+  }
+
+  const odometerMiles = trip.endOdometer - trip.startOdometer;
+  const differenceMiles = Math.round((gpsMiles - odometerMiles) * 100) / 100;
+  const tolerance = Math.max(ODOMETER_TOLERANCE_MILES, odometerMiles * ODOMETER_TOLERANCE_RATIO);
+
+  return {
+    odometerMiles,
+    differenceMiles,
+    withinTolerance: Math.abs(differenceMiles) <= tolerance,
+  };
+}
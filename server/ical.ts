@@ -0,0 +1,122 @@
+import { Booking, Maintenance, Vehicle } from "@shared/schema";
+
+// Minimal RFC 5545 writer for the calendar subscription feeds
+
+type CalendarEvent = {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  status?: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+} & (
+  | { allDay: false; start: Date; end: Date }
+  | { allDay: true; date: string }
+);
+
+const PRODUCT_ID = "-//Fleet Manager//Calendar Feed//EN";
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// 20240131T083000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// 2024-01-31 -> 20240131
+function formatDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function nextDate(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+// Lines longer than 75 octets are continued on the next line after a space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+export function buildCalendar(name: string, events: CalendarEvent[]): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push("BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+    if (event.allDay) {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`, `DTEND;VALUE=DATE:${formatDate(nextDate(event.date))}`);
+    } else {
+      lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(event.end)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.status) {
+      lines.push(`STATUS:${event.status}`);
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function describeVehicle(vehicle: Vehicle | undefined): string {
+  return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : "Vehicle";
+}
+
+const bookingEventStatus: Record<Booking["status"], CalendarEvent["status"]> = {
+  pending: "TENTATIVE",
+  approved: "CONFIRMED",
+  completed: "CONFIRMED",
+  declined: "CANCELLED",
+  cancelled: "CANCELLED",
+};
+
+export function bookingEvent(booking: Booking, vehicle: Vehicle | undefined): CalendarEvent {
+  return {
+    uid: `booking-${booking.id}@fleet-manager`,
+    allDay: false,
+    start: new Date(booking.startTime),
+    end: new Date(booking.endTime),
+    summary: booking.status === "pending"
+      ? `Booking (pending): ${describeVehicle(vehicle)}`
+      : `Booking: ${describeVehicle(vehicle)}`,
+    description: booking.purpose,
+    status: bookingEventStatus[booking.status],
+  };
+}
+
+export function maintenanceEvent(record: Maintenance, vehicle: Vehicle | undefined): CalendarEvent {
+  return {
+    uid: `maintenance-${record.id}@fleet-manager`,
+    allDay: true,
+    date: record.date,
+    summary: `Maintenance: ${describeVehicle(vehicle)}`,
+    description: record.notes ? `${record.description}\n${record.notes}` : record.description,
+  };
+}
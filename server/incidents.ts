@@ -0,0 +1,45 @@
+import { DrivingRecord, Incident, IncidentStatus, Trip } from "@shared/schema";
+
+export const incidentTypeLabels: Record<Incident["type"], string> = {
+  collision: "Collision",
+  breakdown: "Breakdown",
+  fine: "Fine",
+  theft: "Theft",
+  vandalism: "Vandalism",
+  other: "Other",
+};
+
+// The settled cost once it is known, otherwise the estimate made when it was reported
+export function incidentCost(incident: Pick<Incident, "actualCost" | "estimatedCost">): number {
+  return incident.actualCost ?? incident.estimatedCost ?? 0;
+}
+
+// Investigations start from a new report, are closed with findings, and can be reopened
+// when new information turns up
+export function checkIncidentTransition(current: IncidentStatus, next: IncidentStatus): string | null {
+  if (next === "investigating" && current === "investigating") {
+    return "The incident is already under investigation";
+  }
+  if (next === "closed" && current !== "investigating") {
+    return "Only incidents under investigation can be closed";
+  }
+  return null;
+}
+
+export function buildDrivingRecord(driverId: number, trips: Trip[], incidents: Incident[]): DrivingRecord {
+  const completed = trips.filter(trip => trip.status === "completed" && trip.endOdometer != null);
+  const driverIncidents = incidents
+    .filter(incident => incident.driverId === driverId)
+    .sort((a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime());
+
+  return {
+    driverId,
+    tripCount: completed.length,
+    distanceMiles: completed.reduce((sum, trip) => sum + (trip.endOdometer! - trip.startOdometer), 0),
+    incidentCount: driverIncidents.length,
+    openIncidentCount: driverIncidents.filter(incident => incident.status !== "closed").length,
+    atFaultCount: driverIncidents.filter(incident => incident.driverAtFault === true).length,
+    incidentCost: Math.round(driverIncidents.reduce((sum, incident) => sum + incidentCost(incident), 0) * 100) / 100,
+    incidents: driverIncidents,
+  };
+}
@@ -3,6 +3,11 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// GPS tracks, inspection and incident photos and charge imports are uploaded as JSON and are much larger than any other request
+app.use("/api/trips/:id/route", express.json({ limit: "10mb" }));
+app.use("/api/inspections", express.json({ limit: "10mb" }));
+app.use("/api/incidents", express.json({ limit: "15mb" }));
+app.use("/api/traffic-charges/import", express.json({ limit: "5mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
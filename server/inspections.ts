@@ -0,0 +1,184 @@
+import { Inspection, InspectionKind, InspectionResult, InspectionResultInput, InspectionTemplate, InsertInspectionTemplate, Maintenance, Trip } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long a pre-trip inspection stays good for a trip that has not been linked to it yet
+export const PRE_TRIP_INSPECTION_VALID_HOURS = 12;
+
+// Thrown when an inspection is incomplete or a trip cannot move on without one
+export class InspectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InspectionError";
+  }
+}
+
+// Created on first start so trips can be started before an admin has set anything up
+export const DEFAULT_INSPECTION_TEMPLATES: InsertInspectionTemplate[] = [
+  {
+    name: "Standard pre-trip inspection",
+    kind: "pre_trip",
+    active: true,
+    items: [
+      { key: "tyres", label: "Tyres - pressure, tread and no visible damage", critical: true, photoRequired: false },
+      { key: "lights", label: "Lights and indicators working", critical: true, photoRequired: false },
+      { key: "brakes", label: "Brakes respond normally", critical: true, photoRequired: false },
+      { key: "fluids", label: "Fluid levels - oil, coolant, washer", critical: false, photoRequired: false },
+      { key: "damage", label: "Bodywork free of new damage", critical: false, photoRequired: true },
+    ],
+  },
+  {
+    name: "Standard post-trip inspection",
+    kind: "post_trip",
+    active: true,
+    items: [
+      { key: "tyres", label: "Tyres - no damage picked up on the trip", critical: true, photoRequired: false },
+      { key: "lights", label: "Lights and indicators working", critical: true, photoRequired: false },
+      { key: "brakes", label: "No brake problems noticed while driving", critical: true, photoRequired: false },
+      { key: "fluids", label: "No warning lights or leaks", critical: false, photoRequired: false },
+      { key: "damage", label: "Bodywork free of new damage", critical: false, photoRequired: true },
+    ],
+  },
+];
+
+export const inspectionKindLabels: Record<InspectionKind, string> = {
+  pre_trip: "pre-trip",
+  post_trip: "post-trip",
+};
+
+// Check the driver's answers against the template: every item answered once, and failed
+// items that need a photo come with one. Maintenance ids are filled in when the records exist.
+export function gradeInspection(template: InspectionTemplate, answers: InspectionResultInput[]): InspectionResult[] {
+  const answersByKey = new Map(answers.map(answer => [answer.key, answer]));
+  if (answersByKey.size !== answers.length) {
+    throw new InspectionError("Each inspection item can only be answered once");
+  }
+
+  const unknown = answers.find(answer => !template.items.some(item => item.key === answer.key));
+  if (unknown) {
+    throw new InspectionError(`Inspection item "${unknown.key}" is not on the ${template.name} checklist`);
+  }
+
+  return template.items.map(item => {
+    const answer = answersByKey.get(item.key);
+    if (!answer) {
+      throw new InspectionError(`Inspection item "${item.label}" has not been checked`);
+    }
+    if (!answer.passed && item.photoRequired && !answer.photo) {
+      throw new InspectionError(`A photo is required when "${item.label}" fails`);
+    }
+    return {
+      ...item,
+      passed: answer.passed,
+      note: answer.note || null,
+      photo: answer.photo ?? null,
+      maintenanceId: null
+    };
+  });
+}
+
+// The unscheduled maintenance record opened for a failed item
+export function failedItemMaintenance(vehicleId: number, kind: InspectionKind, result: InspectionResult, performedAt: Date): Omit<Maintenance, "id"> {
+  return {
+    vehicleId,
+    type: "unscheduled",
+    description: `${result.label} failed ${inspectionKindLabels[kind]} inspection`,
+    date: performedAt.toISOString().slice(0, 10),
+    cost: null,
+    odometer: null,
+    status: "pending",
+    notes: result.note,
+    completedAt: null,
+    engineHours: null,
+    planId: null,
+    lines: [],
+    vendorId: null,
+    reworkOfId: null
+  };
+}
+
+// The checklist a trip needs before it can move to its new status. Trips logged straight
+// as completed were recorded after the fact and have nothing to inspect.
+export function requiredInspectionKind(trip: Pick<Trip, "status">, previous?: Pick<Trip, "status">): InspectionKind | null {
+  const previousStatus = previous?.status;
+  if (trip.status === "in_progress" && previousStatus !== "in_progress") {
+    return "pre_trip";
+  }
+  if (trip.status === "completed" && previousStatus !== undefined && previousStatus !== "completed") {
+    return "post_trip";
+  }
+  return null;
+}
+
+// The pre-trip inspection that clears a trip to start: one already linked to it, or the
+// latest unlinked one for the vehicle done close enough to the start
+function findPreTripInspection(list: Inspection[], trip: Pick<Trip, "id" | "vehicleId" | "startTime">): Inspection | undefined {
+  const startTime = new Date(trip.startTime).getTime();
+  const candidates = list.filter(inspection =>
+    inspection.kind === "pre_trip" &&
+    inspection.vehicleId === trip.vehicleId &&
+    (inspection.tripId === trip.id ||
+      (inspection.tripId === null && Math.abs(inspection.performedAt.getTime() - startTime) <= PRE_TRIP_INSPECTION_VALID_HOURS * HOUR_MS))
+  );
+
+  return candidates.find(inspection => inspection.tripId === trip.id) ??
+    candidates.sort((a, b) => b.performedAt.getTime() - a.performedAt.getTime())[0];
+}
+
+// Stop a trip from moving on when the inspection its status change needs is missing, or the
+// pre-trip one grounded the vehicle. Returns a pre-trip inspection still to be linked to the trip.
+// Only drivers moving their own trips must have filed the inspection; when it is not required,
+// one that was filed is still linked and a failed critical item still stops the trip.
+export function tripInspectionToLink(
+  list: Inspection[],
+  trip: Pick<Trip, "id" | "vehicleId" | "startTime" | "status">,
+  previous?: Pick<Trip, "status">,
+  required = true
+): Inspection | undefined {
+  const kind = requiredInspectionKind(trip, previous);
+  if (kind === "post_trip") {
+    if (required && !list.some(inspection => inspection.kind === "post_trip" && inspection.tripId === trip.id)) {
+      throw new InspectionError("A post-trip inspection is required before the trip can be completed");
+    }
+    return undefined;
+  }
+  if (kind !== "pre_trip") return undefined;
+
+  const inspection = findPreTripInspection(list, trip);
+  if (!inspection) {
+    if (!required) return undefined;
+    throw new InspectionError("A pre-trip inspection is required before the trip can start");
+  }
+  if (inspection.criticalFailure) {
+    throw new InspectionError("The pre-trip inspection failed a critical item, so the vehicle cannot be driven");
+  }
+  return inspection.tripId === null ? inspection : undefined;
+}
+
+// A trip an inspection is filed against must be for the same vehicle and at the right stage,
+// and gets at most one inspection of each kind
+export function checkInspectionTrip(
+  kind: InspectionKind,
+  vehicleId: number,
+  trip: Trip | undefined,
+  tripInspections: Inspection[]
+): void {
+  if (!trip) {
+    if (kind === "post_trip") {
+      throw new InspectionError("Post-trip inspections must be linked to a trip");
+    }
+    return;
+  }
+  if (trip.vehicleId !== vehicleId) {
+    throw new InspectionError("The inspection must be for the trip's vehicle");
+  }
+  if (kind === "pre_trip" && trip.status !== "planned") {
+    throw new InspectionError("Pre-trip inspections are done before the trip starts");
+  }
+  if (kind === "post_trip" && trip.status !== "in_progress") {
+    throw new InspectionError("Post-trip inspections can only be done for a trip in progress");
+  }
+  if (tripInspections.some(inspection => inspection.kind === kind)) {
+    throw new InspectionError(`This trip already has a ${inspectionKindLabels[kind]} inspection`);
+  }
+}
@@ -0,0 +1,154 @@
+import { InsertMaintenance, Maintenance, MaintenanceDue, MaintenancePlan, OdometerReading, Vehicle } from "@shared/schema";
+import { ledgerMileage } from "./odometer";
+
+// How far ahead a service is flagged as due soon and a pending record is opened for it
+export const MAINTENANCE_LOOKAHEAD_DAYS = 30;
+export const MAINTENANCE_LOOKAHEAD_MILEAGE = 1000;
+export const MAINTENANCE_LOOKAHEAD_ENGINE_HOURS = 50;
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Dates are compared as whole days, the way maintenance records store them
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+// Month arithmetic that stays on the last day for shorter months, e.g. Jan 31 + 1 month is Feb 28
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return result;
+}
+
+export function planAppliesTo(plan: MaintenancePlan, vehicle: Vehicle): boolean {
+  if (!plan.active) return false;
+  if (plan.vehicleId != null) return plan.vehicleId === vehicle.id;
+  return !!plan.make && sameText(plan.make, vehicle.make) && (!plan.model || sameText(plan.model, vehicle.model));
+}
+
+// When a completed service was actually done
+const serviceDate = (record: Maintenance) => new Date(record.completedAt ?? record.date);
+
+// The vehicle's mileage when the plan started covering it: the ledger as it stood when the plan
+// was set up, or the first reading of a vehicle that joined the fleet later
+function planBaseMileage(plan: MaintenancePlan, vehicle: Vehicle, readings: OdometerReading[]): number {
+  const history = readings.filter(entry => entry.vehicleId === vehicle.id);
+  const before = ledgerMileage(history.filter(entry => new Date(entry.recordedAt) <= new Date(plan.createdAt)));
+  if (before !== undefined) return before;
+
+  const first = history
+    .filter(entry => entry.status !== "voided")
+    .sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime() || a.id - b.id)[0];
+  return first?.reading ?? vehicle.mileage;
+}
+
+// The mileage on the day a service was done, for records completed without an odometer value
+function mileageOnDay(plan: MaintenancePlan, vehicle: Vehicle, readings: OdometerReading[], day: string): number {
+  const history = readings.filter(entry => entry.vehicleId === vehicle.id && toDay(new Date(entry.recordedAt)) <= day);
+  return ledgerMileage(history) ?? planBaseMileage(plan, vehicle, readings);
+}
+
+// The hour meter keeps no ledger, so a service completed without engine hours takes the latest
+// value any of the vehicle's services recorded up to that day
+function engineHoursOnDay(vehicle: Vehicle, records: Maintenance[], day: string): number {
+  return records
+    .filter(record => record.vehicleId === vehicle.id && record.status === "completed" && record.engineHours != null && toDay(serviceDate(record)) <= day)
+    .sort((a, b) => serviceDate(b).getTime() - serviceDate(a).getTime() || b.id - a.id)[0]?.engineHours ?? 0;
+}
+
+// The next service counts from the last time the plan's work was completed, taking the ledger
+// on that day when the record left the odometer or hours blank. A vehicle never serviced under
+// the plan counts from its purchase date (or when the plan was set up, if that is unknown),
+// from its mileage when the plan started covering it, and from zero on the hour meter.
+export function computeMaintenanceDue(plan: MaintenancePlan, vehicle: Vehicle, records: Maintenance[], readings: OdometerReading[], now: Date = new Date()): MaintenanceDue {
+  const planRecords = records.filter(record => record.planId === plan.id && record.vehicleId === vehicle.id);
+  const last = planRecords
+    .filter(record => record.status === "completed")
+    .sort((a, b) => serviceDate(b).getTime() - serviceDate(a).getTime() || b.id - a.id)[0];
+  const pending = planRecords.find(record => record.status !== "completed");
+
+  const baseDate = last ? serviceDate(last) : new Date(vehicle.purchaseDate ?? plan.createdAt);
+  const baseMileage = last ? last.odometer ?? mileageOnDay(plan, vehicle, readings, toDay(baseDate)) : planBaseMileage(plan, vehicle, readings);
+  const baseEngineHours = last ? last.engineHours ?? engineHoursOnDay(vehicle, records, toDay(baseDate)) : 0;
+
+  const dueDate = plan.intervalMonths != null ? toDay(addMonths(baseDate, plan.intervalMonths)) : null;
+  const dueMileage = plan.intervalMileage != null ? baseMileage + plan.intervalMileage : null;
+  const dueEngineHours = plan.intervalEngineHours != null && vehicle.engineHours != null
+    ? baseEngineHours + plan.intervalEngineHours
+    : null;
+
+  const today = toDay(now);
+  const overdue =
+    (dueDate !== null && dueDate < today) ||
+    (dueMileage !== null && vehicle.mileage > dueMileage) ||
+    (dueEngineHours !== null && vehicle.engineHours! > dueEngineHours);
+  const dueSoon =
+    (dueDate !== null && dueDate <= toDay(addDays(now, MAINTENANCE_LOOKAHEAD_DAYS))) ||
+    (dueMileage !== null && vehicle.mileage >= dueMileage - MAINTENANCE_LOOKAHEAD_MILEAGE) ||
+    (dueEngineHours !== null && vehicle.engineHours! >= dueEngineHours - MAINTENANCE_LOOKAHEAD_ENGINE_HOURS);
+
+  return {
+    planId: plan.id,
+    planName: plan.name,
+    vehicleId: vehicle.id,
+    lastCompletedId: last?.id ?? null,
+    lastCompletedDate: last ? toDay(serviceDate(last)) : null,
+    dueDate,
+    dueMileage,
+    dueEngineHours,
+    status: overdue ? "overdue" : dueSoon ? "due_soon" : "ok",
+    pendingMaintenanceId: pending?.id ?? null,
+  };
+}
+
+const dueStatusOrder: Record<MaintenanceDue["status"], number> = { overdue: 0, due_soon: 1, ok: 2 };
+
+// Every vehicle against every active plan that covers it, most pressing first
+export function buildMaintenanceDueList(plans: MaintenancePlan[], vehicles: Vehicle[], records: Maintenance[], readings: OdometerReading[], now: Date = new Date()): MaintenanceDue[] {
+  const dueList: MaintenanceDue[] = [];
+  for (const plan of plans) {
+    for (const vehicle of vehicles) {
+      if (planAppliesTo(plan, vehicle)) {
+        dueList.push(computeMaintenanceDue(plan, vehicle, records, readings, now));
+      }
+    }
+  }
+
+  return dueList.sort((a, b) =>
+    dueStatusOrder[a.status] - dueStatusOrder[b.status] ||
+    (a.dueDate ?? "9999").localeCompare(b.dueDate ?? "9999") ||
+    a.vehicleId - b.vehicleId
+  );
+}
+
+// "by 2026-03-01 or at 60,000 mi, whichever comes first"
+export function describeMaintenanceDue(due: Pick<MaintenanceDue, "dueDate" | "dueMileage" | "dueEngineHours">): string {
+  const parts = [
+    due.dueDate && `by ${due.dueDate}`,
+    due.dueMileage !== null && `at ${due.dueMileage.toLocaleString("en-US")} mi`,
+    due.dueEngineHours !== null && `at ${due.dueEngineHours.toLocaleString("en-US")} engine hours`,
+  ].filter((part): part is string => !!part);
+
+  return parts.length > 1 ? `${parts.join(" or ")}, whichever comes first` : parts[0] ?? "";
+}
+
+// The pending record opened for a coming service. Services already due by mileage or hours
+// are booked for today.
+export function plannedMaintenanceRecord(due: MaintenanceDue, plan: MaintenancePlan, now: Date = new Date()): InsertMaintenance {
+  const today = toDay(now);
+  return {
+    vehicleId: due.vehicleId,
+    type: "scheduled",
+    description: plan.name,
+    date: due.dueDate && due.dueDate > today ? due.dueDate : today,
+    cost: plan.estimatedCost,
+    status: "pending",
+    notes: `Preventive maintenance due ${describeMaintenanceDue(due)}`,
+    planId: plan.id,
+  };
+}
@@ -0,0 +1,121 @@
+import { MileageRate, MileageRateTreatment, MileageStatement, MileageStatementLine, MileageStatementPreview, Trip, TripUsage, tripUsages } from "@shared/schema";
+
+const KM_PER_MILE = 1.609344;
+
+export type EffectiveMileageRate = Pick<MileageRate, "usage" | "treatment" | "ratePerKm">;
+
+// Used until finance sets a rate: business trips are reimbursed, any other use of a
+// company vehicle is a benefit in kind
+const DEFAULT_TREATMENTS: Record<TripUsage, MileageRateTreatment> = {
+  business: "reimbursement",
+  commute: "benefit_in_kind",
+  private: "benefit_in_kind",
+};
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// The rate for every usage, with unset ones at zero
+export function effectiveMileageRates(stored: MileageRate[]): EffectiveMileageRate[] {
+  return tripUsages.map(usage =>
+    stored.find(rate => rate.usage === usage) ?? { usage, treatment: DEFAULT_TREATMENTS[usage], ratePerKm: 0 }
+  );
+}
+
+// Trips belong to the month they started in, in UTC so a statement does not depend on the server's zone
+export function tripMonth(startTime: Date | string): string {
+  return new Date(startTime).toISOString().slice(0, 7);
+}
+
+export function currentMonth(): string {
+  return tripMonth(new Date());
+}
+
+// Thrown when a change would touch a trip on an approved mileage statement
+export class MileageLockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MileageLockError";
+  }
+}
+
+export type MileageStatementLookup = (driverId: number, month: string) => Promise<MileageStatement | undefined>;
+
+// Trips on an approved mileage statement have been paid out, so they are locked, and no
+// trips may be added to or moved into that driver's approved month
+export async function checkMileageStatementLock(findStatement: MileageStatementLookup, existing: Trip | undefined, next?: { driverId: number; startTime: Date | string }): Promise<void> {
+  if (existing) {
+    const statement = await findStatement(existing.driverId, tripMonth(existing.startTime));
+    if (statement?.status === "approved" && statement.lines.some(line => line.tripId === existing.id)) {
+      throw new MileageLockError(`This trip is on the approved mileage statement for ${statement.month} and can no longer be changed`);
+    }
+  }
+
+  if (next && (!existing || next.driverId !== existing.driverId || tripMonth(next.startTime) !== tripMonth(existing.startTime))) {
+    const month = tripMonth(next.startTime);
+    const statement = await findStatement(next.driverId, month);
+    if (statement?.status === "approved") {
+      throw new MileageLockError(`The mileage statement for ${month} has already been approved, so no trips can be added to it`);
+    }
+  }
+}
+
+// Completed trips of the month priced at today's rates. Trips still on the road are left
+// out until they are finished and the statement is submitted again.
+export function buildMileageStatement(driverId: number, month: string, trips: Trip[], rates: EffectiveMileageRate[]): MileageStatementPreview {
+  const lines: MileageStatementLine[] = trips
+    .filter(trip => trip.status === "completed" && trip.endOdometer != null && tripMonth(trip.startTime) === month)
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+    .map(trip => {
+      const rate = rates.find(r => r.usage === trip.usage)!;
+      const km = round((trip.endOdometer! - trip.startOdometer) * KM_PER_MILE, 1);
+      return {
+        tripId: trip.id,
+        vehicleId: trip.vehicleId,
+        startTime: new Date(trip.startTime).toISOString(),
+        purpose: trip.purpose,
+        usage: trip.usage,
+        km,
+        treatment: rate.treatment,
+        ratePerKm: rate.ratePerKm,
+        amount: round(km * rate.ratePerKm, 2)
+      };
+    });
+
+  const total = (treatment: MileageRateTreatment) =>
+    round(lines.filter(line => line.treatment === treatment).reduce((sum, line) => sum + line.amount, 0), 2);
+
+  return {
+    driverId,
+    month,
+    lines,
+    totalKm: round(lines.reduce((sum, line) => sum + line.km, 0), 1),
+    reimbursementTotal: total("reimbursement"),
+    benefitTotal: total("benefit_in_kind")
+  };
+}
+
+function lineKey(line: MileageStatementLine): string {
+  return [line.tripId, line.vehicleId, line.startTime, line.usage, line.km].join("|");
+}
+
+// A submitted statement is a snapshot of the driver's trips. Trips may still change until it
+// is decided, so approval is refused when a trip of the month is still on the road or the
+// trips no longer add up to the submitted lines. Rates are left out: they are fixed at submit.
+export function mileageStatementDrift(statement: MileageStatement, trips: Trip[]): string | undefined {
+  const open = trips.filter(trip => trip.status === "in_progress" && tripMonth(trip.startTime) === statement.month);
+  if (open.length > 0) {
+    const count = open.length === 1 ? "1 trip is" : `${open.length} trips are`;
+    return `${count} still in progress in ${statement.month}; the driver must finish and submit again`;
+  }
+
+  const current = buildMileageStatement(statement.driverId, statement.month, trips, effectiveMileageRates([]));
+  const submitted = statement.lines.map(lineKey).sort();
+  const now = current.lines.map(lineKey).sort();
+  if (submitted.length !== now.length || submitted.some((key, i) => key !== now[i])) {
+    return `The driver's trips for ${statement.month} have changed since the statement was submitted; the driver must submit it again`;
+  }
+  return undefined;
+}
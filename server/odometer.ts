@@ -0,0 +1,105 @@
+import { OdometerReading } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A vehicle cannot sustain more than this on average between two readings
+const MAX_PLAUSIBLE_MPH = 80;
+
+// Slack for readings taken close together, e.g. at the start and end of a short trip
+const MIN_JUMP_ALLOWANCE_MILES = 100;
+
+// Thrown when a reading does not fit the vehicle's ledger
+export class OdometerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OdometerError";
+  }
+}
+
+// A reading on its way into the ledger; storage fills in status and review fields
+export type OdometerReadingInput = Pick<OdometerReading, "vehicleId" | "reading" | "recordedAt" | "source"> &
+  Partial<Pick<OdometerReading, "tripId" | "maintenanceId" | "fuelLogId" | "recordedById" | "note">>;
+
+export type OdometerVerdict =
+  | { status: "valid" }
+  | { status: "flagged"; reason: string }
+  | { status: "rejected"; reason: string };
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Judge a new reading against the vehicle's ledger. Readings must never go below an earlier one
+// or above a later one; a jump faster than any vehicle could drive is accepted but flagged.
+export function assessOdometerReading(history: OdometerReading[], reading: number, recordedAt: Date): OdometerVerdict {
+  const counted = history.filter(entry => entry.status !== "voided");
+
+  let previous: OdometerReading | undefined;
+  let next: OdometerReading | undefined;
+  for (const entry of counted) {
+    if (entry.recordedAt <= recordedAt) {
+      if (!previous || entry.recordedAt > previous.recordedAt || (entry.recordedAt.getTime() === previous.recordedAt.getTime() && entry.reading > previous.reading)) {
+        previous = entry;
+      }
+    } else if (!next || entry.recordedAt < next.recordedAt) {
+      next = entry;
+    }
+  }
+
+  if (previous && reading < previous.reading) {
+    return {
+      status: "rejected",
+      reason: `Odometer reading ${reading} is lower than the ${previous.reading} recorded on ${formatDate(previous.recordedAt)}`
+    };
+  }
+
+  if (next && reading > next.reading) {
+    return {
+      status: "rejected",
+      reason: `Odometer reading ${reading} is higher than the ${next.reading} recorded later on ${formatDate(next.recordedAt)}`
+    };
+  }
+
+  if (previous) {
+    const miles = reading - previous.reading;
+    const hours = (recordedAt.getTime() - previous.recordedAt.getTime()) / HOUR_MS;
+    const allowance = Math.round(MIN_JUMP_ALLOWANCE_MILES + hours * MAX_PLAUSIBLE_MPH);
+    if (miles > allowance) {
+      return {
+        status: "flagged",
+        reason: `Jump of ${miles} miles since ${formatDate(previous.recordedAt)} is more than the ${allowance} miles that are plausible`
+      };
+    }
+  }
+
+  return { status: "valid" };
+}
+
+// A trip start, trip end, maintenance record or fuel fill has a single current reading;
+// recording it again (e.g. after an edit) replaces the earlier one
+export function supersededReadings(history: OdometerReading[], input: OdometerReadingInput): OdometerReading[] {
+  return history.filter(entry =>
+    entry.status !== "voided" &&
+    entry.source === input.source &&
+    ((input.tripId != null && entry.tripId === input.tripId) ||
+      (input.maintenanceId != null && entry.maintenanceId === input.maintenanceId) ||
+      (input.fuelLogId != null && entry.fuelLogId === input.fuelLogId))
+  );
+}
+
+// Any reading that still counts can be voided, but only a flagged one is waiting to be accepted
+export function checkOdometerReview(reading: OdometerReading, decision: "accept" | "void"): void {
+  if (reading.status === "voided") {
+    throw new OdometerError("Odometer reading is already voided");
+  }
+  if (decision === "accept" && reading.status !== "flagged") {
+    throw new OdometerError("Only flagged odometer readings can be accepted");
+  }
+}
+
+// The vehicle's mileage follows the highest reading that still counts
+export function ledgerMileage(history: OdometerReading[]): number | undefined {
+  return history
+    .filter(entry => entry.status !== "voided")
+    .reduce<number | undefined>((highest, entry) => highest === undefined || entry.reading > highest ? entry.reading : highest, undefined);
+}
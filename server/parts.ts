@@ -0,0 +1,52 @@
+import { Maintenance, Part, PartMovement } from "@shared/schema";
+
+export class StockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StockError";
+  }
+}
+
+// Parts a maintenance record takes out of stock. Nothing is booked out until the work is completed.
+export function requiredPartQuantities(record: Pick<Maintenance, "status" | "lines"> | undefined): Map<number, number> {
+  const required = new Map<number, number>();
+  if (!record || record.status !== "completed") return required;
+
+  for (const line of record.lines) {
+    if (line.partId != null && line.quantity > 0) {
+      required.set(line.partId, (required.get(line.partId) ?? 0) + line.quantity);
+    }
+  }
+  return required;
+}
+
+// The movements that bring what a record has already booked out in line with what it needs now:
+// more consumption when parts were added, returns when they were removed or the record deleted
+export function partConsumptionChanges(required: Map<number, number>, posted: PartMovement[]): { partId: number; quantity: number }[] {
+  const bookedOut = new Map<number, number>();
+  for (const movement of posted) {
+    bookedOut.set(movement.partId, (bookedOut.get(movement.partId) ?? 0) - movement.quantity);
+  }
+
+  const partIds = new Set([...Array.from(required.keys()), ...Array.from(bookedOut.keys())]);
+  return Array.from(partIds)
+    .map(partId => ({ partId, quantity: (bookedOut.get(partId) ?? 0) - (required.get(partId) ?? 0) }))
+    .filter(change => change.quantity !== 0);
+}
+
+// Applies one movement to a part. Stock cannot go below zero, and receipts move the unit cost
+// to the weighted average of what is on the shelf and what came in.
+export function applyPartMovement(part: Part, quantity: number, unitCost?: number | null): Pick<Part, "quantityOnHand" | "unitCost"> {
+  const quantityOnHand = part.quantityOnHand + quantity;
+  if (quantityOnHand < 0) {
+    throw new StockError(`Not enough ${part.name} (${part.partNumber}) in stock: ${part.quantityOnHand} on hand, ${-quantity} needed`);
+  }
+
+  if (quantity > 0 && unitCost != null && quantityOnHand > 0) {
+    const stockValue = Math.max(part.quantityOnHand, 0) * part.unitCost + quantity * unitCost;
+    return { quantityOnHand, unitCost: Math.round(stockValue / quantityOnHand * 100) / 100 };
+  }
+  return { quantityOnHand, unitCost: part.unitCost };
+}
+
+export const isLowStock = (part: Part) => part.active && part.quantityOnHand <= part.reorderPoint;
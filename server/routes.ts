@@ -1,10 +1,45 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, BookingConflictError, type BookingSeriesChanges, type BookingPolicyOverrideRecord } from "./storage";
+import { findPolicyViolations } from "./booking-policies";
 import { setupAuth } from "./auth";
-import { insertVehicleSchema, insertMaintenanceSchema, insertTripSchema, insertBookingSchema, insertUserSchema } from "@shared/schema";
+import { buildCalendar, bookingEvent, maintenanceEvent } from "./ical";
+import { parseTrack, summarizeTrack, checkOdometerDistance } from "./gps-track";
+import { summarizeFuelEfficiency } from "./fuel-efficiency";
+import { InspectionError } from "./inspections";
+import { OdometerError } from "./odometer";
+import { buildDrivingRecord } from "./incidents";
+import { buildMaintenanceCostReport, buildVehicleCostHistory } from "./vehicle-costs";
+import { buildMaintenanceDueList, plannedMaintenanceRecord } from "./maintenance-plans";
+import { buildVendorPerformance } from "./vendors";
+import { StockError, isLowStock } from "./parts";
+import { buildFleetDowntime, buildVehicleDowntime, fleetStatusSeries } from "./vehicle-downtime";
+import { buildDriverChargesReport, findVehicleByRegistration, matchTrafficCharge, readTrafficChargesCsv } from "./traffic-charges";
+import { MileageLockError, buildMileageStatement, currentMonth, effectiveMileageRates, mileageStatementDrift } from "./mileage";
+import { mileageStatementCsv, mileageStatementPdf, StatementNames } from "./statement-export";
+import { randomBytes } from "crypto";
+import { insertVehicleSchema, insertMaintenanceSchema, insertMaintenancePlanSchema, MaintenancePlan, MaintenanceDue, insertVendorSchema, insertPartSchema, partMovementInputSchema, InsertMaintenance, insertTripSchema, tripSearchSchema, insertBookingSchema, insertUserSchema, bookingDecisionSchema, bulkBookingDecisionSchema, BookingDecisionInput, insertBookingSeriesSchema, seriesScopeSchema, startTripFromBookingSchema, policyOverrideSchema, insertBookingPolicySchema, insertBookingBlackoutSchema, insertWaitlistEntrySchema, tripRouteUploadSchema, insertOdometerReadingSchema, odometerReviewSchema, insertFuelLogSchema, InsertFuelLog, insertInspectionTemplateSchema, insertInspectionSchema, insertMileageRateSchema, submitMileageStatementSchema, mileageStatementDecisionSchema, MileageStatement, Booking, SeriesScope, TripStop, TripPassenger, insertIncidentSchema, incidentInvestigationSchema, InsertIncident, Incident, insertTrafficChargeSchema, importTrafficChargesSchema, trafficChargeResolutionSchema, InsertTrafficCharge, TrafficCharge, TrafficChargeImportResult, TrafficChargeMatch, Vehicle } from "@shared/schema";
+import { expandRecurrence } from "@shared/recurrence";
+import { checkTripStops } from "@shared/trip-stops";
 import { z } from "zod";
 
+// Longest window the calendar may request at once
+const MAX_SCHEDULE_WINDOW_MS = 62 * 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Period the downtime report covers when no dates are given
+const DEFAULT_DOWNTIME_DAYS = 30;
+
+// How often pending records are opened for maintenance coming due
+const MAINTENANCE_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+// Snapshots on the dashboard's fleet status chart: one a day for the week, one a week for the month
+const FLEET_STATUS_PERIODS = {
+  week: { points: 7, stepMs: DAY_MS },
+  month: { points: 4, stepMs: 7 * DAY_MS },
+};
+
 // Middleware for role-based access control
 function checkRole(roles: string[]) {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -31,6 +66,288 @@ function isOwnerOrAdmin(req: Request, resourceUserId: number): boolean {
   return req.user!.role === "admin" || req.user!.id === resourceUserId;
 }
 
+// Admins and moderators approve or decline bookings
+function isApprover(req: Request): boolean {
+  return req.user!.role === "admin" || req.user!.role === "moderator";
+}
+
+// How far back drivers may date their own trips. Admins and moderators are not limited,
+// so they can still record trips after the fact.
+const TRIP_BACKDATE_LIMIT_HOURS = process.env.TRIP_BACKDATE_LIMIT_HOURS ? Number(process.env.TRIP_BACKDATE_LIMIT_HOURS) : 24;
+
+// Small allowance for clocks that run a little ahead of the server
+const TRIP_CLOCK_SKEW_MINUTES = 15;
+
+// Drivers record trips as they happen, so their times may not go further back than the
+// backdating limit or lie in the future
+function checkDriverTripTimes(times: (string | Date | null | undefined)[]): string | null {
+  const earliest = Date.now() - TRIP_BACKDATE_LIMIT_HOURS * 60 * 60 * 1000;
+  const latest = Date.now() + TRIP_CLOCK_SKEW_MINUTES * 60 * 1000;
+  
+  for (const time of times) {
+    if (time == null) continue;
+    const value = new Date(time).getTime();
+    if (value < earliest) {
+      return `Trips can only be dated up to ${TRIP_BACKDATE_LIMIT_HOURS} hours back`;
+    }
+    if (value > latest) {
+      return "Trip times cannot be in the future";
+    }
+  }
+  
+  return null;
+}
+
+// A fuel log may only point at a trip made with the same vehicle
+async function checkFuelLogTrip(log: Pick<InsertFuelLog, "vehicleId" | "tripId">): Promise<string | null> {
+  if (log.tripId == null) return null;
+  const trip = await storage.getTrip(log.tripId);
+  if (!trip) return "Linked trip not found";
+  if (trip.vehicleId !== log.vehicleId) return "The linked trip was made with a different vehicle";
+  return null;
+}
+
+// An incident on a trip has to be on that trip's vehicle
+async function checkIncidentTrip(incident: Pick<InsertIncident, "vehicleId" | "tripId">): Promise<string | null> {
+  if (incident.tripId == null) return null;
+  const trip = await storage.getTrip(incident.tripId);
+  if (!trip) return "Linked trip not found";
+  if (trip.vehicleId !== incident.vehicleId) return "The linked trip was made with a different vehicle";
+  return null;
+}
+
+// The vendor on a maintenance record has to exist, and rework has to redo an earlier
+// completed job on the same vehicle
+async function checkMaintenanceLinks(record: Pick<InsertMaintenance, "vehicleId" | "vendorId" | "reworkOfId"> & { id?: number }): Promise<string | null> {
+  if (record.vendorId != null && !await storage.getVendor(record.vendorId)) return "Vendor not found";
+  if (record.reworkOfId == null) return null;
+  if (record.reworkOfId === record.id) return "A job cannot be rework of itself";
+  const original = await storage.getMaintenance(record.reworkOfId);
+  if (!original) return "Reworked job not found";
+  if (original.vehicleId !== record.vehicleId) return "The reworked job was on a different vehicle";
+  if (original.status !== "completed") return "Only completed jobs can be reworked";
+  return null;
+}
+
+// Drivers report what happened; settled costs and insurance claims are handled by moderators
+function setsIncidentSettlement(data: Partial<InsertIncident>): boolean {
+  return data.actualCost != null || (data.claimStatus !== undefined && data.claimStatus !== "not_claimed") || !!data.claimReference;
+}
+
+// The driver and whoever reported an incident can follow it
+function isInvolvedInIncident(req: Request, incident: Incident): boolean {
+  return incident.driverId === req.user!.id || incident.reportedById === req.user!.id;
+}
+
+// Matches a charge against the trips and bookings of the vehicle carrying its plate.
+// The vehicle list can be passed in when matching many charges at once.
+async function findTrafficChargeMatch(registration: string, occurredAt: Date, vehicles?: Vehicle[]): Promise<TrafficChargeMatch> {
+  const vehicle = findVehicleByRegistration(vehicles ?? await storage.listVehicles(), registration);
+  const [trips, bookings] = vehicle
+    ? await Promise.all([storage.listTripsForVehicle(vehicle.id), storage.listBookingsForVehicle(vehicle.id)])
+    : [[], []];
+  return matchTrafficCharge(registration, occurredAt, vehicle, trips, bookings);
+}
+
+// Tells the driver a fine or toll has been put down to them
+async function notifyTrafficChargeDriver(charge: TrafficCharge) {
+  if (charge.status !== "matched" || charge.driverId == null) return;
+  await storage.createNotification({
+    userId: charge.driverId,
+    message: `A ${charge.kind} of ${charge.amount.toFixed(2)} for ${charge.registrationNumber} on ${charge.occurredAt.toISOString().slice(0, 10)} was assigned to you`,
+    link: "/traffic-charges"
+  });
+}
+
+// Works out where every vehicle stands on its maintenance plans
+async function listMaintenanceDue(now: Date = new Date()): Promise<{ plans: MaintenancePlan[]; dueList: MaintenanceDue[] }> {
+  const [plans, vehicles, records, readings] = await Promise.all([
+    storage.listMaintenancePlans(),
+    storage.listVehicles(),
+    storage.listPlannedMaintenance(),
+    storage.listAllOdometerReadings()
+  ]);
+  return { plans, dueList: buildMaintenanceDueList(plans, vehicles, records, readings, now) };
+}
+
+// Opens pending records for services coming up within the lookahead window. It runs on a
+// timer (see MAINTENANCE_SYNC_INTERVAL_MS) and whenever an admin asks for it.
+async function syncMaintenancePlans(): Promise<MaintenanceDue[]> {
+  const now = new Date();
+  const { plans, dueList } = await listMaintenanceDue(now);
+
+  for (const due of dueList) {
+    if (due.status === "ok" || due.pendingMaintenanceId !== null) continue;
+    const plan = plans.find(p => p.id === due.planId)!;
+    const record = await storage.createPlannedMaintenance({ ...plannedMaintenanceRecord(due, plan, now), planId: plan.id });
+    if (record) due.pendingMaintenanceId = record.id;
+  }
+  return dueList;
+}
+
+// Runs in the background, so a failure is only logged and retried on the next tick
+async function runScheduledMaintenanceSync(): Promise<void> {
+  try {
+    await syncMaintenancePlans();
+  } catch (err) {
+    console.error("[routes] Error scheduling maintenance:", err);
+  }
+}
+
+// Stops must be reached in order within the trip, and passengers who are users must exist and
+// cannot be the driver
+async function checkTripManifest(next: { driverId: number; startTime: Date | string; endTime?: Date | string | null; stops?: TripStop[]; passengers?: TripPassenger[] }): Promise<string | null> {
+  const stopProblem = checkTripStops(next.stops ?? [], next.startTime, next.endTime);
+  if (stopProblem) return stopProblem;
+
+  for (const passenger of next.passengers ?? []) {
+    if (passenger.userId == null) continue;
+    if (passenger.userId === next.driverId) {
+      return "The driver cannot also be listed as a passenger";
+    }
+    if (!await storage.getUser(passenger.userId)) {
+      return `Passenger user ${passenger.userId} does not exist`;
+    }
+  }
+  return null;
+}
+
+// Names printed on an exported mileage statement
+async function mileageStatementNames(statement: MileageStatement): Promise<StatementNames> {
+  const [driver, decidedBy, vehicles] = await Promise.all([
+    storage.getUser(statement.driverId),
+    statement.decidedById ? storage.getUser(statement.decidedById) : undefined,
+    storage.listVehicles(),
+  ]);
+  
+  return {
+    driver: driver?.name ?? `Driver #${statement.driverId}`,
+    decidedBy: decidedBy?.name ?? null,
+    vehicle: (vehicleId) => {
+      const vehicle = vehicles.find(v => v.id === vehicleId);
+      return vehicle ? `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})` : `Vehicle #${vehicleId}`;
+    },
+  };
+}
+
+// Approve or decline a single booking on behalf of the current user.
+// Moderators may not decide on their own bookings; admins may.
+async function applyBookingDecision(req: Request, bookingId: number, input: BookingDecisionInput) {
+  const booking = await storage.getBooking(bookingId);
+  if (!booking) {
+    return { status: 404, message: "Booking not found" };
+  }
+  
+  if (booking.userId === req.user!.id && req.user!.role !== "admin") {
+    return { status: 403, message: "You cannot approve or decline your own booking" };
+  }
+  
+  if (booking.status !== "pending") {
+    return { status: 409, message: `Only pending bookings can be approved or declined (status: ${booking.status})` };
+  }
+  
+  try {
+    const decided = await storage.decideBooking(bookingId, {
+      status: input.decision,
+      decidedById: req.user!.id,
+      reason: input.reason,
+    });
+    
+    if (!decided) {
+      return { status: 404, message: "Booking not found" };
+    }
+    
+    return { status: 200, booking: decided };
+  } catch (err) {
+    if (err instanceof Error && (err.message.includes("Only pending bookings") || err.message.includes("No free"))) {
+      return { status: 409, message: err.message };
+    }
+    throw err;
+  }
+}
+
+// Booking policy rules the given windows would break for this vehicle and user.
+// Category bookings have no vehicle yet, so only fleet-wide rules apply to them.
+// Bookings being moved are already among the user's active ones, so they are not counted twice.
+async function findBookingPolicyViolations(vehicleId: number | null, userId: number, windows: { startTime: Date; endTime: Date }[], moving: Booking[] = []) {
+  const now = new Date();
+  const [globalPolicy, vehiclePolicy, blackouts, activeBookingCount] = await Promise.all([
+    storage.getBookingPolicy(null),
+    vehicleId === null ? undefined : storage.getBookingPolicy(vehicleId),
+    storage.listBookingBlackouts(vehicleId ?? undefined),
+    storage.countActiveBookingsForUser(userId),
+  ]);
+
+  return findPolicyViolations({
+    windows,
+    globalPolicy,
+    vehiclePolicy,
+    blackouts: vehicleId === null ? blackouts.filter(blackout => blackout.vehicleId === null) : blackouts,
+    activeBookingCount: activeBookingCount - moving.filter(booking =>
+      (booking.status === 'pending' || booking.status === 'approved') && new Date(booking.endTime) > now
+    ).length,
+    now,
+  });
+}
+
+// Check new booking windows against the booking policies. Admins and moderators
+// may book anyway by overriding every broken rule with a reason.
+async function enforceBookingPolicies(req: Request, vehicleId: number | null, userId: number, windows: { startTime: Date; endTime: Date }[], moving: Booking[] = []) {
+  const violations = await findBookingPolicyViolations(vehicleId, userId, windows, moving);
+
+  if (req.body.policyOverride === undefined) {
+    if (violations.length > 0) {
+      return { status: 422, body: { message: `Booking violates ${violations.length} policy rule(s)`, violations } };
+    }
+    return { status: 200 };
+  }
+
+  if (!isApprover(req)) {
+    return { status: 403, body: { message: "Only admins and moderators can override booking policies" } };
+  }
+
+  const override = policyOverrideSchema.parse(req.body.policyOverride);
+  const uncovered = violations.filter(violation => !override.rules.includes(violation.rule));
+  if (uncovered.length > 0) {
+    return { status: 422, body: { message: `Booking violates ${uncovered.length} policy rule(s) that were not overridden`, violations: uncovered } };
+  }
+
+  // Only record rules that were actually broken
+  const overriddenRules = override.rules.filter(rule => violations.some(violation => violation.rule === rule));
+  if (overriddenRules.length === 0) {
+    return { status: 200 };
+  }
+
+  return {
+    status: 200,
+    policyOverride: {
+      policyOverrideRules: overriddenRules,
+      policyOverrideReason: override.reason,
+      policyOverrideById: req.user!.id,
+    }
+  };
+}
+
+// The bookings an edit moves, and where it moves them. With a series scope every occurrence
+// covered shifts by the same amount as the one being edited.
+async function movedBookingWindows(booking: Booking, scope: SeriesScope, startTime?: Date | string, endTime?: Date | string) {
+  const moving = scope !== 'single' && booking.seriesId
+    ? (await storage.listBookingsForUser(booking.userId)).filter(other =>
+        other.seriesId === booking.seriesId &&
+        (other.status === 'pending' || other.status === 'approved') &&
+        (scope === 'all' || new Date(other.startTime) >= new Date(booking.startTime))
+      )
+    : [booking];
+  
+  const startShiftMs = startTime ? new Date(startTime).getTime() - new Date(booking.startTime).getTime() : 0;
+  const endShiftMs = endTime ? new Date(endTime).getTime() - new Date(booking.endTime).getTime() : 0;
+  const windows = moving.map(other => ({
+    startTime: new Date(new Date(other.startTime).getTime() + startShiftMs),
+    endTime: new Date(new Date(other.endTime).getTime() + endShiftMs),
+  }));
+  return { moving, windows };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
@@ -49,6 +366,116 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(vehicles);
   });
 
+  // Vehicles free for a whole time window, plus what blocks the others.
+  // Registered before /api/vehicles/:id so "available" is not parsed as an id.
+  app.get("/api/vehicles/available", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const startTime = new Date(req.query.start as string);
+    const endTime = new Date(req.query.end as string);
+    const excludeBookingId = req.query.excludeBookingId ? parseInt(req.query.excludeBookingId as string) : undefined;
+
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime())) {
+      return res.status(400).json({ message: "Query parameters start and end must be valid dates" });
+    }
+
+    if (endTime <= startTime) {
+      return res.status(400).json({ message: "End time must be after start time" });
+    }
+
+    try {
+      const availability = await storage.listVehicleAvailability(startTime, endTime, excludeBookingId);
+      res.json({
+        available: availability.filter(a => a.available).map(a => a.vehicle),
+        unavailable: availability
+          .filter(a => !a.available)
+          .map(({ vehicle, blockedBy }) => ({ vehicle, blockedBy })),
+      });
+    } catch (err) {
+      console.error("[routes] Error checking vehicle availability:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  // Bookings, trips and maintenance for the calendar view
+  app.get("/api/schedule", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const startTime = new Date(req.query.start as string);
+    const endTime = new Date(req.query.end as string);
+
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime())) {
+      return res.status(400).json({ message: "Query parameters start and end must be valid dates" });
+    }
+
+    if (endTime <= startTime) {
+      return res.status(400).json({ message: "End time must be after start time" });
+    }
+
+    if (endTime.getTime() - startTime.getTime() > MAX_SCHEDULE_WINDOW_MS) {
+      return res.status(400).json({ message: "The schedule can cover at most 62 days" });
+    }
+
+    try {
+      const schedule = await storage.listVehicleSchedule(startTime, endTime);
+      res.json(schedule);
+    } catch (err) {
+      console.error("[routes] Error fetching schedule:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  // Downtime, availability and MTBF per vehicle and for the fleet, from the status history.
+  // Registered before /api/vehicles/:id so "downtime" is not parsed as an id.
+  app.get("/api/vehicles/downtime", adminModOnly, async (req: Request, res: Response) => {
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - DEFAULT_DOWNTIME_DAYS * DAY_MS);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return res.status(400).json({ message: "Query parameters from and to must be valid dates" });
+    }
+
+    if (to <= from) {
+      return res.status(400).json({ message: "The end of the period must be after its start" });
+    }
+
+    try {
+      const [vehicles, changes] = await Promise.all([
+        storage.listVehicles(),
+        storage.listVehicleStatusChanges(),
+      ]);
+      
+      // Going down for scheduled maintenance is planned, not a failure
+      const maintenanceIds = Array.from(new Set(changes.flatMap(change => change.maintenanceId != null ? [change.maintenanceId] : [])));
+      const records = await Promise.all(maintenanceIds.map(id => storage.getMaintenance(id)));
+      const scheduledMaintenanceIds = new Set(records.flatMap(record => record?.type === 'scheduled' ? [record.id] : []));
+      
+      const rows = vehicles.map(vehicle => buildVehicleDowntime(vehicle, changes, from, to, scheduledMaintenanceIds));
+      res.json({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        vehicles: rows,
+        fleet: buildFleetDowntime(rows),
+      });
+    } catch (err) {
+      console.error("[routes] Error building downtime report:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
   app.get("/api/vehicles/:id", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
@@ -74,6 +501,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid vehicle data", errors: err.errors });
       }
+      if (err instanceof OdometerError) {
+        return res.status(422).json({ message: err.message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -84,7 +514,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     try {
       const vehicleData = insertVehicleSchema.partial().parse(req.body);
-      const updatedVehicle = await storage.updateVehicle(id, vehicleData);
+      const updatedVehicle = await storage.updateVehicle(id, vehicleData, req.user!.id);
       
       if (!updatedVehicle) {
         return res.status(404).json({ message: "Vehicle not found" });
@@ -95,6 +525,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid vehicle data", errors: err.errors });
       }
+      if (err instanceof OdometerError) {
+        return res.status(422).json({ message: err.message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -126,6 +559,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      const incidents = await storage.listIncidents({ vehicleId: id });
+      if (incidents.length > 0) {
+        return res.status(400).json({ 
+          message: "Cannot delete vehicle with incident records. Remove incident records first." 
+        });
+      }
+      
+      const fuelLogs = await storage.listFuelLogs({ vehicleId: id });
+      if (fuelLogs.length > 0) {
+        return res.status(400).json({ 
+          message: "Cannot delete vehicle with fuel logs. Remove fuel logs first." 
+        });
+      }
+      
       const success = await storage.deleteVehicle(id);
       
       if (!success) {
@@ -142,6 +589,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Odometer ledger: every reading from trips, maintenance and manual entry, newest first
+  app.get("/api/vehicles/:id/odometer-readings", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const id = parseInt(req.params.id);
+    const vehicle = await storage.getVehicle(id);
+    if (!vehicle) {
+      return res.status(404).json({ message: "Vehicle not found" });
+    }
+    
+    const readings = await storage.listOdometerReadings(id);
+    res.json(readings);
+  });
+
+  // Admin and moderator can record a reading by hand, e.g. after a dashboard photo
+  app.post("/api/vehicles/:id/odometer-readings", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    
+    try {
+      const readingData = insertOdometerReadingSchema.parse(req.body);
+      const vehicle = await storage.getVehicle(id);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      
+      const reading = await storage.recordOdometerReading({
+        vehicleId: id,
+        reading: readingData.reading,
+        recordedAt: readingData.recordedAt ? new Date(readingData.recordedAt) : new Date(),
+        source: 'manual',
+        recordedById: req.user!.id,
+        note: readingData.note ?? null
+      });
+      
+      res.status(201).json(reading);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid odometer reading", errors: err.errors });
+      }
+      if (err instanceof OdometerError) {
+        return res.status(422).json({ message: err.message });
+      }
+      console.error("Error recording odometer reading:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Every status change of a vehicle and what caused it, oldest first
+  app.get("/api/vehicles/:id/status-history", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const vehicle = await storage.getVehicle(id);
+    if (!vehicle) {
+      return res.status(404).json({ message: "Vehicle not found" });
+    }
+    
+    const changes = await storage.listVehicleStatusChanges(id);
+    res.json(changes);
+  });
+
+  // Maintenance, fuel and incident costs of a vehicle in one list
+  app.get("/api/vehicles/:id/costs", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const vehicle = await storage.getVehicle(id);
+    if (!vehicle) {
+      return res.status(404).json({ message: "Vehicle not found" });
+    }
+    
+    const [maintenance, fuelLogs, incidents] = await Promise.all([
+      storage.listMaintenanceForVehicle(id),
+      storage.listFuelLogs({ vehicleId: id }),
+      storage.listIncidents({ vehicleId: id }),
+    ]);
+    res.json(buildVehicleCostHistory(maintenance, fuelLogs, incidents));
+  });
+
+  // Readings that jumped implausibly and are waiting for an admin
+  app.get("/api/odometer-readings/flagged", adminOnly, async (req: Request, res: Response) => {
+    const readings = await storage.listFlaggedOdometerReadings();
+    res.json(readings);
+  });
+
+  // Admin accepts a flagged reading or voids any reading, which takes it out of the vehicle's mileage
+  app.post("/api/odometer-readings/:id/review", adminOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    
+    try {
+      const { decision } = odometerReviewSchema.parse(req.body);
+      const reading = await storage.reviewOdometerReading(id, decision, req.user!.id);
+      
+      if (!reading) {
+        return res.status(404).json({ message: "Odometer reading not found" });
+      }
+      
+      res.json(reading);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review", errors: err.errors });
+      }
+      if (err instanceof OdometerError) {
+        return res.status(409).json({ message: err.message });
+      }
+      console.error("Error reviewing odometer reading:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
   // Maintenance routes
   app.get("/api/maintenance/vehicle/:vehicleId", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
@@ -162,16 +717,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(maintenance);
   });
 
+  // Completed maintenance spend per vehicle and month, with parts and labour split out
+  app.get("/api/maintenance/costs", adminModOnly, async (req: Request, res: Response) => {
+    const vehicleId = req.query.vehicleId ? parseInt(req.query.vehicleId as string) : undefined;
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    if (from && isNaN(from.getTime())) {
+      return res.status(400).json({ message: "Invalid from date" });
+    }
+    
+    const records = await storage.listCompletedMaintenance({ vehicleId, from });
+    res.json(buildMaintenanceCostReport(records));
+  });
+
+  // Preventive maintenance plans
+  app.get("/api/maintenance-plans", adminModOnly, async (req: Request, res: Response) => {
+    const plans = await storage.listMaintenancePlans();
+    res.json(plans);
+  });
+
+  // Where each vehicle stands on its plans; overdue first. Anyone signed in sees it on the dashboard.
+  app.get("/api/maintenance-plans/due", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const { dueList } = await listMaintenanceDue();
+      res.json(dueList);
+    } catch (err) {
+      console.error("[routes] Error working out maintenance due:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  // Opens pending records for everything coming due, including services due by date alone
+  app.post("/api/maintenance-plans/schedule", adminModOnly, async (req: Request, res: Response) => {
+    try {
+      res.json(await syncMaintenancePlans());
+    } catch (err) {
+      console.error("[routes] Error scheduling maintenance:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  app.post("/api/maintenance-plans", adminModOnly, async (req: Request, res: Response) => {
+    try {
+      const planData = insertMaintenancePlanSchema.parse(req.body);
+      if (planData.vehicleId != null && !await storage.getVehicle(planData.vehicleId)) {
+        return res.status(422).json({ message: "Vehicle not found" });
+      }
+      
+      const plan = await storage.createMaintenancePlan(planData);
+      res.status(201).json(plan);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid maintenance plan", errors: err.errors });
+      }
+      console.error("[routes] Error creating maintenance plan:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  app.put("/api/maintenance-plans/:id", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const existing = await storage.getMaintenancePlan(id);
+    if (!existing) {
+      return res.status(404).json({ message: "Maintenance plan not found" });
+    }
+    
+    try {
+      // The whole plan is checked again, since a change can leave it without a vehicle or interval
+      const planData = insertMaintenancePlanSchema.parse({ ...existing, ...req.body });
+      if (planData.vehicleId != null && !await storage.getVehicle(planData.vehicleId)) {
+        return res.status(422).json({ message: "Vehicle not found" });
+      }
+      
+      const plan = await storage.updateMaintenancePlan(id, planData);
+      res.json(plan);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid maintenance plan", errors: err.errors });
+      }
+      console.error("[routes] Error updating maintenance plan:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  // Only admin can delete plans; records already generated from them are kept
+  app.delete("/api/maintenance-plans/:id", adminOnly, async (req: Request, res: Response) => {
+    const success = await storage.deleteMaintenancePlan(parseInt(req.params.id));
+    if (!success) {
+      return res.status(404).json({ message: "Maintenance plan not found" });
+    }
+    
+    res.status(204).send();
+  });
+
   // Admin and moderator can create maintenance records
   app.post("/api/maintenance", adminModOnly, async (req: Request, res: Response) => {
     try {
       const maintenanceData = insertMaintenanceSchema.parse(req.body);
+      const linkProblem = await checkMaintenanceLinks(maintenanceData);
+      if (linkProblem) {
+        return res.status(422).json({ message: linkProblem });
+      }
+      
       const maintenance = await storage.createMaintenance(maintenanceData);
       res.status(201).json(maintenance);
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid maintenance data", errors: err.errors });
       }
+      if (err instanceof StockError || err instanceof OdometerError) {
+        return res.status(422).json({ message: err.message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -184,6 +855,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("Maintenance update request:", req.body);
       const maintenanceData = insertMaintenanceSchema.partial().parse(req.body);
       console.log("Parsed maintenance data:", maintenanceData);
+      const existing = await storage.getMaintenance(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Maintenance record not found" });
+      }
+      
+      const linkProblem = await checkMaintenanceLinks({ ...existing, ...maintenanceData });
+      if (linkProblem) {
+        return res.status(422).json({ message: linkProblem });
+      }
+      
       const updatedMaintenance = await storage.updateMaintenance(id, maintenanceData);
       
       if (!updatedMaintenance) {
@@ -197,23 +878,266 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid maintenance data", errors: err.errors });
       }
+      if (err instanceof StockError || err instanceof OdometerError) {
+        return res.status(422).json({ message: err.message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Only admin can delete maintenance records
+  // Only admin can delete maintenance records; parts booked out on them go back into stock
   app.delete("/api/maintenance/:id", adminOnly, async (req: Request, res: Response) => {
     const id = parseInt(req.params.id);
-    const success = await storage.deleteMaintenance(id);
+    try {
+      const success = await storage.deleteMaintenance(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Maintenance record not found" });
+      }
+      
+      res.status(204).send();
+    } catch (err) {
+      console.error("[routes] Error deleting maintenance:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  // Spare parts inventory
+  app.get("/api/parts", adminModOnly, async (req: Request, res: Response) => {
+    const parts = await storage.listParts();
+    res.json(parts);
+  });
+
+  // Active parts at or below their reorder point, emptiest first
+  app.get("/api/parts/low-stock", adminModOnly, async (req: Request, res: Response) => {
+    const parts = await storage.listParts();
+    res.json(parts
+      .filter(isLowStock)
+      .sort((a, b) => (a.quantityOnHand - a.reorderPoint) - (b.quantityOnHand - b.reorderPoint) || a.id - b.id));
+  });
+
+  app.get("/api/parts/:id", adminModOnly, async (req: Request, res: Response) => {
+    const part = await storage.getPart(parseInt(req.params.id));
+    if (!part) {
+      return res.status(404).json({ message: "Part not found" });
+    }
+    
+    res.json(part);
+  });
+
+  // Every stock movement of a part, newest first
+  app.get("/api/parts/:id/movements", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (!await storage.getPart(id)) {
+      return res.status(404).json({ message: "Part not found" });
+    }
+    
+    const movements = await storage.listPartMovements(id);
+    res.json(movements);
+  });
+
+  app.post("/api/parts", adminModOnly, async (req: Request, res: Response) => {
+    try {
+      const partData = insertPartSchema.parse(req.body);
+      const part = await storage.createPart(partData);
+      res.status(201).json(part);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid part", errors: err.errors });
+      }
+      if (err instanceof StockError) {
+        return res.status(409).json({ message: err.message });
+      }
+      console.error("[routes] Error creating part:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  // Catalogue details only; the quantity on hand changes through stock movements
+  app.put("/api/parts/:id", adminModOnly, async (req: Request, res: Response) => {
+    try {
+      const partData = insertPartSchema.partial().parse(req.body);
+      const part = await storage.updatePart(parseInt(req.params.id), partData);
+      if (!part) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+      
+      res.json(part);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid part", errors: err.errors });
+      }
+      if (err instanceof StockError) {
+        return res.status(409).json({ message: err.message });
+      }
+      console.error("[routes] Error updating part:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  // Only admin can delete parts, and only those whose stock never moved; the rest are made inactive
+  app.delete("/api/parts/:id", adminOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const movements = await storage.listPartMovements(id);
+    if (movements.length > 0) {
+      return res.status(409).json({
+        message: "Cannot delete a part with stock movements. Mark it inactive instead."
+      });
+    }
+    
+    const success = await storage.deletePart(id);
+    if (!success) {
+      return res.status(404).json({ message: "Part not found" });
+    }
+    
+    res.status(204).send();
+  });
+
+  // Stock received or corrected after a count
+  app.post("/api/parts/:id/movements", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (!await storage.getPart(id)) {
+      return res.status(404).json({ message: "Part not found" });
+    }
+    
+    try {
+      const movementData = partMovementInputSchema.parse(req.body);
+      const movement = await storage.recordPartMovement(id, movementData, req.user!.id);
+      res.status(201).json(movement);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid stock movement", errors: err.errors });
+      }
+      if (err instanceof StockError) {
+        return res.status(422).json({ message: err.message });
+      }
+      console.error("[routes] Error recording stock movement:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  // Service vendors
+  app.get("/api/vendors", adminModOnly, async (req: Request, res: Response) => {
+    const vendors = await storage.listVendors();
+    res.json(vendors);
+  });
+
+  app.get("/api/vendors/:id", adminModOnly, async (req: Request, res: Response) => {
+    const vendor = await storage.getVendor(parseInt(req.params.id));
+    if (!vendor) {
+      return res.status(404).json({ message: "Vendor not found" });
+    }
+    
+    res.json(vendor);
+  });
+
+  // Spend, turnaround, rework rate and open work orders for one vendor
+  app.get("/api/vendors/:id/performance", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const vendor = await storage.getVendor(id);
+    if (!vendor) {
+      return res.status(404).json({ message: "Vendor not found" });
+    }
+    
+    const records = await storage.listMaintenanceForVendor(id);
+    const reworks = await storage.listReworkMaintenance(records.map(record => record.id));
+    res.json(buildVendorPerformance(id, records, reworks));
+  });
+
+  app.post("/api/vendors", adminModOnly, async (req: Request, res: Response) => {
+    try {
+      const vendorData = insertVendorSchema.parse(req.body);
+      const vendor = await storage.createVendor(vendorData);
+      res.status(201).json(vendor);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid vendor", errors: err.errors });
+      }
+      console.error("[routes] Error creating vendor:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  app.put("/api/vendors/:id", adminModOnly, async (req: Request, res: Response) => {
+    try {
+      const vendorData = insertVendorSchema.partial().parse(req.body);
+      const vendor = await storage.updateVendor(parseInt(req.params.id), vendorData);
+      if (!vendor) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      
+      res.json(vendor);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid vendor", errors: err.errors });
+      }
+      console.error("[routes] Error updating vendor:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  // Only admin can delete vendors, and only those never sent any work; the rest are made inactive
+  app.delete("/api/vendors/:id", adminOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const records = await storage.listMaintenanceForVendor(id);
+    if (records.length > 0) {
+      return res.status(409).json({
+        message: "Cannot delete a vendor with maintenance records. Mark it inactive instead."
+      });
+    }
     
+    const success = await storage.deleteVendor(id);
     if (!success) {
-      return res.status(404).json({ message: "Maintenance record not found" });
+      return res.status(404).json({ message: "Vendor not found" });
     }
     
     res.status(204).send();
   });
 
   // Trip routes
+  // Trip history with filters, sorting and paging. Drivers only search their own trips.
+  app.get("/api/trips", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const search = tripSearchSchema.parse(req.query);
+      if (!isApprover(req)) {
+        search.driverId = req.user!.id;
+      }
+      
+      res.json(await storage.searchTrips(search));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid trip search", errors: err.errors });
+      }
+      console.error("[routes] Error searching trips:", err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
   app.get("/api/trips/vehicle/:vehicleId", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
@@ -249,13 +1173,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(trips);
   });
 
-  // Admin and moderator can create trips
-  app.post("/api/trips", adminModOnly, async (req: Request, res: Response) => {
+  // A single trip, e.g. for its trip sheet. Drivers see their own trips and the ones they rode in.
+  app.get("/api/trips/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const trip = await storage.getTrip(parseInt(req.params.id));
+    if (!trip) {
+      return res.status(404).json({ message: "Trip not found" });
+    }
+    
+    const isPassenger = trip.passengers.some(passenger => passenger.userId === req.user!.id);
+    if (trip.driverId !== req.user!.id && !isPassenger && !isApprover(req)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    res.json(trip);
+  });
+
+  // Admin and moderator can create any trip; drivers start their own trips on a vehicle assigned to them
+  app.post("/api/trips", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
     try {
       console.log("Creating trip with data:", req.body);
       const tripData = insertTripSchema.parse(req.body);
       console.log("Parsed trip data:", tripData);
-      const trip = await storage.createTrip(tripData);
+      
+      if (!isApprover(req)) {
+        if (tripData.driverId !== req.user!.id) {
+          return res.status(403).json({ message: "Drivers can only start their own trips" });
+        }
+        
+        // Booked vehicles are started from the booking so the two stay linked
+        const vehicle = await storage.getVehicle(tripData.vehicleId);
+        if (!vehicle || vehicle.assignedToId !== req.user!.id) {
+          return res.status(403).json({ message: "You can only start trips on a vehicle assigned to you" });
+        }
+        
+        if (vehicle.status !== 'available') {
+          return res.status(409).json({ message: `Vehicle not available (status: ${vehicle.status})` });
+        }
+        
+        if (tripData.status !== 'in_progress') {
+          return res.status(422).json({ message: "Drivers start trips when they set off" });
+        }
+        
+        const timeProblem = checkDriverTripTimes([tripData.startTime, tripData.endTime]);
+        if (timeProblem) {
+          return res.status(422).json({ message: timeProblem });
+        }
+      }
+      
+      const manifestProblem = await checkTripManifest(tripData);
+      if (manifestProblem) {
+        return res.status(422).json({ message: manifestProblem });
+      }
+      
+      const trip = await storage.createTrip(tripData, !isApprover(req));
       console.log("Created trip:", trip);
       res.status(201).json(trip);
     } catch (err) {
@@ -263,6 +1241,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid trip data", errors: err.errors });
       }
+      if (err instanceof MileageLockError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof InspectionError || err instanceof OdometerError) {
+        return res.status(422).json({ message: err.message });
+      }
       res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
     }
   });
@@ -293,8 +1277,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const tripData = insertTripSchema.partial().parse(req.body);
       console.log(`[routes] Validated trip data:`, JSON.stringify(tripData));
       
+      if (!isApprover(req)) {
+        if (trip.status === 'completed' || trip.status === 'cancelled') {
+          return res.status(403).json({ message: "Finished trips can only be changed by an admin or moderator" });
+        }
+        
+        if ((tripData.driverId !== undefined && tripData.driverId !== trip.driverId) ||
+            (tripData.vehicleId !== undefined && tripData.vehicleId !== trip.vehicleId)) {
+          return res.status(403).json({ message: "Drivers cannot move a trip to another driver or vehicle" });
+        }
+        
+        // Only times the driver actually changes are held to the backdating limit
+        const changedStart = tripData.startTime !== undefined && new Date(tripData.startTime).getTime() !== new Date(trip.startTime).getTime()
+          ? tripData.startTime
+          : undefined;
+        const timeProblem = checkDriverTripTimes([changedStart, tripData.endTime]);
+        if (timeProblem) {
+          return res.status(422).json({ message: timeProblem });
+        }
+      }
+      
+      const manifestProblem = await checkTripManifest({
+        driverId: tripData.driverId ?? trip.driverId,
+        startTime: tripData.startTime ?? trip.startTime,
+        endTime: tripData.endTime !== undefined ? tripData.endTime : trip.endTime,
+        stops: tripData.stops ?? trip.stops,
+        passengers: tripData.passengers ?? trip.passengers,
+      });
+      if (manifestProblem) {
+        return res.status(422).json({ message: manifestProblem });
+      }
+      
       // Process the trip update
-      const updatedTrip = await storage.updateTrip(id, tripData);
+      const updatedTrip = await storage.updateTrip(id, tripData, !isApprover(req));
       
       if (!updatedTrip) {
         console.error(`[routes] Trip ${id} not found after validation`);
@@ -310,6 +1325,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error(`[routes] Validation error:`, err.errors);
         return res.status(400).json({ message: "Invalid trip data", errors: err.errors });
       }
+      if (err instanceof MileageLockError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof InspectionError || err instanceof OdometerError) {
+        return res.status(422).json({ message: err.message });
+      }
       console.error(`[routes] Error updating trip:`, err);
       res.status(500).json({ 
         message: "Internal server error", 
@@ -318,168 +1339,1433 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Only admin can delete trips
-  app.delete("/api/trips/:id", adminOnly, async (req: Request, res: Response) => {
-    const id = parseInt(req.params.id);
-    const success = await storage.deleteTrip(id);
+  // GPS track of a trip, with its distance checked against the odometer readings
+  app.get("/api/trips/:id/route", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
     
-    if (!success) {
+    const id = parseInt(req.params.id);
+    const trip = await storage.getTrip(id);
+    if (!trip) {
       return res.status(404).json({ message: "Trip not found" });
     }
     
-    res.status(204).send();
+    const route = await storage.getTripRoute(id);
+    if (!route) {
+      return res.status(404).json({ message: "No route has been uploaded for this trip" });
+    }
+    
+    res.json({ ...route, odometerCheck: checkOdometerDistance(trip, route.distanceMiles) });
   });
 
-  // Booking routes
-  // Get all bookings - temporarily allow all authenticated users
-  app.get("/api/bookings", async (req: Request, res: Response) => {
+  // Admin, moderator, or the assigned driver can upload a GPX or GeoJSON track; uploading again replaces it
+  app.put("/api/trips/:id/route", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
-    // Temporarily removed role check for debugging
+    const id = parseInt(req.params.id);
+    const trip = await storage.getTrip(id);
+    if (!trip) {
+      return res.status(404).json({ message: "Trip not found" });
+    }
+    
+    if (req.user!.id !== trip.driverId && !isApprover(req)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
     try {
-      console.log("[routes] Fetching all bookings");
-      const bookings = await storage.listAllBookings();
-      console.log(`[routes] Found ${bookings.length} bookings`);
-      res.json(bookings);
-    } catch (err) {
-      console.error("[routes] Error fetching bookings:", err);
-      res.status(500).json({ 
-        message: "Internal server error", 
-        details: err instanceof Error ? err.message : String(err)
+      const upload = tripRouteUploadSchema.parse(req.body);
+      const points = parseTrack(upload.format, upload.content);
+      
+      const route = await storage.saveTripRoute({
+        tripId: id,
+        format: upload.format,
+        points,
+        ...summarizeTrack(points),
+        uploadedById: req.user!.id
       });
+      
+      console.log(`[routes] Route for trip ${id} saved: ${route.distanceMiles} miles from ${points.length} points`);
+      res.json({ ...route, odometerCheck: checkOdometerDistance(trip, route.distanceMiles) });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid route upload", errors: err.errors });
+      }
+      if (err instanceof Error && err.message.startsWith("Invalid track")) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error(`[routes] Error saving route for trip ${id}:`, err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
     }
   });
-  
-  app.get("/api/bookings/vehicle/:vehicleId", async (req: Request, res: Response) => {
+
+  app.delete("/api/trips/:id/route", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
-    const vehicleId = parseInt(req.params.vehicleId);
-    const bookings = await storage.listBookingsForVehicle(vehicleId);
-    res.json(bookings);
+    const id = parseInt(req.params.id);
+    const trip = await storage.getTrip(id);
+    if (!trip) {
+      return res.status(404).json({ message: "Trip not found" });
+    }
+    
+    if (req.user!.id !== trip.driverId && !isApprover(req)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const success = await storage.deleteTripRoute(id);
+    if (!success) {
+      return res.status(404).json({ message: "No route has been uploaded for this trip" });
+    }
+    
+    res.status(204).send();
   });
 
-  // Users can view their own bookings, admins can view all
-  app.get("/api/bookings/user/:userId", async (req: Request, res: Response) => {
+  // Only admin can delete trips
+  app.delete("/api/trips/:id", adminOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    
+    try {
+      const success = await storage.deleteTrip(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      
+      res.status(204).send();
+    } catch (err) {
+      if (err instanceof MileageLockError) {
+        return res.status(409).json({ message: err.message });
+      }
+      console.error(`[routes] Error deleting trip:`, err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Fuel log routes
+  // Admin and moderator see every fill-up; other users see the ones they made
+  app.get("/api/fuel-logs", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
-    const userId = parseInt(req.params.userId);
+    const vehicleId = req.query.vehicleId ? parseInt(req.query.vehicleId as string) : undefined;
+    const driverId = isApprover(req) ? undefined : req.user!.id;
     
-    // Check if user is trying to access their own bookings or is an admin
-    if (req.user!.id !== userId && req.user!.role !== 'admin' && req.user!.role !== 'moderator') {
-      return res.status(403).json({ message: "Forbidden" });
-    }
+    const logs = await storage.listFuelLogs({ vehicleId, driverId });
+    res.json(logs);
+  });
+
+  // Full-to-full efficiency per vehicle, with stretches of abnormal consumption marked
+  app.get("/api/fuel-logs/efficiency", adminModOnly, async (req: Request, res: Response) => {
+    const vehicleId = req.query.vehicleId ? parseInt(req.query.vehicleId as string) : undefined;
+    const logs = await storage.listFuelLogs({ vehicleId });
     
-    const bookings = await storage.listBookingsForUser(userId);
-    res.json(bookings);
+    const vehicleIds = Array.from(new Set(logs.map(log => log.vehicleId)));
+    res.json(vehicleIds.map(id => summarizeFuelEfficiency(id, logs)));
   });
 
-  // All authenticated users can create bookings
-  app.post("/api/bookings", async (req: Request, res: Response) => {
+  // Any signed-in user can log a fill-up; only admin and moderator can log one for someone else
+  app.post("/api/fuel-logs", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
-    console.log(`[routes] Creating booking with data:`, JSON.stringify(req.body));
+    try {
+      const logData = insertFuelLogSchema.parse(req.body);
+      if (!isApprover(req)) {
+        logData.driverId = req.user!.id;
+      }
+      
+      const tripProblem = await checkFuelLogTrip(logData);
+      if (tripProblem) {
+        return res.status(400).json({ message: tripProblem });
+      }
+      
+      const log = await storage.createFuelLog(logData);
+      res.status(201).json(log);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fuel log data", errors: err.errors });
+      }
+      if (err instanceof OdometerError) {
+        return res.status(422).json({ message: err.message });
+      }
+      console.error("Error creating fuel log:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Admin, moderator, or the driver who logged it can update a fill-up
+  app.put("/api/fuel-logs/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const id = parseInt(req.params.id);
+    const log = await storage.getFuelLog(id);
+    if (!log) {
+      return res.status(404).json({ message: "Fuel log not found" });
+    }
+    
+    if (req.user!.id !== log.driverId && !isApprover(req)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    try {
+      const logData = insertFuelLogSchema.partial().parse(req.body);
+      if (!isApprover(req)) {
+        delete logData.driverId;
+      }
+      
+      const tripProblem = await checkFuelLogTrip({
+        vehicleId: logData.vehicleId ?? log.vehicleId,
+        tripId: logData.tripId !== undefined ? logData.tripId : log.tripId
+      });
+      if (tripProblem) {
+        return res.status(400).json({ message: tripProblem });
+      }
+      
+      const updatedLog = await storage.updateFuelLog(id, logData);
+      if (!updatedLog) {
+        return res.status(404).json({ message: "Fuel log not found" });
+      }
+      
+      res.json(updatedLog);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fuel log data", errors: err.errors });
+      }
+      if (err instanceof OdometerError) {
+        return res.status(422).json({ message: err.message });
+      }
+      console.error("Error updating fuel log:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Only admin can delete fuel logs
+  app.delete("/api/fuel-logs/:id", adminOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const success = await storage.deleteFuelLog(id);
+    
+    if (!success) {
+      return res.status(404).json({ message: "Fuel log not found" });
+    }
+    
+    res.status(204).send();
+  });
+
+  // Inspection template routes
+  // Everyone needs the checklists to inspect a vehicle; only admins change them
+  app.get("/api/inspection-templates", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const templates = await storage.listInspectionTemplates();
+    res.json(templates);
+  });
+
+  app.post("/api/inspection-templates", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const templateData = insertInspectionTemplateSchema.parse(req.body);
+      const template = await storage.createInspectionTemplate(templateData);
+      res.status(201).json(template);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inspection template", errors: err.errors });
+      }
+      console.error("[routes] Error creating inspection template:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/inspection-templates/:id", adminOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    
+    try {
+      const templateData = insertInspectionTemplateSchema.partial().parse(req.body);
+      const template = await storage.updateInspectionTemplate(id, templateData);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Inspection template not found" });
+      }
+      
+      res.json(template);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inspection template", errors: err.errors });
+      }
+      console.error("[routes] Error updating inspection template:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Inspection routes
+  // Admins and moderators see every inspection, drivers only their own
+  app.get("/api/inspections", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const vehicleId = req.query.vehicleId ? parseInt(req.query.vehicleId as string) : undefined;
+    const tripId = req.query.tripId ? parseInt(req.query.tripId as string) : undefined;
+    const inspectorId = isApprover(req) ? undefined : req.user!.id;
+    
+    const inspections = await storage.listInspections({ vehicleId, tripId, inspectorId });
+    res.json(inspections);
+  });
+
+  app.get("/api/inspections/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const inspection = await storage.getInspection(parseInt(req.params.id));
+    if (!inspection) {
+      return res.status(404).json({ message: "Inspection not found" });
+    }
+    
+    if (inspection.inspectorId !== req.user!.id && !isApprover(req)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    res.json(inspection);
+  });
+
+  // Drivers inspect a vehicle they are about to drive or have just driven: their own trip,
+  // a vehicle assigned to them, or one they hold an approved booking for
+  app.post("/api/inspections", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const inspectionData = insertInspectionSchema.parse(req.body);
+      
+      if (!isApprover(req)) {
+        if (inspectionData.tripId != null) {
+          const trip = await storage.getTrip(inspectionData.tripId);
+          if (trip && trip.driverId !== req.user!.id) {
+            return res.status(403).json({ message: "Drivers can only inspect vehicles for their own trips" });
+          }
+        } else {
+          const vehicle = await storage.getVehicle(inspectionData.vehicleId);
+          const bookings = await storage.listBookingsForUser(req.user!.id);
+          const hasBooking = bookings.some(booking =>
+            booking.vehicleId === inspectionData.vehicleId &&
+            booking.status === 'approved' &&
+            new Date(booking.endTime) > new Date()
+          );
+          if (vehicle && vehicle.assignedToId !== req.user!.id && !hasBooking) {
+            return res.status(403).json({ message: "You can only inspect a vehicle assigned to you or booked by you" });
+          }
+        }
+      }
+      
+      const inspection = await storage.createInspection(inspectionData, req.user!.id);
+      console.log(`[routes] Inspection ${inspection.id} recorded for vehicle ${inspection.vehicleId} (${inspection.passed ? 'passed' : 'failed'})`);
+      res.status(201).json(inspection);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inspection", errors: err.errors });
+      }
+      if (err instanceof InspectionError) {
+        return res.status(422).json({ message: err.message });
+      }
+      if (err instanceof Error && err.message === "Vehicle not found") {
+        return res.status(404).json({ message: err.message });
+      }
+      console.error("[routes] Error recording inspection:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Incident routes
+  // Admin and moderator see every incident; other users see the ones they drove in or reported
+  app.get("/api/incidents", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const status = ["reported", "investigating", "closed"].find(s => s === req.query.status) as Incident["status"] | undefined;
+    const incidents = await storage.listIncidents({
+      vehicleId: req.query.vehicleId ? parseInt(req.query.vehicleId as string) : undefined,
+      driverId: req.query.driverId ? parseInt(req.query.driverId as string) : undefined,
+      status,
+      involvingUserId: isApprover(req) ? undefined : req.user!.id
+    });
+    res.json(incidents);
+  });
+
+  app.get("/api/incidents/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const incident = await storage.getIncident(parseInt(req.params.id));
+    if (!incident) {
+      return res.status(404).json({ message: "Incident not found" });
+    }
+    
+    if (!isInvolvedInIncident(req, incident) && !isApprover(req)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    res.json(incident);
+  });
+
+  // Anyone can report an incident. Drivers report on their own trips or a vehicle assigned to
+  // them; the driver of a linked trip is taken as the driver involved.
+  app.post("/api/incidents", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const incidentData = insertIncidentSchema.parse(req.body);
+      
+      const vehicle = await storage.getVehicle(incidentData.vehicleId);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      
+      const tripProblem = await checkIncidentTrip(incidentData);
+      if (tripProblem) {
+        return res.status(400).json({ message: tripProblem });
+      }
+      const trip = incidentData.tripId != null ? await storage.getTrip(incidentData.tripId) : undefined;
+      if (trip && incidentData.driverId == null) {
+        incidentData.driverId = trip.driverId;
+      }
+      
+      if (!isApprover(req)) {
+        if (trip ? trip.driverId !== req.user!.id : vehicle.assignedToId !== req.user!.id) {
+          return res.status(403).json({ message: "You can only report incidents on your own trips or a vehicle assigned to you" });
+        }
+        if (setsIncidentSettlement(incidentData)) {
+          return res.status(403).json({ message: "Only admins and moderators can record settled costs and insurance claims" });
+        }
+        incidentData.driverId = req.user!.id;
+      }
+      
+      const incident = await storage.createIncident(incidentData, req.user!.id);
+      console.log(`[routes] Incident ${incident.id} (${incident.type}) reported for vehicle ${incident.vehicleId}`);
+      res.status(201).json(incident);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid incident report", errors: err.errors });
+      }
+      console.error("[routes] Error reporting incident:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Admin and moderator can update any incident, including costs and the insurance claim.
+  // Whoever reported it can add details until an investigation starts.
+  app.put("/api/incidents/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const id = parseInt(req.params.id);
+    const incident = await storage.getIncident(id);
+    if (!incident) {
+      return res.status(404).json({ message: "Incident not found" });
+    }
+    
+    if (incident.reportedById !== req.user!.id && !isApprover(req)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    try {
+      const incidentData = insertIncidentSchema.partial().parse(req.body);
+      
+      if (!isApprover(req)) {
+        if (incident.status !== 'reported') {
+          return res.status(403).json({ message: "The incident is being investigated and can no longer be changed by the reporter" });
+        }
+        if ((incidentData.vehicleId !== undefined && incidentData.vehicleId !== incident.vehicleId) ||
+            (incidentData.driverId !== undefined && incidentData.driverId !== incident.driverId)) {
+          return res.status(403).json({ message: "Only admins and moderators can change the vehicle or driver of an incident" });
+        }
+        if (setsIncidentSettlement(incidentData)) {
+          return res.status(403).json({ message: "Only admins and moderators can record settled costs and insurance claims" });
+        }
+      }
+      
+      const tripProblem = await checkIncidentTrip({
+        vehicleId: incidentData.vehicleId ?? incident.vehicleId,
+        tripId: incidentData.tripId !== undefined ? incidentData.tripId : incident.tripId
+      });
+      if (tripProblem) {
+        return res.status(400).json({ message: tripProblem });
+      }
+      
+      const updatedIncident = await storage.updateIncident(id, incidentData);
+      if (!updatedIncident) {
+        return res.status(404).json({ message: "Incident not found" });
+      }
+      
+      res.json(updatedIncident);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid incident data", errors: err.errors });
+      }
+      console.error(`[routes] Error updating incident ${id}:`, err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Start, close or reopen the investigation. Moderators may not investigate incidents they
+  // were driving in; admins may.
+  app.post("/api/incidents/:id/investigation", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    
+    try {
+      const investigation = incidentInvestigationSchema.parse(req.body);
+      
+      const incident = await storage.getIncident(id);
+      if (!incident) {
+        return res.status(404).json({ message: "Incident not found" });
+      }
+      
+      if (incident.driverId === req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "You cannot investigate an incident you were driving in" });
+      }
+      
+      const updatedIncident = await storage.investigateIncident(id, investigation, req.user!.id);
+      if (!updatedIncident) {
+        return res.status(404).json({ message: "Incident not found" });
+      }
+      
+      if (updatedIncident.status === 'closed') {
+        const recipients = Array.from(new Set([updatedIncident.reportedById, updatedIncident.driverId]));
+        for (const userId of recipients) {
+          if (userId == null || userId === req.user!.id) continue;
+          await storage.createNotification({
+            userId,
+            message: `The investigation into incident #${updatedIncident.id} was closed: ${updatedIncident.findings}`,
+            link: "/incidents"
+          });
+        }
+      }
+      
+      res.json(updatedIncident);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid investigation update", errors: err.errors });
+      }
+      if (err instanceof Error && (err.message.includes("already under investigation") || err.message.includes("Only incidents under investigation"))) {
+        return res.status(409).json({ message: err.message });
+      }
+      console.error(`[routes] Error updating investigation of incident ${id}:`, err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Only admin can delete incidents
+  app.delete("/api/incidents/:id", adminOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const success = await storage.deleteIncident(id);
+    
+    if (!success) {
+      return res.status(404).json({ message: "Incident not found" });
+    }
+    
+    res.status(204).send();
+  });
+
+  // Traffic charge routes
+  // Admin and moderator see every charge; other users see the ones assigned to them
+  app.get("/api/traffic-charges", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const status = ["matched", "unmatched", "dismissed"].find(s => s === req.query.status) as TrafficCharge["status"] | undefined;
+    const kind = ["fine", "toll"].find(k => k === req.query.kind) as TrafficCharge["kind"] | undefined;
+    const charges = await storage.listTrafficCharges({
+      status,
+      kind,
+      driverId: isApprover(req) ? (req.query.driverId ? parseInt(req.query.driverId as string) : undefined) : req.user!.id,
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined
+    });
+    res.json(charges);
+  });
+
+  // Matched fines and tolls summed per driver
+  app.get("/api/traffic-charges/report", adminModOnly, async (req: Request, res: Response) => {
+    const charges = await storage.listTrafficCharges({
+      status: "matched",
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined
+    });
+    res.json(buildDriverChargesReport(charges));
+  });
+
+  // Admin and moderator enter a single charge by hand; it is matched straight away
+  app.post("/api/traffic-charges", adminModOnly, async (req: Request, res: Response) => {
+    try {
+      const chargeData = insertTrafficChargeSchema.parse(req.body);
+      
+      if (chargeData.reference && await storage.findTrafficChargeByReference(chargeData.kind, chargeData.reference)) {
+        return res.status(409).json({ message: `A ${chargeData.kind} with reference ${chargeData.reference} has already been recorded` });
+      }
+      
+      const match = await findTrafficChargeMatch(chargeData.registrationNumber, new Date(chargeData.occurredAt));
+      const charge = await storage.createTrafficCharge(chargeData, match, req.user!.id);
+      await notifyTrafficChargeDriver(charge);
+      
+      res.status(201).json(charge);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid charge data", errors: err.errors });
+      }
+      console.error("[routes] Error recording traffic charge:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Imports a CSV of fines or tolls. Valid rows are recorded and matched; rows with errors and
+  // charges whose reference was already recorded are skipped and reported back.
+  app.post("/api/traffic-charges/import", adminModOnly, async (req: Request, res: Response) => {
+    try {
+      const { csv, kind } = importTrafficChargesSchema.parse(req.body);
+      const { rows, errors } = readTrafficChargesCsv(csv, kind);
+      
+      const result: TrafficChargeImportResult = { created: [], duplicates: 0, errors };
+      const vehicles = await storage.listVehicles();
+      const seenReferences = new Set<string>();
+      
+      for (const row of rows) {
+        const parsed = insertTrafficChargeSchema.safeParse(row.values);
+        if (!parsed.success) {
+          result.errors.push({ line: row.line, message: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+          continue;
+        }
+        
+        const chargeData: InsertTrafficCharge = parsed.data;
+        const occurredAt = new Date(chargeData.occurredAt);
+        if (isNaN(occurredAt.getTime())) {
+          result.errors.push({ line: row.line, message: "The date and time cannot be read" });
+          continue;
+        }
+        
+        if (chargeData.reference) {
+          const key = `${chargeData.kind}:${chargeData.reference}`;
+          if (seenReferences.has(key) || await storage.findTrafficChargeByReference(chargeData.kind, chargeData.reference)) {
+            result.duplicates++;
+            continue;
+          }
+          seenReferences.add(key);
+        }
+        
+        const match = await findTrafficChargeMatch(chargeData.registrationNumber, occurredAt, vehicles);
+        const charge = await storage.createTrafficCharge(chargeData, match, req.user!.id);
+        await notifyTrafficChargeDriver(charge);
+        result.created.push(charge);
+      }
+      
+      result.errors.sort((a, b) => a.line - b.line);
+      console.log(`[routes] Imported ${result.created.length} traffic charge(s), ${result.duplicates} duplicate(s), ${result.errors.length} error(s)`);
+      res.status(201).json(result);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import", errors: err.errors });
+      }
+      console.error("[routes] Error importing traffic charges:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Tries the review queue again, e.g. after late trips have been logged
+  app.post("/api/traffic-charges/rematch", adminModOnly, async (req: Request, res: Response) => {
+    const unmatched = await storage.listTrafficCharges({ status: "unmatched" });
+    const vehicles = await storage.listVehicles();
+    
+    let matched = 0;
+    for (const charge of unmatched) {
+      const match = await findTrafficChargeMatch(charge.registrationNumber, charge.occurredAt, vehicles);
+      const updatedCharge = await storage.updateTrafficChargeMatch(charge.id, match, null);
+      if (updatedCharge?.status === "matched") {
+        matched++;
+        await notifyTrafficChargeDriver(updatedCharge);
+      }
+    }
+    
+    res.json({ matched, remaining: unmatched.length - matched });
+  });
+
+  // Admin and moderator assign a charge to a driver by hand, or dismiss it, e.g. when it was
+  // issued in error. Automatically matched charges can be reassigned the same way.
+  app.post("/api/traffic-charges/:id/resolution", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    
+    try {
+      const resolution = trafficChargeResolutionSchema.parse(req.body);
+      
+      const charge = await storage.getTrafficCharge(id);
+      if (!charge) {
+        return res.status(404).json({ message: "Traffic charge not found" });
+      }
+      
+      let match: TrafficChargeMatch;
+      if (resolution.action === "assign") {
+        const driver = await storage.getUser(resolution.driverId);
+        if (!driver) {
+          return res.status(404).json({ message: "Driver not found" });
+        }
+        
+        const trip = resolution.tripId != null ? await storage.getTrip(resolution.tripId) : undefined;
+        if (resolution.tripId != null && (!trip || trip.driverId !== driver.id)) {
+          return res.status(400).json({ message: "The trip was not driven by this driver" });
+        }
+        const booking = resolution.bookingId != null ? await storage.getBooking(resolution.bookingId) : undefined;
+        if (resolution.bookingId != null && (!booking || booking.userId !== driver.id)) {
+          return res.status(400).json({ message: "The booking does not belong to this driver" });
+        }
+        
+        match = {
+          vehicleId: charge.vehicleId ?? trip?.vehicleId ?? booking?.vehicleId ?? null,
+          status: "matched",
+          matchedBy: "manual",
+          tripId: trip?.id ?? null,
+          bookingId: booking?.id ?? trip?.bookingId ?? null,
+          driverId: driver.id,
+          matchNote: null
+        };
+      } else {
+        match = {
+          vehicleId: charge.vehicleId,
+          status: "dismissed",
+          matchedBy: null,
+          tripId: null,
+          bookingId: null,
+          driverId: null,
+          matchNote: resolution.reason
+        };
+      }
+      
+      const updatedCharge = await storage.updateTrafficChargeMatch(id, match, req.user!.id);
+      if (!updatedCharge) {
+        return res.status(404).json({ message: "Traffic charge not found" });
+      }
+      
+      if (updatedCharge.driverId !== charge.driverId) {
+        await notifyTrafficChargeDriver(updatedCharge);
+      }
+      
+      res.json(updatedCharge);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid resolution", errors: err.errors });
+      }
+      console.error(`[routes] Error resolving traffic charge ${id}:`, err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Only admin can delete traffic charges
+  app.delete("/api/traffic-charges/:id", adminOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const success = await storage.deleteTrafficCharge(id);
+    
+    if (!success) {
+      return res.status(404).json({ message: "Traffic charge not found" });
+    }
+    
+    res.status(204).send();
+  });
+
+  // Mileage routes - All authenticated users can view the rates their trips are priced at
+  app.get("/api/mileage-rates", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    res.json(effectiveMileageRates(await storage.listMileageRates()));
+  });
+
+  // Only admin can set rates; saving replaces the rate for that usage. Statements keep the
+  // rate they were submitted with.
+  app.put("/api/mileage-rates", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const rate = await storage.saveMileageRate(insertMileageRateSchema.parse(req.body));
+      res.json(rate);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid mileage rate", errors: err.errors });
+      }
+      console.error("[routes] Error saving mileage rate:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // The statement a driver's trips add up to for a month, alongside the one already submitted.
+  // Admins and moderators may look at any driver's month.
+  app.get("/api/mileage-statements/preview", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const { month } = submitMileageStatementSchema.parse({ month: req.query.month ?? currentMonth() });
+      const driverId = req.query.driverId ? parseInt(req.query.driverId as string) : req.user!.id;
+      if (driverId !== req.user!.id && !isApprover(req)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const [trips, rates, statement] = await Promise.all([
+        storage.listTripsForDriver(driverId),
+        storage.listMileageRates(),
+        storage.findMileageStatement(driverId, month),
+      ]);
+      
+      res.json({
+        preview: buildMileageStatement(driverId, month, trips, effectiveMileageRates(rates)),
+        statement: statement ?? null
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid month", errors: err.errors });
+      }
+      console.error("[routes] Error building mileage statement:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Admin and moderator see every statement; other users see their own
+  app.get("/api/mileage-statements", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const status = ["submitted", "approved", "rejected"].find(s => s === req.query.status) as MileageStatement["status"] | undefined;
+    const statements = await storage.listMileageStatements({
+      driverId: isApprover(req) ? undefined : req.user!.id,
+      status
+    });
+    res.json(statements);
+  });
+
+  app.get("/api/mileage-statements/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const statement = await storage.getMileageStatement(parseInt(req.params.id));
+    if (!statement) {
+      return res.status(404).json({ message: "Mileage statement not found" });
+    }
+    
+    if (statement.driverId !== req.user!.id && !isApprover(req)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    res.json(statement);
+  });
+
+  // Drivers submit their own month, priced at the current rates. Submitting again replaces a
+  // submitted or rejected statement.
+  app.post("/api/mileage-statements", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const { month } = submitMileageStatementSchema.parse(req.body);
+      if (month > currentMonth()) {
+        return res.status(422).json({ message: "Statements cannot be submitted for a future month" });
+      }
+      
+      const [trips, rates] = await Promise.all([
+        storage.listTripsForDriver(req.user!.id),
+        storage.listMileageRates(),
+      ]);
+      
+      const statement = await storage.submitMileageStatement(
+        buildMileageStatement(req.user!.id, month, trips, effectiveMileageRates(rates))
+      );
+      res.status(201).json(statement);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid mileage statement", errors: err.errors });
+      }
+      if (err instanceof Error && err.message.includes("Approved statements")) {
+        return res.status(409).json({ message: err.message });
+      }
+      console.error("[routes] Error submitting mileage statement:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Moderators may not decide on their own statements; admins may
+  app.post("/api/mileage-statements/:id/decision", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    
+    try {
+      const input = mileageStatementDecisionSchema.parse(req.body);
+      
+      const statement = await storage.getMileageStatement(id);
+      if (!statement) {
+        return res.status(404).json({ message: "Mileage statement not found" });
+      }
+      
+      if (statement.driverId === req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "You cannot approve or reject your own statement" });
+      }
+      
+      if (input.decision === "approved") {
+        const drift = mileageStatementDrift(statement, await storage.listTripsForDriver(statement.driverId));
+        if (drift) {
+          return res.status(409).json({ message: drift });
+        }
+      }
+      
+      const decided = await storage.decideMileageStatement(id, {
+        status: input.decision,
+        decidedById: req.user!.id,
+        reason: input.reason || null
+      });
+      if (!decided) {
+        return res.status(404).json({ message: "Mileage statement not found" });
+      }
+      
+      await storage.createNotification({
+        userId: decided.driverId,
+        message: decided.status === "approved"
+          ? `Your mileage statement for ${decided.month} was approved`
+          : `Your mileage statement for ${decided.month} was rejected: ${decided.decisionReason}`,
+        link: "/mileage"
+      });
+      
+      res.json(decided);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid decision", errors: err.errors });
+      }
+      if (err instanceof Error && err.message.includes("Only submitted statements")) {
+        return res.status(409).json({ message: err.message });
+      }
+      console.error(`[routes] Error deciding mileage statement ${id}:`, err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // CSV or PDF for payroll
+  app.get("/api/mileage-statements/:id/export", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const statement = await storage.getMileageStatement(parseInt(req.params.id));
+    if (!statement) {
+      return res.status(404).json({ message: "Mileage statement not found" });
+    }
+    
+    if (statement.driverId !== req.user!.id && !isApprover(req)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const format = req.query.format ?? "csv";
+    if (format !== "csv" && format !== "pdf") {
+      return res.status(400).json({ message: "Format must be csv or pdf" });
+    }
+    
+    try {
+      const names = await mileageStatementNames(statement);
+      const filename = `mileage-${statement.month}-driver-${statement.driverId}.${format}`;
+      
+      res.attachment(filename);
+      if (format === "pdf") {
+        res.type("application/pdf").send(mileageStatementPdf(statement, names));
+      } else {
+        res.type("text/csv; charset=utf-8").send(mileageStatementCsv(statement, names));
+      }
+    } catch (err) {
+      console.error("[routes] Error exporting mileage statement:", err);
+      res.status(500).json({ message: "Internal server error", details: err instanceof Error ? err.message : "Unknown error" });
+    }
+  });
+
+  // Booking routes
+  // Get all bookings - temporarily allow all authenticated users
+  app.get("/api/bookings", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    // Temporarily removed role check for debugging
+    try {
+      console.log("[routes] Fetching all bookings");
+      const bookings = await storage.listAllBookings();
+      console.log(`[routes] Found ${bookings.length} bookings`);
+      res.json(bookings);
+    } catch (err) {
+      console.error("[routes] Error fetching bookings:", err);
+      res.status(500).json({ 
+        message: "Internal server error", 
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+  
+  app.get("/api/bookings/vehicle/:vehicleId", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const vehicleId = parseInt(req.params.vehicleId);
+    const bookings = await storage.listBookingsForVehicle(vehicleId);
+    res.json(bookings);
+  });
+
+  // Users can view their own bookings, admins can view all
+  app.get("/api/bookings/user/:userId", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const userId = parseInt(req.params.userId);
+    
+    // Check if user is trying to access their own bookings or is an admin
+    if (req.user!.id !== userId && req.user!.role !== 'admin' && req.user!.role !== 'moderator') {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const bookings = await storage.listBookingsForUser(userId);
+    res.json(bookings);
+  });
+
+  // All authenticated users can create bookings
+  app.post("/api/bookings", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    console.log(`[routes] Creating booking with data:`, JSON.stringify(req.body));
+    
+    try {
+      // Parse and validate the request data; new bookings always await approval
+      const bookingData = insertBookingSchema.parse({ ...req.body, status: 'pending' });
+      console.log(`[routes] Validated booking data:`, JSON.stringify(bookingData));
+      
+      const policyCheck = await enforceBookingPolicies(req, bookingData.vehicleId ?? null, bookingData.userId, [
+        { startTime: new Date(bookingData.startTime), endTime: new Date(bookingData.endTime) }
+      ]);
+      if (policyCheck.body) {
+        return res.status(policyCheck.status).json(policyCheck.body);
+      }
+      
+      // Process the booking creation
+      const booking = await storage.createBooking(bookingData, policyCheck.policyOverride);
+      
+      console.log(`[routes] Booking created successfully:`, JSON.stringify(booking));
+      res.status(201).json(booking);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        console.error(`[routes] Validation error:`, err.errors);
+        return res.status(400).json({ message: "Invalid booking data", errors: err.errors });
+      }
+      
+      // Handle application-specific errors
+      console.error(`[routes] Error creating booking:`, err);
+      
+      if (err instanceof BookingConflictError) {
+        return res.status(409).json({ message: err.message, conflicts: err.conflicts });
+      }
+      
+      // Send a more informative error message
+      if (err instanceof Error) {
+        const errorMessage = err.message;
+        
+        if (errorMessage.includes("Vehicle not found")) {
+          return res.status(404).json({ message: errorMessage });
+        }
+        
+        if (errorMessage.includes("Vehicle not available")) {
+          return res.status(422).json({ message: errorMessage });
+        }
+        
+        if (errorMessage.includes("No free")) {
+          return res.status(409).json({ message: errorMessage });
+        }
+        
+        if (errorMessage.includes("End time must be after start time") || errorMessage.includes("Choose a vehicle")) {
+          return res.status(400).json({ message: errorMessage });
+        }
+        
+        return res.status(500).json({ 
+          message: "Internal server error", 
+          details: errorMessage
+        });
+      }
+      
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // All authenticated users can create recurring bookings
+  app.post("/api/bookings/series", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    console.log(`[routes] Creating booking series with data:`, JSON.stringify(req.body));
+    
+    try {
+      // Parse and validate the request data; new bookings always await approval
+      const { recurrence, skipConflicts, ...bookingData } = insertBookingSeriesSchema.parse({ ...req.body, status: 'pending' });
+      if (bookingData.vehicleId == null) {
+        return res.status(400).json({ message: "Recurring bookings need a specific vehicle" });
+      }
+      
+      const startTime = new Date(bookingData.startTime);
+      const endTime = new Date(bookingData.endTime);
+      if (endTime <= startTime) {
+        return res.status(400).json({ message: "End time must be after start time" });
+      }
+      
+      const occurrences = expandRecurrence(startTime, endTime, recurrence);
+      
+      const policyCheck = await enforceBookingPolicies(req, bookingData.vehicleId, bookingData.userId, occurrences);
+      if (policyCheck.body) {
+        return res.status(policyCheck.status).json(policyCheck.body);
+      }
+      
+      const result = await storage.createBookingSeries({
+        userId: bookingData.userId,
+        frequency: recurrence.frequency,
+        interval: recurrence.interval,
+        weekdays: recurrence.weekdays ?? null,
+        untilDate: recurrence.untilDate ?? null,
+        occurrenceCount: recurrence.count ?? null
+      }, bookingData, occurrences, skipConflicts, policyCheck.policyOverride);
+      
+      console.log(`[routes] Booking series ${result.series.id} created with ${result.bookings.length} bookings`);
+      res.status(201).json(result);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        console.error(`[routes] Validation error:`, err.errors);
+        return res.status(400).json({ message: "Invalid booking data", errors: err.errors });
+      }
+      
+      console.error(`[routes] Error creating booking series:`, err);
+      
+      if (err instanceof BookingConflictError) {
+        return res.status(409).json({ message: err.message, conflicts: err.conflicts });
+      }
+      
+      if (err instanceof Error) {
+        const errorMessage = err.message;
+        
+        if (errorMessage.includes("Vehicle not found")) {
+          return res.status(404).json({ message: errorMessage });
+        }
+        
+        if (errorMessage.includes("Vehicle not available")) {
+          return res.status(422).json({ message: errorMessage });
+        }
+        
+        return res.status(500).json({ 
+          message: "Internal server error", 
+          details: errorMessage
+        });
+      }
+      
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Users can update their own bookings, admins/moderators can update any
+  app.put("/api/bookings/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const id = parseInt(req.params.id);
+    
+    console.log(`[routes] Updating booking ${id} with data:`, JSON.stringify(req.body));
+    
+    // Get the booking to check ownership
+    const booking = await storage.getBooking(id);
+    if (!booking) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+    
+    // Check permissions
+    if (req.user!.id !== booking.userId && req.user!.role !== 'admin' && req.user!.role !== 'moderator') {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    try {
+      // Parse and validate the request data
+      const bookingData = insertBookingSchema.partial().parse(req.body);
+      console.log(`[routes] Validated booking data:`, JSON.stringify(bookingData));
+      
+      // Approval decisions go through the dedicated approve/decline actions
+      if ((bookingData.status === 'approved' || bookingData.status === 'declined') && bookingData.status !== booking.status) {
+        return res.status(400).json({ message: "Use the approve or decline actions to change a booking decision" });
+      }
+      
+      // Unassigning the vehicle turns the booking back into a category request
+      if (bookingData.vehicleId === null && !(bookingData.category ?? booking.category)) {
+        return res.status(400).json({ message: "Choose a vehicle or a vehicle category" });
+      }
+      
+      // Changing the vehicle or times of an approved booking needs a fresh approval. The edit form
+      // sends every field, to the minute, so only values that differ from the booking at that
+      // precision count as a change.
+      const toMinute = (value: Date | string) => Math.floor(new Date(value).getTime() / 60000);
+      const changesTime = (next: Date | string | undefined, current: Date | string) =>
+        next !== undefined && toMinute(next) !== toMinute(current);
+      const changesWindow =
+        (bookingData.vehicleId !== undefined && bookingData.vehicleId !== booking.vehicleId) ||
+        changesTime(bookingData.startTime, booking.startTime) ||
+        changesTime(bookingData.endTime, booking.endTime);
+      if (booking.status === 'approved' && changesWindow && !isApprover(req)) {
+        bookingData.status = 'pending';
+      }
+      
+      // ?scope=following|all applies the change to other occurrences of the series
+      const scope = seriesScopeSchema.parse(req.query.scope);
+      
+      // A booking moved to another vehicle or window must fit the booking policies, as a new one would
+      let policyOverride: BookingPolicyOverrideRecord | undefined;
+      const staysActive = ['pending', 'approved'].includes(bookingData.status ?? booking.status);
+      if (changesWindow && staysActive) {
+        const { moving, windows } = await movedBookingWindows(booking, scope, bookingData.startTime, bookingData.endTime);
+        const vehicleId = bookingData.vehicleId !== undefined ? bookingData.vehicleId : booking.vehicleId;
+        const policyCheck = await enforceBookingPolicies(req, vehicleId, bookingData.userId ?? booking.userId, windows, moving);
+        if (policyCheck.body) {
+          return res.status(policyCheck.status).json(policyCheck.body);
+        }
+        policyOverride = policyCheck.policyOverride;
+      }
+      
+      if (scope !== 'single' && booking.seriesId) {
+        const changes: BookingSeriesChanges = {
+          vehicleId: bookingData.vehicleId ?? undefined,
+          purpose: bookingData.purpose,
+          // Any other status sent along is left alone; decisions go through the approve and decline actions
+          cancel: bookingData.status === 'cancelled',
+          // Moving one occurrence moves the others by the same amount
+          startShiftMs: bookingData.startTime ? new Date(bookingData.startTime).getTime() - new Date(booking.startTime).getTime() : undefined,
+          endShiftMs: bookingData.endTime ? new Date(bookingData.endTime).getTime() - new Date(booking.endTime).getTime() : undefined,
+          resetApproval: changesWindow && !isApprover(req),
+          policyOverride
+        };
+        const fromStartTime = scope === 'following' ? new Date(booking.startTime) : undefined;
+        
+        const updatedBookings = await storage.updateBookingSeries(booking.seriesId, fromStartTime, changes);
+        console.log(`[routes] Updated ${updatedBookings.length} bookings in series ${booking.seriesId}`);
+        return res.json(updatedBookings.find(b => b.id === id) ?? booking);
+      }
+      
+      // Process the booking update
+      const updatedBooking = await storage.updateBooking(id, { ...bookingData, ...policyOverride });
+      
+      if (!updatedBooking) {
+        console.error(`[routes] Booking ${id} not found after validation`);
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      console.log(`[routes] Booking updated successfully:`, JSON.stringify(updatedBooking));
+      res.json(updatedBooking);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        console.error(`[routes] Validation error:`, err.errors);
+        return res.status(400).json({ message: "Invalid booking data", errors: err.errors });
+      }
+      
+      // Handle application-specific errors
+      console.error(`[routes] Error updating booking:`, err);
+      
+      if (err instanceof BookingConflictError) {
+        return res.status(409).json({ message: err.message, conflicts: err.conflicts });
+      }
+      
+      // Send a more informative error message
+      if (err instanceof Error) {
+        const errorMessage = err.message;
+        
+        if (errorMessage.includes("Invalid startTime format") || 
+            errorMessage.includes("Invalid endTime format") ||
+            errorMessage.includes("End time must be after start time") ||
+            errorMessage.includes("Choose a vehicle")) {
+          return res.status(400).json({ message: errorMessage });
+        }
+        
+        if (errorMessage.includes("No free")) {
+          return res.status(409).json({ message: errorMessage });
+        }
+        
+        return res.status(500).json({ 
+          message: "Internal server error", 
+          details: errorMessage
+        });
+      }
+      
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Pending bookings awaiting a decision from the current approver
+  app.get("/api/bookings/pending-approval", adminModOnly, async (req: Request, res: Response) => {
+    const pending = await storage.listPendingBookings();
+    
+    // Moderators cannot decide on their own bookings, so keep them out of their queue
+    const queue = req.user!.role === 'admin'
+      ? pending
+      : pending.filter(booking => booking.userId !== req.user!.id);
+    
+    res.json(queue);
+  });
+  
+  // Admin and moderator can approve bookings
+  app.post("/api/bookings/:id/approve", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    
+    try {
+      const input = bookingDecisionSchema.parse({ decision: 'approved', reason: req.body?.reason });
+      const result = await applyBookingDecision(req, id, input);
+      
+      if (!result.booking) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      
+      res.json(result.booking);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid decision data", errors: err.errors });
+      }
+      console.error(`[routes] Error approving booking:`, err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Admin and moderator can decline bookings, with a required reason
+  app.post("/api/bookings/:id/decline", adminModOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
     
     try {
-      // Parse and validate the request data
-      const bookingData = insertBookingSchema.parse(req.body);
-      console.log(`[routes] Validated booking data:`, JSON.stringify(bookingData));
+      const input = bookingDecisionSchema.parse({ decision: 'declined', reason: req.body?.reason });
+      const result = await applyBookingDecision(req, id, input);
       
-      // Process the booking creation
-      const booking = await storage.createBooking(bookingData);
+      if (!result.booking) {
+        return res.status(result.status).json({ message: result.message });
+      }
       
-      console.log(`[routes] Booking created successfully:`, JSON.stringify(booking));
-      res.status(201).json(booking);
+      res.json(result.booking);
     } catch (err) {
       if (err instanceof z.ZodError) {
-        console.error(`[routes] Validation error:`, err.errors);
-        return res.status(400).json({ message: "Invalid booking data", errors: err.errors });
+        return res.status(400).json({ message: "Invalid decision data", errors: err.errors });
       }
+      console.error(`[routes] Error declining booking:`, err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Approve or decline several bookings at once; each booking is decided independently
+  app.post("/api/bookings/decisions", adminModOnly, async (req: Request, res: Response) => {
+    try {
+      const { bookingIds, ...input } = bulkBookingDecisionSchema.parse(req.body);
       
-      // Handle application-specific errors
-      console.error(`[routes] Error creating booking:`, err);
+      const decided = [];
+      const failed = [];
       
-      // Send a more informative error message
-      if (err instanceof Error) {
-        const errorMessage = err.message;
-        
-        if (errorMessage.includes("Vehicle not found")) {
-          return res.status(404).json({ message: errorMessage });
-        }
-        
-        if (errorMessage.includes("Vehicle not available")) {
-          return res.status(422).json({ message: errorMessage });
+      for (const bookingId of bookingIds) {
+        const result = await applyBookingDecision(req, bookingId, input as BookingDecisionInput);
+        if (result.booking) {
+          decided.push(result.booking);
+        } else {
+          failed.push({ bookingId, message: result.message });
         }
-        
-        return res.status(500).json({ 
-          message: "Internal server error", 
-          details: errorMessage
-        });
       }
       
+      res.json({ decided, failed });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid decision data", errors: err.errors });
+      }
+      console.error(`[routes] Error applying booking decisions:`, err);
       res.status(500).json({ message: "Internal server error" });
     }
   });
-
-  // Users can update their own bookings, admins/moderators can update any
-  app.put("/api/bookings/:id", async (req: Request, res: Response) => {
+  
+  // Decision history - visible to the booking owner and approvers
+  app.get("/api/bookings/:id/decisions", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
     const id = parseInt(req.params.id);
+    const booking = await storage.getBooking(id);
+    if (!booking) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
     
-    console.log(`[routes] Updating booking ${id} with data:`, JSON.stringify(req.body));
+    if (req.user!.id !== booking.userId && !isApprover(req)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const decisions = await storage.listBookingDecisions(id);
+    res.json(decisions);
+  });
+
+  // Vehicle pickup: turn an approved booking into an in-progress trip
+  app.post("/api/bookings/:id/start-trip", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const id = parseInt(req.params.id);
     
-    // Get the booking to check ownership
     const booking = await storage.getBooking(id);
     if (!booking) {
       return res.status(404).json({ message: "Booking not found" });
     }
     
-    // Check permissions
-    if (req.user!.id !== booking.userId && req.user!.role !== 'admin' && req.user!.role !== 'moderator') {
+    // Same rule as editing: the requester or an approver
+    if (req.user!.id !== booking.userId && !isApprover(req)) {
       return res.status(403).json({ message: "Forbidden" });
     }
     
     try {
-      // Parse and validate the request data
-      const bookingData = insertBookingSchema.partial().parse(req.body);
-      console.log(`[routes] Validated booking data:`, JSON.stringify(bookingData));
-      
-      // Process the booking update
-      const updatedBooking = await storage.updateBooking(id, bookingData);
+      const { startOdometer } = startTripFromBookingSchema.parse(req.body ?? {});
+      const trip = await storage.startTripFromBooking(id, startOdometer, !isApprover(req));
       
-      if (!updatedBooking) {
-        console.error(`[routes] Booking ${id} not found after validation`);
+      if (!trip) {
         return res.status(404).json({ message: "Booking not found" });
       }
       
-      console.log(`[routes] Booking updated successfully:`, JSON.stringify(updatedBooking));
-      res.json(updatedBooking);
+      console.log(`[routes] Trip ${trip.id} started from booking ${id}`);
+      res.status(201).json(trip);
     } catch (err) {
       if (err instanceof z.ZodError) {
-        console.error(`[routes] Validation error:`, err.errors);
-        return res.status(400).json({ message: "Invalid booking data", errors: err.errors });
+        return res.status(400).json({ message: "Invalid trip data", errors: err.errors });
       }
       
-      // Handle application-specific errors
-      console.error(`[routes] Error updating booking:`, err);
+      console.error(`[routes] Error starting trip from booking:`, err);
       
-      // Send a more informative error message
       if (err instanceof Error) {
         const errorMessage = err.message;
         
-        if (errorMessage.includes("Invalid startTime format") || 
-            errorMessage.includes("Invalid endTime format")) {
-          return res.status(400).json({ message: errorMessage });
+        if (err instanceof MileageLockError ||
+            errorMessage.includes("Only approved bookings") ||
+            errorMessage.includes("already been started") ||
+            errorMessage.includes("Vehicle not available")) {
+          return res.status(409).json({ message: errorMessage });
+        }
+        
+        if (err instanceof InspectionError || err instanceof OdometerError) {
+          return res.status(422).json({ message: errorMessage });
         }
         
         return res.status(500).json({ 
@@ -504,10 +2790,221 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(204).send();
   });
 
+  // Booking policy routes - All authenticated users can view the rules they book under
+  app.get("/api/booking-policies", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const policies = await storage.listBookingPolicies();
+    res.json(policies);
+  });
+
+  // Only admin can set policies; saving replaces the policy of the same scope
+  app.put("/api/booking-policies", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const policyData = insertBookingPolicySchema.parse(req.body);
+
+      if (policyData.vehicleId != null && !(await storage.getVehicle(policyData.vehicleId))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const policy = await storage.saveBookingPolicy(policyData);
+      res.json(policy);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid booking policy", errors: err.errors });
+      }
+      console.error(`[routes] Error saving booking policy:`, err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  app.delete("/api/booking-policies/:id", adminOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const success = await storage.deleteBookingPolicy(id);
+
+    if (!success) {
+      return res.status(404).json({ message: "Booking policy not found" });
+    }
+
+    res.status(204).send();
+  });
+
+  // Blackout periods - All authenticated users can view, optionally for one vehicle
+  app.get("/api/booking-blackouts", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const vehicleId = req.query.vehicleId ? parseInt(req.query.vehicleId as string) : undefined;
+    const blackouts = await storage.listBookingBlackouts(vehicleId);
+    res.json(blackouts);
+  });
+
+  app.post("/api/booking-blackouts", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const blackoutData = insertBookingBlackoutSchema.parse(req.body);
+
+      if (blackoutData.vehicleId != null && !(await storage.getVehicle(blackoutData.vehicleId))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const blackout = await storage.createBookingBlackout(blackoutData, req.user!.id);
+      res.status(201).json(blackout);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid blackout period", errors: err.errors });
+      }
+      if (err instanceof Error && err.message.includes("End time must be after start time")) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error(`[routes] Error creating blackout period:`, err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  app.delete("/api/booking-blackouts/:id", adminOnly, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const success = await storage.deleteBookingBlackout(id);
+
+    if (!success) {
+      return res.status(404).json({ message: "Blackout period not found" });
+    }
+
+    res.status(204).send();
+  });
+
+  // Waitlist routes - join the queue for a vehicle and window that is already booked
+  app.post("/api/waitlist", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      // Only admins may put someone else on the waitlist
+      const entryData = insertWaitlistEntrySchema.parse({
+        ...req.body,
+        userId: req.user!.role === "admin" && req.body.userId ? req.body.userId : req.user!.id
+      });
+      const startTime = new Date(entryData.startTime);
+      const endTime = new Date(entryData.endTime);
+
+      if (endTime <= startTime) {
+        return res.status(400).json({ message: "End time must be after start time" });
+      }
+
+      const conflicts = await storage.findConflictingBookings(entryData.vehicleId, startTime, endTime);
+      if (conflicts.length === 0) {
+        return res.status(409).json({ message: "The vehicle is free for this window; book it directly instead" });
+      }
+
+      // Promoted requests become ordinary bookings, so they must meet the booking policies
+      const violations = await findBookingPolicyViolations(entryData.vehicleId, entryData.userId, [{ startTime, endTime }]);
+      if (violations.length > 0) {
+        return res.status(422).json({ message: `Booking violates ${violations.length} policy rule(s)`, violations });
+      }
+
+      const entry = await storage.createWaitlistEntry(entryData);
+      res.status(201).json(entry);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid waitlist request", errors: err.errors });
+      }
+      if (err instanceof Error && err.message.includes("Vehicle not found")) {
+        return res.status(404).json({ message: err.message });
+      }
+      console.error(`[routes] Error joining waitlist:`, err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  // Users see their own waitlist requests; admins and moderators see all of them
+  app.get("/api/waitlist", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const entries = await storage.listWaitlistEntries(isApprover(req) ? undefined : req.user!.id);
+    res.json(entries);
+  });
+
+  app.post("/api/waitlist/:id/cancel", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const id = parseInt(req.params.id);
+    const entry = await storage.getWaitlistEntry(id);
+    if (!entry) {
+      return res.status(404).json({ message: "Waitlist request not found" });
+    }
+
+    if (!isOwnerOrAdmin(req, entry.userId)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    try {
+      const cancelled = await storage.cancelWaitlistEntry(id);
+      res.json(cancelled);
+    } catch (err) {
+      if (err instanceof Error && err.message.includes("Only waiting requests")) {
+        return res.status(409).json({ message: err.message });
+      }
+      console.error(`[routes] Error cancelling waitlist request:`, err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  // Notification routes - each user only sees their own
+  app.get("/api/notifications", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const userNotifications = await storage.listNotifications(req.user!.id);
+    res.json(userNotifications);
+  });
+
+  // Mark the given notifications as read, or all of them when no ids are sent
+  app.post("/api/notifications/read", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { ids } = z.object({ ids: z.array(z.number().int()).optional() }).parse(req.body ?? {});
+      const updated = await storage.markNotificationsRead(req.user!.id, ids);
+      res.json({ updated });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid notification ids", errors: err.errors });
+      }
+      console.error(`[routes] Error marking notifications read:`, err);
+      res.status(500).json({
+        message: "Internal server error",
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
   // User routes - Admin and moderator can view users
   app.get("/api/users", adminModOnly, async (req: Request, res: Response) => {
     const users = await storage.listUsers();
-    res.json(users);
+    // Calendar tokens grant feed access, so only their owner gets to see them
+    res.json(users.map(({ calendarToken, ...user }) => user));
   });
   
   // Admin can create users (both admins and moderators)
@@ -577,6 +3074,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // A driver's trips and incidents; drivers can see their own record
+  app.get("/api/users/:id/driving-record", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const id = parseInt(req.params.id);
+    if (req.user!.id !== id && !isApprover(req)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const [trips, incidents] = await Promise.all([
+      storage.listTripsForDriver(id),
+      storage.listIncidents({ driverId: id }),
+    ]);
+    res.json(buildDrivingRecord(id, trips, incidents));
+  });
+
+  // Create or replace the current user's calendar feed token; old feed URLs stop working
+  app.post("/api/user/calendar-token", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const calendarToken = randomBytes(24).toString("hex");
+    const user = await storage.updateUser(req.user!.id, { calendarToken });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    
+    res.json({ calendarToken });
+  });
+
+  // iCalendar subscription feeds. Calendar apps cannot send the session cookie,
+  // so these authenticate with the user's calendar token in the URL instead.
+  app.get("/api/calendar/:token/bookings.ics", async (req: Request, res: Response) => {
+    const user = await storage.getUserByCalendarToken(req.params.token);
+    if (!user) {
+      return res.status(404).json({ message: "Calendar feed not found" });
+    }
+    
+    try {
+      const bookings = await storage.listBookingsForUser(user.id);
+      const vehicles = await storage.listVehicles();
+      
+      const calendar = buildCalendar(
+        `Vehicle bookings - ${user.name}`,
+        bookings.map(booking => bookingEvent(booking, vehicles.find(v => v.id === booking.vehicleId)))
+      );
+      
+      res.type("text/calendar; charset=utf-8").send(calendar);
+    } catch (err) {
+      console.error("[routes] Error building bookings calendar:", err);
+      res.status(500).json({ 
+        message: "Internal server error", 
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
+  app.get("/api/calendar/:token/vehicles/:vehicleId.ics", async (req: Request, res: Response) => {
+    const user = await storage.getUserByCalendarToken(req.params.token);
+    if (!user) {
+      return res.status(404).json({ message: "Calendar feed not found" });
+    }
+    
+    const vehicle = await storage.getVehicle(parseInt(req.params.vehicleId));
+    if (!vehicle) {
+      return res.status(404).json({ message: "Vehicle not found" });
+    }
+    
+    try {
+      const bookings = await storage.listBookingsForVehicle(vehicle.id);
+      const maintenance = await storage.listMaintenanceForVehicle(vehicle.id);
+      
+      const calendar = buildCalendar(
+        `${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber})`,
+        [
+          ...bookings.map(booking => bookingEvent(booking, vehicle)),
+          ...maintenance.map(record => maintenanceEvent(record, vehicle)),
+        ]
+      );
+      
+      res.type("text/calendar; charset=utf-8").send(calendar);
+    } catch (err) {
+      console.error("[routes] Error building vehicle calendar:", err);
+      res.status(500).json({ 
+        message: "Internal server error", 
+        details: err instanceof Error ? err.message : String(err)
+      });
+    }
+  });
+
   // Dashboard statistics
   app.get("/api/dashboard/stats", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
@@ -597,6 +3187,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(stats);
   });
 
+  // Vehicles in each status at regular points over the last week or month, for the dashboard chart
+  app.get("/api/dashboard/fleet-status", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const period = req.query.period === 'month' ? 'month' : 'week';
+    const { points, stepMs } = FLEET_STATUS_PERIODS[period];
+    const now = Date.now();
+    const times = Array.from({ length: points }, (_, i) => new Date(now - (points - 1 - i) * stepMs));
+    
+    const [vehicles, changes] = await Promise.all([
+      storage.listVehicles(),
+      storage.listVehicleStatusChanges(),
+    ]);
+    res.json(fleetStatusSeries(vehicles, changes, times));
+  });
+
+  // Services come due by date as well as by use, so scheduling cannot wait for a write
+  runScheduledMaintenanceSync();
+  setInterval(runScheduledMaintenanceSync, MAINTENANCE_SYNC_INTERVAL_MS).unref();
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,137 @@
+import { MileageStatement, MileageStatementLine } from "@shared/schema";
+
+// CSV and minimal PDF writers for mileage statements handed to payroll
+
+export type StatementNames = {
+  driver: string;
+  decidedBy: string | null;
+  vehicle: (vehicleId: number) => string;
+};
+
+const treatmentLabels: Record<MileageStatementLine["treatment"], string> = {
+  reimbursement: "Reimbursement",
+  benefit_in_kind: "Benefit in kind",
+};
+
+// Spreadsheets run cells starting with these as formulas, so free text such as a trip purpose
+// is prefixed with an apostrophe. Plain numbers, negative ones included, are left as they are.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+function csvField(value: string | number | null): string {
+  let text = value === null ? "" : String(value);
+  if (FORMULA_START.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per trip so payroll can import it without reading a header block
+export function mileageStatementCsv(statement: MileageStatement, names: StatementNames): string {
+  const header = ["Driver", "Month", "Trip", "Date", "Vehicle", "Purpose", "Usage", "Km", "Treatment", "Rate per km", "Amount"];
+  const rows = statement.lines.map(line => [
+    names.driver,
+    statement.month,
+    line.tripId,
+    line.startTime.slice(0, 10),
+    names.vehicle(line.vehicleId),
+    line.purpose,
+    line.usage,
+    line.km.toFixed(1),
+    treatmentLabels[line.treatment],
+    line.ratePerKm.toFixed(2),
+    line.amount.toFixed(2),
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FONT_SIZE = 9;
+const LEADING = 13;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING);
+
+// The built-in Courier font only covers plain ASCII reliably
+function pdfText(value: string): string {
+  return value
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+function pad(value: string, width: number, alignRight = false): string {
+  const cut = value.length > width ? value.slice(0, width - 1) + "~" : value;
+  return alignRight ? cut.padStart(width) : cut.padEnd(width);
+}
+
+// A text-only PDF in a fixed-width font so the columns line up without measuring text
+function buildPdf(textLines: string[]): Buffer {
+  const pages: string[][] = [];
+  for (let i = 0; i < textLines.length; i += LINES_PER_PAGE) {
+    pages.push(textLines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>");
+  pages.forEach((lines, index) => {
+    const content = [
+      "BT",
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LEADING} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...lines.map(line => `(${pdfText(line)}) Tj T*`),
+      "ET",
+    ].join("\n");
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`);
+    objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(pdf, "latin1"));
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
+
+export function mileageStatementPdf(statement: MileageStatement, names: StatementNames): Buffer {
+  const status = statement.status === "approved"
+    ? `Approved${names.decidedBy ? ` by ${names.decidedBy}` : ""}${statement.decidedAt ? ` on ${statement.decidedAt.toISOString().slice(0, 10)}` : ""}`
+    : statement.status === "rejected" ? "Rejected" : "Submitted, awaiting approval";
+
+  const lines = [
+    `Mileage statement ${statement.month} - ${names.driver}`,
+    `Status: ${status}`,
+    `Submitted: ${statement.submittedAt.toISOString().slice(0, 10)}`,
+    "",
+    `${pad("Date", 11)}${pad("Vehicle", 24)}${pad("Usage", 10)}${pad("Km", 9, true)}${pad("Rate", 8, true)}${pad("Amount", 11, true)}  Type`,
+    "-".repeat(90),
+    ...statement.lines.map(line =>
+      `${pad(line.startTime.slice(0, 10), 11)}${pad(names.vehicle(line.vehicleId), 24)}${pad(line.usage, 10)}` +
+      `${pad(line.km.toFixed(1), 9, true)}${pad(line.ratePerKm.toFixed(2), 8, true)}${pad(line.amount.toFixed(2), 11, true)}  ${treatmentLabels[line.treatment]}`
+    ),
+    "-".repeat(90),
+    "",
+    `Trips: ${statement.lines.length}`,
+    `Total distance: ${statement.totalKm.toFixed(1)} km`,
+    `Reimbursement due to driver: ${statement.reimbursementTotal.toFixed(2)}`,
+    `Benefit in kind for payroll: ${statement.benefitTotal.toFixed(2)}`,
+  ];
+  if (statement.lines.length === 0) {
+    lines.splice(6, 0, "No completed trips this month.");
+  }
+
+  return buildPdf(lines);
+}
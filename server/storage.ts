@@ -1,18 +1,356 @@
-import { User, InsertUser, Vehicle, InsertVehicle, Maintenance, InsertMaintenance, Trip, InsertTrip, Booking, InsertBooking } from "@shared/schema";
-import { users, vehicles, maintenance, trips, bookings } from "@shared/schema";
-import { eq, and, desc, lt, gte, isNull, sql } from "drizzle-orm";
+import { User, InsertUser, Vehicle, InsertVehicle, VehicleStatus, VehicleStatusChange, Maintenance, InsertMaintenance, MaintenancePlan, InsertMaintenancePlan, Vendor, InsertVendor, Part, InsertPart, PartMovement, PartMovementInput, Trip, InsertTrip, TripRoute, TripSearch, TripPage, Booking, InsertBooking, BookingDecision, BookingSeries, VehicleAvailability, VehicleBlockReason, VehicleSchedule, VehicleCategory, BookingPolicy, InsertBookingPolicy, BookingBlackout, InsertBookingBlackout, WaitlistEntry, InsertWaitlistEntry, Notification, OdometerReading, FuelLog, InsertFuelLog, InspectionTemplate, InsertInspectionTemplate, Inspection, InsertInspection, MileageRate, InsertMileageRate, MileageStatement, MileageStatementPreview, Incident, InsertIncident, IncidentInvestigation, TrafficCharge, InsertTrafficCharge, TrafficChargeMatch } from "@shared/schema";
+import { users, vehicles, vehicleStatusChanges, maintenance, maintenancePlans, vendors, parts, partMovements, trips, tripRoutes, odometerReadings, fuelLogs, inspectionTemplates, inspections, mileageRates, mileageStatements, incidents, trafficCharges, bookings, bookingDecisions, bookingSeries, bookingPolicies, bookingBlackouts, waitlistEntries, notifications } from "@shared/schema";
+import type { Occurrence } from "@shared/recurrence";
+import { eq, and, or, asc, desc, lt, lte, gt, gte, ne, inArray, notInArray, isNull, ilike, sql, SQL } from "drizzle-orm";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { db } from "./db";
+import { OdometerError, OdometerReadingInput, assessOdometerReading, checkOdometerReview, ledgerMileage, supersededReadings } from "./odometer";
+import { fuelLogTotalCost } from "./fuel-efficiency";
+import { maintenanceCost } from "@shared/work-orders";
+import { StatusChangeSource } from "./vehicle-downtime";
+import { StockError, applyPartMovement, partConsumptionChanges, requiredPartQuantities } from "./parts";
+import { checkIncidentTransition } from "./incidents";
+import { checkMileageStatementLock } from "./mileage";
+import { findPolicyViolations } from "./booking-policies";
+import { DEFAULT_INSPECTION_TEMPLATES, InspectionError, checkInspectionTrip, failedItemMaintenance, gradeInspection, requiredInspectionKind, tripInspectionToLink } from "./inspections";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Booking statuses that no longer hold the vehicle
+const INACTIVE_BOOKING_STATUSES: Booking["status"][] = ["cancelled", "declined"];
+
+// Thrown when a booking overlaps other active bookings for the same vehicle
+export class BookingConflictError extends Error {
+  conflicts: Booking[];
+  
+  constructor(conflicts: Booking[]) {
+    super(`Vehicle already booked for ${conflicts.length} overlapping booking(s)`);
+    this.name = "BookingConflictError";
+    this.conflicts = conflicts;
+  }
+}
+
+// Two time windows overlap when each starts before the other ends
+function windowsOverlap(startA: Date, endA: Date, startB: Date, endB: Date): boolean {
+  return startA.getTime() < endB.getTime() && endA.getTime() > startB.getTime();
+}
+
+// Trip statuses that keep the vehicle busy
+const ACTIVE_TRIP_STATUSES: Trip["status"][] = ["planned", "in_progress"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead a trip without an end time or maintenance under way blocks its vehicle
+const OPEN_BLOCK_MS = DAY_MS;
+
+// Trip odometers must run forwards, and a trip still to be driven cannot start below what the
+// vehicle has already done. Completed trips logged afterwards are checked by the ledger alone.
+function checkTripOdometers(trip: Pick<Trip, "status" | "startOdometer" | "endOdometer">, currentMileage?: number): void {
+  if (currentMileage !== undefined && trip.status !== 'completed' && trip.startOdometer < currentMileage) {
+    throw new OdometerError(`Odometer reading ${trip.startOdometer} is below the vehicle's current mileage of ${currentMileage}`);
+  }
+  if (trip.endOdometer != null && trip.endOdometer < trip.startOdometer) {
+    throw new OdometerError(`Odometer reading ${trip.endOdometer} at the end of the trip is below its starting reading of ${trip.startOdometer}`);
+  }
+}
+
+// Ledger readings for a trip's start and end. Planned and cancelled trips were never driven,
+// and when a trip is updated only the readings that actually changed are recorded again.
+function tripOdometerReadings(trip: Trip, previous?: Trip): OdometerReadingInput[] {
+  const readings: OdometerReadingInput[] = [];
+  if (trip.status === 'planned' || trip.status === 'cancelled') return readings;
+  
+  const startRecorded = previous && previous.status !== 'planned' && previous.status !== 'cancelled';
+  if (!startRecorded || previous.startOdometer !== trip.startOdometer) {
+    readings.push({
+      vehicleId: trip.vehicleId,
+      reading: trip.startOdometer,
+      recordedAt: new Date(trip.startTime),
+      source: 'trip_start',
+      tripId: trip.id,
+      recordedById: trip.driverId
+    });
+  }
+  
+  const endRecorded = previous && previous.status === 'completed';
+  if (trip.status === 'completed' && trip.endOdometer != null && (!endRecorded || previous.endOdometer !== trip.endOdometer)) {
+    readings.push({
+      vehicleId: trip.vehicleId,
+      reading: trip.endOdometer,
+      recordedAt: new Date(trip.endTime ?? new Date()),
+      source: 'trip_end',
+      tripId: trip.id,
+      recordedById: trip.driverId
+    });
+  }
+  
+  return readings;
+}
+
+// A maintenance record goes into the ledger when its odometer or date changes
+function maintenanceReadingChanged(updated: Maintenance, previous: Maintenance): boolean {
+  return updated.odometer != null &&
+    (updated.odometer !== previous.odometer || new Date(updated.date).getTime() !== new Date(previous.date).getTime());
+}
+
+function newestReadingFirst(a: OdometerReading, b: OdometerReading): number {
+  return b.recordedAt.getTime() - a.recordedAt.getTime() || b.id - a.id;
+}
+
+function newFuelLog(data: InsertFuelLog): Omit<FuelLog, "id" | "createdAt"> {
+  return {
+    vehicleId: data.vehicleId,
+    driverId: data.driverId ?? null,
+    filledAt: new Date(data.filledAt),
+    litres: data.litres,
+    unitPrice: data.unitPrice,
+    totalCost: fuelLogTotalCost(data.litres, data.unitPrice, data.totalCost),
+    odometer: data.odometer,
+    station: data.station ?? null,
+    fullTank: data.fullTank ?? true,
+    tripId: data.tripId ?? null,
+    notes: data.notes ?? null
+  };
+}
+
+// The total cost is worked out again when litres or price change without a new total
+function applyFuelLogChanges(existing: FuelLog, data: Partial<InsertFuelLog>): FuelLog {
+  const { filledAt, totalCost, ...otherData } = data;
+  const updated: FuelLog = { ...existing, ...otherData };
+  if (filledAt !== undefined) {
+    updated.filledAt = new Date(filledAt);
+  }
+  if (totalCost !== undefined || data.litres !== undefined || data.unitPrice !== undefined) {
+    updated.totalCost = fuelLogTotalCost(updated.litres, updated.unitPrice, totalCost);
+  }
+  return updated;
+}
+
+// Each fill-up is also an odometer reading
+function fuelOdometerReading(log: FuelLog): OdometerReadingInput {
+  return {
+    vehicleId: log.vehicleId,
+    reading: log.odometer,
+    recordedAt: log.filledAt,
+    source: 'fuel',
+    fuelLogId: log.id,
+    recordedById: log.driverId
+  };
+}
+
+function fuelReadingChanged(updated: FuelLog, previous: FuelLog): boolean {
+  return updated.odometer !== previous.odometer || updated.filledAt.getTime() !== previous.filledAt.getTime();
+}
+
+// Work out which vehicles are free for the whole window and what blocks the others.
+// Trips without an end time and maintenance already in progress block the vehicle until
+// OPEN_BLOCK_MS past now (or past their start, if later), so a late return holds it without
+// blocking every future window. A trip started from a booking is also covered by the booking.
+function buildVehicleAvailability(
+  vehicleList: Vehicle[],
+  bookingList: Booking[],
+  tripList: Trip[],
+  maintenanceList: Maintenance[],
+  startTime: Date,
+  endTime: Date,
+  excludeBookingId?: number
+): VehicleAvailability[] {
+  const now = Date.now();
+  const openEnd = (start: Date) => new Date(Math.max(start.getTime(), now) + OPEN_BLOCK_MS);
+  
+  return vehicleList.map(vehicle => {
+    const blockedBy: VehicleBlockReason[] = [];
+    
+    if (vehicle.status === 'out_of_service') {
+      blockedBy.push({ type: 'out_of_service' });
+    }
+    
+    for (const booking of bookingList) {
+      if (booking.vehicleId !== vehicle.id || booking.id === excludeBookingId) continue;
+      if (INACTIVE_BOOKING_STATUSES.includes(booking.status)) continue;
+      
+      const bookingStart = new Date(booking.startTime);
+      const bookingEnd = new Date(booking.endTime);
+      if (windowsOverlap(bookingStart, bookingEnd, startTime, endTime)) {
+        blockedBy.push({ type: 'booking', bookingId: booking.id, startTime: bookingStart, endTime: bookingEnd });
+      }
+    }
+    
+    for (const trip of tripList) {
+      if (trip.vehicleId !== vehicle.id || !ACTIVE_TRIP_STATUSES.includes(trip.status)) continue;
+      
+      const tripStart = new Date(trip.startTime);
+      const tripEnd = trip.endTime ? new Date(trip.endTime) : null;
+      if (windowsOverlap(tripStart, tripEnd ?? openEnd(tripStart), startTime, endTime)) {
+        blockedBy.push({ type: 'trip', tripId: trip.id, startTime: tripStart, endTime: tripEnd });
+      }
+    }
+    
+    for (const record of maintenanceList) {
+      if (record.vehicleId !== vehicle.id || record.status === 'completed') continue;
+      
+      const maintenanceStart = new Date(`${record.date}T00:00:00`);
+      const maintenanceEnd = record.status === 'in_progress'
+        ? openEnd(maintenanceStart)
+        : new Date(maintenanceStart.getTime() + DAY_MS);
+      if (windowsOverlap(maintenanceStart, maintenanceEnd, startTime, endTime)) {
+        blockedBy.push({ type: 'maintenance', maintenanceId: record.id, date: record.date, description: record.description });
+      }
+    }
+    
+    return { vehicle, available: blockedBy.length === 0, blockedBy };
+  });
+}
+
+// Free vehicles of a category for a window, least driven first so assignments even out mileage
+function freeCategoryVehicles(availability: VehicleAvailability[], category: VehicleCategory | null): Vehicle[] {
+  return availability
+    .filter(a => a.available && a.vehicle.category === category)
+    .map(a => a.vehicle)
+    .sort((a, b) => a.mileage - b.mileage || a.id - b.id);
+}
+
+// A category booking fits when more vehicles of the class are free than other
+// category bookings already waiting for one in the same window
+function categoryHasCapacity(
+  availability: VehicleAvailability[],
+  bookingList: Booking[],
+  category: VehicleCategory,
+  startTime: Date,
+  endTime: Date
+): boolean {
+  const waiting = bookingList.filter(booking =>
+    booking.vehicleId === null &&
+    booking.category === category &&
+    !INACTIVE_BOOKING_STATUSES.includes(booking.status) &&
+    windowsOverlap(new Date(booking.startTime), new Date(booking.endTime), startTime, endTime)
+  );
+  return freeCategoryVehicles(availability, category).length > waiting.length;
+}
+
+// Everything shown on the calendar for a window. Unlike availability this keeps
+// finished trips and completed maintenance so past days are not blank.
+function buildVehicleSchedule(
+  bookingList: Booking[],
+  tripList: Trip[],
+  maintenanceList: Maintenance[],
+  startTime: Date,
+  endTime: Date
+): VehicleSchedule {
+  const openEnd = new Date(8640000000000000);
+  
+  return {
+    bookings: bookingList.filter(booking =>
+      !INACTIVE_BOOKING_STATUSES.includes(booking.status) &&
+      windowsOverlap(new Date(booking.startTime), new Date(booking.endTime), startTime, endTime)
+    ),
+    trips: tripList.filter(trip =>
+      trip.status !== 'cancelled' &&
+      windowsOverlap(new Date(trip.startTime), trip.endTime ? new Date(trip.endTime) : openEnd, startTime, endTime)
+    ),
+    maintenance: maintenanceList.filter(record => {
+      const maintenanceStart = new Date(`${record.date}T00:00:00`);
+      return windowsOverlap(maintenanceStart, new Date(maintenanceStart.getTime() + DAY_MS), startTime, endTime);
+    }),
+  };
+}
+
+// SQL condition matching active bookings of a vehicle that overlap the given window
+function conflictingBookingsCondition(vehicleId: number, startTime: Date, endTime: Date, excludeBookingId?: number) {
+  return and(
+    eq(bookings.vehicleId, vehicleId),
+    notInArray(bookings.status, INACTIVE_BOOKING_STATUSES),
+    lt(bookings.startTime, endTime),
+    gt(bookings.endTime, startTime),
+    excludeBookingId !== undefined ? ne(bookings.id, excludeBookingId) : undefined
+  );
+}
+
+// Recorded on bookings created despite policy violations
+export type BookingPolicyOverrideRecord = Pick<Booking, "policyOverrideRules" | "policyOverrideReason" | "policyOverrideById">;
+
+const NO_POLICY_OVERRIDE: BookingPolicyOverrideRecord = {
+  policyOverrideRules: null,
+  policyOverrideReason: null,
+  policyOverrideById: null,
+};
+
+// Series occurrences that can still be edited or cancelled
+const EDITABLE_BOOKING_STATUSES: Booking["status"][] = ["pending", "approved"];
+
+// Changes applied to several occurrences of a series at once. Time changes are
+// expressed as shifts so each occurrence keeps its own date. Occurrences can be cancelled
+// together, but approvals and declines are decided one booking at a time.
+export type BookingSeriesChanges = {
+  vehicleId?: number;
+  purpose?: string | null;
+  cancel?: boolean;
+  startShiftMs?: number;
+  endShiftMs?: number;
+  // Approved occurrences go back to pending (used when a requester moves them)
+  resetApproval?: boolean;
+  // Recorded when an approver moves the occurrences despite the booking policies
+  policyOverride?: BookingPolicyOverrideRecord;
+};
+
+export type BookingSeriesResult = {
+  series: BookingSeries;
+  bookings: Booking[];
+  skipped: (Occurrence & { conflicts: Booking[] })[];
+};
+
+function applySeriesChanges(booking: Booking, changes: BookingSeriesChanges): Booking {
+  const resetStatus = changes.resetApproval && booking.status === 'approved' ? 'pending' : booking.status;
+  return {
+    ...booking,
+    vehicleId: changes.vehicleId ?? booking.vehicleId,
+    purpose: changes.purpose !== undefined ? changes.purpose : booking.purpose,
+    status: changes.cancel ? 'cancelled' : resetStatus,
+    startTime: new Date(new Date(booking.startTime).getTime() + (changes.startShiftMs ?? 0)),
+    endTime: new Date(new Date(booking.endTime).getTime() + (changes.endShiftMs ?? 0)),
+    ...changes.policyOverride,
+  };
+}
+
+function seriesChangesNeedConflictCheck(changes: BookingSeriesChanges): boolean {
+  return changes.vehicleId !== undefined || !!changes.startShiftMs || !!changes.endShiftMs;
+}
+
+function uniqueBookings(list: Booking[]): Booking[] {
+  return Array.from(new Map(list.map(b => [b.id, b])).values());
+}
+
+// A booking that stops holding its vehicle frees the slot for waitlisted requests
+function bookingReleasesSlot(before: Booking, after: Booking): boolean {
+  return !INACTIVE_BOOKING_STATUSES.includes(before.status) && INACTIVE_BOOKING_STATUSES.includes(after.status);
+}
+
+function waitlistPromotionMessage(vehicle: Vehicle): string {
+  return `A slot opened up: your waitlist request for ${vehicle.make} ${vehicle.model} (${vehicle.registrationNumber}) is now a pending booking`;
+}
+
+// Re-check conflicts only when the booking window, vehicle, category or activity changes
+function bookingNeedsConflictCheck(existing: Booking, bookingData: Partial<Booking>): boolean {
+  const willBeActive = !INACTIVE_BOOKING_STATUSES.includes(bookingData.status ?? existing.status);
+  if (!willBeActive) return false;
+  
+  return bookingData.vehicleId !== undefined ||
+    bookingData.category !== undefined ||
+    bookingData.startTime !== undefined ||
+    bookingData.endTime !== undefined ||
+    INACTIVE_BOOKING_STATUSES.includes(existing.status);
+}
+
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
@@ -21,9 +359,12 @@ export interface IStorage {
   // Vehicle methods
   getVehicle(id: number): Promise<Vehicle | undefined>;
   createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
-  updateVehicle(id: number, vehicle: Partial<Vehicle>): Promise<Vehicle | undefined>;
+  // A status set by hand is recorded in the status history as a manual change by changedById
+  updateVehicle(id: number, vehicle: Partial<Vehicle>, changedById?: number): Promise<Vehicle | undefined>;
   deleteVehicle(id: number): Promise<boolean>;
   listVehicles(filters?: { status?: string, make?: string, year?: number }): Promise<Vehicle[]>;
+  // Oldest first; every vehicle's when no id is given
+  listVehicleStatusChanges(vehicleId?: number): Promise<VehicleStatusChange[]>;
   
   // Maintenance methods
   getMaintenance(id: number): Promise<Maintenance | undefined>;
@@ -32,24 +373,150 @@ export interface IStorage {
   deleteMaintenance(id: number): Promise<boolean>;
   listMaintenanceForVehicle(vehicleId: number): Promise<Maintenance[]>;
   listUpcomingMaintenance(): Promise<Maintenance[]>;
+  // Completed work, optionally only that finished on or after the given date
+  listCompletedMaintenance(filters?: { vehicleId?: number, from?: Date }): Promise<Maintenance[]>;
+  
+  // Preventive maintenance plan methods
+  getMaintenancePlan(id: number): Promise<MaintenancePlan | undefined>;
+  listMaintenancePlans(): Promise<MaintenancePlan[]>;
+  createMaintenancePlan(plan: InsertMaintenancePlan): Promise<MaintenancePlan>;
+  updateMaintenancePlan(id: number, plan: Partial<InsertMaintenancePlan>): Promise<MaintenancePlan | undefined>;
+  deleteMaintenancePlan(id: number): Promise<boolean>;
+  listPlannedMaintenance(): Promise<Maintenance[]>;
+  // Opens the record for a plan's coming service, unless the vehicle already has one open
+  createPlannedMaintenance(maintenance: InsertMaintenance & { planId: number }): Promise<Maintenance | undefined>;
+  
+  // Service vendor methods
+  getVendor(id: number): Promise<Vendor | undefined>;
+  listVendors(): Promise<Vendor[]>;
+  createVendor(vendor: InsertVendor): Promise<Vendor>;
+  updateVendor(id: number, vendor: Partial<InsertVendor>): Promise<Vendor | undefined>;
+  deleteVendor(id: number): Promise<boolean>;
+  listMaintenanceForVendor(vendorId: number): Promise<Maintenance[]>;
+  // Jobs recorded as rework of any of the given records
+  listReworkMaintenance(reworkOfIds: number[]): Promise<Maintenance[]>;
+  
+  // Spare parts inventory methods
+  getPart(id: number): Promise<Part | undefined>;
+  listParts(): Promise<Part[]>;
+  createPart(part: InsertPart): Promise<Part>;
+  updatePart(id: number, part: Partial<InsertPart>): Promise<Part | undefined>;
+  deletePart(id: number): Promise<boolean>;
+  listPartMovements(partId: number): Promise<PartMovement[]>;
+  // Receipts and stock count adjustments; consumption is posted from maintenance records
+  recordPartMovement(partId: number, movement: PartMovementInput, recordedById: number): Promise<PartMovement>;
   
   // Trip methods
   getTrip(id: number): Promise<Trip | undefined>;
-  createTrip(trip: InsertTrip): Promise<Trip>;
-  updateTrip(id: number, trip: Partial<Trip>): Promise<Trip | undefined>;
+  // Drivers moving their own trips need the pre-trip or post-trip inspection on file;
+  // admins and moderators pass requireInspection false
+  createTrip(trip: InsertTrip, requireInspection?: boolean): Promise<Trip>;
+  updateTrip(id: number, trip: Partial<Trip>, requireInspection?: boolean): Promise<Trip | undefined>;
   deleteTrip(id: number): Promise<boolean>;
   listTripsForVehicle(vehicleId: number): Promise<Trip[]>;
   listTripsForDriver(driverId: number): Promise<Trip[]>;
   listActiveTrips(): Promise<Trip[]>;
+  searchTrips(search: TripSearch): Promise<TripPage>;
+  
+  // Trip route methods
+  getTripRoute(tripId: number): Promise<TripRoute | undefined>;
+  saveTripRoute(route: Omit<TripRoute, "id" | "uploadedAt">): Promise<TripRoute>;
+  deleteTripRoute(tripId: number): Promise<boolean>;
+  
+  // Odometer ledger methods
+  listOdometerReadings(vehicleId: number): Promise<OdometerReading[]>;
+  // Every vehicle's ledger at once, for fleet-wide calculations
+  listAllOdometerReadings(): Promise<OdometerReading[]>;
+  listFlaggedOdometerReadings(): Promise<OdometerReading[]>;
+  recordOdometerReading(reading: OdometerReadingInput): Promise<OdometerReading>;
+  reviewOdometerReading(id: number, decision: "accept" | "void", reviewedById: number): Promise<OdometerReading | undefined>;
+  
+  // Fuel log methods
+  getFuelLog(id: number): Promise<FuelLog | undefined>;
+  listFuelLogs(filters?: { vehicleId?: number, driverId?: number }): Promise<FuelLog[]>;
+  createFuelLog(log: InsertFuelLog): Promise<FuelLog>;
+  updateFuelLog(id: number, log: Partial<InsertFuelLog>): Promise<FuelLog | undefined>;
+  deleteFuelLog(id: number): Promise<boolean>;
+  
+  // Inspection methods
+  listInspectionTemplates(): Promise<InspectionTemplate[]>;
+  getInspectionTemplate(id: number): Promise<InspectionTemplate | undefined>;
+  createInspectionTemplate(template: InsertInspectionTemplate): Promise<InspectionTemplate>;
+  updateInspectionTemplate(id: number, template: Partial<InsertInspectionTemplate>): Promise<InspectionTemplate | undefined>;
+  getInspection(id: number): Promise<Inspection | undefined>;
+  listInspections(filters?: { vehicleId?: number, tripId?: number, inspectorId?: number }): Promise<Inspection[]>;
+  createInspection(inspection: InsertInspection, inspectorId: number): Promise<Inspection>;
+  
+  // Mileage statement methods
+  listMileageRates(): Promise<MileageRate[]>;
+  saveMileageRate(rate: InsertMileageRate): Promise<MileageRate>;
+  getMileageStatement(id: number): Promise<MileageStatement | undefined>;
+  findMileageStatement(driverId: number, month: string): Promise<MileageStatement | undefined>;
+  listMileageStatements(filters?: { driverId?: number, status?: MileageStatement["status"] }): Promise<MileageStatement[]>;
+  submitMileageStatement(statement: MileageStatementPreview): Promise<MileageStatement>;
+  decideMileageStatement(id: number, decision: { status: "approved" | "rejected", decidedById: number, reason?: string | null }): Promise<MileageStatement | undefined>;
+  
+  // Incident methods
+  getIncident(id: number): Promise<Incident | undefined>;
+  listIncidents(filters?: { vehicleId?: number, driverId?: number, status?: Incident["status"], involvingUserId?: number }): Promise<Incident[]>;
+  createIncident(incident: InsertIncident, reportedById: number): Promise<Incident>;
+  updateIncident(id: number, incident: Partial<InsertIncident>): Promise<Incident | undefined>;
+  investigateIncident(id: number, investigation: IncidentInvestigation, investigatorId: number): Promise<Incident | undefined>;
+  deleteIncident(id: number): Promise<boolean>;
+  
+  // Traffic charge methods
+  getTrafficCharge(id: number): Promise<TrafficCharge | undefined>;
+  listTrafficCharges(filters?: { status?: TrafficCharge["status"], kind?: TrafficCharge["kind"], driverId?: number, from?: Date, to?: Date }): Promise<TrafficCharge[]>;
+  findTrafficChargeByReference(kind: TrafficCharge["kind"], reference: string): Promise<TrafficCharge | undefined>;
+  createTrafficCharge(charge: InsertTrafficCharge, match: TrafficChargeMatch, importedById: number): Promise<TrafficCharge>;
+  updateTrafficChargeMatch(id: number, match: TrafficChargeMatch, resolvedById: number | null): Promise<TrafficCharge | undefined>;
+  deleteTrafficCharge(id: number): Promise<boolean>;
   
   // Booking methods
   getBooking(id: number): Promise<Booking | undefined>;
-  createBooking(booking: InsertBooking): Promise<Booking>;
+  createBooking(booking: InsertBooking, policyOverride?: BookingPolicyOverrideRecord): Promise<Booking>;
   updateBooking(id: number, booking: Partial<Booking>): Promise<Booking | undefined>;
   deleteBooking(id: number): Promise<boolean>;
   listBookingsForVehicle(vehicleId: number): Promise<Booking[]>;
   listBookingsForUser(userId: number): Promise<Booking[]>;
   listAllBookings(): Promise<Booking[]>;
+  findConflictingBookings(vehicleId: number, startTime: Date, endTime: Date, excludeBookingId?: number): Promise<Booking[]>;
+  
+  // Booking series methods
+  getBookingSeries(id: number): Promise<BookingSeries | undefined>;
+  createBookingSeries(series: Omit<BookingSeries, "id" | "createdAt">, booking: InsertBooking, occurrences: Occurrence[], skipConflicts: boolean, policyOverride?: BookingPolicyOverrideRecord): Promise<BookingSeriesResult>;
+  updateBookingSeries(seriesId: number, fromStartTime: Date | undefined, changes: BookingSeriesChanges): Promise<Booking[]>;
+  
+  // Booking approval methods
+  listPendingBookings(): Promise<Booking[]>;
+  decideBooking(id: number, decision: { status: "approved" | "declined", decidedById: number, reason?: string | null }): Promise<Booking | undefined>;
+  listBookingDecisions(bookingId: number): Promise<BookingDecision[]>;
+  startTripFromBooking(bookingId: number, startOdometer?: number, requireInspection?: boolean): Promise<Trip | undefined>;
+  
+  // Booking policy methods
+  listBookingPolicies(): Promise<BookingPolicy[]>;
+  getBookingPolicy(vehicleId: number | null): Promise<BookingPolicy | undefined>;
+  saveBookingPolicy(policy: InsertBookingPolicy): Promise<BookingPolicy>;
+  deleteBookingPolicy(id: number): Promise<boolean>;
+  listBookingBlackouts(vehicleId?: number): Promise<BookingBlackout[]>;
+  createBookingBlackout(blackout: InsertBookingBlackout, createdById: number): Promise<BookingBlackout>;
+  deleteBookingBlackout(id: number): Promise<boolean>;
+  countActiveBookingsForUser(userId: number): Promise<number>;
+  
+  // Waitlist methods
+  getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined>;
+  createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  cancelWaitlistEntry(id: number): Promise<WaitlistEntry | undefined>;
+  listWaitlistEntries(userId?: number): Promise<WaitlistEntry[]>;
+  
+  // Notification methods
+  createNotification(notification: Pick<Notification, "userId" | "message"> & { link?: string | null }): Promise<Notification>;
+  listNotifications(userId: number): Promise<Notification[]>;
+  markNotificationsRead(userId: number, ids?: number[]): Promise<number>;
+  
+  // Availability methods
+  listVehicleAvailability(startTime: Date, endTime: Date, excludeBookingId?: number): Promise<VehicleAvailability[]>;
+  listVehicleSchedule(startTime: Date, endTime: Date): Promise<VehicleSchedule>;
   
   // Session store
   sessionStore: any; // Use 'any' type for sessionStore to avoid TypeScript errors
@@ -58,30 +525,110 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private vehicles: Map<number, Vehicle>;
+  private vehicleStatusChanges: Map<number, VehicleStatusChange>;
   private maintenances: Map<number, Maintenance>;
+  private maintenancePlans: Map<number, MaintenancePlan>;
+  private vendors: Map<number, Vendor>;
+  private parts: Map<number, Part>;
+  private partMovements: Map<number, PartMovement>;
   private trips: Map<number, Trip>;
+  private tripRoutes: Map<number, TripRoute>;
+  private odometerReadings: Map<number, OdometerReading>;
+  private fuelLogs: Map<number, FuelLog>;
+  private inspectionTemplates: Map<number, InspectionTemplate>;
+  private inspections: Map<number, Inspection>;
+  private mileageRates: Map<number, MileageRate>;
+  private mileageStatements: Map<number, MileageStatement>;
+  private incidents: Map<number, Incident>;
+  private trafficCharges: Map<number, TrafficCharge>;
   private bookings: Map<number, Booking>;
+  private bookingDecisions: Map<number, BookingDecision>;
+  private bookingSeries: Map<number, BookingSeries>;
+  private bookingPolicies: Map<number, BookingPolicy>;
+  private bookingBlackouts: Map<number, BookingBlackout>;
+  private waitlistEntries: Map<number, WaitlistEntry>;
+  private notifications: Map<number, Notification>;
   
   sessionStore: session.SessionStore;
   
   private userIdCounter: number;
   private vehicleIdCounter: number;
+  private vehicleStatusChangeIdCounter: number;
   private maintenanceIdCounter: number;
+  private maintenancePlanIdCounter: number;
+  private vendorIdCounter: number;
+  private partIdCounter: number;
+  private partMovementIdCounter: number;
   private tripIdCounter: number;
+  private tripRouteIdCounter: number;
+  private odometerReadingIdCounter: number;
+  private fuelLogIdCounter: number;
+  private inspectionTemplateIdCounter: number;
+  private inspectionIdCounter: number;
+  private mileageRateIdCounter: number;
+  private mileageStatementIdCounter: number;
+  private incidentIdCounter: number;
+  private trafficChargeIdCounter: number;
   private bookingIdCounter: number;
+  private bookingDecisionIdCounter: number;
+  private bookingSeriesIdCounter: number;
+  private bookingPolicyIdCounter: number;
+  private bookingBlackoutIdCounter: number;
+  private waitlistEntryIdCounter: number;
+  private notificationIdCounter: number;
   
   constructor() {
     this.users = new Map();
     this.vehicles = new Map();
+    this.vehicleStatusChanges = new Map();
     this.maintenances = new Map();
+    this.maintenancePlans = new Map();
+    this.vendors = new Map();
+    this.parts = new Map();
+    this.partMovements = new Map();
     this.trips = new Map();
+    this.tripRoutes = new Map();
+    this.odometerReadings = new Map();
+    this.fuelLogs = new Map();
+    this.inspectionTemplates = new Map();
+    this.inspections = new Map();
+    this.mileageRates = new Map();
+    this.mileageStatements = new Map();
+    this.incidents = new Map();
+    this.trafficCharges = new Map();
     this.bookings = new Map();
+    this.bookingDecisions = new Map();
+    this.bookingSeries = new Map();
+    this.bookingPolicies = new Map();
+    this.bookingBlackouts = new Map();
+    this.waitlistEntries = new Map();
+    this.notifications = new Map();
     
     this.userIdCounter = 1;
     this.vehicleIdCounter = 1;
+    this.vehicleStatusChangeIdCounter = 1;
     this.maintenanceIdCounter = 1;
+    this.maintenancePlanIdCounter = 1;
+    this.vendorIdCounter = 1;
+    this.partIdCounter = 1;
+    this.partMovementIdCounter = 1;
     this.tripIdCounter = 1;
+    this.tripRouteIdCounter = 1;
+    this.odometerReadingIdCounter = 1;
+    this.fuelLogIdCounter = 1;
+    this.inspectionTemplateIdCounter = 1;
+    this.inspectionIdCounter = 1;
+    this.mileageRateIdCounter = 1;
+    this.mileageStatementIdCounter = 1;
+    this.incidentIdCounter = 1;
+    this.trafficChargeIdCounter = 1;
     this.bookingIdCounter = 1;
+    this.bookingDecisionIdCounter = 1;
+    this.bookingSeriesIdCounter = 1;
+    this.bookingPolicyIdCounter = 1;
+    this.bookingBlackoutIdCounter = 1;
+    this.waitlistEntryIdCounter = 1;
+    this.notificationIdCounter = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // Prune expired entries every 24h
@@ -100,6 +647,11 @@ export class MemStorage implements IStorage {
       phone: "555-123-4567"
     });
     
+    // Trips cannot start without a pre-trip checklist, so there is always one to use
+    for (const template of DEFAULT_INSPECTION_TEMPLATES) {
+      this.createInspectionTemplate(template);
+    }
+    
     // Add some sample vehicles
     this.setupSampleData();
   }
@@ -119,6 +671,12 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.calendarToken === token
+    );
+  }
+  
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
     const user: User = { 
@@ -129,7 +687,8 @@ export class MemStorage implements IStorage {
       role: insertUser.role || "moderator",
       position: insertUser.position || null,
       email: insertUser.email || null,
-      phone: insertUser.phone || null
+      phone: insertUser.phone || null,
+      calendarToken: null
     };
     this.users.set(id, user);
     return user;
@@ -159,24 +718,72 @@ export class MemStorage implements IStorage {
   
   async createVehicle(insertVehicle: InsertVehicle): Promise<Vehicle> {
     const id = this.vehicleIdCounter++;
-    const vehicle: Vehicle = { ...insertVehicle, id };
+    const vehicle: Vehicle = { ...insertVehicle, id, status: insertVehicle.status ?? 'available' };
     this.vehicles.set(id, vehicle);
+    await this.recordOdometerReading({ vehicleId: id, reading: vehicle.mileage, recordedAt: new Date(), source: 'initial' });
+    this.appendStatusChange(vehicle.id, null, vehicle.status, { cause: 'manual' });
     return vehicle;
   }
   
-  async updateVehicle(id: number, vehicleData: Partial<Vehicle>): Promise<Vehicle | undefined> {
+  async updateVehicle(id: number, vehicleData: Partial<Vehicle>, changedById?: number): Promise<Vehicle | undefined> {
     const vehicle = this.vehicles.get(id);
     if (!vehicle) return undefined;
     
-    const updatedVehicle = { ...vehicle, ...vehicleData };
-    this.vehicles.set(id, updatedVehicle);
-    return updatedVehicle;
+    // A new mileage is a manual reading, so it has to fit the ledger like any other
+    const { mileage, status, ...otherData } = vehicleData;
+    if (mileage !== undefined && mileage !== vehicle.mileage) {
+      await this.recordOdometerReading({ vehicleId: id, reading: mileage, recordedAt: new Date(), source: 'manual' });
+    }
+    
+    this.vehicles.set(id, { ...this.vehicles.get(id)!, ...otherData });
+    if (status !== undefined) {
+      this.setVehicleStatus(id, status, { cause: 'manual', changedById });
+    }
+    return this.vehicles.get(id);
   }
   
   async deleteVehicle(id: number): Promise<boolean> {
+    // Plans written for this one vehicle go with it, and so does its status history
+    for (const plan of Array.from(this.maintenancePlans.values())) {
+      if (plan.vehicleId === id) this.maintenancePlans.delete(plan.id);
+    }
+    for (const change of Array.from(this.vehicleStatusChanges.values())) {
+      if (change.vehicleId === id) this.vehicleStatusChanges.delete(change.id);
+    }
     return this.vehicles.delete(id);
   }
   
+  async listVehicleStatusChanges(vehicleId?: number): Promise<VehicleStatusChange[]> {
+    return Array.from(this.vehicleStatusChanges.values())
+      .filter(change => vehicleId === undefined || change.vehicleId === vehicleId)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime() || a.id - b.id);
+  }
+  
+  // Moves a vehicle to a new status and records the change in its history
+  private setVehicleStatus(vehicleId: number, status: VehicleStatus, source: StatusChangeSource): void {
+    const vehicle = this.vehicles.get(vehicleId);
+    if (!vehicle || vehicle.status === status) return;
+    
+    this.vehicles.set(vehicleId, { ...vehicle, status });
+    this.appendStatusChange(vehicleId, vehicle.status, status, source);
+  }
+  
+  private appendStatusChange(vehicleId: number, fromStatus: VehicleStatus | null, toStatus: VehicleStatus, source: StatusChangeSource): void {
+    const id = this.vehicleStatusChangeIdCounter++;
+    this.vehicleStatusChanges.set(id, {
+      id,
+      vehicleId,
+      fromStatus,
+      toStatus,
+      cause: source.cause,
+      maintenanceId: source.maintenanceId ?? null,
+      tripId: source.tripId ?? null,
+      inspectionId: source.inspectionId ?? null,
+      changedById: source.changedById ?? null,
+      changedAt: new Date()
+    });
+  }
+  
   async listVehicles(filters?: { status?: string, make?: string, year?: number }): Promise<Vehicle[]> {
     let vehicles = Array.from(this.vehicles.values());
     
@@ -202,13 +809,35 @@ export class MemStorage implements IStorage {
   
   async createMaintenance(insertMaintenance: InsertMaintenance): Promise<Maintenance> {
     const id = this.maintenanceIdCounter++;
-    const maintenance: Maintenance = { ...insertMaintenance, id };
+    const lines = insertMaintenance.lines ?? [];
+    const maintenance: Maintenance = {
+      ...insertMaintenance,
+      id,
+      lines,
+      cost: maintenanceCost({ cost: insertMaintenance.cost ?? null, lines }),
+      vendorId: insertMaintenance.vendorId ?? null,
+      reworkOfId: insertMaintenance.reworkOfId ?? null,
+    };
+    
+    // Book out the parts first; a shortage stops the record being stored
+    this.syncPartConsumption(id, maintenance);
+    
+    // Check the odometer against the ledger before anything is stored
+    if (maintenance.odometer != null) {
+      await this.recordOdometerReading({
+        vehicleId: maintenance.vehicleId,
+        reading: maintenance.odometer,
+        recordedAt: new Date(maintenance.date),
+        source: 'maintenance',
+        maintenanceId: id
+      });
+    }
     this.maintenances.set(id, maintenance);
     
     // Update vehicle status to maintenance
     const vehicle = this.vehicles.get(maintenance.vehicleId);
     if (vehicle && vehicle.status === 'available') {
-      this.vehicles.set(vehicle.id, { ...vehicle, status: 'maintenance' });
+      this.setVehicleStatus(vehicle.id, 'maintenance', { cause: 'maintenance', maintenanceId: id });
     }
     
     return maintenance;
@@ -219,13 +848,24 @@ export class MemStorage implements IStorage {
     if (!maintenance) return undefined;
     
     const updatedMaintenance = { ...maintenance, ...maintenanceData };
+    updatedMaintenance.cost = maintenanceCost(updatedMaintenance);
+    this.syncPartConsumption(id, updatedMaintenance);
+    if (maintenanceReadingChanged(updatedMaintenance, maintenance)) {
+      await this.recordOdometerReading({
+        vehicleId: updatedMaintenance.vehicleId,
+        reading: updatedMaintenance.odometer!,
+        recordedAt: new Date(updatedMaintenance.date),
+        source: 'maintenance',
+        maintenanceId: id
+      });
+    }
     this.maintenances.set(id, updatedMaintenance);
     
     // If maintenance is completed, update vehicle status back to available
     if (maintenanceData.status === 'completed' && maintenanceData.completedAt) {
       const vehicle = this.vehicles.get(maintenance.vehicleId);
       if (vehicle && vehicle.status === 'maintenance') {
-        this.vehicles.set(vehicle.id, { ...vehicle, status: 'available' });
+        this.setVehicleStatus(vehicle.id, 'available', { cause: 'maintenance', maintenanceId: id });
       }
     }
     
@@ -233,6 +873,17 @@ export class MemStorage implements IStorage {
   }
   
   async deleteMaintenance(id: number): Promise<boolean> {
+    if (!this.maintenances.has(id)) return false;
+    
+    // Parts booked out on the record go back on the shelf
+    this.syncPartConsumption(id, undefined);
+    for (const movement of Array.from(this.partMovements.values())) {
+      if (movement.maintenanceId === id) this.partMovements.set(movement.id, { ...movement, maintenanceId: null });
+    }
+    for (const record of Array.from(this.maintenances.values())) {
+      if (record.reworkOfId === id) this.maintenances.set(record.id, { ...record, reworkOfId: null });
+    }
+    await this.voidLinkedReadings(entry => entry.maintenanceId === id);
     return this.maintenances.delete(id);
   }
   
@@ -247,41 +898,324 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
   }
   
+  async listCompletedMaintenance(filters?: { vehicleId?: number, from?: Date }): Promise<Maintenance[]> {
+    return Array.from(this.maintenances.values())
+      .filter(record => record.status === 'completed')
+      .filter(record => filters?.vehicleId === undefined || record.vehicleId === filters.vehicleId)
+      .filter(record => !filters?.from || new Date(record.completedAt ?? record.date) >= filters.from);
+  }
+  
+  // Preventive maintenance plan methods
+  async getMaintenancePlan(id: number): Promise<MaintenancePlan | undefined> {
+    return this.maintenancePlans.get(id);
+  }
+  
+  async listMaintenancePlans(): Promise<MaintenancePlan[]> {
+    return Array.from(this.maintenancePlans.values())
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+  
+  async createMaintenancePlan(planData: InsertMaintenancePlan): Promise<MaintenancePlan> {
+    const id = this.maintenancePlanIdCounter++;
+    const plan: MaintenancePlan = {
+      id,
+      name: planData.name,
+      vehicleId: planData.vehicleId ?? null,
+      make: planData.make,
+      model: planData.model,
+      intervalMileage: planData.intervalMileage ?? null,
+      intervalMonths: planData.intervalMonths ?? null,
+      intervalEngineHours: planData.intervalEngineHours ?? null,
+      estimatedCost: planData.estimatedCost ?? null,
+      active: planData.active ?? true,
+      notes: planData.notes ?? null,
+      createdAt: new Date(),
+    };
+    this.maintenancePlans.set(id, plan);
+    return plan;
+  }
+  
+  async updateMaintenancePlan(id: number, planData: Partial<InsertMaintenancePlan>): Promise<MaintenancePlan | undefined> {
+    const plan = this.maintenancePlans.get(id);
+    if (!plan) return undefined;
+    
+    const updatedPlan = { ...plan, ...planData };
+    this.maintenancePlans.set(id, updatedPlan);
+    return updatedPlan;
+  }
+  
+  async deleteMaintenancePlan(id: number): Promise<boolean> {
+    // Records already generated stay as ordinary maintenance
+    for (const record of Array.from(this.maintenances.values())) {
+      if (record.planId === id) this.maintenances.set(record.id, { ...record, planId: null });
+    }
+    return this.maintenancePlans.delete(id);
+  }
+  
+  async listPlannedMaintenance(): Promise<Maintenance[]> {
+    return Array.from(this.maintenances.values())
+      .filter(record => record.planId !== null);
+  }
+  
+  // Unlike createMaintenance this leaves the vehicle in service; the work is only booked
+  async createPlannedMaintenance(maintenanceData: InsertMaintenance & { planId: number }): Promise<Maintenance | undefined> {
+    const open = Array.from(this.maintenances.values()).some(record =>
+      record.planId === maintenanceData.planId &&
+      record.vehicleId === maintenanceData.vehicleId &&
+      record.status !== 'completed'
+    );
+    if (open) return undefined;
+    
+    const id = this.maintenanceIdCounter++;
+    const record: Maintenance = {
+      id,
+      vehicleId: maintenanceData.vehicleId,
+      type: maintenanceData.type,
+      description: maintenanceData.description,
+      date: maintenanceData.date,
+      cost: maintenanceData.cost ?? null,
+      odometer: null,
+      status: maintenanceData.status ?? 'pending',
+      notes: maintenanceData.notes ?? null,
+      completedAt: null,
+      engineHours: null,
+      planId: maintenanceData.planId,
+      lines: [],
+      vendorId: null,
+      reworkOfId: null,
+    };
+    this.maintenances.set(id, record);
+    return record;
+  }
+  
+  // Service vendor methods
+  async getVendor(id: number): Promise<Vendor | undefined> {
+    return this.vendors.get(id);
+  }
+  
+  async listVendors(): Promise<Vendor[]> {
+    return Array.from(this.vendors.values())
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+  
+  async createVendor(vendorData: InsertVendor): Promise<Vendor> {
+    const id = this.vendorIdCounter++;
+    const vendor: Vendor = {
+      id,
+      name: vendorData.name,
+      contactName: vendorData.contactName ?? null,
+      phone: vendorData.phone ?? null,
+      email: vendorData.email ?? null,
+      address: vendorData.address ?? null,
+      services: vendorData.services ?? [],
+      labourRate: vendorData.labourRate ?? null,
+      active: vendorData.active ?? true,
+      notes: vendorData.notes ?? null,
+      createdAt: new Date(),
+    };
+    this.vendors.set(id, vendor);
+    return vendor;
+  }
+  
+  async updateVendor(id: number, vendorData: Partial<InsertVendor>): Promise<Vendor | undefined> {
+    const vendor = this.vendors.get(id);
+    if (!vendor) return undefined;
+    
+    const updatedVendor = { ...vendor, ...vendorData };
+    this.vendors.set(id, updatedVendor);
+    return updatedVendor;
+  }
+  
+  async deleteVendor(id: number): Promise<boolean> {
+    return this.vendors.delete(id);
+  }
+  
+  async listMaintenanceForVendor(vendorId: number): Promise<Maintenance[]> {
+    return Array.from(this.maintenances.values())
+      .filter(record => record.vendorId === vendorId);
+  }
+  
+  async listReworkMaintenance(reworkOfIds: number[]): Promise<Maintenance[]> {
+    return Array.from(this.maintenances.values())
+      .filter(record => record.reworkOfId !== null && reworkOfIds.includes(record.reworkOfId));
+  }
+  
+  // Spare parts inventory methods
+  async getPart(id: number): Promise<Part | undefined> {
+    return this.parts.get(id);
+  }
+  
+  async listParts(): Promise<Part[]> {
+    return Array.from(this.parts.values())
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+  
+  async createPart(partData: InsertPart): Promise<Part> {
+    const duplicate = Array.from(this.parts.values()).some(part => part.partNumber === partData.partNumber);
+    if (duplicate) {
+      throw new StockError(`Part number ${partData.partNumber} is already in the catalogue`);
+    }
+    
+    const id = this.partIdCounter++;
+    const part: Part = {
+      id,
+      partNumber: partData.partNumber,
+      name: partData.name,
+      category: partData.category ?? 'other',
+      location: partData.location ?? null,
+      quantityOnHand: 0,
+      reorderPoint: partData.reorderPoint ?? 0,
+      unitCost: partData.unitCost ?? 0,
+      active: partData.active ?? true,
+      notes: partData.notes ?? null,
+      createdAt: new Date(),
+    };
+    this.parts.set(id, part);
+    return part;
+  }
+  
+  async updatePart(id: number, partData: Partial<InsertPart>): Promise<Part | undefined> {
+    const part = this.parts.get(id);
+    if (!part) return undefined;
+    
+    const duplicate = Array.from(this.parts.values()).some(other => other.id !== id && other.partNumber === partData.partNumber);
+    if (duplicate) {
+      throw new StockError(`Part number ${partData.partNumber} is already in the catalogue`);
+    }
+    
+    const updatedPart = { ...part, ...partData };
+    this.parts.set(id, updatedPart);
+    return updatedPart;
+  }
+  
+  async deletePart(id: number): Promise<boolean> {
+    for (const movement of Array.from(this.partMovements.values())) {
+      if (movement.partId === id) this.partMovements.delete(movement.id);
+    }
+    return this.parts.delete(id);
+  }
+  
+  async listPartMovements(partId: number): Promise<PartMovement[]> {
+    return Array.from(this.partMovements.values())
+      .filter(movement => movement.partId === partId)
+      .sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime() || b.id - a.id);
+  }
+  
+  async recordPartMovement(partId: number, movementData: PartMovementInput, recordedById: number): Promise<PartMovement> {
+    const part = this.parts.get(partId);
+    if (!part) throw new StockError("Part not found");
+    
+    this.parts.set(partId, { ...part, ...applyPartMovement(part, movementData.quantity, movementData.unitCost) });
+    const id = this.partMovementIdCounter++;
+    const movement: PartMovement = {
+      id,
+      partId,
+      type: movementData.type,
+      quantity: movementData.quantity,
+      unitCost: movementData.unitCost ?? part.unitCost,
+      maintenanceId: null,
+      reference: movementData.reference ?? null,
+      notes: movementData.notes ?? null,
+      recordedById,
+      recordedAt: new Date(),
+    };
+    this.partMovements.set(id, movement);
+    return movement;
+  }
+  
+  // Books parts out of stock, or back in, so the record's movements match the parts on its
+  // lines. Every change is checked before any is applied.
+  private syncPartConsumption(maintenanceId: number, record: Maintenance | undefined) {
+    const posted = Array.from(this.partMovements.values()).filter(movement => movement.maintenanceId === maintenanceId);
+    const changes = partConsumptionChanges(requiredPartQuantities(record), posted).map(change => {
+      const part = this.parts.get(change.partId);
+      if (!part) throw new StockError(`Part #${change.partId} not found`);
+      return { part, quantity: change.quantity, stock: applyPartMovement(part, change.quantity) };
+    });
+    
+    for (const change of changes) {
+      this.parts.set(change.part.id, { ...change.part, ...change.stock });
+      const id = this.partMovementIdCounter++;
+      this.partMovements.set(id, {
+        id,
+        partId: change.part.id,
+        type: change.quantity < 0 ? 'consumption' : 'return',
+        quantity: change.quantity,
+        unitCost: change.part.unitCost,
+        maintenanceId,
+        reference: `Maintenance #${maintenanceId}`,
+        notes: null,
+        recordedById: null,
+        recordedAt: new Date(),
+      });
+    }
+  }
+  
   // Trip methods
   async getTrip(id: number): Promise<Trip | undefined> {
     return this.trips.get(id);
   }
   
-  async createTrip(insertTrip: InsertTrip): Promise<Trip> {
+  async createTrip(insertTrip: InsertTrip, requireInspection = true): Promise<Trip> {
     const id = this.tripIdCounter++;
-    const trip: Trip = { ...insertTrip, id };
+    const trip: Trip = {
+      ...insertTrip,
+      usage: insertTrip.usage ?? 'business',
+      stops: insertTrip.stops ?? [],
+      passengers: insertTrip.passengers ?? [],
+      cargo: insertTrip.cargo ?? [],
+      id,
+      bookingId: null
+    };
+    
+    await this.checkMileageLock(undefined, trip);
+    checkTripOdometers(trip, this.vehicles.get(trip.vehicleId)?.mileage);
+    const inspection = tripInspectionToLink(Array.from(this.inspections.values()), trip, undefined, requireInspection);
+    for (const reading of tripOdometerReadings(trip)) {
+      await this.recordOdometerReading(reading);
+    }
     this.trips.set(id, trip);
+    if (inspection) {
+      this.inspections.set(inspection.id, { ...inspection, tripId: id });
+    }
     
     // Update vehicle status to in_use
     const vehicle = this.vehicles.get(trip.vehicleId);
     if (vehicle && vehicle.status === 'available') {
-      this.vehicles.set(vehicle.id, { ...vehicle, status: 'in_use' });
+      this.setVehicleStatus(vehicle.id, 'in_use', { cause: 'trip', tripId: id });
     }
     
     return trip;
   }
   
-  async updateTrip(id: number, tripData: Partial<Trip>): Promise<Trip | undefined> {
+  async updateTrip(id: number, tripData: Partial<Trip>, requireInspection = true): Promise<Trip | undefined> {
     const trip = this.trips.get(id);
     if (!trip) return undefined;
     
     const updatedTrip = { ...trip, ...tripData };
+    await this.checkMileageLock(trip, updatedTrip);
+    checkTripOdometers(updatedTrip);
+    const inspection = tripInspectionToLink(Array.from(this.inspections.values()), updatedTrip, trip, requireInspection);
+    // Only readings that changed go into the ledger; the vehicle's mileage follows it
+    for (const reading of tripOdometerReadings(updatedTrip, trip)) {
+      await this.recordOdometerReading(reading);
+    }
     this.trips.set(id, updatedTrip);
+    if (inspection) {
+      this.inspections.set(inspection.id, { ...inspection, tripId: id });
+    }
     
     // If trip is completed, update vehicle status back to available
     if (tripData.status === 'completed' && tripData.endTime) {
       const vehicle = this.vehicles.get(trip.vehicleId);
       if (vehicle && vehicle.status === 'in_use') {
-        this.vehicles.set(vehicle.id, { 
-          ...vehicle, 
-          status: 'available',
-          mileage: tripData.endOdometer || vehicle.mileage
-        });
+        this.setVehicleStatus(vehicle.id, 'available', { cause: 'trip', tripId: id });
+      }
+      
+      // A trip started from a booking completes that booking
+      const booking = trip.bookingId ? this.bookings.get(trip.bookingId) : undefined;
+      if (booking && booking.status === 'approved') {
+        this.bookings.set(booking.id, { ...booking, status: 'completed' });
       }
     }
     
@@ -289,9 +1223,20 @@ export class MemStorage implements IStorage {
   }
   
   async deleteTrip(id: number): Promise<boolean> {
+    const trip = this.trips.get(id);
+    if (!trip) return false;
+    
+    await this.checkMileageLock(trip);
+    await this.deleteTripRoute(id);
+    await this.voidLinkedReadings(entry => entry.tripId === id);
     return this.trips.delete(id);
   }
   
+  // Every trip write passes through here, so paid-out trips stay as they were approved
+  private async checkMileageLock(existing: Trip | undefined, next?: Trip): Promise<void> {
+    await checkMileageStatementLock((driverId, month) => this.findMileageStatement(driverId, month), existing, next);
+  }
+  
   async listTripsForVehicle(vehicleId: number): Promise<Trip[]> {
     return Array.from(this.trips.values())
       .filter(trip => trip.vehicleId === vehicleId);
@@ -307,657 +1252,3523 @@ export class MemStorage implements IStorage {
       .filter(trip => trip.status === 'in_progress');
   }
   
-  // Booking methods
-  async getBooking(id: number): Promise<Booking | undefined> {
-    return this.bookings.get(id);
+  async searchTrips(search: TripSearch): Promise<TripPage> {
+    let list = Array.from(this.trips.values());
+    
+    if (search.from) {
+      list = list.filter(trip => trip.startTime >= search.from!);
+    }
+    if (search.to) {
+      list = list.filter(trip => trip.startTime < search.to!);
+    }
+    if (search.vehicleId !== undefined) {
+      list = list.filter(trip => trip.vehicleId === search.vehicleId);
+    }
+    if (search.driverId !== undefined) {
+      list = list.filter(trip => trip.driverId === search.driverId);
+    }
+    if (search.status) {
+      list = list.filter(trip => trip.status === search.status);
+    }
+    if (search.purpose) {
+      const text = search.purpose.toLowerCase();
+      list = list.filter(trip => trip.purpose?.toLowerCase().includes(text));
+    }
+    
+    // Missing end times sort as the largest value, the way Postgres orders nulls
+    const sortValue = (trip: Trip): number | string => {
+      switch (search.sort) {
+        case 'endTime': return trip.endTime ? trip.endTime.getTime() : Infinity;
+        case 'status': return trip.status;
+        case 'startOdometer': return trip.startOdometer;
+        default: return trip.startTime.getTime();
+      }
+    };
+    const sign = search.direction === 'asc' ? 1 : -1;
+    list.sort((a, b) => {
+      const left = sortValue(a);
+      const right = sortValue(b);
+      if (left !== right) return (left < right ? -1 : 1) * sign;
+      return (a.id - b.id) * sign;
+    });
+    
+    const offset = (search.page - 1) * search.pageSize;
+    return {
+      trips: list.slice(offset, offset + search.pageSize),
+      total: list.length,
+      page: search.page,
+      pageSize: search.pageSize,
+    };
   }
   
-  async createBooking(insertBooking: InsertBooking): Promise<Booking> {
-    const id = this.bookingIdCounter++;
-    const booking: Booking = { 
-      ...insertBooking, 
-      id, 
-      createdAt: new Date() 
+  // Trip route methods
+  async getTripRoute(tripId: number): Promise<TripRoute | undefined> {
+    return Array.from(this.tripRoutes.values())
+      .find(route => route.tripId === tripId);
+  }
+  
+  async saveTripRoute(routeData: Omit<TripRoute, "id" | "uploadedAt">): Promise<TripRoute> {
+    // One route per trip, so uploading again replaces it
+    const existing = await this.getTripRoute(routeData.tripId);
+    const route: TripRoute = {
+      ...routeData,
+      id: existing?.id ?? this.tripRouteIdCounter++,
+      uploadedAt: new Date()
     };
-    this.bookings.set(id, booking);
-    return booking;
+    this.tripRoutes.set(route.id, route);
+    return route;
   }
   
-  async updateBooking(id: number, bookingData: Partial<Booking>): Promise<Booking | undefined> {
-    const booking = this.bookings.get(id);
-    if (!booking) return undefined;
-    
-    const updatedBooking = { ...booking, ...bookingData };
-    this.bookings.set(id, updatedBooking);
-    return updatedBooking;
+  async deleteTripRoute(tripId: number): Promise<boolean> {
+    const existing = await this.getTripRoute(tripId);
+    return existing ? this.tripRoutes.delete(existing.id) : false;
   }
   
-  async deleteBooking(id: number): Promise<boolean> {
-    return this.bookings.delete(id);
+  // Odometer ledger methods
+  async listOdometerReadings(vehicleId: number): Promise<OdometerReading[]> {
+    return Array.from(this.odometerReadings.values())
+      .filter(entry => entry.vehicleId === vehicleId)
+      .sort(newestReadingFirst);
   }
   
-  async listBookingsForVehicle(vehicleId: number): Promise<Booking[]> {
-    return Array.from(this.bookings.values())
-      .filter(booking => booking.vehicleId === vehicleId);
+  async listAllOdometerReadings(): Promise<OdometerReading[]> {
+    return Array.from(this.odometerReadings.values()).sort(newestReadingFirst);
   }
   
-  async listBookingsForUser(userId: number): Promise<Booking[]> {
-    return Array.from(this.bookings.values())
-      .filter(booking => booking.userId === userId);
+  async listFlaggedOdometerReadings(): Promise<OdometerReading[]> {
+    return Array.from(this.odometerReadings.values())
+      .filter(entry => entry.status === 'flagged')
+      .sort(newestReadingFirst);
   }
   
-  async listAllBookings(): Promise<Booking[]> {
-    return Array.from(this.bookings.values());
+  async recordOdometerReading(input: OdometerReadingInput): Promise<OdometerReading> {
+    const vehicle = this.vehicles.get(input.vehicleId);
+    if (!vehicle) {
+      throw new Error("Vehicle not found");
+    }
+    
+    const history = await this.listOdometerReadings(input.vehicleId);
+    const superseded = supersededReadings(history, input);
+    const counted = history.filter(entry => !superseded.includes(entry));
+    const verdict = assessOdometerReading(counted, input.reading, input.recordedAt);
+    if (verdict.status === 'rejected') {
+      throw new OdometerError(verdict.reason);
+    }
+    
+    for (const entry of superseded) {
+      this.odometerReadings.set(entry.id, { ...entry, status: 'voided' });
+    }
+    
+    const id = this.odometerReadingIdCounter++;
+    const reading: OdometerReading = {
+      id,
+      vehicleId: input.vehicleId,
+      reading: input.reading,
+      recordedAt: input.recordedAt,
+      source: input.source,
+      tripId: input.tripId ?? null,
+      maintenanceId: input.maintenanceId ?? null,
+      fuelLogId: input.fuelLogId ?? null,
+      recordedById: input.recordedById ?? null,
+      status: verdict.status,
+      flagReason: verdict.status === 'flagged' ? verdict.reason : null,
+      reviewedById: null,
+      reviewedAt: null,
+      note: input.note ?? null,
+      createdAt: new Date()
+    };
+    this.odometerReadings.set(id, reading);
+    
+    const mileage = ledgerMileage([...counted, reading]);
+    if (mileage !== undefined) {
+      this.vehicles.set(vehicle.id, { ...vehicle, mileage });
+    }
+    
+    return reading;
   }
-}
-
-export class DatabaseStorage implements IStorage {
-  sessionStore: any;
-  private initialized = false;
-  private initializationPromise: Promise<void>;
   
-  constructor() {
-    // Initialize Session Store with PostgreSQL
-    this.sessionStore = new PostgresSessionStore({
-      conObject: {
-        connectionString: process.env.DATABASE_URL,
-      },
-      createTableIfMissing: true,
-    });
+  async reviewOdometerReading(id: number, decision: "accept" | "void", reviewedById: number): Promise<OdometerReading | undefined> {
+    const reading = this.odometerReadings.get(id);
+    if (!reading) return undefined;
     
-    // Initialize database with admin user if it doesn't exist
-    this.initializationPromise = this.initializeDatabase();
+    checkOdometerReview(reading, decision);
+    
+    const reviewed: OdometerReading = {
+      ...reading,
+      status: decision === 'accept' ? 'valid' : 'voided',
+      reviewedById,
+      reviewedAt: new Date()
+    };
+    this.odometerReadings.set(id, reviewed);
+    await this.syncLedgerMileage(reading.vehicleId);
+    
+    return reviewed;
   }
   
-  private async initializeDatabase() {
-    try {
-      // Add admin user if no users exist
-      const userCount = await db.select({ count: sql`count(*)` }).from(users);
-      const count = Number(userCount[0].count);
-      
-      console.log(`Database initialization: Found ${count} existing users`);
-      
-      if (count === 0) {
-        console.log('Creating admin user...');
-        // Add admin user - with pre-hashed password
-        const hashedAdminPassword = "d9e9e2991bded44e3a92275c9c98db16f2201176afb59d337832dc981d2bc2d67fbf6cbc68d5a73d8494b8bd65de8a9832e5e815f5bb3add4c98a4f0d43c8ea6.73af07fc6eeca4a16f15aebd35c26782";
-        
-        // Direct DB insert to avoid self-reference to createUser method
-        await db.insert(users).values({
-          username: "admin",
-          password: hashedAdminPassword,
-          name: "Admin User",
-          role: "admin",
-          position: "Administrator",
-          email: "admin@fleetmanager.com",
-          phone: "555-123-4567"
-        });
-        console.log('Admin user created successfully');
+  // A deleted trip, maintenance record or fuel fill takes its readings out of the ledger with it
+  private async voidLinkedReadings(isLinked: (entry: OdometerReading) => boolean): Promise<void> {
+    const vehicleIds = new Set<number>();
+    for (const entry of Array.from(this.odometerReadings.values())) {
+      if (entry.status !== 'voided' && isLinked(entry)) {
+        this.odometerReadings.set(entry.id, { ...entry, status: 'voided' });
+        vehicleIds.add(entry.vehicleId);
       }
-      
-      this.initialized = true;
-      console.log('Database initialization complete');
-    } catch (error) {
-      console.error('Error initializing database:', error);
-      throw error;
+    }
+    for (const vehicleId of Array.from(vehicleIds)) {
+      await this.syncLedgerMileage(vehicleId);
     }
   }
   
-  // Helper method to ensure initialization is complete before DB operations
-  private async ensureInitialized() {
-    if (!this.initialized) {
-      await this.initializationPromise;
+  // Voiding the highest reading brings the mileage back down to the next one
+  private async syncLedgerMileage(vehicleId: number): Promise<void> {
+    const vehicle = this.vehicles.get(vehicleId);
+    const mileage = ledgerMileage(await this.listOdometerReadings(vehicleId));
+    if (vehicle && mileage !== undefined) {
+      this.vehicles.set(vehicle.id, { ...vehicle, mileage });
     }
   }
   
-  // User methods
-  async getUser(id: number): Promise<User | undefined> {
-    await this.ensureInitialized();
-    const result = await db.select().from(users).where(eq(users.id, id));
-    return result[0];
+  // Fuel log methods
+  async getFuelLog(id: number): Promise<FuelLog | undefined> {
+    return this.fuelLogs.get(id);
   }
   
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    await this.ensureInitialized();
-    const result = await db.select().from(users).where(eq(users.username, username));
-    return result[0];
+  async listFuelLogs(filters?: { vehicleId?: number, driverId?: number }): Promise<FuelLog[]> {
+    let logs = Array.from(this.fuelLogs.values());
+    
+    if (filters?.vehicleId !== undefined) {
+      logs = logs.filter(log => log.vehicleId === filters.vehicleId);
+    }
+    if (filters?.driverId !== undefined) {
+      logs = logs.filter(log => log.driverId === filters.driverId);
+    }
+    
+    return logs.sort((a, b) => b.filledAt.getTime() - a.filledAt.getTime());
   }
   
-  async createUser(insertUser: InsertUser): Promise<User> {
-    await this.ensureInitialized();
-    // Ensure all required fields have values
-    const userToCreate = {
-      username: insertUser.username,
-      password: insertUser.password,
-      name: insertUser.name,
-      role: insertUser.role || "moderator",
-      position: insertUser.position || null,
-      email: insertUser.email || null,
-      phone: insertUser.phone || null
-    };
+  async createFuelLog(insertLog: InsertFuelLog): Promise<FuelLog> {
+    const id = this.fuelLogIdCounter++;
+    const log: FuelLog = { ...newFuelLog(insertLog), id, createdAt: new Date() };
     
-    const result = await db.insert(users).values(userToCreate).returning();
-    return result[0];
+    // Check the odometer against the ledger before anything is stored
+    await this.recordOdometerReading(fuelOdometerReading(log));
+    this.fuelLogs.set(id, log);
+    return log;
   }
   
-  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
-    await this.ensureInitialized();
-    const result = await db.update(users)
-      .set(userData)
-      .where(eq(users.id, id))
-      .returning();
-    return result[0];
+  async updateFuelLog(id: number, logData: Partial<InsertFuelLog>): Promise<FuelLog | undefined> {
+    const log = this.fuelLogs.get(id);
+    if (!log) return undefined;
+    
+    const updatedLog = applyFuelLogChanges(log, logData);
+    if (fuelReadingChanged(updatedLog, log)) {
+      await this.recordOdometerReading(fuelOdometerReading(updatedLog));
+    }
+    this.fuelLogs.set(id, updatedLog);
+    return updatedLog;
   }
   
-  async listUsers(): Promise<User[]> {
-    await this.ensureInitialized();
-    return await db.select().from(users);
+  async deleteFuelLog(id: number): Promise<boolean> {
+    if (!this.fuelLogs.has(id)) return false;
+    
+    await this.voidLinkedReadings(entry => entry.fuelLogId === id);
+    return this.fuelLogs.delete(id);
   }
   
-  async deleteUser(id: number): Promise<boolean> {
-    await this.ensureInitialized();
-    const result = await db.delete(users).where(eq(users.id, id)).returning();
-    return result.length > 0;
+  // Inspection methods
+  async listInspectionTemplates(): Promise<InspectionTemplate[]> {
+    return Array.from(this.inspectionTemplates.values())
+      .sort((a, b) => a.id - b.id);
   }
   
-  // Vehicle methods
-  async getVehicle(id: number): Promise<Vehicle | undefined> {
-    await this.ensureInitialized();
-    const result = await db.select().from(vehicles).where(eq(vehicles.id, id));
-    return result[0];
+  async getInspectionTemplate(id: number): Promise<InspectionTemplate | undefined> {
+    return this.inspectionTemplates.get(id);
   }
   
-  async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
-    await this.ensureInitialized();
-    const result = await db.insert(vehicles).values(vehicle).returning();
-    return result[0];
+  async createInspectionTemplate(templateData: InsertInspectionTemplate): Promise<InspectionTemplate> {
+    const id = this.inspectionTemplateIdCounter++;
+    const template: InspectionTemplate = {
+      ...templateData,
+      active: templateData.active ?? true,
+      id,
+      createdAt: new Date()
+    };
+    this.inspectionTemplates.set(id, template);
+    return template;
   }
   
-  async updateVehicle(id: number, vehicleData: Partial<Vehicle>): Promise<Vehicle | undefined> {
-    await this.ensureInitialized();
-    const result = await db.update(vehicles)
-      .set(vehicleData)
-      .where(eq(vehicles.id, id))
-      .returning();
-    return result[0];
+  async updateInspectionTemplate(id: number, templateData: Partial<InsertInspectionTemplate>): Promise<InspectionTemplate | undefined> {
+    const template = this.inspectionTemplates.get(id);
+    if (!template) return undefined;
+    
+    const updatedTemplate = { ...template, ...templateData };
+    this.inspectionTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
   }
   
-  async deleteVehicle(id: number): Promise<boolean> {
-    await this.ensureInitialized();
-    const result = await db.delete(vehicles).where(eq(vehicles.id, id)).returning();
-    return result.length > 0;
+  async getInspection(id: number): Promise<Inspection | undefined> {
+    return this.inspections.get(id);
   }
   
-  async listVehicles(filters?: { status?: string, make?: string, year?: number }): Promise<Vehicle[]> {
-    await this.ensureInitialized();
+  async listInspections(filters?: { vehicleId?: number, tripId?: number, inspectorId?: number }): Promise<Inspection[]> {
+    let list = Array.from(this.inspections.values());
     
-    if (!filters) {
-      return await db.select().from(vehicles);
+    if (filters?.vehicleId !== undefined) {
+      list = list.filter(inspection => inspection.vehicleId === filters.vehicleId);
+    }
+    if (filters?.tripId !== undefined) {
+      list = list.filter(inspection => inspection.tripId === filters.tripId);
+    }
+    if (filters?.inspectorId !== undefined) {
+      list = list.filter(inspection => inspection.inspectorId === filters.inspectorId);
     }
     
-    const conditions = [];
+    return list.sort((a, b) => b.performedAt.getTime() - a.performedAt.getTime() || b.id - a.id);
+  }
+  
+  async createInspection(inspectionData: InsertInspection, inspectorId: number): Promise<Inspection> {
+    const template = this.inspectionTemplates.get(inspectionData.templateId);
+    if (!template || !template.active) {
+      throw new InspectionError("Inspection template not found");
+    }
     
-    if (filters.status) {
-      conditions.push(eq(vehicles.status, filters.status as any));
+    const vehicle = this.vehicles.get(inspectionData.vehicleId);
+    if (!vehicle) {
+      throw new Error("Vehicle not found");
     }
     
-    if (filters.make) {
-      conditions.push(eq(vehicles.make, filters.make));
+    const trip = inspectionData.tripId != null ? this.trips.get(inspectionData.tripId) : undefined;
+    if (inspectionData.tripId != null && !trip) {
+      throw new InspectionError("Trip not found");
     }
+    checkInspectionTrip(template.kind, vehicle.id, trip, trip ? await this.listInspections({ tripId: trip.id }) : []);
     
-    if (filters.year) {
-      conditions.push(eq(vehicles.year, filters.year));
+    const performedAt = new Date();
+    const results = gradeInspection(template, inspectionData.results);
+    
+    // Every failed item opens its own maintenance record; the vehicle stays usable unless the item is critical
+    for (const result of results) {
+      if (result.passed) continue;
+      result.maintenanceId = this.maintenanceIdCounter++;
+      this.maintenances.set(result.maintenanceId, {
+        ...failedItemMaintenance(vehicle.id, template.kind, result, performedAt),
+        id: result.maintenanceId
+      });
     }
     
-    if (conditions.length === 0) {
-      return await db.select().from(vehicles);
+    const id = this.inspectionIdCounter++;
+    const inspection: Inspection = {
+      id,
+      vehicleId: vehicle.id,
+      tripId: trip?.id ?? null,
+      templateId: template.id,
+      kind: template.kind,
+      inspectorId,
+      performedAt,
+      results,
+      passed: results.every(result => result.passed),
+      criticalFailure: results.some(result => !result.passed && result.critical),
+      notes: inspectionData.notes ?? null
+    };
+    this.inspections.set(id, inspection);
+    
+    if (inspection.criticalFailure) {
+      this.setVehicleStatus(vehicle.id, 'out_of_service', { cause: 'inspection', inspectionId: id });
     }
     
-    return await db.select().from(vehicles).where(and(...conditions));
+    return inspection;
   }
   
-  // Maintenance methods
-  async getMaintenance(id: number): Promise<Maintenance | undefined> {
-    await this.ensureInitialized();
-    const result = await db.select().from(maintenance).where(eq(maintenance.id, id));
-    return result[0];
+  // Mileage statement methods
+  async listMileageRates(): Promise<MileageRate[]> {
+    return Array.from(this.mileageRates.values());
   }
   
-  async createMaintenance(maintenanceData: InsertMaintenance): Promise<Maintenance> {
-    await this.ensureInitialized();
-    // Start a transaction for atomicity
-    const result = await db.transaction(async (tx) => {
-      const newMaintenance = await tx.insert(maintenance)
-        .values(maintenanceData)
-        .returning();
-      
-      // Update vehicle status to maintenance
-      if (maintenanceData.status !== 'completed') {
-        const vehicle = await tx.select().from(vehicles)
-          .where(eq(vehicles.id, maintenanceData.vehicleId));
-        
-        if (vehicle.length > 0 && vehicle[0].status === 'available') {
-          await tx.update(vehicles)
-            .set({ status: 'maintenance' })
-            .where(eq(vehicles.id, maintenanceData.vehicleId));
-        }
-      }
-      
-      return newMaintenance[0];
-    });
-    
-    return result;
+  async saveMileageRate(rateData: InsertMileageRate): Promise<MileageRate> {
+    // One rate per usage, so saving replaces the existing one
+    const existing = Array.from(this.mileageRates.values()).find(rate => rate.usage === rateData.usage);
+    const rate: MileageRate = {
+      id: existing?.id ?? this.mileageRateIdCounter++,
+      usage: rateData.usage,
+      treatment: rateData.treatment,
+      ratePerKm: rateData.ratePerKm,
+      updatedAt: new Date()
+    };
+    this.mileageRates.set(rate.id, rate);
+    return rate;
   }
   
-  async updateMaintenance(id: number, maintenanceData: Partial<Maintenance>): Promise<Maintenance | undefined> {
-    await this.ensureInitialized();
-    console.log(`[updateMaintenance] Updating maintenance #${id} with data:`, maintenanceData);
+  async getMileageStatement(id: number): Promise<MileageStatement | undefined> {
+    return this.mileageStatements.get(id);
+  }
+  
+  async findMileageStatement(driverId: number, month: string): Promise<MileageStatement | undefined> {
+    return Array.from(this.mileageStatements.values())
+      .find(statement => statement.driverId === driverId && statement.month === month);
+  }
+  
+  async listMileageStatements(filters?: { driverId?: number, status?: MileageStatement["status"] }): Promise<MileageStatement[]> {
+    let list = Array.from(this.mileageStatements.values());
     
-    try {
-      // Start a transaction for atomicity
-      const result = await db.transaction(async (tx) => {
-        const existingMaintenance = await tx.select().from(maintenance)
-          .where(eq(maintenance.id, id));
-        
-        console.log("[updateMaintenance] Existing maintenance:", existingMaintenance);
-        
-        // Handle completedAt date conversion if needed
-        let processedData = {...maintenanceData};
-        if (maintenanceData.completedAt && typeof maintenanceData.completedAt === 'string') {
-          console.log('[updateMaintenance] Converting completedAt from string to Date:', maintenanceData.completedAt);
-          processedData.completedAt = new Date(maintenanceData.completedAt);
-        }
-        
-        const updatedMaintenance = await tx.update(maintenance)
-          .set(processedData)
-          .where(eq(maintenance.id, id))
-          .returning();
-        
-        console.log("[updateMaintenance] Updated maintenance:", updatedMaintenance);
-        
-        // If maintenance is completed, update vehicle status back to available
-        if (maintenanceData.status === 'completed') {
-          console.log("[updateMaintenance] Maintenance marked as completed, checking vehicle status");
-          const maintenanceRecord = await tx.select().from(maintenance)
-            .where(eq(maintenance.id, id));
-          
-          if (maintenanceRecord.length > 0) {
-            const vehicle = await tx.select().from(vehicles)
-              .where(eq(vehicles.id, maintenanceRecord[0].vehicleId));
-            
-            console.log("[updateMaintenance] Associated vehicle:", vehicle);
-            
-            if (vehicle.length > 0 && vehicle[0].status === 'maintenance') {
-              console.log("[updateMaintenance] Updating vehicle status from maintenance to available");
-              await tx.update(vehicles)
-                .set({ status: 'available' })
-                .where(eq(vehicles.id, maintenanceRecord[0].vehicleId));
-            }
-          }
-        }
-        
-        return updatedMaintenance[0];
-      });
-      
-      console.log("[updateMaintenance] Transaction completed successfully");
-      return result;
-    } catch (error) {
-      console.error("[updateMaintenance] Error updating maintenance:", error);
-      throw error;
+    if (filters?.driverId !== undefined) {
+      list = list.filter(statement => statement.driverId === filters.driverId);
     }
+    if (filters?.status) {
+      list = list.filter(statement => statement.status === filters.status);
+    }
+    
+    return list.sort((a, b) => b.month.localeCompare(a.month) || b.submittedAt.getTime() - a.submittedAt.getTime());
   }
   
-  async deleteMaintenance(id: number): Promise<boolean> {
-    await this.ensureInitialized();
-    const result = await db.delete(maintenance).where(eq(maintenance.id, id)).returning();
-    return result.length > 0;
+  async submitMileageStatement(preview: MileageStatementPreview): Promise<MileageStatement> {
+    // One statement per driver and month; submitting again replaces it until it is approved
+    const existing = await this.findMileageStatement(preview.driverId, preview.month);
+    if (existing?.status === 'approved') {
+      throw new Error("Approved statements can no longer be changed");
+    }
+    
+    const statement: MileageStatement = {
+      ...preview,
+      id: existing?.id ?? this.mileageStatementIdCounter++,
+      status: 'submitted',
+      submittedAt: new Date(),
+      decidedById: null,
+      decidedAt: null,
+      decisionReason: null
+    };
+    this.mileageStatements.set(statement.id, statement);
+    return statement;
   }
   
-  async listMaintenanceForVehicle(vehicleId: number): Promise<Maintenance[]> {
-    await this.ensureInitialized();
-    return await db.select().from(maintenance)
-      .where(eq(maintenance.vehicleId, vehicleId));
+  async decideMileageStatement(id: number, decision: { status: "approved" | "rejected", decidedById: number, reason?: string | null }): Promise<MileageStatement | undefined> {
+    const statement = this.mileageStatements.get(id);
+    if (!statement) return undefined;
+    if (statement.status !== 'submitted') {
+      throw new Error("Only submitted statements can be approved or rejected");
+    }
+    
+    const decided: MileageStatement = {
+      ...statement,
+      status: decision.status,
+      decidedById: decision.decidedById,
+      decidedAt: new Date(),
+      decisionReason: decision.reason ?? null
+    };
+    this.mileageStatements.set(id, decided);
+    return decided;
   }
   
-  async listUpcomingMaintenance(): Promise<Maintenance[]> {
+  // Incident methods
+  async getIncident(id: number): Promise<Incident | undefined> {
+    return this.incidents.get(id);
+  }
+  
+  async listIncidents(filters?: { vehicleId?: number, driverId?: number, status?: Incident["status"], involvingUserId?: number }): Promise<Incident[]> {
+    let list = Array.from(this.incidents.values());
+    
+    if (filters?.vehicleId !== undefined) {
+      list = list.filter(incident => incident.vehicleId === filters.vehicleId);
+    }
+    if (filters?.driverId !== undefined) {
+      list = list.filter(incident => incident.driverId === filters.driverId);
+    }
+    if (filters?.status) {
+      list = list.filter(incident => incident.status === filters.status);
+    }
+    if (filters?.involvingUserId !== undefined) {
+      list = list.filter(incident => incident.driverId === filters.involvingUserId || incident.reportedById === filters.involvingUserId);
+    }
+    
+    return list.sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime() || b.id - a.id);
+  }
+  
+  async createIncident(incidentData: InsertIncident, reportedById: number): Promise<Incident> {
+    const id = this.incidentIdCounter++;
+    const incident: Incident = {
+      id,
+      vehicleId: incidentData.vehicleId,
+      tripId: incidentData.tripId ?? null,
+      driverId: incidentData.driverId ?? null,
+      reportedById,
+      occurredAt: new Date(incidentData.occurredAt),
+      location: incidentData.location,
+      type: incidentData.type,
+      description: incidentData.description,
+      thirdParty: incidentData.thirdParty ?? null,
+      policeReference: incidentData.policeReference ?? null,
+      photos: incidentData.photos,
+      estimatedCost: incidentData.estimatedCost ?? null,
+      actualCost: incidentData.actualCost ?? null,
+      claimStatus: incidentData.claimStatus ?? 'not_claimed',
+      claimReference: incidentData.claimReference ?? null,
+      status: 'reported',
+      investigatorId: null,
+      findings: null,
+      driverAtFault: null,
+      closedAt: null,
+      createdAt: new Date()
+    };
+    this.incidents.set(id, incident);
+    return incident;
+  }
+  
+  async updateIncident(id: number, incidentData: Partial<InsertIncident>): Promise<Incident | undefined> {
+    const incident = this.incidents.get(id);
+    if (!incident) return undefined;
+    
+    const { occurredAt, ...changes } = incidentData;
+    const updatedIncident: Incident = {
+      ...incident,
+      ...changes,
+      ...(occurredAt !== undefined ? { occurredAt: new Date(occurredAt) } : {})
+    };
+    this.incidents.set(id, updatedIncident);
+    return updatedIncident;
+  }
+  
+  async investigateIncident(id: number, investigation: IncidentInvestigation, investigatorId: number): Promise<Incident | undefined> {
+    const incident = this.incidents.get(id);
+    if (!incident) return undefined;
+    
+    const problem = checkIncidentTransition(incident.status, investigation.status);
+    if (problem) {
+      throw new Error(problem);
+    }
+    
+    const updatedIncident: Incident = {
+      ...incident,
+      status: investigation.status,
+      investigatorId,
+      findings: investigation.findings || incident.findings,
+      driverAtFault: investigation.status === 'closed' ? investigation.driverAtFault : incident.driverAtFault,
+      closedAt: investigation.status === 'closed' ? new Date() : null
+    };
+    this.incidents.set(id, updatedIncident);
+    return updatedIncident;
+  }
+  
+  async deleteIncident(id: number): Promise<boolean> {
+    return this.incidents.delete(id);
+  }
+  
+  // Traffic charge methods
+  async getTrafficCharge(id: number): Promise<TrafficCharge | undefined> {
+    return this.trafficCharges.get(id);
+  }
+  
+  async listTrafficCharges(filters?: { status?: TrafficCharge["status"], kind?: TrafficCharge["kind"], driverId?: number, from?: Date, to?: Date }): Promise<TrafficCharge[]> {
+    let list = Array.from(this.trafficCharges.values());
+    
+    if (filters?.status) {
+      list = list.filter(charge => charge.status === filters.status);
+    }
+    if (filters?.kind) {
+      list = list.filter(charge => charge.kind === filters.kind);
+    }
+    if (filters?.driverId !== undefined) {
+      list = list.filter(charge => charge.driverId === filters.driverId);
+    }
+    if (filters?.from) {
+      list = list.filter(charge => charge.occurredAt >= filters.from!);
+    }
+    if (filters?.to) {
+      list = list.filter(charge => charge.occurredAt < filters.to!);
+    }
+    
+    return list.sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime() || b.id - a.id);
+  }
+  
+  async findTrafficChargeByReference(kind: TrafficCharge["kind"], reference: string): Promise<TrafficCharge | undefined> {
+    return Array.from(this.trafficCharges.values()).find(charge => charge.kind === kind && charge.reference === reference);
+  }
+  
+  async createTrafficCharge(chargeData: InsertTrafficCharge, match: TrafficChargeMatch, importedById: number): Promise<TrafficCharge> {
+    const id = this.trafficChargeIdCounter++;
+    const charge: TrafficCharge = {
+      id,
+      kind: chargeData.kind,
+      registrationNumber: chargeData.registrationNumber,
+      occurredAt: new Date(chargeData.occurredAt),
+      amount: chargeData.amount,
+      reference: chargeData.reference ?? null,
+      location: chargeData.location ?? null,
+      description: chargeData.description ?? null,
+      ...match,
+      importedById,
+      resolvedById: null,
+      createdAt: new Date()
+    };
+    this.trafficCharges.set(id, charge);
+    return charge;
+  }
+  
+  async updateTrafficChargeMatch(id: number, match: TrafficChargeMatch, resolvedById: number | null): Promise<TrafficCharge | undefined> {
+    const charge = this.trafficCharges.get(id);
+    if (!charge) return undefined;
+    
+    const updatedCharge: TrafficCharge = { ...charge, ...match, resolvedById };
+    this.trafficCharges.set(id, updatedCharge);
+    return updatedCharge;
+  }
+  
+  async deleteTrafficCharge(id: number): Promise<boolean> {
+    return this.trafficCharges.delete(id);
+  }
+  
+  // Booking methods
+  async getBooking(id: number): Promise<Booking | undefined> {
+    return this.bookings.get(id);
+  }
+  
+  async createBooking(insertBooking: InsertBooking, policyOverride: BookingPolicyOverrideRecord = NO_POLICY_OVERRIDE): Promise<Booking> {
+    const startTime = new Date(insertBooking.startTime);
+    const endTime = new Date(insertBooking.endTime);
+    
+    // Category bookings only need a free vehicle of the class; one is assigned on approval
+    if (insertBooking.vehicleId == null) {
+      if (!insertBooking.category) {
+        throw new Error("Choose a vehicle or a vehicle category");
+      }
+      if (endTime <= startTime) {
+        throw new Error("End time must be after start time");
+      }
+      
+      const availability = await this.listVehicleAvailability(startTime, endTime);
+      if (!categoryHasCapacity(availability, Array.from(this.bookings.values()), insertBooking.category, startTime, endTime)) {
+        throw new Error(`No free ${insertBooking.category} vehicle for this window`);
+      }
+    } else {
+      const vehicle = this.vehicles.get(insertBooking.vehicleId);
+      if (!vehicle) {
+        throw new Error("Vehicle not found");
+      }
+      
+      if (vehicle.status === 'out_of_service') {
+        throw new Error(`Vehicle not available (status: ${vehicle.status})`);
+      }
+      
+      if (endTime <= startTime) {
+        throw new Error("End time must be after start time");
+      }
+      
+      if (!INACTIVE_BOOKING_STATUSES.includes(insertBooking.status ?? 'pending')) {
+        const conflicts = await this.findConflictingBookings(vehicle.id, startTime, endTime);
+        if (conflicts.length > 0) {
+          throw new BookingConflictError(conflicts);
+        }
+      }
+    }
+    
+    const id = this.bookingIdCounter++;
+    const booking: Booking = { 
+      ...insertBooking, 
+      vehicleId: insertBooking.vehicleId ?? null,
+      category: insertBooking.vehicleId == null ? insertBooking.category ?? null : null,
+      id, 
+      createdAt: new Date(),
+      decidedById: null,
+      decidedAt: null,
+      decisionReason: null,
+      seriesId: null,
+      ...policyOverride
+    };
+    this.bookings.set(id, booking);
+    return booking;
+  }
+  
+  async updateBooking(id: number, bookingData: Partial<Booking>): Promise<Booking | undefined> {
+    const booking = this.bookings.get(id);
+    if (!booking) return undefined;
+    
+    const updatedBooking = { ...booking, ...bookingData };
+    
+    if (bookingNeedsConflictCheck(booking, bookingData)) {
+      const startTime = new Date(updatedBooking.startTime);
+      const endTime = new Date(updatedBooking.endTime);
+      if (endTime <= startTime) {
+        throw new Error("End time must be after start time");
+      }
+      
+      if (updatedBooking.vehicleId != null) {
+        const conflicts = await this.findConflictingBookings(updatedBooking.vehicleId, startTime, endTime, id);
+        if (conflicts.length > 0) {
+          throw new BookingConflictError(conflicts);
+        }
+      } else {
+        // A category booking needs a free vehicle of the class, leaving its own hold out of the count
+        if (!updatedBooking.category) {
+          throw new Error("Choose a vehicle or a vehicle category");
+        }
+        const availability = await this.listVehicleAvailability(startTime, endTime, id);
+        const others = Array.from(this.bookings.values()).filter(other => other.id !== id);
+        if (!categoryHasCapacity(availability, others, updatedBooking.category, startTime, endTime)) {
+          throw new Error(`No free ${updatedBooking.category} vehicle for this window`);
+        }
+      }
+    }
+    
+    this.bookings.set(id, updatedBooking);
+    
+    if (bookingReleasesSlot(booking, updatedBooking)) {
+      await this.promoteWaitlist(updatedBooking);
+    }
+    
+    return updatedBooking;
+  }
+  
+  async deleteBooking(id: number): Promise<boolean> {
+    Array.from(this.bookingDecisions.values())
+      .filter(decision => decision.bookingId === id)
+      .forEach(decision => this.bookingDecisions.delete(decision.id));
+    Array.from(this.trips.values())
+      .filter(trip => trip.bookingId === id)
+      .forEach(trip => this.trips.set(trip.id, { ...trip, bookingId: null }));
+    return this.bookings.delete(id);
+  }
+  
+  async listBookingsForVehicle(vehicleId: number): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking => booking.vehicleId === vehicleId);
+  }
+  
+  async listBookingsForUser(userId: number): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking => booking.userId === userId);
+  }
+  
+  async listAllBookings(): Promise<Booking[]> {
+    return Array.from(this.bookings.values());
+  }
+  
+  async findConflictingBookings(vehicleId: number, startTime: Date, endTime: Date, excludeBookingId?: number): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking => 
+        booking.vehicleId === vehicleId &&
+        booking.id !== excludeBookingId &&
+        !INACTIVE_BOOKING_STATUSES.includes(booking.status) &&
+        windowsOverlap(new Date(booking.startTime), new Date(booking.endTime), startTime, endTime)
+      );
+  }
+  
+  // Booking series methods
+  async getBookingSeries(id: number): Promise<BookingSeries | undefined> {
+    return this.bookingSeries.get(id);
+  }
+  
+  async createBookingSeries(seriesData: Omit<BookingSeries, "id" | "createdAt">, insertBooking: InsertBooking, occurrences: Occurrence[], skipConflicts: boolean, policyOverride: BookingPolicyOverrideRecord = NO_POLICY_OVERRIDE): Promise<BookingSeriesResult> {
+    if (insertBooking.vehicleId == null) {
+      throw new Error("Recurring bookings need a specific vehicle");
+    }
+    
+    const vehicle = this.vehicles.get(insertBooking.vehicleId);
+    if (!vehicle) {
+      throw new Error("Vehicle not found");
+    }
+    
+    if (vehicle.status === 'out_of_service') {
+      throw new Error(`Vehicle not available (status: ${vehicle.status})`);
+    }
+    
+    // Each occurrence gets its own conflict check, including against earlier occurrences
+    const accepted: Occurrence[] = [];
+    const skipped: BookingSeriesResult["skipped"] = [];
+    for (const occurrence of occurrences) {
+      const conflicts = await this.findConflictingBookings(vehicle.id, occurrence.startTime, occurrence.endTime);
+      const overlapsSeries = accepted.some(a => windowsOverlap(a.startTime, a.endTime, occurrence.startTime, occurrence.endTime));
+      if (conflicts.length > 0 || overlapsSeries) {
+        skipped.push({ ...occurrence, conflicts });
+      } else {
+        accepted.push(occurrence);
+      }
+    }
+    
+    if (accepted.length === 0 || (!skipConflicts && skipped.length > 0)) {
+      throw new BookingConflictError(uniqueBookings(skipped.flatMap(s => s.conflicts)));
+    }
+    
+    const seriesId = this.bookingSeriesIdCounter++;
+    const series: BookingSeries = { ...seriesData, id: seriesId, createdAt: new Date() };
+    this.bookingSeries.set(seriesId, series);
+    
+    const created: Booking[] = [];
+    for (const occurrence of accepted) {
+      const id = this.bookingIdCounter++;
+      const booking: Booking = {
+        ...insertBooking,
+        id,
+        vehicleId: vehicle.id,
+        category: null,
+        status: insertBooking.status ?? 'pending',
+        purpose: insertBooking.purpose ?? null,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        createdAt: new Date(),
+        decidedById: null,
+        decidedAt: null,
+        decisionReason: null,
+        seriesId,
+        ...policyOverride
+      };
+      this.bookings.set(id, booking);
+      created.push(booking);
+    }
+    
+    return { series, bookings: created, skipped };
+  }
+  
+  async updateBookingSeries(seriesId: number, fromStartTime: Date | undefined, changes: BookingSeriesChanges): Promise<Booking[]> {
+    const affected = Array.from(this.bookings.values())
+      .filter(booking =>
+        booking.seriesId === seriesId &&
+        EDITABLE_BOOKING_STATUSES.includes(booking.status) &&
+        (!fromStartTime || new Date(booking.startTime) >= fromStartTime)
+      );
+    const affectedIds = affected.map(b => b.id);
+    const updated = affected.map(booking => applySeriesChanges(booking, changes));
+    
+    if (seriesChangesNeedConflictCheck(changes)) {
+      const conflicts: Booking[] = [];
+      for (const booking of updated) {
+        if (INACTIVE_BOOKING_STATUSES.includes(booking.status) || booking.vehicleId === null) continue;
+        const found = await this.findConflictingBookings(booking.vehicleId, booking.startTime, booking.endTime);
+        conflicts.push(...found.filter(c => !affectedIds.includes(c.id)));
+      }
+      
+      if (conflicts.length > 0) {
+        throw new BookingConflictError(uniqueBookings(conflicts));
+      }
+    }
+    
+    updated.forEach(booking => this.bookings.set(booking.id, booking));
+    
+    for (let index = 0; index < updated.length; index++) {
+      if (bookingReleasesSlot(affected[index], updated[index])) {
+        await this.promoteWaitlist(updated[index]);
+      }
+    }
+    
+    return updated;
+  }
+  
+  // Booking approval methods
+  async listPendingBookings(): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking => booking.status === 'pending')
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  }
+  
+  async decideBooking(id: number, decision: { status: "approved" | "declined", decidedById: number, reason?: string | null }): Promise<Booking | undefined> {
+    const booking = this.bookings.get(id);
+    if (!booking) return undefined;
+    
+    if (booking.status !== 'pending') {
+      throw new Error(`Only pending bookings can be approved or declined (status: ${booking.status})`);
+    }
+    
+    let vehicleId = booking.vehicleId;
+    if (decision.status === 'approved' && vehicleId === null) {
+      const availability = await this.listVehicleAvailability(new Date(booking.startTime), new Date(booking.endTime), id);
+      const [assigned] = freeCategoryVehicles(availability, booking.category);
+      if (!assigned) {
+        throw new Error(`No free ${booking.category} vehicle for this booking`);
+      }
+      vehicleId = assigned.id;
+    }
+    
+    const decidedAt = new Date();
+    const updatedBooking: Booking = {
+      ...booking,
+      vehicleId,
+      status: decision.status,
+      decidedById: decision.decidedById,
+      decidedAt,
+      decisionReason: decision.reason || null
+    };
+    this.bookings.set(id, updatedBooking);
+    
+    const decisionId = this.bookingDecisionIdCounter++;
+    this.bookingDecisions.set(decisionId, {
+      id: decisionId,
+      bookingId: id,
+      decidedById: decision.decidedById,
+      decision: decision.status,
+      reason: decision.reason || null,
+      decidedAt
+    });
+    
+    if (bookingReleasesSlot(booking, updatedBooking)) {
+      await this.promoteWaitlist(updatedBooking);
+    }
+    
+    return updatedBooking;
+  }
+  
+  async startTripFromBooking(bookingId: number, startOdometer?: number, requireInspection = true): Promise<Trip | undefined> {
+    const booking = this.bookings.get(bookingId);
+    if (!booking) return undefined;
+    
+    if (booking.status !== 'approved') {
+      throw new Error(`Only approved bookings can be started (status: ${booking.status})`);
+    }
+    
+    if (Array.from(this.trips.values()).some(trip => trip.bookingId === bookingId)) {
+      throw new Error("A trip has already been started for this booking");
+    }
+    
+    const vehicle = booking.vehicleId === null ? undefined : this.vehicles.get(booking.vehicleId);
+    if (!vehicle) {
+      throw new Error("Vehicle not found");
+    }
+    
+    if (vehicle.status !== 'available') {
+      throw new Error(`Vehicle not available (status: ${vehicle.status})`);
+    }
+    
+    const id = this.tripIdCounter++;
+    const trip: Trip = {
+      id,
+      vehicleId: vehicle.id,
+      driverId: booking.userId,
+      startTime: new Date(),
+      endTime: null,
+      startOdometer: startOdometer ?? vehicle.mileage,
+      endOdometer: null,
+      fuelConsumed: null,
+      purpose: booking.purpose,
+      status: 'in_progress',
+      usage: 'business',
+      notes: null,
+      bookingId,
+      stops: [],
+      passengers: [],
+      cargo: []
+    };
+    await this.checkMileageLock(undefined, trip);
+    checkTripOdometers(trip, vehicle.mileage);
+    const inspection = tripInspectionToLink(Array.from(this.inspections.values()), trip, undefined, requireInspection);
+    for (const reading of tripOdometerReadings(trip)) {
+      await this.recordOdometerReading(reading);
+    }
+    this.trips.set(id, trip);
+    if (inspection) {
+      this.inspections.set(inspection.id, { ...inspection, tripId: id });
+    }
+    this.setVehicleStatus(vehicle.id, 'in_use', { cause: 'trip', tripId: id });
+    
+    return trip;
+  }
+  
+  async listBookingDecisions(bookingId: number): Promise<BookingDecision[]> {
+    return Array.from(this.bookingDecisions.values())
+      .filter(decision => decision.bookingId === bookingId)
+      .sort((a, b) => a.decidedAt.getTime() - b.decidedAt.getTime());
+  }
+  
+  // Booking policy methods
+  async listBookingPolicies(): Promise<BookingPolicy[]> {
+    return Array.from(this.bookingPolicies.values());
+  }
+  
+  async getBookingPolicy(vehicleId: number | null): Promise<BookingPolicy | undefined> {
+    return Array.from(this.bookingPolicies.values())
+      .find(policy => policy.vehicleId === vehicleId);
+  }
+  
+  async saveBookingPolicy(policyData: InsertBookingPolicy): Promise<BookingPolicy> {
+    // One policy per scope, so saving replaces the existing one
+    const existing = await this.getBookingPolicy(policyData.vehicleId ?? null);
+    const policy: BookingPolicy = {
+      id: existing?.id ?? this.bookingPolicyIdCounter++,
+      vehicleId: policyData.vehicleId ?? null,
+      maxDurationHours: policyData.maxDurationHours ?? null,
+      minLeadTimeHours: policyData.minLeadTimeHours ?? null,
+      maxAdvanceDays: policyData.maxAdvanceDays ?? null,
+      maxActiveBookings: policyData.maxActiveBookings ?? null,
+      updatedAt: new Date()
+    };
+    this.bookingPolicies.set(policy.id, policy);
+    return policy;
+  }
+  
+  async deleteBookingPolicy(id: number): Promise<boolean> {
+    return this.bookingPolicies.delete(id);
+  }
+  
+  async listBookingBlackouts(vehicleId?: number): Promise<BookingBlackout[]> {
+    return Array.from(this.bookingBlackouts.values())
+      .filter(blackout => vehicleId === undefined || blackout.vehicleId === null || blackout.vehicleId === vehicleId)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+  
+  async createBookingBlackout(blackoutData: InsertBookingBlackout, createdById: number): Promise<BookingBlackout> {
+    const startTime = new Date(blackoutData.startTime);
+    const endTime = new Date(blackoutData.endTime);
+    if (endTime <= startTime) {
+      throw new Error("End time must be after start time");
+    }
+    
+    const id = this.bookingBlackoutIdCounter++;
+    const blackout: BookingBlackout = {
+      id,
+      vehicleId: blackoutData.vehicleId ?? null,
+      startTime,
+      endTime,
+      reason: blackoutData.reason,
+      createdById
+    };
+    this.bookingBlackouts.set(id, blackout);
+    return blackout;
+  }
+  
+  async deleteBookingBlackout(id: number): Promise<boolean> {
+    return this.bookingBlackouts.delete(id);
+  }
+  
+  async countActiveBookingsForUser(userId: number): Promise<number> {
+    const now = new Date();
+    return Array.from(this.bookings.values())
+      .filter(booking =>
+        booking.userId === userId &&
+        EDITABLE_BOOKING_STATUSES.includes(booking.status) &&
+        new Date(booking.endTime) > now
+      ).length;
+  }
+  
+  // Waitlist methods
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    return this.waitlistEntries.get(id);
+  }
+  
+  async createWaitlistEntry(entryData: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    if (!this.vehicles.has(entryData.vehicleId)) {
+      throw new Error("Vehicle not found");
+    }
+    
+    const startTime = new Date(entryData.startTime);
+    const endTime = new Date(entryData.endTime);
+    if (endTime <= startTime) {
+      throw new Error("End time must be after start time");
+    }
+    
+    const id = this.waitlistEntryIdCounter++;
+    const entry: WaitlistEntry = {
+      id,
+      vehicleId: entryData.vehicleId,
+      userId: entryData.userId,
+      startTime,
+      endTime,
+      purpose: entryData.purpose ?? null,
+      status: "waiting",
+      bookingId: null,
+      createdAt: new Date(),
+      promotedAt: null
+    };
+    this.waitlistEntries.set(id, entry);
+    return entry;
+  }
+  
+  async cancelWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    const entry = this.waitlistEntries.get(id);
+    if (!entry) return undefined;
+    
+    if (entry.status !== "waiting") {
+      throw new Error(`Only waiting requests can be cancelled (status: ${entry.status})`);
+    }
+    
+    const cancelled: WaitlistEntry = { ...entry, status: "cancelled" };
+    this.waitlistEntries.set(id, cancelled);
+    return cancelled;
+  }
+  
+  async listWaitlistEntries(userId?: number): Promise<WaitlistEntry[]> {
+    return Array.from(this.waitlistEntries.values())
+      .filter(entry => userId === undefined || entry.userId === userId)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+  
+  // Promoted requests become ordinary bookings, so they must meet the booking policies as they
+  // stand now. Requests that do not are left waiting for a later release.
+  private async waitlistBreaksPolicy(entry: WaitlistEntry, now: Date): Promise<boolean> {
+    const [globalPolicy, vehiclePolicy, blackouts, activeBookingCount] = await Promise.all([
+      this.getBookingPolicy(null),
+      this.getBookingPolicy(entry.vehicleId),
+      this.listBookingBlackouts(entry.vehicleId),
+      this.countActiveBookingsForUser(entry.userId),
+    ]);
+    
+    return findPolicyViolations({
+      windows: [{ startTime: entry.startTime, endTime: entry.endTime }],
+      globalPolicy,
+      vehiclePolicy,
+      blackouts,
+      activeBookingCount,
+      now
+    }).length > 0;
+  }
+  
+  // Turn waitlisted requests overlapping a released booking into pending bookings, oldest request first
+  private async promoteWaitlist(released: Booking): Promise<void> {
+    if (released.vehicleId === null) return;
+    const vehicle = this.vehicles.get(released.vehicleId);
+    if (!vehicle || vehicle.status === 'out_of_service') return;
+    
+    const now = new Date();
+    const candidates = Array.from(this.waitlistEntries.values())
+      .filter(entry =>
+        entry.vehicleId === released.vehicleId &&
+        entry.status === "waiting" &&
+        entry.startTime > now &&
+        windowsOverlap(entry.startTime, entry.endTime, new Date(released.startTime), new Date(released.endTime))
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+    
+    for (const entry of candidates) {
+      const conflicts = await this.findConflictingBookings(entry.vehicleId, entry.startTime, entry.endTime);
+      if (conflicts.length > 0) continue;
+      if (await this.waitlistBreaksPolicy(entry, now)) continue;
+      
+      const booking = await this.createBooking({
+        vehicleId: entry.vehicleId,
+        userId: entry.userId,
+        startTime: entry.startTime.toISOString(),
+        endTime: entry.endTime.toISOString(),
+        purpose: entry.purpose,
+        status: "pending"
+      });
+      this.waitlistEntries.set(entry.id, { ...entry, status: "promoted", bookingId: booking.id, promotedAt: now });
+      await this.createNotification({ userId: entry.userId, message: waitlistPromotionMessage(vehicle), link: "/bookings" });
+    }
+  }
+  
+  // Notification methods
+  async createNotification(notificationData: Pick<Notification, "userId" | "message"> & { link?: string | null }): Promise<Notification> {
+    const id = this.notificationIdCounter++;
+    const notification: Notification = {
+      id,
+      userId: notificationData.userId,
+      message: notificationData.message,
+      link: notificationData.link ?? null,
+      readAt: null,
+      createdAt: new Date()
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+  
+  async listNotifications(userId: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    const readAt = new Date();
+    const unread = Array.from(this.notifications.values())
+      .filter(notification =>
+        notification.userId === userId &&
+        notification.readAt === null &&
+        (!ids || ids.includes(notification.id))
+      );
+    unread.forEach(notification => this.notifications.set(notification.id, { ...notification, readAt }));
+    return unread.length;
+  }
+  
+  // Availability methods
+  async listVehicleAvailability(startTime: Date, endTime: Date, excludeBookingId?: number): Promise<VehicleAvailability[]> {
+    return buildVehicleAvailability(
+      Array.from(this.vehicles.values()),
+      Array.from(this.bookings.values()),
+      Array.from(this.trips.values()),
+      Array.from(this.maintenances.values()),
+      startTime,
+      endTime,
+      excludeBookingId
+    );
+  }
+  
+  async listVehicleSchedule(startTime: Date, endTime: Date): Promise<VehicleSchedule> {
+    return buildVehicleSchedule(
+      Array.from(this.bookings.values()),
+      Array.from(this.trips.values()),
+      Array.from(this.maintenances.values()),
+      startTime,
+      endTime
+    );
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: any;
+  private initialized = false;
+  private initializationPromise: Promise<void>;
+  
+  constructor() {
+    // Initialize Session Store with PostgreSQL
+    this.sessionStore = new PostgresSessionStore({
+      conObject: {
+        connectionString: process.env.DATABASE_URL,
+      },
+      createTableIfMissing: true,
+    });
+    
+    // Initialize database with admin user if it doesn't exist
+    this.initializationPromise = this.initializeDatabase();
+  }
+  
+  private async initializeDatabase() {
+    try {
+      // Add admin user if no users exist
+      const userCount = await db.select({ count: sql`count(*)` }).from(users);
+      const count = Number(userCount[0].count);
+      
+      console.log(`Database initialization: Found ${count} existing users`);
+      
+      if (count === 0) {
+        console.log('Creating admin user...');
+        // Add admin user - with pre-hashed password
+        const hashedAdminPassword = "d9e9e2991bded44e3a92275c9c98db16f2201176afb59d337832dc981d2bc2d67fbf6cbc68d5a73d8494b8bd65de8a9832e5e815f5bb3add4c98a4f0d43c8ea6.73af07fc6eeca4a16f15aebd35c26782";
+        
+        // Direct DB insert to avoid self-reference to createUser method
+        await db.insert(users).values({
+          username: "admin",
+          password: hashedAdminPassword,
+          name: "Admin User",
+          role: "admin",
+          position: "Administrator",
+          email: "admin@fleetmanager.com",
+          phone: "555-123-4567"
+        });
+        console.log('Admin user created successfully');
+      }
+      
+      // Trips cannot start without a pre-trip checklist, so there is always one to use
+      const templateCount = await db.select({ count: sql`count(*)` }).from(inspectionTemplates);
+      if (Number(templateCount[0].count) === 0) {
+        console.log('Creating default inspection templates...');
+        await db.insert(inspectionTemplates).values(DEFAULT_INSPECTION_TEMPLATES);
+      }
+      
+      this.initialized = true;
+      console.log('Database initialization complete');
+    } catch (error) {
+      console.error('Error initializing database:', error);
+      throw error;
+    }
+  }
+  
+  // Helper method to ensure initialization is complete before DB operations
+  private async ensureInitialized() {
+    if (!this.initialized) {
+      await this.initializationPromise;
+    }
+  }
+  
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(users).where(eq(users.id, id));
+    return result[0];
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(users).where(eq(users.username, username));
+    return result[0];
+  }
+  
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(users).where(eq(users.calendarToken, token));
+    return result[0];
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    await this.ensureInitialized();
+    // Ensure all required fields have values
+    const userToCreate = {
+      username: insertUser.username,
+      password: insertUser.password,
+      name: insertUser.name,
+      role: insertUser.role || "moderator",
+      position: insertUser.position || null,
+      email: insertUser.email || null,
+      phone: insertUser.phone || null
+    };
+    
+    const result = await db.insert(users).values(userToCreate).returning();
+    return result[0];
+  }
+  
+  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
+    await this.ensureInitialized();
+    const result = await db.update(users)
+      .set(userData)
+      .where(eq(users.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async listUsers(): Promise<User[]> {
+    await this.ensureInitialized();
+    return await db.select().from(users);
+  }
+  
+  async deleteUser(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    const result = await db.delete(users).where(eq(users.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Vehicle methods
+  async getVehicle(id: number): Promise<Vehicle | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(vehicles).where(eq(vehicles.id, id));
+    return result[0];
+  }
+  
+  async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
+    await this.ensureInitialized();
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(vehicles).values(vehicle).returning();
+      await this.appendOdometerReading(tx, { vehicleId: result[0].id, reading: result[0].mileage, recordedAt: new Date(), source: 'initial' });
+      await tx.insert(vehicleStatusChanges).values({ vehicleId: result[0].id, fromStatus: null, toStatus: result[0].status, cause: 'manual' });
+      return result[0];
+    });
+  }
+  
+  async updateVehicle(id: number, vehicleData: Partial<Vehicle>, changedById?: number): Promise<Vehicle | undefined> {
+    await this.ensureInitialized();
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select().from(vehicles).where(eq(vehicles.id, id)).for('update');
+      if (existing.length === 0) {
+        return undefined;
+      }
+      
+      // A new mileage is a manual reading, so it has to fit the ledger like any other
+      const { mileage, ...otherData } = vehicleData;
+      if (mileage !== undefined && mileage !== existing[0].mileage) {
+        await this.appendOdometerReading(tx, { vehicleId: id, reading: mileage, recordedAt: new Date(), source: 'manual' });
+      }
+      if (otherData.status !== undefined && otherData.status !== existing[0].status) {
+        await tx.insert(vehicleStatusChanges).values({
+          vehicleId: id,
+          fromStatus: existing[0].status,
+          toStatus: otherData.status,
+          cause: 'manual',
+          changedById: changedById ?? null
+        });
+      }
+      
+      if (Object.keys(otherData).length === 0) {
+        const result = await tx.select().from(vehicles).where(eq(vehicles.id, id));
+        return result[0];
+      }
+      
+      const result = await tx.update(vehicles)
+        .set(otherData)
+        .where(eq(vehicles.id, id))
+        .returning();
+      return result[0];
+    });
+  }
+  
+  async deleteVehicle(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    const result = await db.delete(vehicles).where(eq(vehicles.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  async listVehicleStatusChanges(vehicleId?: number): Promise<VehicleStatusChange[]> {
+    await this.ensureInitialized();
+    return await db.select().from(vehicleStatusChanges)
+      .where(vehicleId !== undefined ? eq(vehicleStatusChanges.vehicleId, vehicleId) : undefined)
+      .orderBy(asc(vehicleStatusChanges.changedAt), asc(vehicleStatusChanges.id));
+  }
+  
+  async listVehicles(filters?: { status?: string, make?: string, year?: number }): Promise<Vehicle[]> {
+    await this.ensureInitialized();
+    
+    if (!filters) {
+      return await db.select().from(vehicles);
+    }
+    
+    const conditions = [];
+    
+    if (filters.status) {
+      conditions.push(eq(vehicles.status, filters.status as any));
+    }
+    
+    if (filters.make) {
+      conditions.push(eq(vehicles.make, filters.make));
+    }
+    
+    if (filters.year) {
+      conditions.push(eq(vehicles.year, filters.year));
+    }
+    
+    if (conditions.length === 0) {
+      return await db.select().from(vehicles);
+    }
+    
+    return await db.select().from(vehicles).where(and(...conditions));
+  }
+  
+  // Maintenance methods
+  async getMaintenance(id: number): Promise<Maintenance | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(maintenance).where(eq(maintenance.id, id));
+    return result[0];
+  }
+  
+  async createMaintenance(maintenanceData: InsertMaintenance): Promise<Maintenance> {
+    await this.ensureInitialized();
+    // Start a transaction for atomicity
+    const result = await db.transaction(async (tx) => {
+      const newMaintenance = await tx.insert(maintenance)
+        .values({ ...maintenanceData, cost: maintenanceCost({ cost: maintenanceData.cost ?? null, lines: maintenanceData.lines ?? [] }) })
+        .returning();
+      
+      // A shortage of any part on the work order rolls the whole record back
+      await this.syncPartConsumption(tx, newMaintenance[0].id, newMaintenance[0]);
+      
+      // A reading the ledger rejects rolls the whole record back
+      if (newMaintenance[0].odometer !== null) {
+        await this.appendOdometerReading(tx, {
+          vehicleId: newMaintenance[0].vehicleId,
+          reading: newMaintenance[0].odometer,
+          recordedAt: new Date(newMaintenance[0].date),
+          source: 'maintenance',
+          maintenanceId: newMaintenance[0].id
+        });
+      }
+      
+      // Update vehicle status to maintenance
+      if (maintenanceData.status !== 'completed') {
+        const vehicle = await tx.select().from(vehicles)
+          .where(eq(vehicles.id, maintenanceData.vehicleId));
+        
+        if (vehicle.length > 0 && vehicle[0].status === 'available') {
+          await this.changeVehicleStatus(tx, vehicle[0], 'maintenance', { cause: 'maintenance', maintenanceId: newMaintenance[0].id });
+        }
+      }
+      
+      return newMaintenance[0];
+    });
+    
+    return result;
+  }
+  
+  async updateMaintenance(id: number, maintenanceData: Partial<Maintenance>): Promise<Maintenance | undefined> {
+    await this.ensureInitialized();
+    console.log(`[updateMaintenance] Updating maintenance #${id} with data:`, maintenanceData);
+    
+    try {
+      // Start a transaction for atomicity
+      const result = await db.transaction(async (tx) => {
+        const existingMaintenance = await tx.select().from(maintenance)
+          .where(eq(maintenance.id, id));
+        
+        console.log("[updateMaintenance] Existing maintenance:", existingMaintenance);
+        
+        // Handle completedAt date conversion if needed
+        let processedData = {...maintenanceData};
+        if (maintenanceData.completedAt && typeof maintenanceData.completedAt === 'string') {
+          console.log('[updateMaintenance] Converting completedAt from string to Date:', maintenanceData.completedAt);
+          processedData.completedAt = new Date(maintenanceData.completedAt);
+        }
+        
+        // Work order lines set the cost, whether the lines or only the cost changed
+        if (existingMaintenance.length > 0) {
+          processedData.cost = maintenanceCost({ ...existingMaintenance[0], ...maintenanceData });
+        }
+        
+        const updatedMaintenance = await tx.update(maintenance)
+          .set(processedData)
+          .where(eq(maintenance.id, id))
+          .returning();
+        
+        console.log("[updateMaintenance] Updated maintenance:", updatedMaintenance);
+        
+        if (updatedMaintenance.length > 0) {
+          await this.syncPartConsumption(tx, id, updatedMaintenance[0]);
+        }
+        
+        if (existingMaintenance.length > 0 && updatedMaintenance.length > 0 &&
+            maintenanceReadingChanged(updatedMaintenance[0], existingMaintenance[0])) {
+          await this.appendOdometerReading(tx, {
+            vehicleId: updatedMaintenance[0].vehicleId,
+            reading: updatedMaintenance[0].odometer!,
+            recordedAt: new Date(updatedMaintenance[0].date),
+            source: 'maintenance',
+            maintenanceId: id
+          });
+        }
+        
+        // If maintenance is completed, update vehicle status back to available
+        if (maintenanceData.status === 'completed') {
+          console.log("[updateMaintenance] Maintenance marked as completed, checking vehicle status");
+          const maintenanceRecord = await tx.select().from(maintenance)
+            .where(eq(maintenance.id, id));
+          
+          if (maintenanceRecord.length > 0) {
+            const vehicle = await tx.select().from(vehicles)
+              .where(eq(vehicles.id, maintenanceRecord[0].vehicleId));
+            
+            console.log("[updateMaintenance] Associated vehicle:", vehicle);
+            
+            if (vehicle.length > 0 && vehicle[0].status === 'maintenance') {
+              console.log("[updateMaintenance] Updating vehicle status from maintenance to available");
+              await this.changeVehicleStatus(tx, vehicle[0], 'available', { cause: 'maintenance', maintenanceId: id });
+            }
+          }
+        }
+        
+        return updatedMaintenance[0];
+      });
+      
+      console.log("[updateMaintenance] Transaction completed successfully");
+      return result;
+    } catch (error) {
+      console.error("[updateMaintenance] Error updating maintenance:", error);
+      throw error;
+    }
+  }
+  
+  async deleteMaintenance(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    return await db.transaction(async (tx) => {
+      // Parts booked out on the record go back on the shelf
+      await this.syncPartConsumption(tx, id, undefined);
+      await this.voidLinkedReadings(tx, eq(odometerReadings.maintenanceId, id));
+      const result = await tx.delete(maintenance).where(eq(maintenance.id, id)).returning();
+      return result.length > 0;
+    });
+  }
+  
+  async listMaintenanceForVehicle(vehicleId: number): Promise<Maintenance[]> {
+    await this.ensureInitialized();
+    return await db.select().from(maintenance)
+      .where(eq(maintenance.vehicleId, vehicleId));
+  }
+  
+  async listUpcomingMaintenance(): Promise<Maintenance[]> {
+    await this.ensureInitialized();
+    return await db.select().from(maintenance)
+      .where(
+        and(
+          sql`${maintenance.status} != 'completed'`,
+          sql`${maintenance.date} >= CURRENT_DATE`
+        )
+      )
+      .orderBy(maintenance.date);
+  }
+  
+  async listCompletedMaintenance(filters?: { vehicleId?: number, from?: Date }): Promise<Maintenance[]> {
+    await this.ensureInitialized();
+    const conditions = [eq(maintenance.status, 'completed')];
+    if (filters?.vehicleId !== undefined) {
+      conditions.push(eq(maintenance.vehicleId, filters.vehicleId));
+    }
+    if (filters?.from) {
+      conditions.push(sql`coalesce(${maintenance.completedAt}, ${maintenance.date}::timestamp) >= ${filters.from.toISOString()}`);
+    }
+    return await db.select().from(maintenance).where(and(...conditions));
+  }
+  
+  // Preventive maintenance plan methods
+  async getMaintenancePlan(id: number): Promise<MaintenancePlan | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(maintenancePlans).where(eq(maintenancePlans.id, id));
+    return result[0];
+  }
+  
+  async listMaintenancePlans(): Promise<MaintenancePlan[]> {
+    await this.ensureInitialized();
+    return await db.select().from(maintenancePlans)
+      .orderBy(asc(maintenancePlans.name), asc(maintenancePlans.id));
+  }
+  
+  async createMaintenancePlan(planData: InsertMaintenancePlan): Promise<MaintenancePlan> {
+    await this.ensureInitialized();
+    const result = await db.insert(maintenancePlans).values(planData).returning();
+    return result[0];
+  }
+  
+  async updateMaintenancePlan(id: number, planData: Partial<InsertMaintenancePlan>): Promise<MaintenancePlan | undefined> {
+    await this.ensureInitialized();
+    const result = await db.update(maintenancePlans)
+      .set(planData)
+      .where(eq(maintenancePlans.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async deleteMaintenancePlan(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    const result = await db.delete(maintenancePlans).where(eq(maintenancePlans.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  async listPlannedMaintenance(): Promise<Maintenance[]> {
+    await this.ensureInitialized();
+    return await db.select().from(maintenance)
+      .where(sql`${maintenance.planId} IS NOT NULL`);
+  }
+  
+  // Unlike createMaintenance this leaves the vehicle in service; the work is only booked.
+  // The plan row is locked so two requests syncing at once cannot both open a record.
+  async createPlannedMaintenance(maintenanceData: InsertMaintenance & { planId: number }): Promise<Maintenance | undefined> {
+    await this.ensureInitialized();
+    return await db.transaction(async (tx) => {
+      const plan = await tx.select().from(maintenancePlans)
+        .where(eq(maintenancePlans.id, maintenanceData.planId))
+        .for('update');
+      if (plan.length === 0) return undefined;
+      
+      const open = await tx.select({ id: maintenance.id }).from(maintenance)
+        .where(and(
+          eq(maintenance.planId, maintenanceData.planId),
+          eq(maintenance.vehicleId, maintenanceData.vehicleId),
+          ne(maintenance.status, 'completed')
+        ));
+      if (open.length > 0) return undefined;
+      
+      const result = await tx.insert(maintenance)
+        .values({ ...maintenanceData, odometer: null, engineHours: null, completedAt: null })
+        .returning();
+      return result[0];
+    });
+  }
+  
+  // Service vendor methods
+  async getVendor(id: number): Promise<Vendor | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(vendors).where(eq(vendors.id, id));
+    return result[0];
+  }
+  
+  async listVendors(): Promise<Vendor[]> {
+    await this.ensureInitialized();
+    return await db.select().from(vendors)
+      .orderBy(asc(vendors.name), asc(vendors.id));
+  }
+  
+  async createVendor(vendorData: InsertVendor): Promise<Vendor> {
+    await this.ensureInitialized();
+    const result = await db.insert(vendors).values(vendorData).returning();
+    return result[0];
+  }
+  
+  async updateVendor(id: number, vendorData: Partial<InsertVendor>): Promise<Vendor | undefined> {
+    await this.ensureInitialized();
+    const result = await db.update(vendors)
+      .set(vendorData)
+      .where(eq(vendors.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async deleteVendor(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    const result = await db.delete(vendors).where(eq(vendors.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  async listMaintenanceForVendor(vendorId: number): Promise<Maintenance[]> {
+    await this.ensureInitialized();
+    return await db.select().from(maintenance)
+      .where(eq(maintenance.vendorId, vendorId));
+  }
+  
+  async listReworkMaintenance(reworkOfIds: number[]): Promise<Maintenance[]> {
+    await this.ensureInitialized();
+    if (reworkOfIds.length === 0) return [];
+    return await db.select().from(maintenance)
+      .where(inArray(maintenance.reworkOfId, reworkOfIds));
+  }
+  
+  // Spare parts inventory methods
+  async getPart(id: number): Promise<Part | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(parts).where(eq(parts.id, id));
+    return result[0];
+  }
+  
+  async listParts(): Promise<Part[]> {
+    await this.ensureInitialized();
+    return await db.select().from(parts)
+      .orderBy(asc(parts.name), asc(parts.id));
+  }
+  
+  async createPart(partData: InsertPart): Promise<Part> {
+    await this.ensureInitialized();
+    const duplicate = await db.select({ id: parts.id }).from(parts)
+      .where(eq(parts.partNumber, partData.partNumber));
+    if (duplicate.length > 0) {
+      throw new StockError(`Part number ${partData.partNumber} is already in the catalogue`);
+    }
+    
+    const result = await db.insert(parts).values(partData).returning();
+    return result[0];
+  }
+  
+  async updatePart(id: number, partData: Partial<InsertPart>): Promise<Part | undefined> {
+    await this.ensureInitialized();
+    if (partData.partNumber !== undefined) {
+      const duplicate = await db.select({ id: parts.id }).from(parts)
+        .where(and(eq(parts.partNumber, partData.partNumber), ne(parts.id, id)));
+      if (duplicate.length > 0) {
+        throw new StockError(`Part number ${partData.partNumber} is already in the catalogue`);
+      }
+    }
+    
+    const result = await db.update(parts)
+      .set(partData)
+      .where(eq(parts.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async deletePart(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    const result = await db.delete(parts).where(eq(parts.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  async listPartMovements(partId: number): Promise<PartMovement[]> {
+    await this.ensureInitialized();
+    return await db.select().from(partMovements)
+      .where(eq(partMovements.partId, partId))
+      .orderBy(desc(partMovements.recordedAt), desc(partMovements.id));
+  }
+  
+  async recordPartMovement(partId: number, movementData: PartMovementInput, recordedById: number): Promise<PartMovement> {
+    await this.ensureInitialized();
+    return await db.transaction(async (tx) => {
+      // Lock the part so concurrent movements are applied one after another
+      const part = await tx.select().from(parts)
+        .where(eq(parts.id, partId))
+        .for('update');
+      if (part.length === 0) throw new StockError("Part not found");
+      
+      await tx.update(parts)
+        .set(applyPartMovement(part[0], movementData.quantity, movementData.unitCost))
+        .where(eq(parts.id, partId));
+      
+      const result = await tx.insert(partMovements)
+        .values({
+          partId,
+          type: movementData.type,
+          quantity: movementData.quantity,
+          unitCost: movementData.unitCost ?? part[0].unitCost,
+          reference: movementData.reference ?? null,
+          notes: movementData.notes ?? null,
+          recordedById,
+        })
+        .returning();
+      return result[0];
+    });
+  }
+  
+  // Trip methods
+  async getTrip(id: number): Promise<Trip | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(trips).where(eq(trips.id, id));
+    return result[0];
+  }
+  
+  async createTrip(tripData: InsertTrip, requireInspection = true): Promise<Trip> {
+    await this.ensureInitialized();
+    console.log("[createTrip] Creating trip with data:", tripData);
+    
+    try {
+      // Handle date type conversion if needed
+      const processedData = {...tripData};
+      if (tripData.startTime && typeof tripData.startTime === 'string') {
+        console.log('[createTrip] Converting startTime from string to Date:', tripData.startTime);
+        processedData.startTime = new Date(tripData.startTime);
+      }
+      
+      if (tripData.endTime && typeof tripData.endTime === 'string') {
+        console.log('[createTrip] Converting endTime from string to Date:', tripData.endTime);
+        processedData.endTime = new Date(tripData.endTime);
+      }
+      
+      // Start a transaction for atomicity
+      const result = await db.transaction(async (tx) => {
+        console.log("[createTrip] Processed trip data:", processedData);
+        const currentVehicle = await tx.select().from(vehicles)
+          .where(eq(vehicles.id, processedData.vehicleId))
+          .for('update');
+        
+        await this.checkMileageLock(tx, undefined, processedData);
+        const newTrip = await tx.insert(trips)
+          .values(processedData)
+          .returning();
+        
+        console.log("[createTrip] New trip created:", newTrip);
+        
+        checkTripOdometers(newTrip[0], currentVehicle[0]?.mileage);
+        await this.linkTripInspection(tx, newTrip[0], undefined, requireInspection);
+        for (const reading of tripOdometerReadings(newTrip[0])) {
+          await this.appendOdometerReading(tx, reading);
+        }
+        
+        // Update vehicle status to in_use
+        if (processedData.status === 'in_progress') {
+          const vehicle = await tx.select().from(vehicles)
+            .where(eq(vehicles.id, processedData.vehicleId));
+          
+          console.log("[createTrip] Vehicle for trip:", vehicle);
+          
+          if (vehicle.length > 0 && vehicle[0].status === 'available') {
+            console.log("[createTrip] Updating vehicle status to in_use");
+            await this.changeVehicleStatus(tx, vehicle[0], 'in_use', { cause: 'trip', tripId: newTrip[0].id });
+          }
+        }
+        
+        return newTrip[0];
+      });
+      
+      console.log("[createTrip] Transaction completed successfully");
+      return result;
+    } catch (error) {
+      console.error("[createTrip] Error creating trip:", error);
+      throw error;
+    }
+  }
+  
+  async updateTrip(id: number, tripData: Partial<Trip>, requireInspection = true): Promise<Trip | undefined> {
+    try {
+      await this.ensureInitialized();
+      
+      console.log("[updateTrip] Received trip data:", JSON.stringify(tripData));
+      
+      // Process the data to handle date conversions
+      const processedData = { ...tripData };
+      
+      // Handle endTime conversion if it's a string
+      if (processedData.endTime && typeof processedData.endTime === 'string') {
+        try {
+          console.log("[updateTrip] Converting endTime from string:", processedData.endTime);
+          processedData.endTime = new Date(processedData.endTime);
+          console.log("[updateTrip] Converted endTime to Date:", processedData.endTime);
+        } catch (e) {
+          console.error("[updateTrip] Error converting endTime:", e);
+          throw new Error("Invalid endTime format");
+        }
+      }
+      
+      console.log("[updateTrip] Processed data:", JSON.stringify(processedData, (key, value) => 
+        value instanceof Date ? value.toISOString() : value
+      ));
+      
+      // Start a transaction for atomicity
+      const result = await db.transaction(async (tx) => {
+        const existingTrip = await tx.select().from(trips)
+          .where(eq(trips.id, id))
+          .for('update');
+        
+        if (existingTrip.length > 0) {
+          await this.checkMileageLock(tx, existingTrip[0], { ...existingTrip[0], ...processedData });
+        }
+        
+        const updatedTrip = await tx.update(trips)
+          .set(processedData)
+          .where(eq(trips.id, id))
+          .returning();
+        
+        if (!updatedTrip.length) {
+          console.error("[updateTrip] Trip not found:", id);
+          return undefined;
+        }
+        
+        // Only readings that changed go into the ledger; the vehicle's mileage follows it
+        checkTripOdometers(updatedTrip[0]);
+        await this.linkTripInspection(tx, updatedTrip[0], existingTrip[0], requireInspection);
+        for (const reading of tripOdometerReadings(updatedTrip[0], existingTrip[0])) {
+          await this.appendOdometerReading(tx, reading);
+        }
+        
+        console.log("[updateTrip] Trip updated:", JSON.stringify(updatedTrip[0], (key, value) => 
+          value instanceof Date ? value.toISOString() : value
+        ));
+        
+        // If trip is completed, update vehicle status back to available
+        if (processedData.status === 'completed' && processedData.endTime) {
+          console.log("[updateTrip] Trip is being completed");
+          
+          const tripRecord = await tx.select().from(trips)
+            .where(eq(trips.id, id));
+          
+          if (tripRecord.length > 0) {
+            console.log("[updateTrip] Found trip record:", JSON.stringify(tripRecord[0]));
+            
+            const vehicle = await tx.select().from(vehicles)
+              .where(eq(vehicles.id, tripRecord[0].vehicleId));
+            
+            if (vehicle.length > 0) {
+              console.log("[updateTrip] Found vehicle:", JSON.stringify(vehicle[0]));
+              
+              if (vehicle[0].status === 'in_use') {
+                console.log("[updateTrip] Updating vehicle status to available");
+                
+                await this.changeVehicleStatus(tx, vehicle[0], 'available', { cause: 'trip', tripId: id });
+                  
+                console.log("[updateTrip] Vehicle updated to available");
+              } else {
+                console.log("[updateTrip] Vehicle not in use, status is:", vehicle[0].status);
+              }
+            } else {
+              console.log("[updateTrip] Vehicle not found");
+            }
+            
+            // A trip started from a booking completes that booking
+            if (tripRecord[0].bookingId) {
+              console.log("[updateTrip] Completing booking:", tripRecord[0].bookingId);
+              await tx.update(bookings)
+                .set({ status: 'completed' })
+                .where(and(
+                  eq(bookings.id, tripRecord[0].bookingId),
+                  eq(bookings.status, 'approved')
+                ));
+            }
+          } else {
+            console.log("[updateTrip] Trip record not found after update");
+          }
+        }
+        
+        return updatedTrip[0];
+      });
+      
+      console.log("[updateTrip] Transaction completed successfully");
+      return result;
+    } catch (error) {
+      console.error("[updateTrip] Error updating trip:", error);
+      throw error;
+    }
+  }
+  
+  async deleteTrip(id: number): Promise<boolean> {
     await this.ensureInitialized();
-    return await db.select().from(maintenance)
-      .where(
-        and(
-          sql`${maintenance.status} != 'completed'`,
-          sql`${maintenance.date} >= CURRENT_DATE`
-        )
-      )
-      .orderBy(maintenance.date);
+    return await db.transaction(async (tx) => {
+      const trip = await tx.select().from(trips)
+        .where(eq(trips.id, id))
+        .for('update');
+      if (trip.length === 0) return false;
+      
+      await this.checkMileageLock(tx, trip[0]);
+      await this.voidLinkedReadings(tx, eq(odometerReadings.tripId, id));
+      const result = await tx.delete(trips).where(eq(trips.id, id)).returning();
+      return result.length > 0;
+    });
+  }
+  
+  // Every trip write passes through here, so paid-out trips stay as they were approved
+  private async checkMileageLock(tx: Transaction, existing: Trip | undefined, next?: { driverId: number; startTime: Date | string }): Promise<void> {
+    await checkMileageStatementLock(async (driverId, month) => {
+      const result = await tx.select().from(mileageStatements)
+        .where(and(eq(mileageStatements.driverId, driverId), eq(mileageStatements.month, month)));
+      return result[0];
+    }, existing, next);
+  }
+  
+  async listTripsForVehicle(vehicleId: number): Promise<Trip[]> {
+    await this.ensureInitialized();
+    return await db.select().from(trips)
+      .where(eq(trips.vehicleId, vehicleId));
+  }
+  
+  async listTripsForDriver(driverId: number): Promise<Trip[]> {
+    await this.ensureInitialized();
+    return await db.select().from(trips)
+      .where(eq(trips.driverId, driverId));
+  }
+  
+  async listActiveTrips(): Promise<Trip[]> {
+    await this.ensureInitialized();
+    return await db.select().from(trips)
+      .where(eq(trips.status, 'in_progress'));
+  }
+  
+  async searchTrips(search: TripSearch): Promise<TripPage> {
+    await this.ensureInitialized();
+    
+    const conditions = [];
+    if (search.from) {
+      conditions.push(gte(trips.startTime, search.from));
+    }
+    if (search.to) {
+      conditions.push(lt(trips.startTime, search.to));
+    }
+    if (search.vehicleId !== undefined) {
+      conditions.push(eq(trips.vehicleId, search.vehicleId));
+    }
+    if (search.driverId !== undefined) {
+      conditions.push(eq(trips.driverId, search.driverId));
+    }
+    if (search.status) {
+      conditions.push(eq(trips.status, search.status));
+    }
+    if (search.purpose) {
+      // The text is matched literally, so LIKE wildcards typed into the search are escaped
+      conditions.push(ilike(trips.purpose, `%${search.purpose.replace(/[\\%_]/g, '\\$&')}%`));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    
+    const order = search.direction === 'asc' ? asc : desc;
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(trips).where(where);
+    const page = await db.select().from(trips)
+      .where(where)
+      .orderBy(order(trips[search.sort]), order(trips.id))
+      .limit(search.pageSize)
+      .offset((search.page - 1) * search.pageSize);
+    
+    return { trips: page, total: count, page: search.page, pageSize: search.pageSize };
+  }
+  
+  // Trip route methods
+  async getTripRoute(tripId: number): Promise<TripRoute | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(tripRoutes).where(eq(tripRoutes.tripId, tripId));
+    return result[0];
+  }
+  
+  async saveTripRoute(routeData: Omit<TripRoute, "id" | "uploadedAt">): Promise<TripRoute> {
+    await this.ensureInitialized();
+    
+    // One route per trip, so uploading again replaces it
+    const values = { ...routeData, uploadedAt: new Date() };
+    const result = await db.insert(tripRoutes)
+      .values(values)
+      .onConflictDoUpdate({ target: tripRoutes.tripId, set: values })
+      .returning();
+    
+    console.log(`[saveTripRoute] Saved ${routeData.points.length} points for trip ${routeData.tripId}`);
+    return result[0];
+  }
+  
+  async deleteTripRoute(tripId: number): Promise<boolean> {
+    await this.ensureInitialized();
+    const result = await db.delete(tripRoutes).where(eq(tripRoutes.tripId, tripId)).returning();
+    return result.length > 0;
+  }
+  
+  // Odometer ledger methods
+  async listOdometerReadings(vehicleId: number): Promise<OdometerReading[]> {
+    await this.ensureInitialized();
+    return await db.select().from(odometerReadings)
+      .where(eq(odometerReadings.vehicleId, vehicleId))
+      .orderBy(desc(odometerReadings.recordedAt), desc(odometerReadings.id));
+  }
+  
+  async listAllOdometerReadings(): Promise<OdometerReading[]> {
+    await this.ensureInitialized();
+    return await db.select().from(odometerReadings)
+      .orderBy(desc(odometerReadings.recordedAt), desc(odometerReadings.id));
+  }
+  
+  async listFlaggedOdometerReadings(): Promise<OdometerReading[]> {
+    await this.ensureInitialized();
+    return await db.select().from(odometerReadings)
+      .where(eq(odometerReadings.status, 'flagged'))
+      .orderBy(desc(odometerReadings.recordedAt), desc(odometerReadings.id));
+  }
+  
+  async recordOdometerReading(input: OdometerReadingInput): Promise<OdometerReading> {
+    await this.ensureInitialized();
+    return await db.transaction(async (tx) => this.appendOdometerReading(tx, input));
+  }
+  
+  async reviewOdometerReading(id: number, decision: "accept" | "void", reviewedById: number): Promise<OdometerReading | undefined> {
+    await this.ensureInitialized();
+    
+    return await db.transaction(async (tx) => {
+      const reading = await tx.select().from(odometerReadings)
+        .where(eq(odometerReadings.id, id))
+        .for('update');
+      
+      if (reading.length === 0) {
+        return undefined;
+      }
+      
+      checkOdometerReview(reading[0], decision);
+      
+      const reviewed = await tx.update(odometerReadings)
+        .set({ status: decision === 'accept' ? 'valid' : 'voided', reviewedById, reviewedAt: new Date() })
+        .where(eq(odometerReadings.id, id))
+        .returning();
+      await this.syncLedgerMileage(tx, reading[0].vehicleId);
+      
+      console.log(`[reviewOdometerReading] Reading ${id} ${decision === 'accept' ? 'accepted' : 'voided'} by user ${reviewedById}`);
+      return reviewed[0];
+    });
+  }
+  
+  // A deleted trip, maintenance record or fuel fill takes its readings out of the ledger with it;
+  // this runs before the delete, which would otherwise just unlink them
+  private async voidLinkedReadings(tx: Transaction, link: SQL): Promise<void> {
+    const voided = await tx.update(odometerReadings)
+      .set({ status: 'voided' })
+      .where(and(link, ne(odometerReadings.status, 'voided')))
+      .returning();
+    
+    for (const vehicleId of Array.from(new Set(voided.map(entry => entry.vehicleId)))) {
+      await this.syncLedgerMileage(tx, vehicleId);
+    }
+  }
+  
+  // Voiding the highest reading brings the mileage back down to the next one
+  private async syncLedgerMileage(tx: Transaction, vehicleId: number): Promise<void> {
+    const history = await tx.select().from(odometerReadings)
+      .where(eq(odometerReadings.vehicleId, vehicleId));
+    const mileage = ledgerMileage(history);
+    if (mileage !== undefined) {
+      await tx.update(vehicles)
+        .set({ mileage })
+        .where(eq(vehicles.id, vehicleId));
+    }
+  }
+  
+  // Fuel log methods
+  async getFuelLog(id: number): Promise<FuelLog | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(fuelLogs).where(eq(fuelLogs.id, id));
+    return result[0];
+  }
+  
+  async listFuelLogs(filters?: { vehicleId?: number, driverId?: number }): Promise<FuelLog[]> {
+    await this.ensureInitialized();
+    
+    const conditions = [];
+    if (filters?.vehicleId !== undefined) {
+      conditions.push(eq(fuelLogs.vehicleId, filters.vehicleId));
+    }
+    if (filters?.driverId !== undefined) {
+      conditions.push(eq(fuelLogs.driverId, filters.driverId));
+    }
+    
+    return await db.select().from(fuelLogs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(fuelLogs.filledAt));
+  }
+  
+  async createFuelLog(insertLog: InsertFuelLog): Promise<FuelLog> {
+    await this.ensureInitialized();
+    
+    // A reading the ledger rejects rolls the fill-up back
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(fuelLogs).values(newFuelLog(insertLog)).returning();
+      await this.appendOdometerReading(tx, fuelOdometerReading(result[0]));
+      
+      console.log(`[createFuelLog] Logged ${result[0].litres} L for vehicle ${result[0].vehicleId}`);
+      return result[0];
+    });
+  }
+  
+  async updateFuelLog(id: number, logData: Partial<InsertFuelLog>): Promise<FuelLog | undefined> {
+    await this.ensureInitialized();
+    
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select().from(fuelLogs)
+        .where(eq(fuelLogs.id, id))
+        .for('update');
+      
+      if (existing.length === 0) {
+        return undefined;
+      }
+      
+      const { id: _id, createdAt, ...changes } = applyFuelLogChanges(existing[0], logData);
+      const result = await tx.update(fuelLogs)
+        .set(changes)
+        .where(eq(fuelLogs.id, id))
+        .returning();
+      
+      if (fuelReadingChanged(result[0], existing[0])) {
+        await this.appendOdometerReading(tx, fuelOdometerReading(result[0]));
+      }
+      
+      return result[0];
+    });
+  }
+  
+  async deleteFuelLog(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    return await db.transaction(async (tx) => {
+      await this.voidLinkedReadings(tx, eq(odometerReadings.fuelLogId, id));
+      const result = await tx.delete(fuelLogs).where(eq(fuelLogs.id, id)).returning();
+      return result.length > 0;
+    });
+  }
+  
+  // Inspection methods
+  async listInspectionTemplates(): Promise<InspectionTemplate[]> {
+    await this.ensureInitialized();
+    return await db.select().from(inspectionTemplates).orderBy(asc(inspectionTemplates.id));
+  }
+  
+  async getInspectionTemplate(id: number): Promise<InspectionTemplate | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(inspectionTemplates).where(eq(inspectionTemplates.id, id));
+    return result[0];
+  }
+  
+  async createInspectionTemplate(templateData: InsertInspectionTemplate): Promise<InspectionTemplate> {
+    await this.ensureInitialized();
+    const result = await db.insert(inspectionTemplates).values(templateData).returning();
+    return result[0];
+  }
+  
+  async updateInspectionTemplate(id: number, templateData: Partial<InsertInspectionTemplate>): Promise<InspectionTemplate | undefined> {
+    await this.ensureInitialized();
+    const result = await db.update(inspectionTemplates)
+      .set(templateData)
+      .where(eq(inspectionTemplates.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async getInspection(id: number): Promise<Inspection | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(inspections).where(eq(inspections.id, id));
+    return result[0];
+  }
+  
+  async listInspections(filters?: { vehicleId?: number, tripId?: number, inspectorId?: number }): Promise<Inspection[]> {
+    await this.ensureInitialized();
+    
+    const conditions = [];
+    if (filters?.vehicleId !== undefined) {
+      conditions.push(eq(inspections.vehicleId, filters.vehicleId));
+    }
+    if (filters?.tripId !== undefined) {
+      conditions.push(eq(inspections.tripId, filters.tripId));
+    }
+    if (filters?.inspectorId !== undefined) {
+      conditions.push(eq(inspections.inspectorId, filters.inspectorId));
+    }
+    
+    return await db.select().from(inspections)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(inspections.performedAt), desc(inspections.id));
+  }
+  
+  async createInspection(inspectionData: InsertInspection, inspectorId: number): Promise<Inspection> {
+    await this.ensureInitialized();
+    
+    // The inspection, its maintenance records and the vehicle status change together
+    return await db.transaction(async (tx) => {
+      const template = await tx.select().from(inspectionTemplates)
+        .where(eq(inspectionTemplates.id, inspectionData.templateId));
+      if (template.length === 0 || !template[0].active) {
+        throw new InspectionError("Inspection template not found");
+      }
+      
+      const vehicle = await tx.select().from(vehicles)
+        .where(eq(vehicles.id, inspectionData.vehicleId))
+        .for('update');
+      if (vehicle.length === 0) {
+        throw new Error("Vehicle not found");
+      }
+      
+      let trip: Trip | undefined;
+      let tripInspections: Inspection[] = [];
+      if (inspectionData.tripId != null) {
+        const tripResult = await tx.select().from(trips)
+          .where(eq(trips.id, inspectionData.tripId))
+          .for('update');
+        if (tripResult.length === 0) {
+          throw new InspectionError("Trip not found");
+        }
+        trip = tripResult[0];
+        tripInspections = await tx.select().from(inspections)
+          .where(eq(inspections.tripId, trip.id));
+      }
+      checkInspectionTrip(template[0].kind, vehicle[0].id, trip, tripInspections);
+      
+      const performedAt = new Date();
+      const results = gradeInspection(template[0], inspectionData.results);
+      
+      // Every failed item opens its own maintenance record; the vehicle stays usable unless the item is critical
+      for (const result of results) {
+        if (result.passed) continue;
+        const record = await tx.insert(maintenance)
+          .values(failedItemMaintenance(vehicle[0].id, template[0].kind, result, performedAt))
+          .returning();
+        result.maintenanceId = record[0].id;
+      }
+      
+      const newInspection = await tx.insert(inspections)
+        .values({
+          vehicleId: vehicle[0].id,
+          tripId: trip?.id ?? null,
+          templateId: template[0].id,
+          kind: template[0].kind,
+          inspectorId,
+          performedAt,
+          results,
+          passed: results.every(result => result.passed),
+          criticalFailure: results.some(result => !result.passed && result.critical),
+          notes: inspectionData.notes ?? null
+        })
+        .returning();
+      
+      if (newInspection[0].criticalFailure) {
+        console.log(`[createInspection] Critical item failed, taking vehicle ${vehicle[0].id} out of service`);
+        await this.changeVehicleStatus(tx, vehicle[0], 'out_of_service', { cause: 'inspection', inspectionId: newInspection[0].id });
+      }
+      
+      return newInspection[0];
+    });
+  }
+  
+  // Check the inspection a trip's status change needs and link a pre-trip one to the trip
+  private async linkTripInspection(tx: Transaction, trip: Trip, previous: Trip | undefined, requireInspection: boolean): Promise<void> {
+    if (!requiredInspectionKind(trip, previous)) return;
+    
+    const vehicleInspections = await tx.select().from(inspections)
+      .where(eq(inspections.vehicleId, trip.vehicleId));
+    const inspection = tripInspectionToLink(vehicleInspections, trip, previous, requireInspection);
+    if (inspection) {
+      await tx.update(inspections)
+        .set({ tripId: trip.id })
+        .where(eq(inspections.id, inspection.id));
+    }
+  }
+  
+  // Mileage statement methods
+  async listMileageRates(): Promise<MileageRate[]> {
+    await this.ensureInitialized();
+    return await db.select().from(mileageRates);
+  }
+  
+  async saveMileageRate(rateData: InsertMileageRate): Promise<MileageRate> {
+    await this.ensureInitialized();
+    
+    // One rate per usage, so saving replaces the existing one
+    const values = { ...rateData, updatedAt: new Date() };
+    const result = await db.insert(mileageRates)
+      .values(values)
+      .onConflictDoUpdate({ target: mileageRates.usage, set: values })
+      .returning();
+    return result[0];
+  }
+  
+  async getMileageStatement(id: number): Promise<MileageStatement | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(mileageStatements).where(eq(mileageStatements.id, id));
+    return result[0];
+  }
+  
+  async findMileageStatement(driverId: number, month: string): Promise<MileageStatement | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(mileageStatements)
+      .where(and(eq(mileageStatements.driverId, driverId), eq(mileageStatements.month, month)));
+    return result[0];
+  }
+  
+  async listMileageStatements(filters?: { driverId?: number, status?: MileageStatement["status"] }): Promise<MileageStatement[]> {
+    await this.ensureInitialized();
+    
+    const conditions = [];
+    if (filters?.driverId !== undefined) {
+      conditions.push(eq(mileageStatements.driverId, filters.driverId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(mileageStatements.status, filters.status));
+    }
+    
+    return await db.select().from(mileageStatements)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(mileageStatements.month), desc(mileageStatements.submittedAt));
+  }
+  
+  async submitMileageStatement(preview: MileageStatementPreview): Promise<MileageStatement> {
+    await this.ensureInitialized();
+    
+    // One statement per driver and month; submitting again replaces it until it is approved.
+    // The row lock keeps a resubmission from overwriting an approval made at the same time.
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select().from(mileageStatements)
+        .where(and(eq(mileageStatements.driverId, preview.driverId), eq(mileageStatements.month, preview.month)))
+        .for('update');
+      if (existing[0]?.status === 'approved') {
+        throw new Error("Approved statements can no longer be changed");
+      }
+      
+      const values = {
+        ...preview,
+        status: 'submitted' as const,
+        submittedAt: new Date(),
+        decidedById: null,
+        decidedAt: null,
+        decisionReason: null
+      };
+      const result = existing.length > 0
+        ? await tx.update(mileageStatements).set(values).where(eq(mileageStatements.id, existing[0].id)).returning()
+        : await tx.insert(mileageStatements).values(values).returning();
+      return result[0];
+    });
+  }
+  
+  async decideMileageStatement(id: number, decision: { status: "approved" | "rejected", decidedById: number, reason?: string | null }): Promise<MileageStatement | undefined> {
+    await this.ensureInitialized();
+    
+    return await db.transaction(async (tx) => {
+      const statement = await tx.select().from(mileageStatements)
+        .where(eq(mileageStatements.id, id))
+        .for('update');
+      if (statement.length === 0) return undefined;
+      if (statement[0].status !== 'submitted') {
+        throw new Error("Only submitted statements can be approved or rejected");
+      }
+      
+      const result = await tx.update(mileageStatements)
+        .set({
+          status: decision.status,
+          decidedById: decision.decidedById,
+          decidedAt: new Date(),
+          decisionReason: decision.reason ?? null
+        })
+        .where(eq(mileageStatements.id, id))
+        .returning();
+      return result[0];
+    });
+  }
+  
+  // Incident methods
+  async getIncident(id: number): Promise<Incident | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(incidents).where(eq(incidents.id, id));
+    return result[0];
+  }
+  
+  async listIncidents(filters?: { vehicleId?: number, driverId?: number, status?: Incident["status"], involvingUserId?: number }): Promise<Incident[]> {
+    await this.ensureInitialized();
+    
+    const conditions = [];
+    if (filters?.vehicleId !== undefined) {
+      conditions.push(eq(incidents.vehicleId, filters.vehicleId));
+    }
+    if (filters?.driverId !== undefined) {
+      conditions.push(eq(incidents.driverId, filters.driverId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(incidents.status, filters.status));
+    }
+    if (filters?.involvingUserId !== undefined) {
+      conditions.push(or(eq(incidents.driverId, filters.involvingUserId), eq(incidents.reportedById, filters.involvingUserId)));
+    }
+    
+    return await db.select().from(incidents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(incidents.occurredAt), desc(incidents.id));
+  }
+  
+  async createIncident(incidentData: InsertIncident, reportedById: number): Promise<Incident> {
+    await this.ensureInitialized();
+    const result = await db.insert(incidents)
+      .values({
+        ...incidentData,
+        occurredAt: new Date(incidentData.occurredAt),
+        reportedById
+      })
+      .returning();
+    return result[0];
+  }
+  
+  async updateIncident(id: number, incidentData: Partial<InsertIncident>): Promise<Incident | undefined> {
+    await this.ensureInitialized();
+    
+    const { occurredAt, ...changes } = incidentData;
+    const result = await db.update(incidents)
+      .set({
+        ...changes,
+        ...(occurredAt !== undefined ? { occurredAt: new Date(occurredAt) } : {})
+      })
+      .where(eq(incidents.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async investigateIncident(id: number, investigation: IncidentInvestigation, investigatorId: number): Promise<Incident | undefined> {
+    await this.ensureInitialized();
+    
+    return await db.transaction(async (tx) => {
+      const incident = await tx.select().from(incidents)
+        .where(eq(incidents.id, id))
+        .for('update');
+      if (incident.length === 0) return undefined;
+      
+      const problem = checkIncidentTransition(incident[0].status, investigation.status);
+      if (problem) {
+        throw new Error(problem);
+      }
+      
+      const result = await tx.update(incidents)
+        .set({
+          status: investigation.status,
+          investigatorId,
+          findings: investigation.findings || incident[0].findings,
+          driverAtFault: investigation.status === 'closed' ? investigation.driverAtFault : incident[0].driverAtFault,
+          closedAt: investigation.status === 'closed' ? new Date() : null
+        })
+        .where(eq(incidents.id, id))
+        .returning();
+      return result[0];
+    });
   }
   
-  // Trip methods
-  async getTrip(id: number): Promise<Trip | undefined> {
+  async deleteIncident(id: number): Promise<boolean> {
     await this.ensureInitialized();
-    const result = await db.select().from(trips).where(eq(trips.id, id));
+    const result = await db.delete(incidents).where(eq(incidents.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Traffic charge methods
+  async getTrafficCharge(id: number): Promise<TrafficCharge | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(trafficCharges).where(eq(trafficCharges.id, id));
     return result[0];
   }
   
-  async createTrip(tripData: InsertTrip): Promise<Trip> {
+  async listTrafficCharges(filters?: { status?: TrafficCharge["status"], kind?: TrafficCharge["kind"], driverId?: number, from?: Date, to?: Date }): Promise<TrafficCharge[]> {
     await this.ensureInitialized();
-    console.log("[createTrip] Creating trip with data:", tripData);
     
+    const conditions = [];
+    if (filters?.status) {
+      conditions.push(eq(trafficCharges.status, filters.status));
+    }
+    if (filters?.kind) {
+      conditions.push(eq(trafficCharges.kind, filters.kind));
+    }
+    if (filters?.driverId !== undefined) {
+      conditions.push(eq(trafficCharges.driverId, filters.driverId));
+    }
+    if (filters?.from) {
+      conditions.push(gte(trafficCharges.occurredAt, filters.from));
+    }
+    if (filters?.to) {
+      conditions.push(lt(trafficCharges.occurredAt, filters.to));
+    }
+    
+    return await db.select().from(trafficCharges)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(trafficCharges.occurredAt), desc(trafficCharges.id));
+  }
+  
+  async findTrafficChargeByReference(kind: TrafficCharge["kind"], reference: string): Promise<TrafficCharge | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(trafficCharges)
+      .where(and(eq(trafficCharges.kind, kind), eq(trafficCharges.reference, reference)))
+      .limit(1);
+    return result[0];
+  }
+  
+  async createTrafficCharge(chargeData: InsertTrafficCharge, match: TrafficChargeMatch, importedById: number): Promise<TrafficCharge> {
+    await this.ensureInitialized();
+    const result = await db.insert(trafficCharges)
+      .values({
+        ...chargeData,
+        occurredAt: new Date(chargeData.occurredAt),
+        ...match,
+        importedById
+      })
+      .returning();
+    return result[0];
+  }
+  
+  async updateTrafficChargeMatch(id: number, match: TrafficChargeMatch, resolvedById: number | null): Promise<TrafficCharge | undefined> {
+    await this.ensureInitialized();
+    const result = await db.update(trafficCharges)
+      .set({ ...match, resolvedById })
+      .where(eq(trafficCharges.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async deleteTrafficCharge(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    const result = await db.delete(trafficCharges).where(eq(trafficCharges.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Booking methods
+  async getBooking(id: number): Promise<Booking | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(bookings).where(eq(bookings.id, id));
+    return result[0];
+  }
+  
+  async createBooking(bookingData: InsertBooking, policyOverride: BookingPolicyOverrideRecord = NO_POLICY_OVERRIDE): Promise<Booking> {
     try {
-      // Handle date type conversion if needed
-      const processedData = {...tripData};
-      if (tripData.startTime && typeof tripData.startTime === 'string') {
-        console.log('[createTrip] Converting startTime from string to Date:', tripData.startTime);
-        processedData.startTime = new Date(tripData.startTime);
+      await this.ensureInitialized();
+      
+      console.log("[createBooking] Received booking data:", JSON.stringify(bookingData));
+      
+      // Process the data to handle date conversions
+      const processedData = { ...bookingData };
+      
+      // Handle startTime conversion if it's a string
+      if (processedData.startTime && typeof processedData.startTime === 'string') {
+        try {
+          console.log("[createBooking] Converting startTime from string:", processedData.startTime);
+          processedData.startTime = new Date(processedData.startTime);
+          console.log("[createBooking] Converted startTime to Date:", processedData.startTime);
+        } catch (e) {
+          console.error("[createBooking] Error converting startTime:", e);
+          throw new Error("Invalid startTime format");
+        }
       }
       
-      if (tripData.endTime && typeof tripData.endTime === 'string') {
-        console.log('[createTrip] Converting endTime from string to Date:', tripData.endTime);
-        processedData.endTime = new Date(tripData.endTime);
+      // Handle endTime conversion if it's a string
+      if (processedData.endTime && typeof processedData.endTime === 'string') {
+        try {
+          console.log("[createBooking] Converting endTime from string:", processedData.endTime);
+          processedData.endTime = new Date(processedData.endTime);
+          console.log("[createBooking] Converted endTime to Date:", processedData.endTime);
+        } catch (e) {
+          console.error("[createBooking] Error converting endTime:", e);
+          throw new Error("Invalid endTime format");
+        }
       }
       
-      // Start a transaction for atomicity
+      console.log("[createBooking] Processed data:", JSON.stringify(processedData, (key, value) => 
+        value instanceof Date ? value.toISOString() : value
+      ));
+      
+      const startTime = new Date(processedData.startTime);
+      const endTime = new Date(processedData.endTime);
+      if (endTime <= startTime) {
+        throw new Error("End time must be after start time");
+      }
+      
+      // Start a transaction so the conflict check and insert are atomic
       const result = await db.transaction(async (tx) => {
-        console.log("[createTrip] Processed trip data:", processedData);
-        const newTrip = await tx.insert(trips)
-          .values(processedData)
-          .returning();
+        // Category bookings only need a free vehicle of the class; one is assigned on approval
+        if (processedData.vehicleId == null) {
+          const category = processedData.category;
+          if (!category) {
+            throw new Error("Choose a vehicle or a vehicle category");
+          }
+          
+          // Lock the category's vehicles so concurrent category bookings are serialized
+          await tx.select().from(vehicles)
+            .where(eq(vehicles.category, category))
+            .for('update');
+          
+          const availability = await this.loadVehicleAvailability(tx, startTime, endTime);
+          const waiting = await tx.select().from(bookings)
+            .where(and(
+              isNull(bookings.vehicleId),
+              eq(bookings.category, category),
+              notInArray(bookings.status, INACTIVE_BOOKING_STATUSES),
+              lt(bookings.startTime, endTime),
+              gt(bookings.endTime, startTime)
+            ));
+          
+          if (!categoryHasCapacity(availability, waiting, category, startTime, endTime)) {
+            console.error("[createBooking] No free vehicle in category:", category);
+            throw new Error(`No free ${category} vehicle for this window`);
+          }
+          
+          const newBooking = await tx.insert(bookings)
+            .values({ ...processedData, vehicleId: null, startTime, endTime, ...policyOverride })
+            .returning();
+          
+          return newBooking[0];
+        }
         
-        console.log("[createTrip] New trip created:", newTrip);
+        // Lock the vehicle row so concurrent bookings for it are serialized
+        const vehicle = await tx.select().from(vehicles)
+          .where(eq(vehicles.id, processedData.vehicleId))
+          .for('update');
         
-        // Update vehicle status to in_use
-        if (processedData.status === 'in_progress') {
-          const vehicle = await tx.select().from(vehicles)
-            .where(eq(vehicles.id, processedData.vehicleId));
-          
-          console.log("[createTrip] Vehicle for trip:", vehicle);
+        if (vehicle.length === 0) {
+          console.error("[createBooking] Vehicle not found:", processedData.vehicleId);
+          throw new Error("Vehicle not found");
+        }
+        
+        // A vehicle that is in use or in maintenance right now can still be booked
+        // for a later window; only out-of-service vehicles are refused outright
+        if (vehicle[0].status === 'out_of_service') {
+          console.error("[createBooking] Vehicle not available:", vehicle[0].status);
+          throw new Error(`Vehicle not available (status: ${vehicle[0].status})`);
+        }
+        
+        if (!INACTIVE_BOOKING_STATUSES.includes(processedData.status ?? 'pending')) {
+          const conflicts = await tx.select().from(bookings)
+            .where(conflictingBookingsCondition(processedData.vehicleId, startTime, endTime));
           
-          if (vehicle.length > 0 && vehicle[0].status === 'available') {
-            console.log("[createTrip] Updating vehicle status to in_use");
-            await tx.update(vehicles)
-              .set({ status: 'in_use' })
-              .where(eq(vehicles.id, processedData.vehicleId));
+          if (conflicts.length > 0) {
+            console.error("[createBooking] Conflicting bookings:", conflicts.map(b => b.id));
+            throw new BookingConflictError(conflicts);
           }
         }
         
-        return newTrip[0];
+        // Insert booking
+        const newBooking = await tx.insert(bookings)
+          .values({ ...processedData, category: null, ...policyOverride })
+          .returning();
+        
+        return newBooking[0];
       });
       
-      console.log("[createTrip] Transaction completed successfully");
+      console.log("[createBooking] Booking created:", JSON.stringify(result));
+      
       return result;
     } catch (error) {
-      console.error("[createTrip] Error creating trip:", error);
+      console.error("[createBooking] Error creating booking:", error);
       throw error;
     }
   }
   
-  async updateTrip(id: number, tripData: Partial<Trip>): Promise<Trip | undefined> {
+  async updateBooking(id: number, bookingData: Partial<Booking>): Promise<Booking | undefined> {
     try {
       await this.ensureInitialized();
       
-      console.log("[updateTrip] Received trip data:", JSON.stringify(tripData));
+      console.log("[updateBooking] Received booking data:", JSON.stringify(bookingData));
       
       // Process the data to handle date conversions
-      const processedData = { ...tripData };
+      const processedData = { ...bookingData };
+      
+      // Handle startTime conversion if it's a string
+      if (processedData.startTime && typeof processedData.startTime === 'string') {
+        try {
+          console.log("[updateBooking] Converting startTime from string:", processedData.startTime);
+          processedData.startTime = new Date(processedData.startTime);
+          console.log("[updateBooking] Converted startTime to Date:", processedData.startTime);
+        } catch (e) {
+          console.error("[updateBooking] Error converting startTime:", e);
+          throw new Error("Invalid startTime format");
+        }
+      }
       
       // Handle endTime conversion if it's a string
       if (processedData.endTime && typeof processedData.endTime === 'string') {
         try {
-          console.log("[updateTrip] Converting endTime from string:", processedData.endTime);
+          console.log("[updateBooking] Converting endTime from string:", processedData.endTime);
           processedData.endTime = new Date(processedData.endTime);
-          console.log("[updateTrip] Converted endTime to Date:", processedData.endTime);
+          console.log("[updateBooking] Converted endTime to Date:", processedData.endTime);
         } catch (e) {
-          console.error("[updateTrip] Error converting endTime:", e);
+          console.error("[updateBooking] Error converting endTime:", e);
           throw new Error("Invalid endTime format");
         }
       }
       
-      console.log("[updateTrip] Processed data:", JSON.stringify(processedData, (key, value) => 
+      console.log("[updateBooking] Processed data:", JSON.stringify(processedData, (key, value) => 
         value instanceof Date ? value.toISOString() : value
       ));
       
-      // Start a transaction for atomicity
+      // Start a transaction so the conflict check and update are atomic
       const result = await db.transaction(async (tx) => {
-        const updatedTrip = await tx.update(trips)
-          .set(processedData)
-          .where(eq(trips.id, id))
-          .returning();
+        const existing = await tx.select().from(bookings)
+          .where(eq(bookings.id, id));
         
-        if (!updatedTrip.length) {
-          console.error("[updateTrip] Trip not found:", id);
+        if (existing.length === 0) {
+          console.error("[updateBooking] Booking not found:", id);
           return undefined;
         }
         
-        console.log("[updateTrip] Trip updated:", JSON.stringify(updatedTrip[0], (key, value) => 
-          value instanceof Date ? value.toISOString() : value
-        ));
-        
-        // If trip is completed, update vehicle status back to available
-        if (processedData.status === 'completed' && processedData.endTime) {
-          console.log("[updateTrip] Trip is being completed");
-          
-          const tripRecord = await tx.select().from(trips)
-            .where(eq(trips.id, id));
+        if (bookingNeedsConflictCheck(existing[0], processedData)) {
+          const merged = { ...existing[0], ...processedData };
+          const startTime = new Date(merged.startTime);
+          const endTime = new Date(merged.endTime);
+          if (endTime <= startTime) {
+            throw new Error("End time must be after start time");
+          }
           
-          if (tripRecord.length > 0) {
-            console.log("[updateTrip] Found trip record:", JSON.stringify(tripRecord[0]));
+          if (merged.vehicleId !== null) {
+            // Lock the vehicle row so concurrent bookings for it are serialized
+            await tx.select().from(vehicles)
+              .where(eq(vehicles.id, merged.vehicleId))
+              .for('update');
             
-            const vehicle = await tx.select().from(vehicles)
-              .where(eq(vehicles.id, tripRecord[0].vehicleId));
+            const conflicts = await tx.select().from(bookings)
+              .where(conflictingBookingsCondition(merged.vehicleId, startTime, endTime, id));
             
-            if (vehicle.length > 0) {
-              console.log("[updateTrip] Found vehicle:", JSON.stringify(vehicle[0]));
-              
-              if (vehicle[0].status === 'in_use') {
-                const newMileage = processedData.endOdometer || vehicle[0].mileage;
-                console.log("[updateTrip] Updating vehicle status to available and mileage to:", newMileage);
-                
-                await tx.update(vehicles)
-                  .set({ 
-                    status: 'available',
-                    mileage: newMileage
-                  })
-                  .where(eq(vehicles.id, tripRecord[0].vehicleId));
-                  
-                console.log("[updateTrip] Vehicle updated to available");
-              } else {
-                console.log("[updateTrip] Vehicle not in use, status is:", vehicle[0].status);
-              }
-            } else {
-              console.log("[updateTrip] Vehicle not found");
+            if (conflicts.length > 0) {
+              console.error("[updateBooking] Conflicting bookings:", conflicts.map(b => b.id));
+              throw new BookingConflictError(conflicts);
             }
           } else {
-            console.log("[updateTrip] Trip record not found after update");
+            // A category booking needs a free vehicle of the class, leaving its own hold out of the count
+            const category = merged.category;
+            if (!category) {
+              throw new Error("Choose a vehicle or a vehicle category");
+            }
+            
+            // Lock the category's vehicles so concurrent category bookings are serialized
+            await tx.select().from(vehicles)
+              .where(eq(vehicles.category, category))
+              .for('update');
+            
+            const availability = await this.loadVehicleAvailability(tx, startTime, endTime, id);
+            const waiting = await tx.select().from(bookings)
+              .where(and(
+                isNull(bookings.vehicleId),
+                eq(bookings.category, category),
+                notInArray(bookings.status, INACTIVE_BOOKING_STATUSES),
+                lt(bookings.startTime, endTime),
+                gt(bookings.endTime, startTime),
+                ne(bookings.id, id)
+              ));
+            
+            if (!categoryHasCapacity(availability, waiting, category, startTime, endTime)) {
+              console.error("[updateBooking] No free vehicle in category:", category);
+              throw new Error(`No free ${category} vehicle for this window`);
+            }
           }
         }
         
-        return updatedTrip[0];
+        // Update booking
+        const updatedBooking = await tx.update(bookings)
+          .set(processedData)
+          .where(eq(bookings.id, id))
+          .returning();
+        
+        if (bookingReleasesSlot(existing[0], updatedBooking[0])) {
+          await this.promoteWaitlist(tx, updatedBooking[0]);
+        }
+        
+        return updatedBooking[0];
       });
       
-      console.log("[updateTrip] Transaction completed successfully");
+      if (!result) {
+        return undefined;
+      }
+      
+      console.log("[updateBooking] Booking updated:", JSON.stringify(result));
+      
       return result;
     } catch (error) {
-      console.error("[updateTrip] Error updating trip:", error);
+      console.error("[updateBooking] Error updating booking:", error);
       throw error;
     }
   }
   
-  async deleteTrip(id: number): Promise<boolean> {
+  async deleteBooking(id: number): Promise<boolean> {
     await this.ensureInitialized();
-    const result = await db.delete(trips).where(eq(trips.id, id)).returning();
+    const result = await db.delete(bookings).where(eq(bookings.id, id)).returning();
     return result.length > 0;
   }
   
-  async listTripsForVehicle(vehicleId: number): Promise<Trip[]> {
+  async listBookingsForVehicle(vehicleId: number): Promise<Booking[]> {
     await this.ensureInitialized();
-    return await db.select().from(trips)
-      .where(eq(trips.vehicleId, vehicleId));
+    return await db.select().from(bookings)
+      .where(eq(bookings.vehicleId, vehicleId));
   }
   
-  async listTripsForDriver(driverId: number): Promise<Trip[]> {
+  async listBookingsForUser(userId: number): Promise<Booking[]> {
     await this.ensureInitialized();
-    return await db.select().from(trips)
-      .where(eq(trips.driverId, driverId));
+    return await db.select().from(bookings)
+      .where(eq(bookings.userId, userId));
   }
   
-  async listActiveTrips(): Promise<Trip[]> {
+  async listAllBookings(): Promise<Booking[]> {
+    await this.ensureInitialized();
+    console.log("[listAllBookings] Fetching all bookings from database");
+    const allBookings = await db.select().from(bookings);
+    console.log(`[listAllBookings] Found ${allBookings.length} bookings`);
+    return allBookings;
+  }
+  
+  async findConflictingBookings(vehicleId: number, startTime: Date, endTime: Date, excludeBookingId?: number): Promise<Booking[]> {
+    await this.ensureInitialized();
+    return await db.select().from(bookings)
+      .where(conflictingBookingsCondition(vehicleId, startTime, endTime, excludeBookingId));
+  }
+  
+  // Booking series methods
+  async getBookingSeries(id: number): Promise<BookingSeries | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(bookingSeries).where(eq(bookingSeries.id, id));
+    return result[0];
+  }
+  
+  async createBookingSeries(seriesData: Omit<BookingSeries, "id" | "createdAt">, bookingData: InsertBooking, occurrences: Occurrence[], skipConflicts: boolean, policyOverride: BookingPolicyOverrideRecord = NO_POLICY_OVERRIDE): Promise<BookingSeriesResult> {
+    await this.ensureInitialized();
+    
+    const vehicleId = bookingData.vehicleId;
+    if (vehicleId == null) {
+      throw new Error("Recurring bookings need a specific vehicle");
+    }
+    
+    // Start a transaction so the series is created completely or not at all
+    return await db.transaction(async (tx) => {
+      // Lock the vehicle row so concurrent bookings for it are serialized
+      const vehicle = await tx.select().from(vehicles)
+        .where(eq(vehicles.id, vehicleId))
+        .for('update');
+      
+      if (vehicle.length === 0) {
+        throw new Error("Vehicle not found");
+      }
+      
+      if (vehicle[0].status === 'out_of_service') {
+        throw new Error(`Vehicle not available (status: ${vehicle[0].status})`);
+      }
+      
+      // Each occurrence gets its own conflict check, including against earlier occurrences
+      const accepted: Occurrence[] = [];
+      const skipped: BookingSeriesResult["skipped"] = [];
+      for (const occurrence of occurrences) {
+        const conflicts = await tx.select().from(bookings)
+          .where(conflictingBookingsCondition(vehicleId, occurrence.startTime, occurrence.endTime));
+        const overlapsSeries = accepted.some(a => windowsOverlap(a.startTime, a.endTime, occurrence.startTime, occurrence.endTime));
+        if (conflicts.length > 0 || overlapsSeries) {
+          skipped.push({ ...occurrence, conflicts });
+        } else {
+          accepted.push(occurrence);
+        }
+      }
+      
+      if (accepted.length === 0 || (!skipConflicts && skipped.length > 0)) {
+        throw new BookingConflictError(uniqueBookings(skipped.flatMap(s => s.conflicts)));
+      }
+      
+      const [series] = await tx.insert(bookingSeries)
+        .values(seriesData)
+        .returning();
+      
+      const created = await tx.insert(bookings)
+        .values(accepted.map(occurrence => ({
+          vehicleId,
+          userId: bookingData.userId,
+          purpose: bookingData.purpose,
+          status: bookingData.status,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          seriesId: series.id,
+          ...policyOverride
+        })))
+        .returning();
+      
+      console.log(`[createBookingSeries] Created series #${series.id} with ${created.length} bookings, skipped ${skipped.length}`);
+      
+      return { series, bookings: created, skipped };
+    });
+  }
+  
+  async updateBookingSeries(seriesId: number, fromStartTime: Date | undefined, changes: BookingSeriesChanges): Promise<Booking[]> {
     await this.ensureInitialized();
-    return await db.select().from(trips)
-      .where(eq(trips.status, 'in_progress'));
+    
+    // Start a transaction so either every affected occurrence changes or none does
+    return await db.transaction(async (tx) => {
+      const affected = await tx.select().from(bookings)
+        .where(and(
+          eq(bookings.seriesId, seriesId),
+          inArray(bookings.status, EDITABLE_BOOKING_STATUSES),
+          fromStartTime ? gte(bookings.startTime, fromStartTime) : undefined
+        ))
+        .for('update');
+      const affectedIds = affected.map(b => b.id);
+      const updated = affected.map(booking => applySeriesChanges(booking, changes));
+      
+      if (seriesChangesNeedConflictCheck(changes)) {
+        const conflicts: Booking[] = [];
+        for (const booking of updated) {
+          if (INACTIVE_BOOKING_STATUSES.includes(booking.status) || booking.vehicleId === null) continue;
+          const found = await tx.select().from(bookings)
+            .where(conflictingBookingsCondition(booking.vehicleId, booking.startTime, booking.endTime));
+          conflicts.push(...found.filter(c => !affectedIds.includes(c.id)));
+        }
+        
+        if (conflicts.length > 0) {
+          throw new BookingConflictError(uniqueBookings(conflicts));
+        }
+      }
+      
+      const results: Booking[] = [];
+      for (const booking of updated) {
+        const { id, createdAt, ...values } = booking;
+        const result = await tx.update(bookings)
+          .set(values)
+          .where(eq(bookings.id, id))
+          .returning();
+        results.push(result[0]);
+      }
+      
+      for (let index = 0; index < results.length; index++) {
+        if (bookingReleasesSlot(affected[index], results[index])) {
+          await this.promoteWaitlist(tx, results[index]);
+        }
+      }
+      
+      return results;
+    });
   }
   
-  // Booking methods
-  async getBooking(id: number): Promise<Booking | undefined> {
+  // Booking approval methods
+  async listPendingBookings(): Promise<Booking[]> {
     await this.ensureInitialized();
-    const result = await db.select().from(bookings).where(eq(bookings.id, id));
-    return result[0];
+    return await db.select().from(bookings)
+      .where(eq(bookings.status, 'pending'))
+      .orderBy(asc(bookings.startTime));
   }
   
-  async createBooking(bookingData: InsertBooking): Promise<Booking> {
-    try {
-      await this.ensureInitialized();
+  async decideBooking(id: number, decision: { status: "approved" | "declined", decidedById: number, reason?: string | null }): Promise<Booking | undefined> {
+    await this.ensureInitialized();
+    
+    // Start a transaction so the booking and its decision history stay in step
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select().from(bookings)
+        .where(eq(bookings.id, id))
+        .for('update');
       
-      console.log("[createBooking] Received booking data:", JSON.stringify(bookingData));
+      if (existing.length === 0) {
+        return undefined;
+      }
       
-      // Process the data to handle date conversions
-      const processedData = { ...bookingData };
+      if (existing[0].status !== 'pending') {
+        throw new Error(`Only pending bookings can be approved or declined (status: ${existing[0].status})`);
+      }
       
-      // Handle startTime conversion if it's a string
-      if (processedData.startTime && typeof processedData.startTime === 'string') {
-        try {
-          console.log("[createBooking] Converting startTime from string:", processedData.startTime);
-          processedData.startTime = new Date(processedData.startTime);
-          console.log("[createBooking] Converted startTime to Date:", processedData.startTime);
-        } catch (e) {
-          console.error("[createBooking] Error converting startTime:", e);
-          throw new Error("Invalid startTime format");
+      let vehicleId = existing[0].vehicleId;
+      if (decision.status === 'approved' && vehicleId === null) {
+        // Lock the category's vehicles so two approvals cannot pick the same one
+        if (existing[0].category) {
+          await tx.select().from(vehicles)
+            .where(eq(vehicles.category, existing[0].category))
+            .for('update');
+        }
+        
+        const availability = await this.loadVehicleAvailability(tx, existing[0].startTime, existing[0].endTime, id);
+        const [assigned] = freeCategoryVehicles(availability, existing[0].category);
+        if (!assigned) {
+          throw new Error(`No free ${existing[0].category} vehicle for this booking`);
         }
+        vehicleId = assigned.id;
+        console.log(`[decideBooking] Assigned vehicle ${vehicleId} to category booking ${id}`);
       }
       
-      // Handle endTime conversion if it's a string
-      if (processedData.endTime && typeof processedData.endTime === 'string') {
-        try {
-          console.log("[createBooking] Converting endTime from string:", processedData.endTime);
-          processedData.endTime = new Date(processedData.endTime);
-          console.log("[createBooking] Converted endTime to Date:", processedData.endTime);
-        } catch (e) {
-          console.error("[createBooking] Error converting endTime:", e);
-          throw new Error("Invalid endTime format");
-        }
+      const decidedAt = new Date();
+      const updatedBooking = await tx.update(bookings)
+        .set({
+          vehicleId,
+          status: decision.status,
+          decidedById: decision.decidedById,
+          decidedAt,
+          decisionReason: decision.reason || null
+        })
+        .where(eq(bookings.id, id))
+        .returning();
+      
+      await tx.insert(bookingDecisions).values({
+        bookingId: id,
+        decidedById: decision.decidedById,
+        decision: decision.status,
+        reason: decision.reason || null,
+        decidedAt
+      });
+      
+      if (bookingReleasesSlot(existing[0], updatedBooking[0])) {
+        await this.promoteWaitlist(tx, updatedBooking[0]);
       }
       
-      console.log("[createBooking] Processed data:", JSON.stringify(processedData, (key, value) => 
-        value instanceof Date ? value.toISOString() : value
-      ));
+      return updatedBooking[0];
+    });
+  }
+  
+  async startTripFromBooking(bookingId: number, startOdometer?: number, requireInspection = true): Promise<Trip | undefined> {
+    await this.ensureInitialized();
+    
+    // Start a transaction so the trip, booking and vehicle change together
+    return await db.transaction(async (tx) => {
+      const booking = await tx.select().from(bookings)
+        .where(eq(bookings.id, bookingId))
+        .for('update');
+      
+      if (booking.length === 0) {
+        return undefined;
+      }
+      
+      if (booking[0].status !== 'approved') {
+        throw new Error(`Only approved bookings can be started (status: ${booking[0].status})`);
+      }
+      
+      const existingTrip = await tx.select().from(trips)
+        .where(eq(trips.bookingId, bookingId));
       
-      // Ensure vehicle is available for booking
-      const vehicle = await db.select().from(vehicles)
-        .where(eq(vehicles.id, processedData.vehicleId));
+      if (existingTrip.length > 0) {
+        throw new Error("A trip has already been started for this booking");
+      }
+      
+      const vehicleId = booking[0].vehicleId;
+      const vehicle = vehicleId === null ? [] : await tx.select().from(vehicles)
+        .where(eq(vehicles.id, vehicleId))
+        .for('update');
       
       if (vehicle.length === 0) {
-        console.error("[createBooking] Vehicle not found:", processedData.vehicleId);
         throw new Error("Vehicle not found");
       }
       
       if (vehicle[0].status !== 'available') {
-        console.error("[createBooking] Vehicle not available:", vehicle[0].status);
         throw new Error(`Vehicle not available (status: ${vehicle[0].status})`);
       }
       
-      // Insert booking
-      const result = await db.insert(bookings)
-        .values(processedData)
+      const startTime = new Date();
+      await this.checkMileageLock(tx, undefined, { driverId: booking[0].userId, startTime });
+      const newTrip = await tx.insert(trips)
+        .values({
+          vehicleId: vehicle[0].id,
+          driverId: booking[0].userId,
+          startTime,
+          startOdometer: startOdometer ?? vehicle[0].mileage,
+          purpose: booking[0].purpose,
+          status: 'in_progress',
+          bookingId
+        })
         .returning();
       
-      console.log("[createBooking] Booking created:", JSON.stringify(result[0]));
+      checkTripOdometers(newTrip[0], vehicle[0].mileage);
+      await this.linkTripInspection(tx, newTrip[0], undefined, requireInspection);
+      for (const reading of tripOdometerReadings(newTrip[0])) {
+        await this.appendOdometerReading(tx, reading);
+      }
+      
+      await this.changeVehicleStatus(tx, vehicle[0], 'in_use', { cause: 'trip', tripId: newTrip[0].id });
       
+      console.log(`[startTripFromBooking] Trip ${newTrip[0].id} started from booking ${bookingId}`);
+      
+      return newTrip[0];
+    });
+  }
+  
+  async listBookingDecisions(bookingId: number): Promise<BookingDecision[]> {
+    await this.ensureInitialized();
+    return await db.select().from(bookingDecisions)
+      .where(eq(bookingDecisions.bookingId, bookingId))
+      .orderBy(asc(bookingDecisions.decidedAt));
+  }
+  
+  // Booking policy methods
+  async listBookingPolicies(): Promise<BookingPolicy[]> {
+    await this.ensureInitialized();
+    return await db.select().from(bookingPolicies);
+  }
+  
+  async getBookingPolicy(vehicleId: number | null): Promise<BookingPolicy | undefined> {
+    await this.ensureInitialized();
+    const result = await db.select().from(bookingPolicies)
+      .where(vehicleId === null ? isNull(bookingPolicies.vehicleId) : eq(bookingPolicies.vehicleId, vehicleId));
+    return result[0];
+  }
+  
+  async saveBookingPolicy(policyData: InsertBookingPolicy): Promise<BookingPolicy> {
+    await this.ensureInitialized();
+    
+    const values = {
+      vehicleId: policyData.vehicleId ?? null,
+      maxDurationHours: policyData.maxDurationHours ?? null,
+      minLeadTimeHours: policyData.minLeadTimeHours ?? null,
+      maxAdvanceDays: policyData.maxAdvanceDays ?? null,
+      maxActiveBookings: policyData.maxActiveBookings ?? null,
+      updatedAt: new Date()
+    };
+    
+    // One policy per scope, so saving replaces the existing one. The global policy
+    // has a null vehicle id, which the unique constraint does not cover.
+    const existing = await this.getBookingPolicy(values.vehicleId);
+    if (existing) {
+      const result = await db.update(bookingPolicies)
+        .set(values)
+        .where(eq(bookingPolicies.id, existing.id))
+        .returning();
       return result[0];
-    } catch (error) {
-      console.error("[createBooking] Error creating booking:", error);
-      throw error;
     }
+    
+    const result = await db.insert(bookingPolicies).values(values).returning();
+    return result[0];
   }
   
-  async updateBooking(id: number, bookingData: Partial<Booking>): Promise<Booking | undefined> {
-    try {
-      await this.ensureInitialized();
-      
-      console.log("[updateBooking] Received booking data:", JSON.stringify(bookingData));
-      
-      // Process the data to handle date conversions
-      const processedData = { ...bookingData };
+  async deleteBookingPolicy(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    const result = await db.delete(bookingPolicies).where(eq(bookingPolicies.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  async listBookingBlackouts(vehicleId?: number): Promise<BookingBlackout[]> {
+    await this.ensureInitialized();
+    return await db.select().from(bookingBlackouts)
+      .where(vehicleId === undefined
+        ? undefined
+        : or(isNull(bookingBlackouts.vehicleId), eq(bookingBlackouts.vehicleId, vehicleId)))
+      .orderBy(asc(bookingBlackouts.startTime));
+  }
+  
+  async createBookingBlackout(blackoutData: InsertBookingBlackout, createdById: number): Promise<BookingBlackout> {
+    await this.ensureInitialized();
+    
+    const startTime = new Date(blackoutData.startTime);
+    const endTime = new Date(blackoutData.endTime);
+    if (endTime <= startTime) {
+      throw new Error("End time must be after start time");
+    }
+    
+    const result = await db.insert(bookingBlackouts)
+      .values({
+        vehicleId: blackoutData.vehicleId ?? null,
+        startTime,
+        endTime,
+        reason: blackoutData.reason,
+        createdById
+      })
+      .returning();
+    return result[0];
+  }
+  
+  async deleteBookingBlackout(id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    const result = await db.delete(bookingBlackouts).where(eq(bookingBlackouts.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  async countActiveBookingsForUser(userId: number): Promise<number> {
+    await this.ensureInitialized();
+    const result = await db.select({ count: sql<number>`count(*)::int` }).from(bookings)
+      .where(and(
+        eq(bookings.userId, userId),
+        inArray(bookings.status, EDITABLE_BOOKING_STATUSES),
+        gt(bookings.endTime, new Date())
+      ));
+    return result[0].count;
+  }
+  
+  // Waitlist methods
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    await this.ensureInitialized();
+    const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return entry;
+  }
+  
+  async createWaitlistEntry(entryData: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    await this.ensureInitialized();
+    
+    const vehicle = await this.getVehicle(entryData.vehicleId);
+    if (!vehicle) {
+      throw new Error("Vehicle not found");
+    }
+    
+    const startTime = new Date(entryData.startTime);
+    const endTime = new Date(entryData.endTime);
+    if (endTime <= startTime) {
+      throw new Error("End time must be after start time");
+    }
+    
+    const result = await db.insert(waitlistEntries)
+      .values({
+        vehicleId: entryData.vehicleId,
+        userId: entryData.userId,
+        startTime,
+        endTime,
+        purpose: entryData.purpose ?? null
+      })
+      .returning();
+    return result[0];
+  }
+  
+  async cancelWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    await this.ensureInitialized();
+    
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select().from(waitlistEntries)
+        .where(eq(waitlistEntries.id, id))
+        .for('update');
       
-      // Handle startTime conversion if it's a string
-      if (processedData.startTime && typeof processedData.startTime === 'string') {
-        try {
-          console.log("[updateBooking] Converting startTime from string:", processedData.startTime);
-          processedData.startTime = new Date(processedData.startTime);
-          console.log("[updateBooking] Converted startTime to Date:", processedData.startTime);
-        } catch (e) {
-          console.error("[updateBooking] Error converting startTime:", e);
-          throw new Error("Invalid startTime format");
-        }
+      if (existing.length === 0) {
+        return undefined;
       }
       
-      // Handle endTime conversion if it's a string
-      if (processedData.endTime && typeof processedData.endTime === 'string') {
-        try {
-          console.log("[updateBooking] Converting endTime from string:", processedData.endTime);
-          processedData.endTime = new Date(processedData.endTime);
-          console.log("[updateBooking] Converted endTime to Date:", processedData.endTime);
-        } catch (e) {
-          console.error("[updateBooking] Error converting endTime:", e);
-          throw new Error("Invalid endTime format");
-        }
+      if (existing[0].status !== "waiting") {
+        throw new Error(`Only waiting requests can be cancelled (status: ${existing[0].status})`);
       }
       
-      console.log("[updateBooking] Processed data:", JSON.stringify(processedData, (key, value) => 
-        value instanceof Date ? value.toISOString() : value
+      const result = await tx.update(waitlistEntries)
+        .set({ status: "cancelled" })
+        .where(eq(waitlistEntries.id, id))
+        .returning();
+      return result[0];
+    });
+  }
+  
+  async listWaitlistEntries(userId?: number): Promise<WaitlistEntry[]> {
+    await this.ensureInitialized();
+    return await db.select().from(waitlistEntries)
+      .where(userId === undefined ? undefined : eq(waitlistEntries.userId, userId))
+      .orderBy(asc(waitlistEntries.startTime));
+  }
+  
+  // Promoted requests become ordinary bookings, so they must meet the booking policies as they
+  // stand now. Requests that do not are left waiting for a later release.
+  private async waitlistBreaksPolicy(tx: Transaction, entry: WaitlistEntry, now: Date): Promise<boolean> {
+    const policies = await tx.select().from(bookingPolicies)
+      .where(or(isNull(bookingPolicies.vehicleId), eq(bookingPolicies.vehicleId, entry.vehicleId)));
+    const blackouts = await tx.select().from(bookingBlackouts)
+      .where(or(isNull(bookingBlackouts.vehicleId), eq(bookingBlackouts.vehicleId, entry.vehicleId)));
+    const active = await tx.select({ count: sql<number>`count(*)::int` }).from(bookings)
+      .where(and(
+        eq(bookings.userId, entry.userId),
+        inArray(bookings.status, EDITABLE_BOOKING_STATUSES),
+        gt(bookings.endTime, now)
       ));
+    
+    return findPolicyViolations({
+      windows: [{ startTime: entry.startTime, endTime: entry.endTime }],
+      globalPolicy: policies.find(policy => policy.vehicleId === null),
+      vehiclePolicy: policies.find(policy => policy.vehicleId === entry.vehicleId),
+      blackouts,
+      activeBookingCount: active[0].count,
+      now
+    }).length > 0;
+  }
+  
+  // Turn waitlisted requests overlapping a released booking into pending bookings, oldest request first
+  private async promoteWaitlist(tx: Transaction, released: Booking): Promise<void> {
+    const vehicleId = released.vehicleId;
+    if (vehicleId === null) return;
+    
+    // Lock the vehicle row so concurrent bookings for it are serialized
+    const vehicle = await tx.select().from(vehicles)
+      .where(eq(vehicles.id, vehicleId))
+      .for('update');
+    if (vehicle.length === 0 || vehicle[0].status === 'out_of_service') return;
+    
+    const now = new Date();
+    const candidates = await tx.select().from(waitlistEntries)
+      .where(and(
+        eq(waitlistEntries.vehicleId, vehicleId),
+        eq(waitlistEntries.status, "waiting"),
+        gt(waitlistEntries.startTime, now),
+        lt(waitlistEntries.startTime, released.endTime),
+        gt(waitlistEntries.endTime, released.startTime)
+      ))
+      .orderBy(asc(waitlistEntries.createdAt), asc(waitlistEntries.id))
+      .for('update');
+    
+    for (const entry of candidates) {
+      const conflicts = await tx.select().from(bookings)
+        .where(conflictingBookingsCondition(entry.vehicleId, entry.startTime, entry.endTime));
+      if (conflicts.length > 0) continue;
+      if (await this.waitlistBreaksPolicy(tx, entry, now)) continue;
       
-      // Update booking
-      const result = await db.update(bookings)
-        .set(processedData)
-        .where(eq(bookings.id, id))
+      const booking = await tx.insert(bookings)
+        .values({
+          vehicleId: entry.vehicleId,
+          userId: entry.userId,
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+          purpose: entry.purpose,
+          status: "pending"
+        })
         .returning();
       
-      if (result.length === 0) {
-        console.error("[updateBooking] Booking not found:", id);
-        return undefined;
-      }
+      await tx.update(waitlistEntries)
+        .set({ status: "promoted", bookingId: booking[0].id, promotedAt: now })
+        .where(eq(waitlistEntries.id, entry.id));
       
-      console.log("[updateBooking] Booking updated:", JSON.stringify(result[0]));
+      await tx.insert(notifications).values({
+        userId: entry.userId,
+        message: waitlistPromotionMessage(vehicle[0]),
+        link: "/bookings"
+      });
       
-      return result[0];
-    } catch (error) {
-      console.error("[updateBooking] Error updating booking:", error);
-      throw error;
+      console.log(`[promoteWaitlist] Waitlist entry ${entry.id} promoted to booking ${booking[0].id}`);
     }
   }
   
-  async deleteBooking(id: number): Promise<boolean> {
+  // Notification methods
+  async createNotification(notificationData: Pick<Notification, "userId" | "message"> & { link?: string | null }): Promise<Notification> {
     await this.ensureInitialized();
-    const result = await db.delete(bookings).where(eq(bookings.id, id)).returning();
-    return result.length > 0;
+    const result = await db.insert(notifications)
+      .values({
+        userId: notificationData.userId,
+        message: notificationData.message,
+        link: notificationData.link ?? null
+      })
+      .returning();
+    return result[0];
   }
   
-  async listBookingsForVehicle(vehicleId: number): Promise<Booking[]> {
+  async listNotifications(userId: number): Promise<Notification[]> {
     await this.ensureInitialized();
-    return await db.select().from(bookings)
-      .where(eq(bookings.vehicleId, vehicleId));
+    return await db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id));
   }
   
-  async listBookingsForUser(userId: number): Promise<Booking[]> {
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
     await this.ensureInitialized();
-    return await db.select().from(bookings)
-      .where(eq(bookings.userId, userId));
+    const result = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined
+      ))
+      .returning();
+    return result.length;
   }
   
-  async listAllBookings(): Promise<Booking[]> {
+  // Availability methods
+  async listVehicleAvailability(startTime: Date, endTime: Date, excludeBookingId?: number): Promise<VehicleAvailability[]> {
     await this.ensureInitialized();
-    console.log("[listAllBookings] Fetching all bookings from database");
-    const allBookings = await db.select().from(bookings);
-    console.log(`[listAllBookings] Found ${allBookings.length} bookings`);
-    return allBookings;
+    return this.loadVehicleAvailability(db, startTime, endTime, excludeBookingId);
+  }
+  
+  // Moves a vehicle to a new status and records the change in its history
+  private async changeVehicleStatus(tx: Transaction, vehicle: Vehicle, status: VehicleStatus, source: StatusChangeSource): Promise<void> {
+    if (vehicle.status === status) return;
+    
+    await tx.update(vehicles)
+      .set({ status })
+      .where(eq(vehicles.id, vehicle.id));
+    await tx.insert(vehicleStatusChanges).values({
+      vehicleId: vehicle.id,
+      fromStatus: vehicle.status,
+      toStatus: status,
+      ...source
+    });
+  }
+  
+  // Books parts out of stock, or back in, inside the caller's transaction so the record's
+  // movements match the parts on its lines. A shortage throws and rolls the change back.
+  private async syncPartConsumption(tx: Transaction, maintenanceId: number, record: Maintenance | undefined): Promise<void> {
+    const posted = await tx.select().from(partMovements)
+      .where(eq(partMovements.maintenanceId, maintenanceId));
+    const changes = partConsumptionChanges(requiredPartQuantities(record), posted);
+    
+    for (const change of changes) {
+      const part = await tx.select().from(parts)
+        .where(eq(parts.id, change.partId))
+        .for('update');
+      if (part.length === 0) throw new StockError(`Part #${change.partId} not found`);
+      
+      await tx.update(parts)
+        .set(applyPartMovement(part[0], change.quantity))
+        .where(eq(parts.id, change.partId));
+      await tx.insert(partMovements).values({
+        partId: change.partId,
+        type: change.quantity < 0 ? 'consumption' : 'return',
+        quantity: change.quantity,
+        unitCost: part[0].unitCost,
+        maintenanceId,
+        reference: `Maintenance #${maintenanceId}`,
+      });
+    }
+  }
+  
+  // Add a reading to the vehicle's ledger inside the caller's transaction and move the
+  // vehicle's mileage with it. Rejected readings throw so the whole change rolls back.
+  private async appendOdometerReading(tx: Transaction, input: OdometerReadingInput): Promise<OdometerReading> {
+    // Lock the vehicle so concurrent readings for it are judged one after another
+    const vehicle = await tx.select().from(vehicles)
+      .where(eq(vehicles.id, input.vehicleId))
+      .for('update');
+    
+    if (vehicle.length === 0) {
+      throw new Error("Vehicle not found");
+    }
+    
+    let history = await tx.select().from(odometerReadings)
+      .where(eq(odometerReadings.vehicleId, input.vehicleId));
+    
+    // Vehicles added before the ledger existed start it from their recorded mileage
+    if (history.length === 0 && input.source !== 'initial') {
+      history = await tx.insert(odometerReadings)
+        .values({ vehicleId: input.vehicleId, reading: vehicle[0].mileage, recordedAt: new Date(), source: 'initial' })
+        .returning();
+    }
+    
+    const superseded = supersededReadings(history, input);
+    const counted = history.filter(entry => !superseded.includes(entry));
+    const verdict = assessOdometerReading(counted, input.reading, input.recordedAt);
+    if (verdict.status === 'rejected') {
+      throw new OdometerError(verdict.reason);
+    }
+    
+    if (superseded.length > 0) {
+      await tx.update(odometerReadings)
+        .set({ status: 'voided' })
+        .where(inArray(odometerReadings.id, superseded.map(entry => entry.id)));
+    }
+    
+    const inserted = await tx.insert(odometerReadings)
+      .values({
+        ...input,
+        status: verdict.status,
+        flagReason: verdict.status === 'flagged' ? verdict.reason : null
+      })
+      .returning();
+    
+    const mileage = ledgerMileage([...counted, inserted[0]]);
+    if (mileage !== undefined && mileage !== vehicle[0].mileage) {
+      await tx.update(vehicles)
+        .set({ mileage })
+        .where(eq(vehicles.id, input.vehicleId));
+    }
+    
+    if (verdict.status === 'flagged') {
+      console.log(`[appendOdometerReading] Flagged reading ${input.reading} for vehicle ${input.vehicleId}: ${verdict.reason}`);
+    }
+    
+    return inserted[0];
+  }
+  
+  // Shared by listVehicleAvailability and the category assignment, which needs it inside its transaction
+  private async loadVehicleAvailability(executor: Transaction | typeof db, startTime: Date, endTime: Date, excludeBookingId?: number): Promise<VehicleAvailability[]> {
+    const vehicleList = await executor.select().from(vehicles);
+    
+    // Only load rows that can possibly overlap the window; the final overlap
+    // test is shared with the in-memory implementation
+    const bookingList = await executor.select().from(bookings)
+      .where(and(
+        notInArray(bookings.status, INACTIVE_BOOKING_STATUSES),
+        lt(bookings.startTime, endTime),
+        gt(bookings.endTime, startTime)
+      ));
+    
+    const tripList = await executor.select().from(trips)
+      .where(and(
+        inArray(trips.status, ACTIVE_TRIP_STATUSES),
+        lt(trips.startTime, endTime),
+        or(isNull(trips.endTime), gt(trips.endTime, startTime))
+      ));
+    
+    const maintenanceList = await executor.select().from(maintenance)
+      .where(and(
+        ne(maintenance.status, 'completed'),
+        lte(maintenance.date, endTime.toISOString().slice(0, 10))
+      ));
+    
+    return buildVehicleAvailability(vehicleList, bookingList, tripList, maintenanceList, startTime, endTime, excludeBookingId);
+  }
+  
+  async listVehicleSchedule(startTime: Date, endTime: Date): Promise<VehicleSchedule> {
+    await this.ensureInitialized();
+    
+    const bookingList = await db.select().from(bookings)
+      .where(and(
+        notInArray(bookings.status, INACTIVE_BOOKING_STATUSES),
+        lt(bookings.startTime, endTime),
+        gt(bookings.endTime, startTime)
+      ));
+    
+    const tripList = await db.select().from(trips)
+      .where(and(
+        ne(trips.status, 'cancelled'),
+        lt(trips.startTime, endTime),
+        or(isNull(trips.endTime), gt(trips.endTime, startTime))
+      ));
+    
+    // Widen by a day on each side since maintenance is stored as a date only
+    const maintenanceList = await db.select().from(maintenance)
+      .where(and(
+        gte(maintenance.date, new Date(startTime.getTime() - DAY_MS).toISOString().slice(0, 10)),
+        lte(maintenance.date, new Date(endTime.getTime() + DAY_MS).toISOString().slice(0, 10))
+      ));
+    
+    return buildVehicleSchedule(bookingList, tripList, maintenanceList, startTime, endTime);
   }
 }
 
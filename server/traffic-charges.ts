@@ -0,0 +1,246 @@
+import { Booking, DriverChargesSummary, TrafficCharge, TrafficChargeKind, TrafficChargeMatch, Trip, Vehicle, trafficChargeKinds } from "@shared/schema";
+
+// Tickets and invoices print plates with their own spacing and case
+export function normalizeRegistration(registration: string): string {
+  return registration.replace(/[^a-z0-9]/gi, "").toUpperCase();
+}
+
+export function findVehicleByRegistration(vehicles: Vehicle[], registration: string): Vehicle | undefined {
+  const wanted = normalizeRegistration(registration);
+  return vehicles.find(vehicle => normalizeRegistration(vehicle.registrationNumber) === wanted);
+}
+
+// A trip still under way covers everything since it started
+function tripCovers(trip: Trip, at: Date, now: Date): boolean {
+  if (trip.status === "cancelled" || trip.startTime > at) return false;
+  const end = trip.endTime ?? (trip.status === "in_progress" ? now : null);
+  return end !== null && at <= end;
+}
+
+function bookingCovers(booking: Booking, at: Date): boolean {
+  return (booking.status === "approved" || booking.status === "completed") && booking.startTime <= at && at <= booking.endTime;
+}
+
+// Finds the driver responsible at the moment of the charge. A trip is the best evidence of who
+// was driving; an approved booking is used when no trip was logged. Overlapping records for
+// different drivers are left for a moderator to decide.
+export function matchTrafficCharge(
+  registration: string,
+  occurredAt: Date,
+  vehicle: Vehicle | undefined,
+  trips: Trip[],
+  bookings: Booking[],
+  now: Date = new Date()
+): TrafficChargeMatch {
+  const unmatched = (matchNote: string): TrafficChargeMatch => ({
+    vehicleId: vehicle?.id ?? null,
+    status: "unmatched",
+    matchedBy: null,
+    tripId: null,
+    bookingId: null,
+    driverId: null,
+    matchNote,
+  });
+
+  if (!vehicle) {
+    return unmatched(`No vehicle is registered as ${registration}`);
+  }
+
+  const coveringTrips = trips.filter(trip => trip.vehicleId === vehicle.id && tripCovers(trip, occurredAt, now));
+  if (coveringTrips.length > 0) {
+    if (new Set(coveringTrips.map(trip => trip.driverId)).size > 1) {
+      return unmatched(`Trips by different drivers cover this time (${coveringTrips.map(trip => `#${trip.id}`).join(", ")})`);
+    }
+    return {
+      vehicleId: vehicle.id,
+      status: "matched",
+      matchedBy: "trip",
+      tripId: coveringTrips[0].id,
+      bookingId: coveringTrips[0].bookingId ?? null,
+      driverId: coveringTrips[0].driverId,
+      matchNote: null,
+    };
+  }
+
+  const coveringBookings = bookings.filter(booking => booking.vehicleId === vehicle.id && bookingCovers(booking, occurredAt));
+  if (coveringBookings.length > 0) {
+    if (new Set(coveringBookings.map(booking => booking.userId)).size > 1) {
+      return unmatched(`Bookings by different users cover this time (${coveringBookings.map(booking => `#${booking.id}`).join(", ")})`);
+    }
+    return {
+      vehicleId: vehicle.id,
+      status: "matched",
+      matchedBy: "booking",
+      tripId: null,
+      bookingId: coveringBookings[0].id,
+      driverId: coveringBookings[0].userId,
+      matchNote: null,
+    };
+  }
+
+  return unmatched("No trip or booking covers this time");
+}
+
+// Splits CSV text into rows of fields, following RFC 4180 quoting
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+type TrafficChargeColumn = "kind" | "registrationNumber" | "occurredAt" | "amount" | "reference" | "location" | "description";
+
+// Header names accepted for each column, compared without case, spaces or punctuation
+const COLUMN_ALIASES: Record<TrafficChargeColumn, string[]> = {
+  kind: ["kind", "type"],
+  registrationNumber: ["registrationnumber", "registration", "plate", "platenumber"],
+  occurredAt: ["occurredat", "datetime", "timestamp", "date"],
+  amount: ["amount", "fee", "charge"],
+  reference: ["reference", "ticketnumber", "invoicenumber"],
+  location: ["location", "place"],
+  description: ["description", "offence", "offense", "notes"],
+};
+
+// Amounts come with currency symbols and either a decimal point or a decimal comma. A comma
+// followed by one or two digits at the end is the decimal comma, and any dots before it group
+// thousands: "€ 1.234,50" is 1234.5, "$1,234.50" is 1234.5 and "12,5" is 12.5.
+function parseAmount(value: string | null): number | null {
+  if (!value) return null;
+  let digits = value.replace(/[^0-9.,-]/g, "");
+  digits = /,\d{1,2}$/.test(digits) ? digits.replace(/\./g, "").replace(",", ".") : digits.replace(/,/g, "");
+  const amount = Number(digits);
+  return digits === "" || isNaN(amount) ? null : amount;
+}
+
+export type TrafficChargeCsvRow = {
+  line: number;
+  values: {
+    kind?: string;
+    registrationNumber: string;
+    occurredAt: string;
+    amount: number;
+    reference: string | null;
+    location: string | null;
+    description: string | null;
+  };
+};
+
+// Turns an uploaded file into rows ready for validation. Rows that cannot be read are reported
+// by line number so the rest of the file can still be imported.
+export function readTrafficChargesCsv(text: string, defaultKind?: TrafficChargeKind): { rows: TrafficChargeCsvRow[]; errors: { line: number; message: string }[] } {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return { rows: [], errors: [{ line: 1, message: "The file has no header row" }] };
+  }
+
+  const columns = new Map<TrafficChargeColumn, number>();
+  header.forEach((name, index) => {
+    const key = name.replace(/[^a-z]/gi, "").toLowerCase();
+    for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [TrafficChargeColumn, string[]][]) {
+      if (aliases.includes(key) && !columns.has(column)) columns.set(column, index);
+    }
+  });
+
+  const required: TrafficChargeColumn[] = defaultKind ? ["registrationNumber", "occurredAt", "amount"] : ["kind", "registrationNumber", "occurredAt", "amount"];
+  const missing = required.filter(column => !columns.has(column));
+  if (missing.length > 0) {
+    return { rows: [], errors: [{ line: 1, message: `Missing column(s): ${missing.join(", ")}` }] };
+  }
+
+  const rows: TrafficChargeCsvRow[] = [];
+  const errors: { line: number; message: string }[] = [];
+
+  records.forEach((record, index) => {
+    const line = index + 2;
+    if (record.every(value => value.trim() === "")) return;
+
+    const get = (column: TrafficChargeColumn) => {
+      const position = columns.get(column);
+      const value = position === undefined ? "" : (record[position] ?? "").trim();
+      return value === "" ? null : value;
+    };
+
+    const kind = get("kind")?.toLowerCase() ?? defaultKind;
+    if (kind && !(trafficChargeKinds as readonly string[]).includes(kind)) {
+      errors.push({ line, message: `Unknown kind "${kind}"; use ${trafficChargeKinds.join(" or ")}` });
+      return;
+    }
+
+    const amount = parseAmount(get("amount"));
+    if (amount === null) {
+      errors.push({ line, message: "Amount is not a number" });
+      return;
+    }
+
+    rows.push({
+      line,
+      values: {
+        kind,
+        registrationNumber: get("registrationNumber") ?? "",
+        occurredAt: get("occurredAt") ?? "",
+        amount,
+        reference: get("reference"),
+        location: get("location"),
+        description: get("description"),
+      },
+    });
+  });
+
+  return { rows, errors };
+}
+
+// Totals per driver over matched and manually assigned charges, highest first
+export function buildDriverChargesReport(charges: TrafficCharge[]): DriverChargesSummary[] {
+  const summaries = new Map<number, DriverChargesSummary>();
+
+  for (const charge of charges) {
+    if (charge.status !== "matched" || charge.driverId == null) continue;
+
+    const summary = summaries.get(charge.driverId) ?? { driverId: charge.driverId, fineCount: 0, fineTotal: 0, tollCount: 0, tollTotal: 0, total: 0 };
+    if (charge.kind === "fine") {
+      summary.fineCount++;
+      summary.fineTotal += charge.amount;
+    } else {
+      summary.tollCount++;
+      summary.tollTotal += charge.amount;
+    }
+    summary.total += charge.amount;
+    summaries.set(charge.driverId, summary);
+  }
+
+  return Array.from(summaries.values()).sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,68 @@
+import { FuelLog, Incident, Maintenance, MaintenanceCostRow, VehicleCostEntry } from "@shared/schema";
+import { workOrderTotals } from "@shared/work-orders";
+import { incidentCost, incidentTypeLabels } from "./incidents";
+
+// Everything a vehicle has cost, newest first. Maintenance that is not done yet and incidents
+// without a settled cost count at their estimate.
+export function buildVehicleCostHistory(maintenance: Maintenance[], fuelLogs: FuelLog[], incidents: Incident[]): VehicleCostEntry[] {
+  const entries: VehicleCostEntry[] = [
+    ...maintenance
+      .filter(record => record.cost != null)
+      .map(record => ({
+        source: "maintenance" as const,
+        sourceId: record.id,
+        date: new Date(record.completedAt ?? record.date).toISOString(),
+        description: record.description,
+        amount: record.cost!,
+        estimated: record.status !== "completed",
+      })),
+    ...fuelLogs.map(log => ({
+      source: "fuel" as const,
+      sourceId: log.id,
+      date: new Date(log.filledAt).toISOString(),
+      description: `${log.litres} L${log.station ? ` at ${log.station}` : ""}`,
+      amount: log.totalCost,
+      estimated: false,
+    })),
+    ...incidents
+      .filter(incident => incident.actualCost != null || incident.estimatedCost != null)
+      .map(incident => ({
+        source: "incident" as const,
+        sourceId: incident.id,
+        date: new Date(incident.occurredAt).toISOString(),
+        description: `${incidentTypeLabels[incident.type]}: ${incident.description}`,
+        amount: incidentCost(incident),
+        estimated: incident.actualCost == null,
+      })),
+  ];
+
+  return entries.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Completed maintenance summed per vehicle and month, split into parts, labour and tax where
+// the work order has lines. Oldest month first.
+export function buildMaintenanceCostReport(records: Maintenance[]): MaintenanceCostRow[] {
+  const rows = new Map<string, MaintenanceCostRow>();
+
+  for (const record of records) {
+    const month = new Date(record.completedAt ?? record.date).toISOString().slice(0, 7);
+    const key = `${record.vehicleId}:${month}`;
+    const row = rows.get(key) ?? { vehicleId: record.vehicleId, month, parts: 0, labour: 0, tax: 0, unitemised: 0, total: 0 };
+
+    if (record.lines.length > 0) {
+      const totals = workOrderTotals(record.lines);
+      row.parts = toCents(row.parts + totals.parts);
+      row.labour = toCents(row.labour + totals.labour);
+      row.tax = toCents(row.tax + totals.tax);
+      row.total = toCents(row.total + totals.total);
+    } else if (record.cost != null) {
+      row.unitemised = toCents(row.unitemised + record.cost);
+      row.total = toCents(row.total + record.cost);
+    }
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values()).sort((a, b) => a.month.localeCompare(b.month) || a.vehicleId - b.vehicleId);
+}
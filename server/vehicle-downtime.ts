@@ -0,0 +1,101 @@
+import { FleetStatusPoint, Vehicle, VehicleDowntime, VehicleStatus, VehicleStatusChange } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DOWN_STATUSES: VehicleStatus[] = ["maintenance", "out_of_service"];
+
+// A status change on its way into the history; storage fills in the previous status and the time
+export type StatusChangeSource = Pick<VehicleStatusChange, "cause"> &
+  Partial<Pick<VehicleStatusChange, "maintenanceId" | "tripId" | "inspectionId" | "changedById">>;
+
+const isDown = (status: VehicleStatus | null) => status != null && DOWN_STATUSES.includes(status);
+
+const byChangedAt = (a: VehicleStatusChange, b: VehicleStatusChange) =>
+  new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime() || a.id - b.id;
+
+// A vehicle's status at a moment, from its history. Null means it had not joined the fleet yet.
+// Vehicles older than the history were in the status their first recorded change moved them from.
+export function statusAt(vehicle: Vehicle, changes: VehicleStatusChange[], at: Date): VehicleStatus | null {
+  const history = changes.filter(change => change.vehicleId === vehicle.id).sort(byChangedAt);
+  if (history.length === 0) return vehicle.status;
+
+  let status = history[0].fromStatus;
+  for (const change of history) {
+    if (new Date(change.changedAt).getTime() > at.getTime()) break;
+    status = change.toStatus;
+  }
+  return status;
+}
+
+// Downtime, availability and MTBF for one vehicle between from and to. Changes caused by
+// maintenance in scheduledMaintenanceIds were planned, so they do not count as failures.
+export function buildVehicleDowntime(vehicle: Vehicle, changes: VehicleStatusChange[], from: Date, to: Date, scheduledMaintenanceIds: Set<number>): VehicleDowntime {
+  const history = changes.filter(change => change.vehicleId === vehicle.id).sort(byChangedAt);
+  const within = history.filter(change => {
+    const time = new Date(change.changedAt).getTime();
+    return time > from.getTime() && time < to.getTime();
+  });
+
+  // Walk the period from one change to the next, adding up the time spent in each status
+  let trackedMs = 0;
+  let downMs = 0;
+  let start = from;
+  let status = statusAt(vehicle, history, from);
+  for (const boundary of [...within, null]) {
+    const end = boundary ? new Date(boundary.changedAt) : to;
+    const spanMs = end.getTime() - start.getTime();
+    if (status != null) {
+      trackedMs += spanMs;
+      if (isDown(status)) downMs += spanMs;
+    }
+    if (boundary) {
+      status = boundary.toStatus;
+      start = end;
+    }
+  }
+
+  const failures = within.filter(change =>
+    isDown(change.toStatus) &&
+    !isDown(change.fromStatus) &&
+    !(change.cause === "maintenance" && change.maintenanceId != null && scheduledMaintenanceIds.has(change.maintenanceId))
+  ).length;
+
+  return {
+    vehicleId: vehicle.id,
+    ...downtimeFigures(trackedMs, downMs, failures),
+  };
+}
+
+// The fleet's figures come from the summed hours, so vehicles count by how long they were tracked
+export function buildFleetDowntime(rows: VehicleDowntime[]): Omit<VehicleDowntime, "vehicleId"> {
+  const trackedMs = rows.reduce((sum, row) => sum + row.trackedHours * HOUR_MS, 0);
+  const downMs = rows.reduce((sum, row) => sum + row.downtimeHours * HOUR_MS, 0);
+  const failures = rows.reduce((sum, row) => sum + row.failures, 0);
+  return downtimeFigures(trackedMs, downMs, failures);
+}
+
+function downtimeFigures(trackedMs: number, downMs: number, failures: number): Omit<VehicleDowntime, "vehicleId"> {
+  const upMs = trackedMs - downMs;
+  return {
+    trackedHours: Math.round(trackedMs / HOUR_MS * 10) / 10,
+    downtimeHours: Math.round(downMs / HOUR_MS * 10) / 10,
+    availability: trackedMs > 0 ? Math.round(upMs / trackedMs * 10000) / 10000 : null,
+    failures,
+    mtbfHours: failures > 0 ? Math.round(upMs / HOUR_MS / failures * 10) / 10 : null,
+  };
+}
+
+// Vehicles in each status at each of the given moments
+export function fleetStatusSeries(vehicles: Vehicle[], changes: VehicleStatusChange[], points: Date[]): FleetStatusPoint[] {
+  return points.map(at => {
+    const point: FleetStatusPoint = { at: at.toISOString(), available: 0, maintenance: 0, inUse: 0, outOfService: 0 };
+    for (const vehicle of vehicles) {
+      const status = statusAt(vehicle, changes, at);
+      if (status === "available") point.available++;
+      else if (status === "maintenance") point.maintenance++;
+      else if (status === "in_use") point.inUse++;
+      else if (status === "out_of_service") point.outOfService++;
+    }
+    return point;
+  });
+}
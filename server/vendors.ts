@@ -0,0 +1,32 @@
+import { Maintenance, VendorPerformance } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days from the booked date to completion, to one decimal place
+function turnaroundDays(record: Maintenance): number | null {
+  if (!record.completedAt) return null;
+  const booked = new Date(`${record.date}T00:00:00Z`).getTime();
+  return Math.max(0, (new Date(record.completedAt).getTime() - booked) / DAY_MS);
+}
+
+// The vendor's own work orders, and any later jobs recorded as rework of them
+export function buildVendorPerformance(vendorId: number, records: Maintenance[], reworks: Maintenance[]): VendorPerformance {
+  const completed = records.filter(record => record.status === "completed");
+  const turnarounds = completed.map(turnaroundDays).filter((days): days is number => days !== null);
+  const reworked = new Set(reworks.map(record => record.reworkOfId));
+  const reworkCount = completed.filter(record => reworked.has(record.id)).length;
+
+  return {
+    vendorId,
+    totalSpend: Math.round(completed.reduce((sum, record) => sum + (record.cost ?? 0), 0) * 100) / 100,
+    completedCount: completed.length,
+    averageTurnaroundDays: turnarounds.length > 0
+      ? Math.round(turnarounds.reduce((sum, days) => sum + days, 0) / turnarounds.length * 10) / 10
+      : null,
+    reworkCount,
+    reworkRate: completed.length > 0 ? reworkCount / completed.length : null,
+    openWorkOrders: records
+      .filter(record => record.status !== "completed")
+      .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id),
+  };
+}
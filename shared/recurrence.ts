@@ -0,0 +1,90 @@
+import type { RecurrenceRule } from "./schema";
+
+// Upper bound on occurrences generated for a single series
+export const MAX_SERIES_OCCURRENCES = 104;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type Occurrence = { startTime: Date; endTime: Date };
+
+// Expand a recurrence rule into concrete booking windows, starting with the first one.
+// Dates are evaluated in the requester's wall-clock time (rule.timezoneOffset, as returned
+// by Date.getTimezoneOffset) so that "every Monday" means the requester's Monday.
+export function expandRecurrence(startTime: Date, endTime: Date, rule: RecurrenceRule): Occurrence[] {
+  const duration = endTime.getTime() - startTime.getTime();
+  const offsetMs = (rule.timezoneOffset ?? 0) * 60 * 1000;
+  const interval = rule.interval ?? 1;
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  // Shift to wall-clock time so the UTC getters below read local date parts
+  const wallStart = new Date(startTime.getTime() - offsetMs);
+  const toOccurrence = (wall: Date): Occurrence => {
+    const start = new Date(wall.getTime() + offsetMs);
+    return { startTime: start, endTime: new Date(start.getTime() + duration) };
+  };
+  const isPastUntil = (wall: Date) =>
+    !!rule.untilDate && wall.toISOString().slice(0, 10) > rule.untilDate;
+
+  const occurrences: Occurrence[] = [];
+
+  if (rule.frequency === 'daily') {
+    for (let k = 0; occurrences.length < limit; k++) {
+      const wall = new Date(wallStart.getTime() + k * interval * DAY_MS);
+      if (isPastUntil(wall)) break;
+      occurrences.push(toOccurrence(wall));
+    }
+  } else if (rule.frequency === 'weekly') {
+    const weekdays = rule.weekdays && rule.weekdays.length > 0
+      ? rule.weekdays
+      : [wallStart.getUTCDay()];
+    // Weeks are counted from the Sunday of the first occurrence's week
+    const firstWeekStart = wallStart.getTime() - wallStart.getUTCDay() * DAY_MS;
+
+    for (let day = 0; occurrences.length < limit; day++) {
+      const wall = new Date(wallStart.getTime() + day * DAY_MS);
+      if (isPastUntil(wall)) break;
+      // Without an end date or count the loop is capped by the occurrence limit
+      if (day > MAX_SERIES_OCCURRENCES * 7 * interval) break;
+
+      const weekIndex = Math.floor((wall.getTime() - firstWeekStart) / (7 * DAY_MS));
+      if (weekIndex % interval === 0 && weekdays.includes(wall.getUTCDay())) {
+        occurrences.push(toOccurrence(wall));
+      }
+    }
+  } else {
+    const dayOfMonth = wallStart.getUTCDate();
+    for (let k = 0; occurrences.length < limit && k < MAX_SERIES_OCCURRENCES * interval; k++) {
+      const wall = new Date(wallStart);
+      wall.setUTCDate(1);
+      wall.setUTCMonth(wallStart.getUTCMonth() + k * interval);
+      // Skip months that do not have this day (e.g. the 31st)
+      const daysInMonth = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 0)).getUTCDate();
+      if (dayOfMonth > daysInMonth) continue;
+      wall.setUTCDate(dayOfMonth);
+      if (isPastUntil(wall)) break;
+      occurrences.push(toOccurrence(wall));
+    }
+  }
+
+  return occurrences;
+}
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Short human readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times"
+export function describeRecurrence(rule: Pick<RecurrenceRule, "frequency" | "interval" | "weekdays" | "untilDate" | "count">): string {
+  const interval = rule.interval ?? 1;
+  const unit = { daily: "day", weekly: "week", monthly: "month" }[rule.frequency];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays && rule.weekdays.length > 0) {
+    text += ` on ${[...rule.weekdays].sort().map(d => WEEKDAY_NAMES[d]).join(", ")}`;
+  }
+  if (rule.untilDate) {
+    text += ` until ${rule.untilDate}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+
+  return text;
+}
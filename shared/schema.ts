@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, boolean, real, date } from "drizzle-orm/pg-core";  
+import { pgTable, text, serial, integer, timestamp, boolean, real, date, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";  
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -32,12 +32,20 @@ export const users = pgTable("users", {
   position: text("position"),
   email: text("email"),
   phone: text("phone"),
+  // Secret used in calendar feed URLs instead of a session cookie
+  calendarToken: text("calendar_token").unique(),
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  calendarToken: true,
 });
 
+// Vehicle classes staff can book when any vehicle of the kind will do
+export const vehicleCategories = ["sedan", "hatchback", "suv", "van", "pickup", "ev", "truck"] as const;
+
+export const vehicleStatuses = ["available", "maintenance", "in_use", "out_of_service"] as const;
+
 // Vehicle schema
 export const vehicles = pgTable("vehicles", {
   id: serial("id").primaryKey(),
@@ -47,9 +55,12 @@ export const vehicles = pgTable("vehicles", {
   registrationNumber: text("registration_number").notNull(),
   vin: text("vin"),
   color: text("color"),
-  status: text("status", { enum: ["available", "maintenance", "in_use", "out_of_service"] }).default("available").notNull(),
+  status: text("status", { enum: vehicleStatuses }).default("available").notNull(),
   mileage: integer("mileage").default(0).notNull(),
+  // Hour meter reading, for vehicles and plant serviced by running hours
+  engineHours: real("engine_hours"),
   fuelType: text("fuel_type"),
+  category: text("category", { enum: vehicleCategories }),
   assignedToId: integer("assigned_to_id").references(() => users.id),
   purchaseDate: date("purchase_date"),
   notes: text("notes"),
@@ -59,6 +70,23 @@ export const insertVehicleSchema = createInsertSchema(vehicles).omit({
   id: true,
 });
 
+// Upper bound on the lines of a single work order
+export const MAX_WORK_ORDER_LINES = 100;
+
+// A work order line: a part fitted, labour spent, or both (e.g. a fixed-price fitting).
+// Tax is a percentage of the line's parts and labour.
+export const workOrderLineSchema = z.object({
+  // A part taken from the workshop's stock; it is booked out when the work is completed
+  partId: z.number().int().positive().optional().nullable(),
+  partNumber: z.string().trim().optional().nullable(),
+  description: z.string().trim().min(1, "Each line needs a description"),
+  quantity: z.number().min(0, "Quantity cannot be negative"),
+  unitCost: z.number().min(0, "Unit cost cannot be negative"),
+  labourHours: z.number().min(0, "Labour hours cannot be negative"),
+  labourRate: z.number().min(0, "Labour rate cannot be negative"),
+  taxRate: z.number().min(0, "Tax rate cannot be negative").max(100, "Tax rate cannot exceed 100%"),
+});
+
 // Maintenance schema
 export const maintenance = pgTable("maintenance", {
   id: serial("id").primaryKey(),
@@ -71,6 +99,15 @@ export const maintenance = pgTable("maintenance", {
   status: text("status", { enum: ["pending", "in_progress", "completed"] }).default("pending").notNull(),
   notes: text("notes"),
   completedAt: timestamp("completed_at"),
+  engineHours: real("engine_hours"),
+  // Set on records generated from a preventive maintenance plan
+  planId: integer("plan_id").references(() => maintenancePlans.id, { onDelete: "set null" }),
+  // Work order lines; when there are any, cost is their total
+  lines: jsonb("lines").$type<WorkOrderLine[]>().default([]).notNull(),
+  // The garage that did the work
+  vendorId: integer("vendor_id").references(() => vendors.id),
+  // Set when this job redoes earlier work that did not hold; counts against that job's vendor
+  reworkOfId: integer("rework_of_id").references((): AnyPgColumn => maintenance.id, { onDelete: "set null" }),
 });
 
 export const insertMaintenanceSchema = createInsertSchema(maintenance)
@@ -81,8 +118,172 @@ export const insertMaintenanceSchema = createInsertSchema(maintenance)
     // Override the date fields with our custom schema
     date: dateSchema,
     completedAt: dateSchema.optional().nullable(),
+    lines: z.array(workOrderLineSchema).max(MAX_WORK_ORDER_LINES, `A work order can have at most ${MAX_WORK_ORDER_LINES} lines`).optional(),
+  });
+
+// Preventive maintenance repeated by mileage, time or engine hours, whichever comes first.
+// A plan covers one vehicle, or every vehicle of a make (and optionally model).
+export const maintenancePlans = pgTable("maintenance_plans", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "cascade" }),
+  make: text("make"),
+  model: text("model"),
+  intervalMileage: integer("interval_mileage"),
+  intervalMonths: integer("interval_months"),
+  intervalEngineHours: integer("interval_engine_hours"),
+  estimatedCost: real("estimated_cost"),
+  active: boolean("active").default(true).notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMaintenancePlanSchema = createInsertSchema(maintenancePlans)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required"),
+    make: z.string().trim().optional().nullable().transform(value => value || null),
+    model: z.string().trim().optional().nullable().transform(value => value || null),
+    intervalMileage: z.number().int().positive("Interval must be positive").optional().nullable(),
+    intervalMonths: z.number().int().positive("Interval must be positive").optional().nullable(),
+    intervalEngineHours: z.number().int().positive("Interval must be positive").optional().nullable(),
+    estimatedCost: z.number().min(0, "Cost cannot be negative").optional().nullable(),
+  })
+  .refine(plan => plan.vehicleId != null || !!plan.make, {
+    message: "Choose a vehicle or a make the plan applies to",
+    path: ["vehicleId"],
+  })
+  .refine(plan => plan.intervalMileage != null || plan.intervalMonths != null || plan.intervalEngineHours != null, {
+    message: "Set at least one interval",
+    path: ["intervalMileage"],
+  });
+
+// What a garage or other service vendor can be sent work for
+export const vendorServices = ["servicing", "repairs", "tyres", "bodywork", "electrical", "glass", "diagnostics", "recovery"] as const;
+
+// Garages and other outside vendors that maintenance work goes to
+export const vendors = pgTable("vendors", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  contactName: text("contact_name"),
+  phone: text("phone"),
+  email: text("email"),
+  address: text("address"),
+  services: jsonb("services").$type<VendorService[]>().default([]).notNull(),
+  // Negotiated hourly labour rate, used for new labour lines on their work orders
+  labourRate: real("labour_rate"),
+  active: boolean("active").default(true).notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertVendorSchema = createInsertSchema(vendors)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required"),
+    email: z.string().trim().email("Enter a valid email address").optional().nullable().or(z.literal("").transform(() => null)),
+    services: z.array(z.enum(vendorServices)).optional(),
+    labourRate: z.number().min(0, "Labour rate cannot be negative").optional().nullable(),
   });
 
+// What kind of part a stock item is
+export const partCategories = ["tyres", "filters", "bulbs", "brakes", "fluids", "electrical", "other"] as const;
+
+// Spare parts kept in stock by the in-house workshop. The quantity on hand only changes through
+// stock movements; the unit cost is the average cost of what was received.
+export const parts = pgTable("parts", {
+  id: serial("id").primaryKey(),
+  partNumber: text("part_number").notNull().unique(),
+  name: text("name").notNull(),
+  category: text("category", { enum: partCategories }).default("other").notNull(),
+  location: text("location"),
+  quantityOnHand: real("quantity_on_hand").default(0).notNull(),
+  reorderPoint: real("reorder_point").default(0).notNull(),
+  unitCost: real("unit_cost").default(0).notNull(),
+  active: boolean("active").default(true).notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPartSchema = createInsertSchema(parts)
+  .omit({
+    id: true,
+    quantityOnHand: true,
+    createdAt: true,
+  })
+  .extend({
+    partNumber: z.string().trim().min(1, "Part number is required"),
+    name: z.string().trim().min(1, "Name is required"),
+    reorderPoint: z.number().min(0, "Reorder point cannot be negative").optional(),
+    unitCost: z.number().min(0, "Unit cost cannot be negative").optional(),
+  });
+
+export const partMovementTypes = ["receipt", "consumption", "return", "adjustment"] as const;
+
+// Stock ledger - every change to a part's quantity on hand. Consumption and returns are posted
+// from maintenance records; receipts and adjustments are entered by hand.
+export const partMovements = pgTable("part_movements", {
+  id: serial("id").primaryKey(),
+  partId: integer("part_id").notNull().references(() => parts.id, { onDelete: "cascade" }),
+  type: text("type", { enum: partMovementTypes }).notNull(),
+  // Signed change to the quantity on hand
+  quantity: real("quantity").notNull(),
+  unitCost: real("unit_cost").notNull(),
+  maintenanceId: integer("maintenance_id").references(() => maintenance.id, { onDelete: "set null" }),
+  reference: text("reference"),
+  notes: text("notes"),
+  recordedById: integer("recorded_by_id").references(() => users.id),
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+});
+
+// Stock received from a supplier, or a correction after a stock count
+export const partMovementInputSchema = z.object({
+  type: z.enum(["receipt", "adjustment"]),
+  quantity: z.number().refine(quantity => quantity !== 0, "Quantity cannot be zero"),
+  unitCost: z.number().min(0, "Unit cost cannot be negative").optional().nullable(),
+  reference: z.string().trim().optional().nullable(),
+  notes: z.string().trim().optional().nullable(),
+}).refine(movement => movement.type !== "receipt" || movement.quantity > 0, {
+  message: "A receipt adds stock",
+  path: ["quantity"],
+});
+
+// How a trip counts for mileage statements
+export const tripUsages = ["business", "commute", "private"] as const;
+
+// Upper bounds on what a single trip carries
+export const MAX_TRIP_STOPS = 25;
+export const MAX_TRIP_PASSENGERS = 8;
+export const MAX_CARGO_ITEMS = 50;
+
+// A stop along the trip, in driving order
+export const tripStopSchema = z.object({
+  label: z.string().trim().min(1, "Each stop needs an address or label"),
+  plannedArrival: dateSchema.optional().nullable(),
+  actualArrival: dateSchema.optional().nullable(),
+  notes: z.string().trim().optional().nullable(),
+});
+
+// A colleague travelling along, or someone from outside by name
+export const tripPassengerSchema = z.object({
+  userId: z.number().int().positive().optional().nullable(),
+  name: z.string().trim().optional().nullable(),
+}).refine(passenger => passenger.userId != null || !!passenger.name, "Each passenger needs a user or a name");
+
+export const cargoItemSchema = z.object({
+  description: z.string().trim().min(1, "Each cargo item needs a description"),
+  quantity: z.number().int().positive("Quantity must be at least 1"),
+  weightKg: z.number().min(0, "Weight cannot be negative").optional().nullable(),
+  // Delivery note or consignment number
+  reference: z.string().trim().optional().nullable(),
+});
+
 // Trip schema
 export const trips = pgTable("trips", {
   id: serial("id").primaryKey(),
@@ -95,35 +296,589 @@ export const trips = pgTable("trips", {
   fuelConsumed: real("fuel_consumed"),
   purpose: text("purpose"),
   status: text("status", { enum: ["planned", "in_progress", "completed", "cancelled"] }).default("planned").notNull(),
+  usage: text("usage", { enum: tripUsages }).default("business").notNull(),
   notes: text("notes"),
+  // Set when the trip was started from a booking; completing the trip completes the booking
+  bookingId: integer("booking_id").references(() => bookings.id, { onDelete: "set null" }),
+  stops: jsonb("stops").$type<TripStop[]>().default([]).notNull(),
+  passengers: jsonb("passengers").$type<TripPassenger[]>().default([]).notNull(),
+  cargo: jsonb("cargo").$type<CargoItem[]>().default([]).notNull(),
 });
 
 export const insertTripSchema = createInsertSchema(trips)
   .omit({
     id: true,
+    bookingId: true,
   })
   .extend({
     // Override the date fields with our custom schema
     startTime: dateSchema,
     endTime: dateSchema.optional().nullable(),
+    stops: z.array(tripStopSchema).max(MAX_TRIP_STOPS, `A trip can have at most ${MAX_TRIP_STOPS} stops`).optional(),
+    passengers: z.array(tripPassengerSchema).max(MAX_TRIP_PASSENGERS, `A trip can carry at most ${MAX_TRIP_PASSENGERS} passengers`).optional(),
+    cargo: z.array(cargoItemSchema).max(MAX_CARGO_ITEMS, `A cargo manifest can list at most ${MAX_CARGO_ITEMS} items`).optional(),
+  });
+
+// Columns the trip history can be sorted by
+export const tripSortFields = ["startTime", "endTime", "status", "startOdometer"] as const;
+export const MAX_TRIP_PAGE_SIZE = 100;
+
+// Query string of the trip history search; the date range applies to the start time
+export const tripSearchSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  vehicleId: z.coerce.number().int().positive().optional(),
+  driverId: z.coerce.number().int().positive().optional(),
+  status: z.enum(trips.status.enumValues).optional(),
+  purpose: z.string().trim().optional(),
+  sort: z.enum(tripSortFields).default("startTime"),
+  direction: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().positive().max(MAX_TRIP_PAGE_SIZE).default(20),
+});
+
+export const trackFormats = ["gpx", "geojson"] as const;
+
+// GPS track uploaded for a trip, at most one per trip. Stats are computed from the points on upload.
+export const tripRoutes = pgTable("trip_routes", {
+  id: serial("id").primaryKey(),
+  tripId: integer("trip_id").notNull().unique().references(() => trips.id, { onDelete: "cascade" }),
+  format: text("format", { enum: trackFormats }).notNull(),
+  points: jsonb("points").$type<TrackPoint[]>().notNull(),
+  distanceMiles: real("distance_miles").notNull(),
+  // Time based stats stay empty when the track has no timestamps
+  durationSeconds: integer("duration_seconds"),
+  idleSeconds: integer("idle_seconds"),
+  maxSpeedMph: real("max_speed_mph"),
+  uploadedById: integer("uploaded_by_id").references(() => users.id),
+  uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
+});
+
+// The raw file is sent as text and parsed on the server
+export const tripRouteUploadSchema = z.object({
+  format: z.enum(trackFormats),
+  content: z.string().min(1, "The track file is empty"),
+});
+
+export const odometerReadingSources = ["initial", "trip_start", "trip_end", "maintenance", "fuel", "manual"] as const;
+
+// Odometer ledger - every reading of a vehicle's odometer, from trips, maintenance or entered by hand.
+// Implausible jumps are kept but flagged for an admin; voided readings no longer count.
+export const odometerReadings = pgTable("odometer_readings", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+  reading: integer("reading").notNull(),
+  recordedAt: timestamp("recorded_at").notNull(),
+  source: text("source", { enum: odometerReadingSources }).notNull(),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "set null" }),
+  maintenanceId: integer("maintenance_id").references(() => maintenance.id, { onDelete: "set null" }),
+  fuelLogId: integer("fuel_log_id").references(() => fuelLogs.id, { onDelete: "set null" }),
+  recordedById: integer("recorded_by_id").references(() => users.id),
+  status: text("status", { enum: ["valid", "flagged", "voided"] }).default("valid").notNull(),
+  flagReason: text("flag_reason"),
+  reviewedById: integer("reviewed_by_id").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Readings entered by hand; the other sources are recorded by the server
+export const insertOdometerReadingSchema = z.object({
+  reading: z.number().int().min(0),
+  recordedAt: dateSchema.optional(),
+  note: z.string().optional().nullable(),
+});
+
+export const odometerReviewSchema = z.object({
+  decision: z.enum(["accept", "void"]),
+});
+
+export const vehicleStatusCauses = ["maintenance", "trip", "inspection", "manual"] as const;
+
+// Status history - every change of a vehicle's status and what caused it. Downtime and
+// availability are worked out from it. A vehicle's first entry has no previous status.
+export const vehicleStatusChanges = pgTable("vehicle_status_changes", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status", { enum: vehicleStatuses }),
+  toStatus: text("to_status", { enum: vehicleStatuses }).notNull(),
+  cause: text("cause", { enum: vehicleStatusCauses }).notNull(),
+  maintenanceId: integer("maintenance_id").references(() => maintenance.id, { onDelete: "set null" }),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "set null" }),
+  inspectionId: integer("inspection_id").references(() => inspections.id, { onDelete: "set null" }),
+  changedById: integer("changed_by_id").references(() => users.id),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+});
+
+// Fuel log - one entry per fill-up. Efficiency is worked out between full-tank fills.
+export const fuelLogs = pgTable("fuel_logs", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id),
+  driverId: integer("driver_id").references(() => users.id),
+  filledAt: timestamp("filled_at").notNull(),
+  litres: real("litres").notNull(),
+  unitPrice: real("unit_price").notNull(),
+  totalCost: real("total_cost").notNull(),
+  odometer: integer("odometer").notNull(),
+  station: text("station"),
+  fullTank: boolean("full_tank").default(true).notNull(),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "set null" }),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertFuelLogSchema = createInsertSchema(fuelLogs)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    filledAt: dateSchema,
+    litres: z.number().positive("Litres must be more than zero"),
+    unitPrice: z.number().min(0),
+    // Worked out from litres and unit price when left empty
+    totalCost: z.number().min(0).optional(),
+    odometer: z.number().int().min(0),
+  });
+
+export const inspectionKinds = ["pre_trip", "post_trip"] as const;
+
+// One line of an inspection checklist. Failing a critical item takes the vehicle out of service.
+export const inspectionItemSchema = z.object({
+  key: z.string().trim().min(1),
+  label: z.string().trim().min(1, "Every item needs a label"),
+  critical: z.boolean().default(false),
+  // A failure has to come with a photo, e.g. body damage
+  photoRequired: z.boolean().default(false),
+});
+
+// Inspection templates - the checklist drivers go through before or after a trip
+export const inspectionTemplates = pgTable("inspection_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  kind: text("kind", { enum: inspectionKinds }).notNull(),
+  items: jsonb("items").$type<InspectionItem[]>().notNull(),
+  // Retired templates stay so past inspections keep their checklist
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertInspectionTemplateSchema = createInsertSchema(inspectionTemplates)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "A name is required"),
+    items: z.array(inspectionItemSchema)
+      .min(1, "A template needs at least one item")
+      .refine(items => new Set(items.map(item => item.key)).size === items.length, "Item keys must be unique"),
+  });
+
+// Damage photos are sent inline as data URLs
+const MAX_PHOTO_LENGTH = 3_000_000;
+
+const photoSchema = z.string()
+  .startsWith("data:image/", "Photos must be images")
+  .max(MAX_PHOTO_LENGTH, "Photos must be smaller than 2 MB");
+
+// Inspections - a completed checklist for a vehicle, linked to the trip it was done for.
+// Pre-trip inspections are done before the trip exists and linked when it starts.
+export const inspections = pgTable("inspections", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "set null" }),
+  templateId: integer("template_id").notNull().references(() => inspectionTemplates.id),
+  kind: text("kind", { enum: inspectionKinds }).notNull(),
+  inspectorId: integer("inspector_id").notNull().references(() => users.id),
+  performedAt: timestamp("performed_at").defaultNow().notNull(),
+  results: jsonb("results").$type<InspectionResult[]>().notNull(),
+  passed: boolean("passed").notNull(),
+  criticalFailure: boolean("critical_failure").notNull(),
+  notes: text("notes"),
+});
+
+export const inspectionResultInputSchema = z.object({
+  key: z.string().min(1),
+  passed: z.boolean(),
+  note: z.string().trim().optional().nullable(),
+  photo: photoSchema.optional().nullable(),
+});
+
+// Sent by the driver; the kind comes from the template and the results are graded on the server
+export const insertInspectionSchema = z.object({
+  vehicleId: z.number().int(),
+  tripId: z.number().int().optional().nullable(),
+  templateId: z.number().int(),
+  results: z.array(inspectionResultInputSchema).min(1),
+  notes: z.string().optional().nullable(),
+});
+
+export const mileageRateTreatments = ["reimbursement", "benefit_in_kind"] as const;
+
+// Mileage rates - one per trip usage. Reimbursed kilometres are paid to the driver,
+// benefit-in-kind kilometres are reported to payroll as private use of a company vehicle.
+export const mileageRates = pgTable("mileage_rates", {
+  id: serial("id").primaryKey(),
+  usage: text("usage", { enum: tripUsages }).notNull().unique(),
+  treatment: text("treatment", { enum: mileageRateTreatments }).notNull(),
+  ratePerKm: real("rate_per_km").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertMileageRateSchema = createInsertSchema(mileageRates)
+  .omit({
+    id: true,
+    updatedAt: true,
+  })
+  .extend({
+    ratePerKm: z.number().min(0, "The rate cannot be negative"),
   });
 
+// Mileage statements - a driver's trips for one month, priced when submitted.
+// Approved statements are what payroll pays out, so their trips are locked.
+export const mileageStatements = pgTable("mileage_statements", {
+  id: serial("id").primaryKey(),
+  driverId: integer("driver_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // YYYY-MM, by trip start time in UTC
+  month: text("month").notNull(),
+  status: text("status", { enum: ["submitted", "approved", "rejected"] }).default("submitted").notNull(),
+  lines: jsonb("lines").$type<MileageStatementLine[]>().notNull(),
+  totalKm: real("total_km").notNull(),
+  reimbursementTotal: real("reimbursement_total").notNull(),
+  benefitTotal: real("benefit_total").notNull(),
+  submittedAt: timestamp("submitted_at").defaultNow().notNull(),
+  decidedById: integer("decided_by_id").references(() => users.id),
+  decidedAt: timestamp("decided_at"),
+  decisionReason: text("decision_reason"),
+});
+
+export const submitMileageStatementSchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format"),
+});
+
+export const mileageStatementDecisionSchema = z.discriminatedUnion("decision", [
+  z.object({ decision: z.literal("approved"), reason: z.string().trim().optional() }),
+  z.object({ decision: z.literal("rejected"), reason: z.string().trim().min(1, "A reason is required when rejecting a statement") }),
+]);
+
+export const incidentTypes = ["collision", "breakdown", "fine", "theft", "vandalism", "other"] as const;
+export const incidentStatuses = ["reported", "investigating", "closed"] as const;
+export const insuranceClaimStatuses = ["not_claimed", "filed", "accepted", "rejected", "settled"] as const;
+
+// An incident report carries at most this many photos
+export const MAX_INCIDENT_PHOTOS = 4;
+
+// Incidents - collisions, fines, breakdowns and the like during use of a vehicle. A moderator
+// investigates each one; the cost counts towards the vehicle and the driver's record.
+export const incidents = pgTable("incidents", {
+  id: serial("id").primaryKey(),
+  // Incidents carry costs and a driver's record, so they keep their vehicle from being deleted
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "set null" }),
+  // Who was driving; unknown for e.g. vandalism while parked
+  driverId: integer("driver_id").references(() => users.id),
+  reportedById: integer("reported_by_id").notNull().references(() => users.id),
+  occurredAt: timestamp("occurred_at").notNull(),
+  location: text("location").notNull(),
+  type: text("type", { enum: incidentTypes }).notNull(),
+  description: text("description").notNull(),
+  thirdParty: jsonb("third_party").$type<IncidentThirdParty | null>(),
+  policeReference: text("police_reference"),
+  photos: jsonb("photos").$type<string[]>().default([]).notNull(),
+  estimatedCost: real("estimated_cost"),
+  actualCost: real("actual_cost"),
+  claimStatus: text("claim_status", { enum: insuranceClaimStatuses }).default("not_claimed").notNull(),
+  claimReference: text("claim_reference"),
+  status: text("status", { enum: incidentStatuses }).default("reported").notNull(),
+  investigatorId: integer("investigator_id").references(() => users.id),
+  findings: text("findings"),
+  driverAtFault: boolean("driver_at_fault"),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const incidentThirdPartySchema = z.object({
+  name: z.string().trim().min(1, "The other party's name is required"),
+  phone: z.string().trim().optional().nullable(),
+  vehicleRegistration: z.string().trim().optional().nullable(),
+  insurer: z.string().trim().optional().nullable(),
+  policyNumber: z.string().trim().optional().nullable(),
+});
+
+// The investigation fields are set through incidentInvestigationSchema instead
+export const insertIncidentSchema = createInsertSchema(incidents)
+  .omit({
+    id: true,
+    reportedById: true,
+    status: true,
+    investigatorId: true,
+    findings: true,
+    driverAtFault: true,
+    closedAt: true,
+    createdAt: true,
+  })
+  .extend({
+    occurredAt: dateSchema,
+    location: z.string().trim().min(1, "Location is required"),
+    description: z.string().trim().min(1, "Description is required"),
+    thirdParty: incidentThirdPartySchema.optional().nullable(),
+    photos: z.array(photoSchema).max(MAX_INCIDENT_PHOTOS, `At most ${MAX_INCIDENT_PHOTOS} photos can be attached`).default([]),
+    estimatedCost: z.number().min(0, "Cost cannot be negative").optional().nullable(),
+    actualCost: z.number().min(0, "Cost cannot be negative").optional().nullable(),
+  });
+
+// Starting (or reopening) an investigation, or closing it with the findings
+export const incidentInvestigationSchema = z.discriminatedUnion("status", [
+  z.object({ status: z.literal("investigating"), findings: z.string().trim().optional() }),
+  z.object({
+    status: z.literal("closed"),
+    findings: z.string().trim().min(1, "Findings are required to close an incident"),
+    driverAtFault: z.boolean(),
+  }),
+]);
+
+export const trafficChargeKinds = ["fine", "toll"] as const;
+export const trafficChargeStatuses = ["matched", "unmatched", "dismissed"] as const;
+export const trafficChargeMatchSources = ["trip", "booking", "manual"] as const;
+
+// Traffic charges - speeding tickets and toll invoices, which arrive by plate number and time.
+// Each one is matched to the trip or booking covering that moment to find the driver; the
+// ones that cannot be matched wait in a review queue for a moderator.
+export const trafficCharges = pgTable("traffic_charges", {
+  id: serial("id").primaryKey(),
+  kind: text("kind", { enum: trafficChargeKinds }).notNull(),
+  // As printed on the ticket or invoice; vehicleId is empty when no vehicle has this plate
+  registrationNumber: text("registration_number").notNull(),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
+  occurredAt: timestamp("occurred_at").notNull(),
+  amount: real("amount").notNull(),
+  // Ticket or invoice number, used to skip charges that were already imported
+  reference: text("reference"),
+  location: text("location"),
+  description: text("description"),
+  status: text("status", { enum: trafficChargeStatuses }).default("unmatched").notNull(),
+  matchedBy: text("matched_by", { enum: trafficChargeMatchSources }),
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "set null" }),
+  bookingId: integer("booking_id").references(() => bookings.id, { onDelete: "set null" }),
+  driverId: integer("driver_id").references(() => users.id),
+  // Why the charge could not be matched, or why it was dismissed
+  matchNote: text("match_note"),
+  importedById: integer("imported_by_id").notNull().references(() => users.id),
+  resolvedById: integer("resolved_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// The vehicle, driver and status are worked out by matching, not entered
+export const insertTrafficChargeSchema = createInsertSchema(trafficCharges)
+  .omit({
+    id: true,
+    vehicleId: true,
+    status: true,
+    matchedBy: true,
+    tripId: true,
+    bookingId: true,
+    driverId: true,
+    matchNote: true,
+    importedById: true,
+    resolvedById: true,
+    createdAt: true,
+  })
+  .extend({
+    registrationNumber: z.string().trim().min(1, "Registration number is required"),
+    occurredAt: dateSchema,
+    amount: z.number().positive("Amount must be greater than zero"),
+    reference: z.string().trim().optional().nullable(),
+    location: z.string().trim().optional().nullable(),
+    description: z.string().trim().optional().nullable(),
+  });
+
+export const importTrafficChargesSchema = z.object({
+  csv: z.string().min(1, "The CSV file is empty"),
+  // Used for rows without a kind column, e.g. a toll operator's invoice
+  kind: z.enum(trafficChargeKinds).optional(),
+});
+
+// Assigning a charge from the review queue to a driver, or dismissing it
+export const trafficChargeResolutionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("assign"),
+    driverId: z.number().int().positive(),
+    tripId: z.number().int().positive().optional().nullable(),
+    bookingId: z.number().int().positive().optional().nullable(),
+  }),
+  z.object({ action: z.literal("dismiss"), reason: z.string().trim().min(1, "A reason is required when dismissing a charge") }),
+]);
+
 // Booking schema
 export const bookings = pgTable("bookings", {
   id: serial("id").primaryKey(),
-  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id),
+  // Empty while a category booking waits for a vehicle to be assigned on approval
+  vehicleId: integer("vehicle_id").references(() => vehicles.id),
+  category: text("category", { enum: vehicleCategories }),
   userId: integer("user_id").notNull().references(() => users.id),
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time").notNull(),
   purpose: text("purpose"),
   status: text("status", { enum: ["pending", "approved", "declined", "cancelled", "completed"] }).default("pending").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Latest approval decision; the full history lives in booking_decisions
+  decidedById: integer("decided_by_id").references(() => users.id),
+  decidedAt: timestamp("decided_at"),
+  decisionReason: text("decision_reason"),
+  // Set when the booking is one occurrence of a recurring series
+  seriesId: integer("series_id").references(() => bookingSeries.id),
+  // Set when a moderator created the booking despite policy violations
+  policyOverrideRules: text("policy_override_rules").array(),
+  policyOverrideReason: text("policy_override_reason"),
+  policyOverrideById: integer("policy_override_by_id").references(() => users.id),
 });
 
 export const insertBookingSchema = createInsertSchema(bookings)
   .omit({
     id: true,
     createdAt: true,
+    decidedById: true,
+    decidedAt: true,
+    decisionReason: true,
+    seriesId: true,
+    policyOverrideRules: true,
+    policyOverrideReason: true,
+    policyOverrideById: true,
+  })
+  .extend({
+    // Override the date fields with our custom schema
+    startTime: dateSchema,
+    endTime: dateSchema,
+  });
+
+// Booking series schema - the recurrence rule shared by a set of bookings
+export const bookingSeries = pgTable("booking_series", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  frequency: text("frequency", { enum: ["daily", "weekly", "monthly"] }).notNull(),
+  interval: integer("interval").default(1).notNull(),
+  weekdays: integer("weekdays").array(),
+  untilDate: date("until_date"),
+  occurrenceCount: integer("occurrence_count"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(["daily", "weekly", "monthly"]),
+  interval: z.number().int().min(1).max(12).default(1),
+  // 0 = Sunday ... 6 = Saturday; only used for weekly rules
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+  untilDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  count: z.number().int().min(1).optional(),
+  // Requester's Date.getTimezoneOffset(), so weekdays match their calendar
+  timezoneOffset: z.number().int().min(-840).max(840).default(0),
+}).refine(rule => !!rule.untilDate || !!rule.count, {
+  message: "Provide an end date or an occurrence count",
+});
+
+export const insertBookingSeriesSchema = insertBookingSchema.extend({
+  recurrence: recurrenceRuleSchema,
+  // Create the free occurrences and report the rest instead of rejecting the series
+  skipConflicts: z.boolean().default(false),
+});
+
+// Which occurrences of a series an edit or cancellation applies to
+export const seriesScopeSchema = z.enum(["single", "following", "all"]).default("single");
+
+// Booking decision schema - one row per approve/decline action
+export const bookingDecisions = pgTable("booking_decisions", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull().references(() => bookings.id, { onDelete: "cascade" }),
+  decidedById: integer("decided_by_id").notNull().references(() => users.id),
+  decision: text("decision", { enum: ["approved", "declined"] }).notNull(),
+  reason: text("reason"),
+  decidedAt: timestamp("decided_at").defaultNow().notNull(),
+});
+
+export const bookingDecisionSchema = z.discriminatedUnion("decision", [
+  z.object({ decision: z.literal("approved"), reason: z.string().trim().optional() }),
+  z.object({ decision: z.literal("declined"), reason: z.string().trim().min(1, "A reason is required when declining a booking") }),
+]);
+
+export const bulkBookingDecisionSchema = z.intersection(
+  bookingDecisionSchema,
+  z.object({ bookingIds: z.array(z.number().int()).min(1) })
+);
+
+// Starting a trip from a booking; the odometer defaults to the vehicle's mileage
+export const startTripFromBookingSchema = z.object({
+  startOdometer: z.number().int().min(0).optional(),
+});
+
+// Booking policy schema - limits enforced when bookings are created.
+// The row without a vehicle is the global policy; vehicle rows override it field by field.
+export const bookingPolicies = pgTable("booking_policies", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").unique().references(() => vehicles.id, { onDelete: "cascade" }),
+  maxDurationHours: real("max_duration_hours"),
+  minLeadTimeHours: real("min_lead_time_hours"),
+  maxAdvanceDays: integer("max_advance_days"),
+  maxActiveBookings: integer("max_active_bookings"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertBookingPolicySchema = createInsertSchema(bookingPolicies)
+  .omit({
+    id: true,
+    updatedAt: true,
+  })
+  .extend({
+    maxDurationHours: z.number().positive().nullable().optional(),
+    minLeadTimeHours: z.number().min(0).nullable().optional(),
+    maxAdvanceDays: z.number().int().positive().nullable().optional(),
+    maxActiveBookings: z.number().int().positive().nullable().optional(),
+  });
+
+// Blackout periods - windows in which no bookings may be made, globally or for one vehicle
+export const bookingBlackouts = pgTable("booking_blackouts", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "cascade" }),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  reason: text("reason").notNull(),
+  createdById: integer("created_by_id").references(() => users.id),
+});
+
+export const insertBookingBlackoutSchema = createInsertSchema(bookingBlackouts)
+  .omit({
+    id: true,
+    createdById: true,
+  })
+  .extend({
+    // Override the date fields with our custom schema
+    startTime: dateSchema,
+    endTime: dateSchema,
+    reason: z.string().trim().min(1, "A reason is required"),
+  });
+
+// Waitlist schema - requests for a taken vehicle and window, promoted to bookings when it frees up
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  purpose: text("purpose"),
+  status: text("status", { enum: ["waiting", "promoted", "cancelled"] }).default("waiting").notNull(),
+  // The pending booking created on promotion
+  bookingId: integer("booking_id").references(() => bookings.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  promotedAt: timestamp("promoted_at"),
+});
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries)
+  .omit({
+    id: true,
+    status: true,
+    bookingId: true,
+    createdAt: true,
+    promotedAt: true,
   })
   .extend({
     // Override the date fields with our custom schema
@@ -131,6 +886,25 @@ export const insertBookingSchema = createInsertSchema(bookings)
     endTime: dateSchema,
   });
 
+// In-app notifications shown to a single user
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  message: text("message").notNull(),
+  // Client route the notification points to
+  link: text("link"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const bookingPolicyRules = ["max_duration", "min_lead_time", "max_advance", "max_active_bookings", "blackout"] as const;
+
+// Sent with a booking by an admin or moderator to book despite the listed violations
+export const policyOverrideSchema = z.object({
+  rules: z.array(z.enum(bookingPolicyRules)).min(1),
+  reason: z.string().trim().min(1, "A reason is required to override a booking policy"),
+});
+
 // Define Types from Schemas
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -140,13 +914,93 @@ export type Vehicle = typeof vehicles.$inferSelect;
 
 export type InsertMaintenance = z.infer<typeof insertMaintenanceSchema>;
 export type Maintenance = typeof maintenance.$inferSelect;
+export type WorkOrderLine = z.infer<typeof workOrderLineSchema>;
+export type InsertMaintenancePlan = z.infer<typeof insertMaintenancePlanSchema>;
+export type MaintenancePlan = typeof maintenancePlans.$inferSelect;
+export type VendorService = typeof vendorServices[number];
+export type InsertVendor = z.infer<typeof insertVendorSchema>;
+export type Vendor = typeof vendors.$inferSelect;
+export type PartCategory = typeof partCategories[number];
+export type InsertPart = z.infer<typeof insertPartSchema>;
+export type Part = typeof parts.$inferSelect;
+export type PartMovementType = typeof partMovementTypes[number];
+export type PartMovement = typeof partMovements.$inferSelect;
+export type PartMovementInput = z.infer<typeof partMovementInputSchema>;
 
 export type InsertTrip = z.infer<typeof insertTripSchema>;
 export type Trip = typeof trips.$inferSelect;
+export type TripSearch = z.infer<typeof tripSearchSchema>;
+export type TripRoute = typeof tripRoutes.$inferSelect;
+export type TrackFormat = typeof trackFormats[number];
+export type TripRouteUpload = z.infer<typeof tripRouteUploadSchema>;
+
+export type InsertOdometerReading = z.infer<typeof insertOdometerReadingSchema>;
+export type OdometerReading = typeof odometerReadings.$inferSelect;
+export type OdometerReadingSource = typeof odometerReadingSources[number];
+export type OdometerReview = z.infer<typeof odometerReviewSchema>;
+
+export type VehicleStatus = typeof vehicleStatuses[number];
+export type VehicleStatusCause = typeof vehicleStatusCauses[number];
+export type VehicleStatusChange = typeof vehicleStatusChanges.$inferSelect;
+
+export type InsertFuelLog = z.infer<typeof insertFuelLogSchema>;
+export type FuelLog = typeof fuelLogs.$inferSelect;
+
+export type TripUsage = typeof tripUsages[number];
+export type TripStop = z.infer<typeof tripStopSchema>;
+export type TripPassenger = z.infer<typeof tripPassengerSchema>;
+export type CargoItem = z.infer<typeof cargoItemSchema>;
+export type MileageRateTreatment = typeof mileageRateTreatments[number];
+export type InsertMileageRate = z.infer<typeof insertMileageRateSchema>;
+export type MileageRate = typeof mileageRates.$inferSelect;
+export type MileageStatement = typeof mileageStatements.$inferSelect;
+export type MileageStatementDecision = z.infer<typeof mileageStatementDecisionSchema>;
+
+export type IncidentType = typeof incidentTypes[number];
+export type IncidentStatus = typeof incidentStatuses[number];
+export type InsuranceClaimStatus = typeof insuranceClaimStatuses[number];
+export type IncidentThirdParty = z.infer<typeof incidentThirdPartySchema>;
+export type InsertIncident = z.infer<typeof insertIncidentSchema>;
+export type Incident = typeof incidents.$inferSelect;
+export type IncidentInvestigation = z.infer<typeof incidentInvestigationSchema>;
+
+export type TrafficChargeKind = typeof trafficChargeKinds[number];
+export type TrafficChargeStatus = typeof trafficChargeStatuses[number];
+export type InsertTrafficCharge = z.infer<typeof insertTrafficChargeSchema>;
+export type TrafficCharge = typeof trafficCharges.$inferSelect;
+export type TrafficChargeResolution = z.infer<typeof trafficChargeResolutionSchema>;
+
+export type InspectionKind = typeof inspectionKinds[number];
+export type InspectionItem = z.infer<typeof inspectionItemSchema>;
+export type InsertInspectionTemplate = z.infer<typeof insertInspectionTemplateSchema>;
+export type InspectionTemplate = typeof inspectionTemplates.$inferSelect;
+export type InspectionResultInput = z.infer<typeof inspectionResultInputSchema>;
+export type InsertInspection = z.infer<typeof insertInspectionSchema>;
+export type Inspection = typeof inspections.$inferSelect;
 
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
 export type Booking = typeof bookings.$inferSelect;
 
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+export type BookingSeries = typeof bookingSeries.$inferSelect;
+export type SeriesScope = z.infer<typeof seriesScopeSchema>;
+export type VehicleCategory = typeof vehicleCategories[number];
+
+export type BookingDecisionInput = z.infer<typeof bookingDecisionSchema>;
+export type BookingDecision = typeof bookingDecisions.$inferSelect;
+
+export type InsertBookingPolicy = z.infer<typeof insertBookingPolicySchema>;
+export type BookingPolicy = typeof bookingPolicies.$inferSelect;
+export type InsertBookingBlackout = z.infer<typeof insertBookingBlackoutSchema>;
+export type BookingBlackout = typeof bookingBlackouts.$inferSelect;
+export type BookingPolicyRule = typeof bookingPolicyRules[number];
+export type PolicyOverride = z.infer<typeof policyOverrideSchema>;
+
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+
+export type Notification = typeof notifications.$inferSelect;
+
 // Define table relations for Drizzle ORM
 export const usersRelations = relations(users, ({ many }) => ({
   assignedVehicles: many(vehicles),
@@ -161,16 +1015,61 @@ export const vehiclesRelations = relations(vehicles, ({ one, many }) => ({
   }),
   maintenanceRecords: many(maintenance),
   trips: many(trips),
-  bookings: many(bookings)
+  bookings: many(bookings),
+  fuelLogs: many(fuelLogs),
+  inspections: many(inspections),
+  incidents: many(incidents),
+  trafficCharges: many(trafficCharges),
+  maintenancePlans: many(maintenancePlans),
+  statusChanges: many(vehicleStatusChanges)
 }));
 
 export const maintenanceRelations = relations(maintenance, ({ one }) => ({
   vehicle: one(vehicles, {
     fields: [maintenance.vehicleId],
     references: [vehicles.id]
+  }),
+  plan: one(maintenancePlans, {
+    fields: [maintenance.planId],
+    references: [maintenancePlans.id]
+  }),
+  vendor: one(vendors, {
+    fields: [maintenance.vendorId],
+    references: [vendors.id]
   })
 }));
 
+export const vendorsRelations = relations(vendors, ({ many }) => ({
+  maintenanceRecords: many(maintenance)
+}));
+
+export const partsRelations = relations(parts, ({ many }) => ({
+  movements: many(partMovements)
+}));
+
+export const partMovementsRelations = relations(partMovements, ({ one }) => ({
+  part: one(parts, {
+    fields: [partMovements.partId],
+    references: [parts.id]
+  }),
+  maintenance: one(maintenance, {
+    fields: [partMovements.maintenanceId],
+    references: [maintenance.id]
+  }),
+  recordedBy: one(users, {
+    fields: [partMovements.recordedById],
+    references: [users.id]
+  })
+}));
+
+export const maintenancePlansRelations = relations(maintenancePlans, ({ one, many }) => ({
+  vehicle: one(vehicles, {
+    fields: [maintenancePlans.vehicleId],
+    references: [vehicles.id]
+  }),
+  maintenanceRecords: many(maintenance)
+}));
+
 export const tripsRelations = relations(trips, ({ one }) => ({
   vehicle: one(vehicles, {
     fields: [trips.vehicleId],
@@ -179,10 +1078,154 @@ export const tripsRelations = relations(trips, ({ one }) => ({
   driver: one(users, {
     fields: [trips.driverId],
     references: [users.id]
+  }),
+  booking: one(bookings, {
+    fields: [trips.bookingId],
+    references: [bookings.id]
+  }),
+  route: one(tripRoutes, {
+    fields: [trips.id],
+    references: [tripRoutes.tripId]
+  })
+}));
+
+export const odometerReadingsRelations = relations(odometerReadings, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [odometerReadings.vehicleId],
+    references: [vehicles.id]
+  }),
+  trip: one(trips, {
+    fields: [odometerReadings.tripId],
+    references: [trips.id]
+  }),
+  maintenance: one(maintenance, {
+    fields: [odometerReadings.maintenanceId],
+    references: [maintenance.id]
+  }),
+  fuelLog: one(fuelLogs, {
+    fields: [odometerReadings.fuelLogId],
+    references: [fuelLogs.id]
+  }),
+  recordedBy: one(users, {
+    fields: [odometerReadings.recordedById],
+    references: [users.id]
+  })
+}));
+
+export const vehicleStatusChangesRelations = relations(vehicleStatusChanges, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [vehicleStatusChanges.vehicleId],
+    references: [vehicles.id]
+  }),
+  maintenance: one(maintenance, {
+    fields: [vehicleStatusChanges.maintenanceId],
+    references: [maintenance.id]
+  }),
+  trip: one(trips, {
+    fields: [vehicleStatusChanges.tripId],
+    references: [trips.id]
+  }),
+  inspection: one(inspections, {
+    fields: [vehicleStatusChanges.inspectionId],
+    references: [inspections.id]
+  }),
+  changedBy: one(users, {
+    fields: [vehicleStatusChanges.changedById],
+    references: [users.id]
+  })
+}));
+
+export const fuelLogsRelations = relations(fuelLogs, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [fuelLogs.vehicleId],
+    references: [vehicles.id]
+  }),
+  driver: one(users, {
+    fields: [fuelLogs.driverId],
+    references: [users.id]
+  }),
+  trip: one(trips, {
+    fields: [fuelLogs.tripId],
+    references: [trips.id]
+  })
+}));
+
+export const inspectionsRelations = relations(inspections, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [inspections.vehicleId],
+    references: [vehicles.id]
+  }),
+  trip: one(trips, {
+    fields: [inspections.tripId],
+    references: [trips.id]
+  }),
+  template: one(inspectionTemplates, {
+    fields: [inspections.templateId],
+    references: [inspectionTemplates.id]
+  }),
+  inspector: one(users, {
+    fields: [inspections.inspectorId],
+    references: [users.id]
+  })
+}));
+
+export const incidentsRelations = relations(incidents, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [incidents.vehicleId],
+    references: [vehicles.id]
+  }),
+  trip: one(trips, {
+    fields: [incidents.tripId],
+    references: [trips.id]
+  }),
+  driver: one(users, {
+    fields: [incidents.driverId],
+    references: [users.id]
   })
 }));
 
-export const bookingsRelations = relations(bookings, ({ one }) => ({
+export const trafficChargesRelations = relations(trafficCharges, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [trafficCharges.vehicleId],
+    references: [vehicles.id]
+  }),
+  trip: one(trips, {
+    fields: [trafficCharges.tripId],
+    references: [trips.id]
+  }),
+  booking: one(bookings, {
+    fields: [trafficCharges.bookingId],
+    references: [bookings.id]
+  }),
+  driver: one(users, {
+    fields: [trafficCharges.driverId],
+    references: [users.id]
+  })
+}));
+
+export const mileageStatementsRelations = relations(mileageStatements, ({ one }) => ({
+  driver: one(users, {
+    fields: [mileageStatements.driverId],
+    references: [users.id]
+  }),
+  decidedBy: one(users, {
+    fields: [mileageStatements.decidedById],
+    references: [users.id]
+  })
+}));
+
+export const tripRoutesRelations = relations(tripRoutes, ({ one }) => ({
+  trip: one(trips, {
+    fields: [tripRoutes.tripId],
+    references: [trips.id]
+  }),
+  uploadedBy: one(users, {
+    fields: [tripRoutes.uploadedById],
+    references: [users.id]
+  })
+}));
+
+export const bookingsRelations = relations(bookings, ({ one, many }) => ({
   vehicle: one(vehicles, {
     fields: [bookings.vehicleId],
     references: [vehicles.id]
@@ -190,6 +1233,74 @@ export const bookingsRelations = relations(bookings, ({ one }) => ({
   user: one(users, {
     fields: [bookings.userId],
     references: [users.id]
+  }),
+  decidedBy: one(users, {
+    fields: [bookings.decidedById],
+    references: [users.id]
+  }),
+  decisions: many(bookingDecisions),
+  series: one(bookingSeries, {
+    fields: [bookings.seriesId],
+    references: [bookingSeries.id]
+  })
+}));
+
+export const bookingSeriesRelations = relations(bookingSeries, ({ one, many }) => ({
+  user: one(users, {
+    fields: [bookingSeries.userId],
+    references: [users.id]
+  }),
+  bookings: many(bookings)
+}));
+
+export const bookingDecisionsRelations = relations(bookingDecisions, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [bookingDecisions.bookingId],
+    references: [bookings.id]
+  }),
+  decidedBy: one(users, {
+    fields: [bookingDecisions.decidedById],
+    references: [users.id]
+  })
+}));
+
+export const waitlistEntriesRelations = relations(waitlistEntries, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [waitlistEntries.vehicleId],
+    references: [vehicles.id]
+  }),
+  user: one(users, {
+    fields: [waitlistEntries.userId],
+    references: [users.id]
+  }),
+  booking: one(bookings, {
+    fields: [waitlistEntries.bookingId],
+    references: [bookings.id]
+  })
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id]
+  })
+}));
+
+export const bookingPoliciesRelations = relations(bookingPolicies, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [bookingPolicies.vehicleId],
+    references: [vehicles.id]
+  })
+}));
+
+export const bookingBlackoutsRelations = relations(bookingBlackouts, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [bookingBlackouts.vehicleId],
+    references: [vehicles.id]
+  }),
+  createdBy: one(users, {
+    fields: [bookingBlackouts.createdById],
+    references: [users.id]
   })
 }));
 
@@ -212,3 +1323,220 @@ export type BookingWithRelations = Booking & {
   vehicle?: Vehicle;
   user?: User;
 };
+
+// Why a vehicle cannot be booked for a requested time window
+export type VehicleBlockReason =
+  | { type: "booking"; bookingId: number; startTime: Date; endTime: Date }
+  | { type: "trip"; tripId: number; startTime: Date; endTime: Date | null }
+  | { type: "maintenance"; maintenanceId: number; date: string; description: string }
+  | { type: "out_of_service" };
+
+export type VehicleAvailability = {
+  vehicle: Vehicle;
+  available: boolean;
+  blockedBy: VehicleBlockReason[];
+};
+
+// A booking policy rule the requested booking breaks, returned with 422 responses
+export type BookingPolicyViolation = {
+  rule: BookingPolicyRule;
+  scope: "global" | "vehicle";
+  message: string;
+};
+
+// One position of an uploaded GPS track; time is an ISO string when the file has one
+export type TrackPoint = {
+  lat: number;
+  lon: number;
+  time: string | null;
+};
+
+// How the GPS distance of a trip compares with its odometer readings
+export type OdometerCheck = {
+  // Null until the trip has an ending odometer
+  odometerMiles: number | null;
+  differenceMiles: number | null;
+  withinTolerance: boolean | null;
+};
+
+export type TripRouteWithCheck = TripRoute & {
+  odometerCheck: OdometerCheck;
+};
+
+// Fuel used between two full-tank fills, including any partial fills in between
+export type FuelEfficiencySegment = {
+  fromFuelLogId: number;
+  toFuelLogId: number;
+  miles: number;
+  litres: number;
+  litresPer100Km: number;
+  mpg: number;
+  // Set when the stretch used far more fuel than the vehicle usually does
+  abnormalReason: string | null;
+};
+
+export type FuelEfficiencySummary = {
+  vehicleId: number;
+  fills: number;
+  totalLitres: number;
+  totalCost: number;
+  // Averages over full-to-full stretches; null until the vehicle has two full fills
+  litresPer100Km: number | null;
+  mpg: number | null;
+  // The vehicle's usual consumption (median stretch) that abnormal stretches are compared to
+  typicalLitresPer100Km: number | null;
+  segments: FuelEfficiencySegment[];
+};
+
+// A graded checklist item. Failed items open a maintenance record.
+export type InspectionResult = InspectionItem & {
+  passed: boolean;
+  note: string | null;
+  photo: string | null;
+  maintenanceId: number | null;
+};
+
+// One trip on a mileage statement, priced at the rate for its usage when the statement was built
+export type MileageStatementLine = {
+  tripId: number;
+  vehicleId: number;
+  startTime: string;
+  purpose: string | null;
+  usage: TripUsage;
+  km: number;
+  treatment: MileageRateTreatment;
+  ratePerKm: number;
+  amount: number;
+};
+
+// A statement worked out from the driver's trips, before it is submitted
+export type MileageStatementPreview = Pick<MileageStatement, "driverId" | "month" | "lines" | "totalKm" | "reimbursementTotal" | "benefitTotal">;
+
+// One cost against a vehicle, from whichever record it was booked on
+export type VehicleCostEntry = {
+  source: "maintenance" | "fuel" | "incident";
+  sourceId: number;
+  date: string;
+  description: string;
+  amount: number;
+  // Incidents that only have an estimate so far
+  estimated: boolean;
+};
+
+// Completed maintenance spend for one vehicle in one month ("2026-03"). Records entered with a
+// single cost and no work order lines cannot be split and count as unitemised.
+export type MaintenanceCostRow = {
+  vehicleId: number;
+  month: string;
+  parts: number;
+  labour: number;
+  tax: number;
+  unitemised: number;
+  total: number;
+};
+
+// How a vendor has performed on the work sent to them. Turnaround runs from the booked date
+// to completion; the rework rate is the share of completed jobs that later had to be redone.
+export type VendorPerformance = {
+  vendorId: number;
+  totalSpend: number;
+  completedCount: number;
+  averageTurnaroundDays: number | null;
+  reworkCount: number;
+  reworkRate: number | null;
+  openWorkOrders: Maintenance[];
+};
+
+// A driver's trips and incidents summed up, shown on their profile and to moderators
+export type DrivingRecord = {
+  driverId: number;
+  tripCount: number;
+  distanceMiles: number;
+  incidentCount: number;
+  openIncidentCount: number;
+  atFaultCount: number;
+  incidentCost: number;
+  incidents: Incident[];
+};
+
+// Where matching placed a charge; applied to the charge as a whole
+export type TrafficChargeMatch = Pick<TrafficCharge, "vehicleId" | "status" | "matchedBy" | "tripId" | "bookingId" | "driverId" | "matchNote">;
+
+// The outcome of a CSV import; rows are numbered as in the file, header included
+export type TrafficChargeImportResult = {
+  created: TrafficCharge[];
+  duplicates: number;
+  errors: { line: number; message: string }[];
+};
+
+// A driver's matched fines and tolls summed up for the charges report
+export type DriverChargesSummary = {
+  driverId: number;
+  fineCount: number;
+  fineTotal: number;
+  tollCount: number;
+  tollTotal: number;
+  total: number;
+};
+
+// One page of the trip history search, with the number of trips matching overall
+export type TripPage = {
+  trips: Trip[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// Where a vehicle stands on one of its maintenance plans. Each "due" value is null when the
+// plan has no interval of that kind, or the vehicle has no reading to count it from.
+export type MaintenanceDue = {
+  planId: number;
+  planName: string;
+  vehicleId: number;
+  lastCompletedId: number | null;
+  lastCompletedDate: string | null;
+  dueDate: string | null;
+  dueMileage: number | null;
+  dueEngineHours: number | null;
+  status: "ok" | "due_soon" | "overdue";
+  // The pending record generated for the coming service, if there is one
+  pendingMaintenanceId: number | null;
+};
+
+// Bookings, trips and maintenance that fall inside a calendar window
+export type VehicleSchedule = {
+  bookings: Booking[];
+  trips: Trip[];
+  maintenance: Maintenance[];
+};
+
+// A vehicle's downtime over a reporting period. Downtime is the time spent in maintenance or out
+// of service; a failure is going down for anything other than scheduled maintenance. Availability
+// and MTBF are null when there is nothing to base them on.
+export type VehicleDowntime = {
+  vehicleId: number;
+  // Hours the vehicle was part of the fleet during the period
+  trackedHours: number;
+  downtimeHours: number;
+  // Share of the tracked hours the vehicle was not down, between 0 and 1
+  availability: number | null;
+  failures: number;
+  // Mean time between failures, in hours of uptime
+  mtbfHours: number | null;
+};
+
+export type FleetDowntimeReport = {
+  from: string;
+  to: string;
+  vehicles: VehicleDowntime[];
+  fleet: Omit<VehicleDowntime, "vehicleId">;
+};
+
+// How many vehicles were in each status at one point of the fleet status chart
+export type FleetStatusPoint = {
+  at: string;
+  available: number;
+  maintenance: number;
+  inUse: number;
+  outOfService: number;
+};
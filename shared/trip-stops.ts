@@ -0,0 +1,53 @@
+import type { Trip, TripStop } from "./schema";
+
+// When the trip ended, or while it is still under way, when the last stop was reached
+export function tripEndTime(trip: Pick<Trip, "endTime" | "stops">): Date | null {
+  if (trip.endTime) return new Date(trip.endTime);
+
+  const reached = trip.stops.filter(stop => stop.actualArrival);
+  const last = reached[reached.length - 1];
+  return last?.actualArrival ? new Date(last.actualArrival) : null;
+}
+
+// Minutes from setting off to the end of the trip (or the latest stop), when known
+export function tripDurationMinutes(trip: Pick<Trip, "startTime" | "endTime" | "stops">): number | null {
+  const end = tripEndTime(trip);
+  if (!end) return null;
+  return Math.max(0, Math.round((end.getTime() - new Date(trip.startTime).getTime()) / 60000));
+}
+
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+// Stops are reached in the order they are listed, after the trip starts and before it ends
+export function checkTripStops(stops: TripStop[], startTime: Date | string, endTime?: Date | string | null): string | null {
+  const start = new Date(startTime).getTime();
+  const end = endTime ? new Date(endTime).getTime() : null;
+  let previous = start;
+
+  for (let index = 0; index < stops.length; index++) {
+    const stop = stops[index];
+    if (!stop.actualArrival) continue;
+
+    const arrival = new Date(stop.actualArrival).getTime();
+    if (isNaN(arrival)) {
+      return `Stop ${index + 1} has an invalid arrival time`;
+    }
+    if (arrival < start) {
+      return `Stop ${index + 1} cannot be reached before the trip starts`;
+    }
+    if (end !== null && arrival > end) {
+      return `Stop ${index + 1} cannot be reached after the trip ends`;
+    }
+    if (arrival < previous) {
+      return `Stop ${index + 1} is reached before the stop listed ahead of it`;
+    }
+    previous = arrival;
+  }
+
+  return null;
+}
@@ -0,0 +1,33 @@
+import type { Maintenance, WorkOrderLine } from "./schema";
+
+export type WorkOrderTotals = {
+  parts: number;
+  labour: number;
+  tax: number;
+  total: number;
+};
+
+// Amounts are kept to whole cents so the lines always add up to the total shown
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export function workOrderLineTotals(line: WorkOrderLine): WorkOrderTotals {
+  const parts = toCents(line.quantity * line.unitCost);
+  const labour = toCents(line.labourHours * line.labourRate);
+  const tax = toCents((parts + labour) * line.taxRate / 100);
+  return { parts, labour, tax, total: toCents(parts + labour + tax) };
+}
+
+export function workOrderTotals(lines: WorkOrderLine[]): WorkOrderTotals {
+  return lines.map(workOrderLineTotals).reduce((sum, line) => ({
+    parts: toCents(sum.parts + line.parts),
+    labour: toCents(sum.labour + line.labour),
+    tax: toCents(sum.tax + line.tax),
+    total: toCents(sum.total + line.total),
+  }), { parts: 0, labour: 0, tax: 0, total: 0 });
+}
+
+// A record with work order lines costs what its lines add up to; one without keeps the
+// single cost it was entered with
+export function maintenanceCost(record: Pick<Maintenance, "cost" | "lines">): number | null {
+  return record.lines.length > 0 ? workOrderTotals(record.lines).total : record.cost;
+}